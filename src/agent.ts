@@ -15,6 +15,11 @@ import {
   executeTokenSwapMetadata,
   getSafeInfo,
   getSafeInfoMetadata,
+  listTokenAllowances,
+  listTokenAllowancesMetadata,
+  revokeTokenAllowances,
+  revokeTokenAllowancesMetadata,
+  setTradeExecutionService,
 } from "./tools/safe";
 
 import {
@@ -153,6 +158,8 @@ class AITradingAgent {
       tool(deploySafeForTrading, deploySafeForTradingMetadata),
       tool(executeTokenSwap, executeTokenSwapMetadata),
       tool(getSafeInfo, getSafeInfoMetadata),
+      tool(listTokenAllowances, listTokenAllowancesMetadata),
+      tool(revokeTokenAllowances, revokeTokenAllowancesMetadata),
 
       // Market Analysis Tools
       tool(getTokenPrice, getTokenPriceMetadata),
@@ -212,6 +219,9 @@ class AITradingAgent {
 
     // Set the orchestrator reference for the agentic tools
     setAgenticOrchestrator(this.agenticOrchestrator);
+    setTradeExecutionService(
+      this.agenticOrchestrator.getTradeExecutionService()
+    );
 
     // Set up event handlers for agentic trading
     this.agenticOrchestrator.on("started", () => {
@@ -0,0 +1,129 @@
+/**
+ * Backtest a signal stream against stored candles
+ *
+ * Usage: npm run backtest -- <signals.json> [--import-candles] [--out results.json]
+ *
+ * The signals file is a JSON array (or one JSON object per line) of ApiSignal
+ * records with a timestamp or createdAt. --import-candles first pulls recent
+ * candles for every token from the price oracle into the candle store.
+ */
+
+import fs from "fs";
+import dotenv from "dotenv";
+import DatabaseService from "./services/DatabaseService";
+import BacktestService, {
+  BacktestResult,
+  HistoricalSignal,
+} from "./services/BacktestService";
+import PriceOracleService from "./services/PriceOracleService";
+import { logger } from "./config/logger";
+
+dotenv.config();
+
+function readSignals(path: string): HistoricalSignal[] {
+  const content = fs.readFileSync(path, "utf8").trim();
+  if (content.startsWith("[")) {
+    return JSON.parse(content);
+  }
+  return content
+    .split("\n")
+    .filter((line) => line.trim())
+    .map((line) => JSON.parse(line));
+}
+
+function printResult(result: BacktestResult): void {
+  const { summary } = result;
+  const usd = (value: number) => `$${value.toFixed(2)}`;
+
+  console.log("\n🧪 Backtest Results\n");
+  for (const trade of result.trades) {
+    if (trade.status === "skipped") {
+      console.log(
+        `#${trade.signalIndex} ${trade.tokenSymbol} ${trade.signalMessage}: skipped (${trade.skipReason})`
+      );
+      continue;
+    }
+    console.log(
+      `#${trade.signalIndex} ${trade.tokenSymbol} ${trade.signalMessage} @ ${trade.entryFillPrice!.toPrecision(6)} → ${trade.exitLegs.map((leg) => `${leg.exitType} ${leg.exitPercentage}% @ ${leg.fillPrice.toPrecision(6)}`).join(", ")} | ${usd(trade.pnlUsd)} (${trade.returnPercent.toFixed(2)}%)`
+    );
+  }
+
+  console.log(`\n📊 Summary`);
+  console.log(
+    `Trades: ${summary.trades} (${summary.skipped} skipped) | Wins: ${summary.wins} | Losses: ${summary.losses}`
+  );
+  console.log(`Win rate: ${summary.winRate.toFixed(1)}%`);
+  console.log(
+    `Expectancy: ${usd(summary.expectancyUsd)} (${summary.expectancyPercent.toFixed(2)}%) per trade`
+  );
+  console.log(
+    `Average win: ${usd(summary.averageWinUsd)} | Average loss: ${usd(summary.averageLossUsd)}`
+  );
+  console.log(
+    `P&L: ${usd(summary.totalPnlUsd)} (${summary.returnPercent.toFixed(2)}%) after ${usd(summary.totalGasUsd)} gas and ${usd(summary.totalSlippageUsd)} slippage`
+  );
+  console.log(
+    `Equity: ${usd(summary.startingEquityUsd)} → ${usd(summary.endingEquityUsd)}`
+  );
+  console.log(
+    `Max drawdown: ${usd(summary.maxDrawdownUsd)} (${summary.maxDrawdownPercent.toFixed(2)}%)`
+  );
+  console.log(
+    `Sharpe: ${summary.sharpeRatio === null ? "n/a" : summary.sharpeRatio.toFixed(2)}`
+  );
+}
+
+async function runBacktest() {
+  const args = process.argv.slice(2);
+  const signalsPath = args.find((arg) => !arg.startsWith("--"));
+  const outIndex = args.indexOf("--out");
+  const outPath = outIndex >= 0 ? args[outIndex + 1] : undefined;
+
+  if (!signalsPath) {
+    console.error(
+      "Usage: npm run backtest -- <signals.json> [--import-candles] [--out results.json]"
+    );
+    process.exit(1);
+  }
+
+  const mongoUri =
+    process.env["MONGODB_URI"] || "mongodb://localhost:27017/ai-trading-agent";
+  const databaseService = new DatabaseService({
+    signalFlowUri: mongoUri,
+    signalFlowDb: "ai-trading-agent",
+    signalFlowCollection: "trading-signals",
+    safeDeploymentUri: process.env["SAFE_DEPLOYMENT_URI"] || mongoUri,
+    safeDeploymentDb:
+      process.env["SAFE_DEPLOYMENT_DB"] || "safe-deployment-serive",
+    safeCollection: process.env["SAFE_COLLECTION"] || "safes",
+  });
+
+  try {
+    const signals = readSignals(signalsPath);
+    await databaseService.connect();
+
+    const backtestService = new BacktestService(databaseService);
+    if (args.includes("--import-candles")) {
+      await backtestService.importCandles(signals, new PriceOracleService());
+    }
+
+    const result = await backtestService.run(signals);
+    printResult(result);
+
+    if (outPath) {
+      fs.writeFileSync(outPath, JSON.stringify(result, null, 2));
+      logger.info(`💾 Backtest results written to ${outPath}`);
+    }
+
+    await databaseService.disconnect();
+    process.exit(0);
+  } catch (error) {
+    logger.error("❌ Backtest failed:", error);
+    await databaseService.disconnect();
+    process.exit(1);
+  }
+}
+
+if (require.main === module) {
+  runBacktest();
+}
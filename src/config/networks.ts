@@ -66,3 +66,7 @@ export const getGasSettings = (networkKey: string) => {
     }
   );
 };
+
+// PAPER simulates fills against virtual Safe balances instead of trading on-chain
+export const isPaperTrading = (): boolean =>
+  (process.env["EXECUTION_MODE"] || "LIVE").toUpperCase() === "PAPER";
@@ -12,6 +12,109 @@ export const NATIVE_MATIC_ADDRESS =
 // Zero address (used for null/empty references)
 export const ZERO_ADDRESS = "0x0000000000000000000000000000000000000000";
 
+// Uniswap Permit2 (same address on every supported network)
+export const PERMIT2_ADDRESS = "0x000000000022D473030F116dDEE9F6B43aC78BA3";
+
+// Multicall3 (same address on every supported network), batches view calls
+// such as balanceOf into one eth_call
+export const MULTICALL3_ADDRESS = "0xcA11bde05977b3631167028862bE2a173976CA11";
+
+// Aggregator spenders checked for outstanding Safe allowances even when no
+// approval was recorded (same address on every supported network)
+export const KNOWN_SPENDERS: Record<string, string> = {
+  Permit2: PERMIT2_ADDRESS,
+  "0x AllowanceHolder": "0x0000000000001fF3684f28c67538d4D072C22734",
+  "1inch Router v6": "0x111111125421cA6dc452d289314280a0f8842A65",
+  "KyberSwap Router": "0x6131B5fae19EA4f9D964eAc0408E4408b66337b5",
+};
+
+// Uniswap V3 factory per network, used to locate pools for TWAP pricing
+export const UNISWAP_V3_FACTORIES: Record<string, string> = {
+  ethereum: "0x1F98431c8aD98523631AE4a59f267346ea31F984",
+  arbitrum: "0x1F98431c8aD98523631AE4a59f267346ea31F984",
+  polygon: "0x1F98431c8aD98523631AE4a59f267346ea31F984",
+  optimism: "0x1F98431c8aD98523631AE4a59f267346ea31F984",
+  base: "0x33128a8fC17869897dcE68Ed026d694621f6FDfD",
+};
+
+// Chainlink USD price feeds per network and symbol. heartbeatSeconds is the
+// longest the feed may go without an update before it counts as stale
+export const CHAINLINK_USD_FEEDS: Record<
+  string,
+  Record<string, { address: string; heartbeatSeconds: number }>
+> = {
+  ethereum: {
+    ETH: {
+      address: "0x5f4eC3Df9cbd43714FE2740F5E3616155c5b8419",
+      heartbeatSeconds: 3600,
+    },
+    USDC: {
+      address: "0x8fFfFfd4AfB6115b954Bd326cbe7B4BA576818f6",
+      heartbeatSeconds: 86400,
+    },
+    USDT: {
+      address: "0x3E7d1eAB13ad0104d2750B8863b489D65364e32D",
+      heartbeatSeconds: 86400,
+    },
+  },
+  arbitrum: {
+    ETH: {
+      address: "0x639Fe6ab55C921f74e7fac1ee960C0B6293ba612",
+      heartbeatSeconds: 86400,
+    },
+    USDC: {
+      address: "0x50834F3163758fcC1Df9973b6e91f0F0F0434aD3",
+      heartbeatSeconds: 86400,
+    },
+    USDT: {
+      address: "0x3f3f5dF88dC9F13eac63DF89EC16ef6e7E25DdE7",
+      heartbeatSeconds: 86400,
+    },
+    ARB: {
+      address: "0xb2A824043730FE05F3DA2efaFa1CBbe83fa548D6",
+      heartbeatSeconds: 86400,
+    },
+  },
+  polygon: {
+    ETH: {
+      address: "0xF9680D99D6C9589e2a93a78A04A279e509205945",
+      heartbeatSeconds: 3600,
+    },
+    MATIC: {
+      address: "0xAB594600376Ec9fD91F8e885dADF0CE036862dE0",
+      heartbeatSeconds: 3600,
+    },
+    USDC: {
+      address: "0xfE4A8cc5b5B2366C1B58Bea3858e81843581b2F7",
+      heartbeatSeconds: 86400,
+    },
+    USDT: {
+      address: "0x0A6513e40db6EB1b165753AD52E80663aeA50545",
+      heartbeatSeconds: 86400,
+    },
+  },
+  base: {
+    ETH: {
+      address: "0x71041dddad3595F9CEd3DcCFBe3D1F4b0a16Bb70",
+      heartbeatSeconds: 1200,
+    },
+    USDC: {
+      address: "0x7e860098F58bBFC8648a4311b374B1D669a2bc6B",
+      heartbeatSeconds: 86400,
+    },
+  },
+  optimism: {
+    ETH: {
+      address: "0x13e3Ee699D1909E989722E753853AE30b17e08c5",
+      heartbeatSeconds: 1200,
+    },
+    USDC: {
+      address: "0x16a9FA2FDa030272Ce99B29CF780dFA30361E0f3",
+      heartbeatSeconds: 86400,
+    },
+  },
+};
+
 /**
  * Check if an address represents a native token across different networks
  */
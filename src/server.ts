@@ -17,9 +17,36 @@ import ApiSignalProcessor from "./services/ApiSignalProcessor";
 import DatabaseService from "./services/DatabaseService";
 import TradeStateManager from "./services/TradeStateManager";
 import TradeExecutionService from "./services/TradeExecutionService";
+import FlexibleDEXRouter from "./services/FlexibleDEXRouter";
 import PriceMonitoringService from "./services/PriceMonitoringService";
 import TradeMonitoringService from "./services/TradeMonitoringService";
+import AuthService, {
+  AUTH_SCOPES,
+  AuthPrincipal,
+  getPrincipal,
+} from "./services/AuthService";
+import { SIGNATURE_HEADERS } from "./services/SignalWebhookService";
+import {
+  SIGNAL_FORMAT_EXAMPLES,
+  SUPPORTED_SIGNAL_VERSIONS,
+  parseBroadcastSignal,
+  parseSignal,
+} from "./services/SignalFormats";
 import { ApiSignal } from "./services/ApiSignalProcessor";
+import SignalQueueService from "./services/SignalQueueService";
+import KillSwitchService, {
+  KILL_SWITCH_SCOPES,
+  KillSwitchScope,
+  KillSwitchSource,
+} from "./services/KillSwitchService";
+import { TradingProfileSettings } from "./services/TradingProfileService";
+import PortfolioService from "./services/PortfolioService";
+import RebalancingService from "./services/RebalancingService";
+import { EntryReservation } from "./services/RiskEngineService";
+import PnlLedgerService from "./services/PnlLedgerService";
+import { setPortfolioService, setRebalancingService } from "./tools/portfolio";
+import PaperTradeExecutionService from "./services/PaperTradeExecutionService";
+import { isPaperTrading } from "./config/networks";
 
 // Load environment variables
 dotenv.config();
@@ -47,9 +74,17 @@ class AITradingServer {
   private mongoDB!: Db;
   private tradingAgent!: AITradingAgent;
   private apiSignalProcessor!: ApiSignalProcessor;
+  private signalQueue: SignalQueueService | null = null;
+  private killSwitchService!: KillSwitchService;
   private dbService!: DatabaseService;
   private tradeMonitoringService!: TradeMonitoringService;
+  private tradeStateManager!: TradeStateManager;
+  private tradeExecutionService!: TradeExecutionService;
+  private portfolioService!: PortfolioService;
+  private rebalancingService!: RebalancingService;
+  private pnlLedgerService!: PnlLedgerService;
   private tradingOrchestrator: any; // Will hold AgenticTradingOrchestrator instance
+  private authService: AuthService;
   private config: ServerConfig;
   private dbConfig: DatabaseConfig;
   private isShuttingDown: boolean = false;
@@ -79,6 +114,10 @@ class AITradingServer {
       redisEnabled: process.env["REDIS_ENABLED"] !== "false",
     };
 
+    // Database-backed checks (API keys, Safe ownership) attach once the
+    // database service exists in initializeApiSignalProcessor
+    this.authService = new AuthService();
+
     this.initializeMiddleware();
     this.initializeRoutes();
     this.initializeDatabases();
@@ -114,10 +153,22 @@ class AITradingServer {
     });
     this.app.use("/api/", limiter);
 
-    // Body parsing middleware
-    this.app.use(express.json({ limit: "10mb" }));
+    // Body parsing middleware. The raw JSON body is kept for verifying signed
+    // signal webhooks.
+    this.app.use(
+      express.json({
+        limit: "10mb",
+        verify: (req, res, buf) => {
+          (req as any).rawBody = buf;
+        },
+      })
+    );
     this.app.use(express.urlencoded({ extended: true, limit: "10mb" }));
 
+    // Everything under /api requires a JWT, API key or signed webhook;
+    // /health stays public
+    this.app.use("/api/", this.authService.authenticate());
+
     // Compression
     this.app.use(compression());
 
@@ -128,6 +179,16 @@ class AITradingServer {
   }
 
   private initializeRoutes(): void {
+    // Scope gates; Safe ownership is checked per route against the caller
+    const readOnly = this.authService.requireScope("read-only");
+    const signalIngest = this.authService.requireScope("signal-ingest");
+    const signedSignal = this.authService.requireSignedSignal();
+    const tradeControl = this.authService.requireScope("trade-control");
+    const adminOnly = this.authService.requireScope("admin");
+    const ownsSafeParam = this.authService.requireSafeOwnership(
+      (req) => req.params["safeAddress"]
+    );
+
     // Health check endpoint
     this.app.get("/health", (req, res) => {
       res.json({
@@ -150,7 +211,7 @@ class AITradingServer {
     });
 
     // Agent control endpoints
-    this.app.post("/api/agent/analyze", async (req, res) => {
+    this.app.post("/api/agent/analyze", adminOnly, async (req, res) => {
       try {
         const { userId, prompt } = req.body;
 
@@ -181,7 +242,7 @@ class AITradingServer {
       }
     });
 
-    this.app.post("/api/agent/trade", async (req, res) => {
+    this.app.post("/api/agent/trade", adminOnly, async (req, res) => {
       try {
         const { instruction } = req.body;
 
@@ -210,29 +271,40 @@ class AITradingServer {
       }
     });
 
-    this.app.post("/api/agent/portfolio/:userId", async (req, res) => {
-      try {
-        const { userId } = req.params;
+    this.app.post(
+      "/api/agent/portfolio/:userId",
+      readOnly,
+      async (req, res) => {
+        try {
+          const { userId } = req.params;
 
-        const portfolio = await this.tradingAgent.analyzePortfolio(userId);
+          if (!this.authService.canActAsUser(getPrincipal(res)!, userId)) {
+            return res.status(403).json({
+              error: "Forbidden",
+              message: "Cannot analyze another user's portfolio",
+            });
+          }
 
-        res.json({
-          success: true,
-          portfolio,
-          userId,
-          timestamp: new Date().toISOString(),
-        });
-      } catch (error) {
-        console.error("Portfolio analysis error:", error);
-        res.status(500).json({
-          error: "Failed to analyze portfolio",
-          message: error instanceof Error ? error.message : "Unknown error",
-        });
+          const portfolio = await this.tradingAgent.analyzePortfolio(userId);
+
+          res.json({
+            success: true,
+            portfolio,
+            userId,
+            timestamp: new Date().toISOString(),
+          });
+        } catch (error) {
+          console.error("Portfolio analysis error:", error);
+          res.status(500).json({
+            error: "Failed to analyze portfolio",
+            message: error instanceof Error ? error.message : "Unknown error",
+          });
+        }
       }
-    });
+    );
 
     // Agentic Trading Endpoints - AI makes intelligent decisions
-    this.app.post("/api/agentic/start", async (req, res) => {
+    this.app.post("/api/agentic/start", adminOnly, async (req, res) => {
       try {
         const { enabled = true, debug = false } = req.body;
 
@@ -264,7 +336,7 @@ class AITradingServer {
       }
     });
 
-    this.app.post("/api/agentic/stop", async (req, res) => {
+    this.app.post("/api/agentic/stop", adminOnly, async (req, res) => {
       try {
         const result = await this.tradingAgent.executeDecision(
           "Stop agentic trading system. This will pause AI decision-making and signal analysis."
@@ -292,7 +364,7 @@ class AITradingServer {
       }
     });
 
-    this.app.get("/api/agentic/status", async (req, res) => {
+    this.app.get("/api/agentic/status", adminOnly, async (req, res) => {
       try {
         const result = await this.tradingAgent.executeDecision(
           "Get agentic trading system status including pending signals, active trades, and AI decision-making status"
@@ -312,63 +384,72 @@ class AITradingServer {
       }
     });
 
-    this.app.get("/api/agentic/pending-signals", async (req, res) => {
-      try {
-        const result = await this.tradingAgent.executeDecision(
-          "Get all pending signals waiting for AI analysis and decision-making. Use the getPendingSignals tool."
-        );
+    this.app.get(
+      "/api/agentic/pending-signals",
+      adminOnly,
+      async (req, res) => {
+        try {
+          const result = await this.tradingAgent.executeDecision(
+            "Get all pending signals waiting for AI analysis and decision-making. Use the getPendingSignals tool."
+          );
 
-        res.json({
-          success: true,
-          pendingSignals: result,
-          timestamp: new Date().toISOString(),
-        });
-      } catch (error) {
-        console.error("Pending signals error:", error);
-        res.status(500).json({
-          error: "Failed to get pending signals",
-          message: error instanceof Error ? error.message : "Unknown error",
-        });
+          res.json({
+            success: true,
+            pendingSignals: result,
+            timestamp: new Date().toISOString(),
+          });
+        } catch (error) {
+          console.error("Pending signals error:", error);
+          res.status(500).json({
+            error: "Failed to get pending signals",
+            message: error instanceof Error ? error.message : "Unknown error",
+          });
+        }
       }
-    });
+    );
 
-    this.app.post("/api/agentic/trade/:tradeId/exit", async (req, res) => {
-      try {
-        const { tradeId } = req.params;
-        const { exitPercentage = 100, reason = "Manual API call" } = req.body;
+    this.app.post(
+      "/api/agentic/trade/:tradeId/exit",
+      adminOnly,
+      async (req, res) => {
+        try {
+          const { tradeId } = req.params;
+          const { exitPercentage = 100, reason = "Manual API call" } = req.body;
 
-        const result = await this.tradingAgent.executeDecision(
-          `Execute trade exit for trade ${tradeId} with ${exitPercentage}% exit and reason: ${reason}. Use AI analysis to determine optimal execution.`
-        );
+          const result = await this.tradingAgent.executeDecision(
+            `Execute trade exit for trade ${tradeId} with ${exitPercentage}% exit and reason: ${reason}. Use AI analysis to determine optimal execution.`
+          );
 
-        // Emit to connected clients
-        this.io.emit("trade-exited", {
-          tradeId,
-          exitPercentage,
-          reason,
-          result,
-          timestamp: new Date(),
-        });
+          // Emit to connected clients
+          this.io.emit("trade-exited", {
+            tradeId,
+            exitPercentage,
+            reason,
+            result,
+            timestamp: new Date(),
+          });
 
-        res.json({
-          success: true,
-          result,
-          tradeId,
-          exitPercentage,
-          reason,
-          timestamp: new Date().toISOString(),
-        });
-      } catch (error) {
-        console.error("AI trade exit error:", error);
-        res.status(500).json({
-          error: "Failed to execute AI-powered trade exit",
-          message: error instanceof Error ? error.message : "Unknown error",
-        });
+          res.json({
+            success: true,
+            result,
+            tradeId,
+            exitPercentage,
+            reason,
+            timestamp: new Date().toISOString(),
+          });
+        } catch (error) {
+          console.error("AI trade exit error:", error);
+          res.status(500).json({
+            error: "Failed to execute AI-powered trade exit",
+            message: error instanceof Error ? error.message : "Unknown error",
+          });
+        }
       }
-    });
+    );
 
     this.app.get(
       "/api/agentic/trading-context/:tokenSymbol",
+      adminOnly,
       async (req, res) => {
         try {
           const { tokenSymbol } = req.params;
@@ -394,212 +475,1394 @@ class AITradingServer {
     );
 
     // NEW: API Signal Processing Endpoint
-    this.app.post("/api/signal/process", async (req, res) => {
+    this.app.post(
+      "/api/signal/process",
+      signalIngest,
+      signedSignal,
+      async (req, res) => {
+        try {
+          console.log(
+            "🚀 ~ AITradingServer ~ initializeRoutes ~ signalData:",
+            req.body
+          );
+
+          // Validate against the negotiated format (X-Signal-Version header,
+          // body "version", or detected from the legacy v1 keys)
+          const parsed = parseSignal(req.body, req.header("x-signal-version"));
+          if (parsed.success === false) {
+            return res.status(400).json({
+              error: "Invalid signal",
+              version: parsed.version,
+              supportedVersions: SUPPORTED_SIGNAL_VERSIONS,
+              errors: parsed.errors,
+              expectedFormat: parsed.version
+                ? SIGNAL_FORMAT_EXAMPLES[parsed.version]
+                : SIGNAL_FORMAT_EXAMPLES,
+            });
+          }
+          const signalData: ApiSignal = parsed.signal;
+
+          // Signals may only trade Safes owned by the caller
+          const principal = getPrincipal(res)!;
+          if (!this.authService.canActAsUser(principal, signalData.username)) {
+            return res.status(403).json({
+              error: "Forbidden",
+              message: `Cannot submit signals for user ${signalData.username}`,
+            });
+          }
+          if (
+            !(await this.authService.canAccessSafe(
+              principal,
+              signalData.safeAddress
+            ))
+          ) {
+            return res.status(403).json({
+              error: "Forbidden",
+              message: `Safe ${signalData.safeAddress} is not owned by ${principal.username}`,
+            });
+          }
+
+          const killSwitch = this.killSwitchService.getBlockingSwitch({
+            username: signalData.username,
+            token: signalData["Token Mentioned"],
+            networkKey: signalData.networkKey,
+          });
+          if (killSwitch) {
+            return res.status(503).json({
+              error: "Trading halted",
+              message: `New entries halted by kill switch ${killSwitch.key}: ${killSwitch.reason}`,
+              killSwitch,
+            });
+          }
+
+          const risk = await this.apiSignalProcessor
+            .getRiskEngine()
+            .checkEntry(signalData.username);
+          if (!risk.allowed) {
+            return res.status(503).json({
+              error: "Risk limit reached",
+              message: risk.reason,
+              breaker: risk.breaker,
+            });
+          }
+
+          // With Redis available the signal is queued and the caller polls
+          // the job; without it the signal is still processed inline
+          if (this.signalQueue) {
+            const { jobId, duplicate } = await this.signalQueue.enqueue(
+              signalData,
+              {
+                idempotencyKey: req.header("idempotency-key"),
+                signalVersion: parsed.version,
+                submittedBy: principal.username,
+              }
+            );
+            const statusUrl = `/api/signal/jobs/${jobId}`;
+
+            res.setHeader("Location", statusUrl);
+            if (duplicate) {
+              res.setHeader("Idempotent-Replayed", "true");
+            }
+            return res.status(202).json({
+              success: true,
+              jobId,
+              status: "queued",
+              signalVersion: parsed.version,
+              duplicate,
+              statusUrl,
+              timestamp: new Date().toISOString(),
+            });
+          }
+
+          // Process the signal
+          const result = await this.apiSignalProcessor.processApiSignal(
+            signalData,
+            req.header("idempotency-key")
+          );
+
+          // Emit to connected clients; retries replay the original outcome
+          // and were already broadcast
+          if (result.duplicate) {
+            res.setHeader("Idempotent-Replayed", "true");
+          } else {
+            this.io.emit("signal-processed", {
+              signalId: result.signalId,
+              result,
+              timestamp: new Date(),
+            });
+          }
+
+          res.json({
+            success: true,
+            signalId: result.signalId,
+            status: result.status,
+            signalVersion: parsed.version,
+            duplicate: !!result.duplicate,
+            result,
+            timestamp: new Date().toISOString(),
+          });
+        } catch (error) {
+          console.error("Signal processing error:", error);
+          res.status(500).json({
+            error: "Failed to process signal",
+            message: error instanceof Error ? error.message : "Unknown error",
+          });
+        }
+      }
+    );
+
+    // Provider broadcast: one signal executed for every subscribed Safe
+    this.app.post(
+      "/api/signal/broadcast",
+      signalIngest,
+      signedSignal,
+      async (req, res) => {
+        try {
+          const parsed = parseBroadcastSignal(
+            req.body,
+            req.header("x-signal-version")
+          );
+          if (parsed.success === false) {
+            return res.status(400).json({
+              error: "Invalid signal",
+              version: parsed.version,
+              supportedVersions: SUPPORTED_SIGNAL_VERSIONS,
+              errors: parsed.errors,
+            });
+          }
+
+          // Signed webhooks identify their provider; otherwise the caller
+          // names one of their own providers
+          const principal = getPrincipal(res)!;
+          const providerId =
+            principal.method === "signed-webhook"
+              ? principal.providerId
+              : (req.query["providerId"] as string);
+          if (!providerId) {
+            return res.status(400).json({
+              error: "providerId query parameter is required",
+            });
+          }
+          if (principal.method !== "signed-webhook") {
+            const provider =
+              await this.dbService.getActiveSignalProvider(providerId);
+            if (
+              !provider ||
+              !this.authService.canActAsUser(principal, provider.username)
+            ) {
+              return res.status(404).json({
+                error: `Signal provider ${providerId} not found`,
+              });
+            }
+          }
+
+          // User-scoped switches are applied per subscriber when executing
+          const killSwitch = this.killSwitchService.getBlockingSwitch({
+            token: parsed.signal["Token Mentioned"],
+            networkKey: parsed.signal.networkKey,
+          });
+          if (killSwitch) {
+            return res.status(503).json({
+              error: "Trading halted",
+              message: `New entries halted by kill switch ${killSwitch.key}: ${killSwitch.reason}`,
+              killSwitch,
+            });
+          }
+
+          const idempotencyKey = req.header("idempotency-key");
+
+          if (this.signalQueue) {
+            const { subscribers, skipped } =
+              await this.apiSignalProcessor.getSubscriberSignals(
+                parsed.signal,
+                providerId,
+                idempotencyKey
+              );
+
+            const jobs = [];
+            for (const {
+              subscription,
+              signal,
+              idempotencyKey,
+            } of subscribers) {
+              const { jobId, duplicate } = await this.signalQueue.enqueue(
+                signal,
+                {
+                  idempotencyKey,
+                  signalVersion: parsed.version,
+                  submittedBy: principal.username,
+                }
+              );
+              jobs.push({
+                subscriptionId: subscription.subscriptionId,
+                username: subscription.username,
+                safeAddress: subscription.safeAddress,
+                jobId,
+                status: "queued",
+                duplicate,
+                statusUrl: `/api/signal/jobs/${jobId}`,
+              });
+            }
+
+            return res.status(202).json({
+              success: true,
+              providerId,
+              signalVersion: parsed.version,
+              totalSubscribers: subscribers.length,
+              jobs,
+              skipped,
+              timestamp: new Date().toISOString(),
+            });
+          }
+
+          const result = await this.apiSignalProcessor.processBroadcastSignal(
+            parsed.signal,
+            providerId,
+            idempotencyKey
+          );
+
+          for (const subscriberResult of result.results) {
+            if (!subscriberResult.duplicate) {
+              this.io.emit("signal-processed", {
+                signalId: subscriberResult.signalId,
+                result: subscriberResult,
+                timestamp: new Date(),
+              });
+            }
+          }
+
+          res.json({
+            success: true,
+            signalVersion: parsed.version,
+            ...result,
+            timestamp: new Date().toISOString(),
+          });
+        } catch (error) {
+          console.error("Signal broadcast error:", error);
+          res.status(500).json({
+            error: "Failed to broadcast signal",
+            message: error instanceof Error ? error.message : "Unknown error",
+          });
+        }
+      }
+    );
+
+    // Poll a queued signal
+    this.app.get("/api/signal/jobs/:jobId", readOnly, async (req, res) => {
       try {
-        const signalData: ApiSignal = req.body;
-        console.log(
-          "🚀 ~ AITradingServer ~ initializeRoutes ~ signalData:",
-          signalData
-        );
-        // Validate required fields
-        if (!signalData) {
-          return res.status(400).json({
-            error: "Signal data is required",
-            expectedFormat: {
-              "Signal Message": "buy or sell",
-              "Token Mentioned": "TOKEN_SYMBOL",
-              TP1: "number",
-              TP2: "number",
-              SL: "number",
-              "Current Price": "number",
-              "Max Exit Time": { $date: "ISO_DATE_STRING" },
-              username: "user_id",
-              safeAddress: "0x...",
-            },
-          });
-        }
-
-        // Process the signal
-        const result =
-          await this.apiSignalProcessor.processApiSignal(signalData);
-        // const result = {
-        //   signalId: "123",
-        //   status: "success",
-        //   result: {
-        //     signalId: "123",
-        //     status: "success",
-        //   },
-        // };
+        if (!this.signalQueue) {
+          return res.status(503).json({
+            error: "Signal queue unavailable",
+            message: "Signals are processed inline when Redis is disabled",
+          });
+        }
 
-        // Emit to connected clients
-        this.io.emit("signal-processed", {
-          signalId: result.signalId,
-          result,
-          timestamp: new Date(),
-        });
+        // Visible to the Safe's owner and to whoever submitted the signal
+        const principal = getPrincipal(res)!;
+        const job = await this.signalQueue.getJobStatus(req.params.jobId);
+        if (
+          !job ||
+          (!this.authService.canActAsUser(principal, job.username) &&
+            job.submittedBy !== principal.username)
+        ) {
+          return res.status(404).json({
+            error: `Signal job ${req.params.jobId} not found`,
+          });
+        }
 
         res.json({
           success: true,
-          signalId: result.signalId,
-          status: result.status,
-          result,
+          job,
           timestamp: new Date().toISOString(),
         });
       } catch (error) {
-        console.error("Signal processing error:", error);
+        console.error("Error getting signal job:", error);
         res.status(500).json({
-          error: "Failed to process signal",
+          error: "Failed to get signal job",
           message: error instanceof Error ? error.message : "Unknown error",
         });
       }
     });
 
-    // Get signal processor status
-    this.app.get("/api/signal/status", (req, res) => {
+    // Signals that exhausted their retries
+    this.app.get("/api/signal/dead-letter", adminOnly, async (req, res) => {
       try {
-        const status = this.apiSignalProcessor.getStatus();
+        const jobs = this.signalQueue
+          ? await this.signalQueue.getDeadLetters(
+              parseInt((req.query["limit"] as string) || "50")
+            )
+          : [];
+
         res.json({
           success: true,
-          status,
+          jobs,
+          count: jobs.length,
           timestamp: new Date().toISOString(),
         });
       } catch (error) {
-        console.error("Error getting signal processor status:", error);
+        console.error("Error listing dead-lettered signals:", error);
         res.status(500).json({
-          error: "Failed to get status",
+          error: "Failed to list dead-lettered signals",
           message: error instanceof Error ? error.message : "Unknown error",
         });
       }
     });
 
-    // 404 handler
-    this.app.use("*", (req, res) => {
-      res.status(404).json({
-        error: "Endpoint not found",
-        path: req.originalUrl,
-      });
-    });
+    this.app.post(
+      "/api/signal/dead-letter/:jobId/retry",
+      adminOnly,
+      async (req, res) => {
+        try {
+          const { jobId } = req.params;
+          const retried = await this.signalQueue?.retryDeadLetter(jobId);
 
-    // NEW: Trade Monitoring API Endpoints
-    this.app.get("/api/trades/monitoring/status", async (req, res) => {
+          if (!retried) {
+            return res.status(404).json({
+              error: `Dead-lettered signal job ${jobId} not found`,
+            });
+          }
+
+          res.status(202).json({
+            success: true,
+            jobId,
+            status: "queued",
+            statusUrl: `/api/signal/jobs/${jobId}`,
+            timestamp: new Date().toISOString(),
+          });
+        } catch (error) {
+          console.error("Error retrying dead-lettered signal:", error);
+          res.status(500).json({
+            error: "Failed to retry signal",
+            message: error instanceof Error ? error.message : "Unknown error",
+          });
+        }
+      }
+    );
+
+    // Signal provider registration - each provider gets a shared secret for
+    // signing webhooks that act on the registering user's Safes
+    this.app.post("/api/signal/providers", signalIngest, async (req, res) => {
       try {
-        if (!this.tradeMonitoringService) {
-          return res.status(503).json({
-            error: "Trade monitoring service not available",
+        const { name } = req.body;
+        const principal = getPrincipal(res)!;
+
+        if (!name) {
+          return res.status(400).json({ error: "Provider name is required" });
+        }
+        if (principal.method === "signed-webhook") {
+          return res.status(403).json({
+            error: "Forbidden",
+            message: "Providers cannot register other providers",
           });
         }
 
-        const status = this.tradeMonitoringService.getSystemStatus();
+        const webhooks = this.authService.getSignalWebhookService();
+        const provider = await webhooks.registerProvider(
+          principal.username,
+          name
+        );
 
-        res.json({
+        res.status(201).json({
           success: true,
-          monitoringStatus: status,
+          ...provider,
+          signing: {
+            headers: SIGNATURE_HEADERS,
+            payload: "<timestamp>.<nonce>.<raw body>",
+            algorithm: "HMAC-SHA256, hex encoded",
+            toleranceSeconds: webhooks.getToleranceSeconds(),
+          },
+          message: "Store this secret now, it cannot be retrieved again",
           timestamp: new Date().toISOString(),
         });
       } catch (error) {
-        console.error("Trade monitoring status error:", error);
+        console.error("Signal provider registration error:", error);
         res.status(500).json({
-          error: "Failed to get trade monitoring status",
+          error: "Failed to register signal provider",
           message: error instanceof Error ? error.message : "Unknown error",
         });
       }
     });
 
-    this.app.get("/api/trades/active", async (req, res) => {
+    this.app.get("/api/signal/providers", readOnly, async (req, res) => {
       try {
-        if (!this.tradeMonitoringService) {
-          return res.status(503).json({
-            error: "Trade monitoring service not available",
-          });
-        }
-
-        const activeTrades = this.tradeMonitoringService.getMonitoredTrades();
+        const providers = await this.authService
+          .getSignalWebhookService()
+          .listProviders(getPrincipal(res)!.username);
 
         res.json({
           success: true,
-          activeTrades,
-          count: activeTrades.length,
+          providers,
+          count: providers.length,
           timestamp: new Date().toISOString(),
         });
       } catch (error) {
-        console.error("Active trades error:", error);
+        console.error("Signal provider listing error:", error);
         res.status(500).json({
-          error: "Failed to get active trades",
+          error: "Failed to list signal providers",
           message: error instanceof Error ? error.message : "Unknown error",
         });
       }
     });
 
-    this.app.get("/api/trades/history", async (req, res) => {
+    this.app.delete(
+      "/api/signal/providers/:providerId",
+      signalIngest,
+      async (req, res) => {
+        try {
+          const { providerId } = req.params;
+
+          const revoked = await this.authService
+            .getSignalWebhookService()
+            .revokeProvider(getPrincipal(res)!.username, providerId);
+
+          if (!revoked) {
+            return res.status(404).json({
+              error: `Signal provider ${providerId} not found or already revoked`,
+              providerId,
+            });
+          }
+
+          res.json({
+            success: true,
+            providerId,
+            timestamp: new Date().toISOString(),
+          });
+        } catch (error) {
+          console.error("Signal provider revocation error:", error);
+          res.status(500).json({
+            error: "Failed to revoke signal provider",
+            message: error instanceof Error ? error.message : "Unknown error",
+          });
+        }
+      }
+    );
+
+    // Subscriptions to signal providers, each trading one of the caller's Safes
+    this.app.post("/api/subscriptions", tradeControl, async (req, res) => {
       try {
-        const { userId, limit = 50 } = req.query;
+        const { providerId, safeAddress, positionSizePercent, tokens, sides } =
+          req.body;
+        const principal = getPrincipal(res)!;
 
-        if (!this.dbService) {
-          return res.status(503).json({
-            error: "Database service not available",
+        if (!providerId || !safeAddress) {
+          return res.status(400).json({
+            error: "providerId and safeAddress are required",
+          });
+        }
+        if (!(await this.authService.canAccessSafe(principal, safeAddress))) {
+          return res.status(403).json({
+            error: "Forbidden",
+            message: `Safe ${safeAddress} is not owned by ${principal.username}`,
           });
         }
 
-        const trades = await this.dbService.getTradeHistory(
-          userId as string,
-          parseInt(limit as string)
-        );
+        const subscription = await this.apiSignalProcessor
+          .getSubscriptionService()
+          .subscribe(principal.username, providerId, safeAddress, {
+            positionSizePercent,
+            tokens,
+            sides,
+          });
 
-        res.json({
+        res.status(201).json({
           success: true,
-          trades,
-          count: trades.length,
+          subscription,
           timestamp: new Date().toISOString(),
         });
       } catch (error) {
-        console.error("Trade history error:", error);
-        res.status(500).json({
-          error: "Failed to get trade history",
+        console.error("Subscription creation error:", error);
+        res.status(400).json({
+          error: "Failed to create subscription",
           message: error instanceof Error ? error.message : "Unknown error",
         });
       }
     });
 
-    this.app.post("/api/trades/:tradeId/exit", async (req, res) => {
+    this.app.get("/api/subscriptions", readOnly, async (req, res) => {
       try {
-        const { tradeId } = req.params;
-        const { reason = "Manual API exit" } = req.body;
+        const subscriptions = await this.apiSignalProcessor
+          .getSubscriptionService()
+          .listSubscriptions(getPrincipal(res)!.username);
 
-        if (!this.tradeMonitoringService) {
-          return res.status(503).json({
-            error: "Trade monitoring service not available",
-          });
-        }
+        res.json({
+          success: true,
+          subscriptions,
+          count: subscriptions.length,
+          timestamp: new Date().toISOString(),
+        });
+      } catch (error) {
+        console.error("Subscription listing error:", error);
+        res.status(500).json({
+          error: "Failed to list subscriptions",
+          message: error instanceof Error ? error.message : "Unknown error",
+        });
+      }
+    });
 
-        const success = await this.tradeMonitoringService.manualExitTrade(
-          tradeId,
-          reason
-        );
+    this.app.patch(
+      "/api/subscriptions/:subscriptionId",
+      tradeControl,
+      async (req, res) => {
+        try {
+          const { subscriptionId } = req.params;
+          const { positionSizePercent, tokens, sides, status } = req.body;
+
+          const subscription = await this.apiSignalProcessor
+            .getSubscriptionService()
+            .updateSubscription(getPrincipal(res)!.username, subscriptionId, {
+              positionSizePercent,
+              tokens,
+              sides,
+              status,
+            });
+
+          if (!subscription) {
+            return res.status(404).json({
+              error: `Subscription ${subscriptionId} not found`,
+            });
+          }
 
-        if (success) {
           res.json({
             success: true,
-            message: `Trade ${tradeId} exit initiated`,
-            tradeId,
-            reason,
+            subscription,
             timestamp: new Date().toISOString(),
           });
-        } else {
-          res.status(404).json({
-            error: `Trade ${tradeId} not found or already exited`,
-            tradeId,
+        } catch (error) {
+          console.error("Subscription update error:", error);
+          res.status(400).json({
+            error: "Failed to update subscription",
+            message: error instanceof Error ? error.message : "Unknown error",
           });
         }
+      }
+    );
+
+    this.app.delete(
+      "/api/subscriptions/:subscriptionId",
+      tradeControl,
+      async (req, res) => {
+        try {
+          const { subscriptionId } = req.params;
+
+          const cancelled = await this.apiSignalProcessor
+            .getSubscriptionService()
+            .cancelSubscription(getPrincipal(res)!.username, subscriptionId);
+
+          if (!cancelled) {
+            return res.status(404).json({
+              error: `Subscription ${subscriptionId} not found or already cancelled`,
+            });
+          }
+
+          res.json({
+            success: true,
+            subscriptionId,
+            timestamp: new Date().toISOString(),
+          });
+        } catch (error) {
+          console.error("Subscription cancellation error:", error);
+          res.status(500).json({
+            error: "Failed to cancel subscription",
+            message: error instanceof Error ? error.message : "Unknown error",
+          });
+        }
+      }
+    );
+
+    // Live Safe holdings across all of a user's deployments
+    this.app.get("/api/portfolio/:userId", readOnly, async (req, res) => {
+      try {
+        const { userId } = req.params;
+        if (!this.authService.canActAsUser(getPrincipal(res)!, userId)) {
+          return res.status(403).json({
+            error: "Forbidden",
+            message: `Cannot view the portfolio of ${userId}`,
+          });
+        }
+
+        const portfolio = await this.portfolioService.getUserPortfolio(userId);
+        if (!portfolio) {
+          return res.status(404).json({
+            error: `No active Safe found for ${userId}`,
+          });
+        }
+
+        res.json({
+          success: true,
+          portfolio,
+          timestamp: new Date().toISOString(),
+        });
+      } catch (error) {
+        console.error("Error reading portfolio:", error);
+        res.status(500).json({
+          error: "Failed to read portfolio",
+          message: error instanceof Error ? error.message : "Unknown error",
+        });
+      }
+    });
+
+    // Realized P&L per exit leg and unrealized P&L of open positions
+    this.app.get("/api/pnl/:userId", readOnly, async (req, res) => {
+      try {
+        const { userId } = req.params;
+        if (!this.authService.canActAsUser(getPrincipal(res)!, userId)) {
+          return res.status(403).json({
+            error: "Forbidden",
+            message: `Cannot view the P&L of ${userId}`,
+          });
+        }
+
+        const since = req.query["since"]
+          ? new Date(req.query["since"] as string)
+          : undefined;
+        if (since && isNaN(since.getTime())) {
+          return res.status(400).json({
+            error: "since must be an ISO date",
+          });
+        }
+
+        const pnl = await this.pnlLedgerService.getSummary(userId, since);
+
+        res.json({
+          success: true,
+          pnl,
+          timestamp: new Date().toISOString(),
+        });
+      } catch (error) {
+        console.error("Error reading P&L:", error);
+        res.status(500).json({
+          error: "Failed to read P&L",
+          message: error instanceof Error ? error.message : "Unknown error",
+        });
+      }
+    });
+
+    // Trading profiles: per-user sizing, token filters, networks and limits
+    this.app.get("/api/profiles/:userId", readOnly, async (req, res) => {
+      try {
+        const { userId } = req.params;
+        if (!this.authService.canActAsUser(getPrincipal(res)!, userId)) {
+          return res.status(403).json({
+            error: "Forbidden",
+            message: `Cannot view the trading profile of ${userId}`,
+          });
+        }
+
+        const profile = await this.apiSignalProcessor
+          .getProfileService()
+          .getProfile(userId);
+        if (!profile) {
+          return res.status(404).json({
+            error: `No trading profile for ${userId}, platform defaults apply`,
+          });
+        }
+
+        res.json({
+          success: true,
+          profile,
+          timestamp: new Date().toISOString(),
+        });
+      } catch (error) {
+        console.error("Error getting trading profile:", error);
+        res.status(500).json({
+          error: "Failed to get trading profile",
+          message: error instanceof Error ? error.message : "Unknown error",
+        });
+      }
+    });
+
+    this.app.put("/api/profiles/:userId", tradeControl, async (req, res) => {
+      try {
+        const { userId } = req.params;
+        if (!this.authService.canActAsUser(getPrincipal(res)!, userId)) {
+          return res.status(403).json({
+            error: "Forbidden",
+            message: `Cannot change the trading profile of ${userId}`,
+          });
+        }
+
+        const profile = await this.apiSignalProcessor
+          .getProfileService()
+          .saveProfile(userId, this.getProfileSettings(req.body));
+
+        res.json({
+          success: true,
+          profile,
+          timestamp: new Date().toISOString(),
+        });
+      } catch (error) {
+        console.error("Error saving trading profile:", error);
+        res.status(400).json({
+          error: "Failed to save trading profile",
+          message: error instanceof Error ? error.message : "Unknown error",
+        });
+      }
+    });
+
+    this.app.patch("/api/profiles/:userId", tradeControl, async (req, res) => {
+      try {
+        const { userId } = req.params;
+        if (!this.authService.canActAsUser(getPrincipal(res)!, userId)) {
+          return res.status(403).json({
+            error: "Forbidden",
+            message: `Cannot change the trading profile of ${userId}`,
+          });
+        }
+
+        const profile = await this.apiSignalProcessor
+          .getProfileService()
+          .updateProfile(userId, this.getProfileSettings(req.body));
+        if (!profile) {
+          return res.status(404).json({
+            error: `No trading profile for ${userId}, create one with PUT first`,
+          });
+        }
+
+        res.json({
+          success: true,
+          profile,
+          timestamp: new Date().toISOString(),
+        });
+      } catch (error) {
+        console.error("Error updating trading profile:", error);
+        res.status(400).json({
+          error: "Failed to update trading profile",
+          message: error instanceof Error ? error.message : "Unknown error",
+        });
+      }
+    });
+
+    this.app.delete("/api/profiles/:userId", tradeControl, async (req, res) => {
+      try {
+        const { userId } = req.params;
+        if (!this.authService.canActAsUser(getPrincipal(res)!, userId)) {
+          return res.status(403).json({
+            error: "Forbidden",
+            message: `Cannot delete the trading profile of ${userId}`,
+          });
+        }
+
+        const deleted = await this.apiSignalProcessor
+          .getProfileService()
+          .deleteProfile(userId);
+        if (!deleted) {
+          return res.status(404).json({
+            error: `No trading profile for ${userId}`,
+          });
+        }
+
+        res.json({
+          success: true,
+          userId,
+          timestamp: new Date().toISOString(),
+        });
+      } catch (error) {
+        console.error("Error deleting trading profile:", error);
+        res.status(500).json({
+          error: "Failed to delete trading profile",
+          message: error instanceof Error ? error.message : "Unknown error",
+        });
+      }
+    });
+
+    // Kill switch: halt new entries globally or per user, token or network
+    this.app.get("/api/kill-switch", readOnly, (req, res) => {
+      const principal = getPrincipal(res)!;
+      const switches = this.killSwitchService
+        .listSwitches()
+        .filter(
+          (killSwitch) =>
+            killSwitch.scope !== "user" ||
+            this.authService.canActAsUser(principal, killSwitch.target)
+        );
+
+      res.json({
+        success: true,
+        switches,
+        count: switches.length,
+        timestamp: new Date().toISOString(),
+      });
+    });
+
+    this.app.post("/api/kill-switch", tradeControl, async (req, res) => {
+      const { status, body } = await this.toggleKillSwitch(
+        getPrincipal(res)!,
+        "engage",
+        req.body,
+        "api"
+      );
+      res.status(status).json(body);
+    });
+
+    this.app.post(
+      "/api/kill-switch/release",
+      tradeControl,
+      async (req, res) => {
+        const { status, body } = await this.toggleKillSwitch(
+          getPrincipal(res)!,
+          "release",
+          req.body,
+          "api"
+        );
+        res.status(status).json(body);
+      }
+    );
+
+    this.app.get("/api/kill-switch/audit", adminOnly, async (req, res) => {
+      try {
+        const entries = await this.killSwitchService.getAuditLog(
+          parseInt((req.query["limit"] as string) || "100")
+        );
+
+        res.json({
+          success: true,
+          entries,
+          count: entries.length,
+          timestamp: new Date().toISOString(),
+        });
+      } catch (error) {
+        console.error("Error getting kill switch audit log:", error);
+        res.status(500).json({
+          error: "Failed to get kill switch audit log",
+          message: error instanceof Error ? error.message : "Unknown error",
+        });
+      }
+    });
+
+    // Risk engine: today's entries and P&L against the limits, and breakers
+    this.app.get("/api/risk/status", readOnly, (req, res) => {
+      try {
+        const principal = getPrincipal(res)!;
+        const username = (req.query["userId"] as string) || principal.username;
+        if (!this.authService.canActAsUser(principal, username)) {
+          return res.status(403).json({
+            error: "Forbidden",
+            message: `Cannot view risk for user ${username}`,
+          });
+        }
+
+        const riskEngine = this.apiSignalProcessor.getRiskEngine();
+        const isAdmin = this.authService.hasScope(principal, "admin");
+        res.json({
+          success: true,
+          limits: riskEngine.getLimits(),
+          user: { username, ...riskEngine.getSnapshot(username) },
+          global: isAdmin ? riskEngine.getSnapshot() : undefined,
+          breakers: riskEngine
+            .getTrippedBreakers()
+            .filter(
+              (breaker) =>
+                isAdmin ||
+                breaker.scope === "global" ||
+                breaker.username === username
+            ),
+          timestamp: new Date().toISOString(),
+        });
+      } catch (error) {
+        console.error("Error getting risk status:", error);
+        res.status(500).json({
+          error: "Failed to get risk status",
+          message: error instanceof Error ? error.message : "Unknown error",
+        });
+      }
+    });
+
+    this.app.post("/api/risk/breakers/reset", adminOnly, async (req, res) => {
+      try {
+        const { username } = req.body;
+
+        const breaker = await this.apiSignalProcessor
+          .getRiskEngine()
+          .resetBreaker(username, getPrincipal(res)!.username);
+
+        if (!breaker) {
+          return res.status(404).json({
+            error: `No tripped circuit breaker for ${username || "global"}`,
+          });
+        }
+
+        res.json({
+          success: true,
+          breaker,
+          timestamp: new Date().toISOString(),
+        });
+      } catch (error) {
+        console.error("Error resetting circuit breaker:", error);
+        res.status(500).json({
+          error: "Failed to reset circuit breaker",
+          message: error instanceof Error ? error.message : "Unknown error",
+        });
+      }
+    });
+
+    // Get signal processor status
+    this.app.get("/api/signal/status", readOnly, async (req, res) => {
+      try {
+        const status = this.apiSignalProcessor.getStatus();
+        res.json({
+          success: true,
+          status,
+          queue: this.signalQueue ? await this.signalQueue.getCounts() : null,
+          timestamp: new Date().toISOString(),
+        });
+      } catch (error) {
+        console.error("Error getting signal processor status:", error);
+        res.status(500).json({
+          error: "Failed to get status",
+          message: error instanceof Error ? error.message : "Unknown error",
+        });
+      }
+    });
+
+    // Token allowance management
+    this.app.get(
+      "/api/safes/:safeAddress/allowances",
+      readOnly,
+      ownsSafeParam,
+      async (req, res) => {
+        try {
+          const { safeAddress } = req.params;
+          const { networkKey } = req.query;
+
+          if (!networkKey) {
+            return res.status(400).json({
+              error: "networkKey query parameter is required",
+            });
+          }
+
+          const allowances =
+            await this.tradeExecutionService.listTokenAllowances(
+              safeAddress,
+              networkKey as string
+            );
+
+          res.json({
+            success: true,
+            safeAddress,
+            networkKey,
+            allowances,
+            count: allowances.length,
+            timestamp: new Date().toISOString(),
+          });
+        } catch (error) {
+          console.error("Allowance listing error:", error);
+          res.status(500).json({
+            error: "Failed to list token allowances",
+            message: error instanceof Error ? error.message : "Unknown error",
+          });
+        }
+      }
+    );
+
+    this.app.post(
+      "/api/safes/:safeAddress/allowances/revoke",
+      tradeControl,
+      ownsSafeParam,
+      async (req, res) => {
+        try {
+          const { safeAddress } = req.params;
+          const { networkKey, allowances } = req.body;
+
+          if (!networkKey) {
+            return res.status(400).json({
+              error: "networkKey is required",
+            });
+          }
+
+          const result = await this.tradeExecutionService.revokeTokenAllowances(
+            safeAddress,
+            networkKey,
+            allowances
+          );
+
+          if (!result.success) {
+            return res.status(500).json({
+              error: "Failed to revoke token allowances",
+              message: result.error,
+            });
+          }
+
+          res.json({
+            success: true,
+            safeAddress,
+            networkKey,
+            transactionHash: result.transactionHash,
+            revoked: result.revoked,
+            timestamp: new Date().toISOString(),
+          });
+        } catch (error) {
+          console.error("Allowance revocation error:", error);
+          res.status(500).json({
+            error: "Failed to revoke token allowances",
+            message: error instanceof Error ? error.message : "Unknown error",
+          });
+        }
+      }
+    );
+
+    // Virtual balances for paper trading
+    this.app.get(
+      "/api/safes/:safeAddress/paper-balances",
+      readOnly,
+      ownsSafeParam,
+      async (req, res) => {
+        try {
+          const { safeAddress } = req.params;
+          const { networkKey } = req.query;
+
+          if (
+            !(this.tradeExecutionService instanceof PaperTradeExecutionService)
+          ) {
+            return res.status(400).json({
+              error: "Paper trading is not enabled",
+            });
+          }
+
+          if (!networkKey) {
+            return res.status(400).json({
+              error: "networkKey query parameter is required",
+            });
+          }
+
+          const balances = await this.tradeExecutionService.getPaperBalances(
+            safeAddress,
+            networkKey as string
+          );
+
+          res.json({
+            success: true,
+            safeAddress,
+            networkKey,
+            balances,
+            timestamp: new Date().toISOString(),
+          });
+        } catch (error) {
+          console.error("Paper balance listing error:", error);
+          res.status(500).json({
+            error: "Failed to list paper balances",
+            message: error instanceof Error ? error.message : "Unknown error",
+          });
+        }
+      }
+    );
+
+    this.app.post(
+      "/api/safes/:safeAddress/paper-balances",
+      tradeControl,
+      ownsSafeParam,
+      async (req, res) => {
+        try {
+          const { safeAddress } = req.params;
+          const { networkKey, token, amount } = req.body;
+
+          if (
+            !(this.tradeExecutionService instanceof PaperTradeExecutionService)
+          ) {
+            return res.status(400).json({
+              error: "Paper trading is not enabled",
+            });
+          }
+
+          if (!networkKey || !token || amount === undefined) {
+            return res.status(400).json({
+              error: "networkKey, token and amount are required",
+            });
+          }
+
+          const balance = await this.tradeExecutionService.setPaperBalance(
+            safeAddress,
+            networkKey,
+            token,
+            String(amount)
+          );
+
+          res.json({
+            success: true,
+            safeAddress,
+            balance,
+            timestamp: new Date().toISOString(),
+          });
+        } catch (error) {
+          console.error("Paper balance update error:", error);
+          res.status(500).json({
+            error: "Failed to set paper balance",
+            message: error instanceof Error ? error.message : "Unknown error",
+          });
+        }
+      }
+    );
+
+    // Rebalance a Safe to target weights; a dry run only returns the quoted plan
+    this.app.post(
+      "/api/safes/:safeAddress/rebalance",
+      tradeControl,
+      ownsSafeParam,
+      async (req, res) => {
+        try {
+          const { safeAddress } = req.params;
+          const {
+            networkKey,
+            targetWeights,
+            driftThresholdPercent,
+            minTradeUsd,
+            slippagePercent,
+            dryRun = true,
+          } = req.body;
+
+          if (!networkKey || !targetWeights) {
+            return res.status(400).json({
+              error: "networkKey and targetWeights are required",
+            });
+          }
+
+          let plan;
+          try {
+            plan = await this.rebalancingService.planRebalance({
+              safeAddress,
+              networkKey,
+              targetWeights,
+              driftThresholdPercent,
+              minTradeUsd,
+              slippagePercent,
+            });
+          } catch (error) {
+            return res.status(400).json({
+              error: "Invalid rebalance request",
+              message: error instanceof Error ? error.message : "Unknown error",
+            });
+          }
+
+          if (dryRun !== false) {
+            plan = await this.rebalancingService.previewRebalance(plan);
+          } else {
+            const { username } = getPrincipal(res)!;
+            for (const buyToken of plan.swaps.map((swap) => swap.buyToken)) {
+              const killSwitch = this.killSwitchService.getBlockingSwitch({
+                username,
+                token: buyToken,
+                networkKey,
+              });
+              if (killSwitch) {
+                return res.status(503).json({
+                  error: "Trading halted",
+                  message: `Rebalancing halted by kill switch ${killSwitch.key}: ${killSwitch.reason}`,
+                  killSwitch,
+                });
+              }
+            }
+
+            // Every buy leg is an entry: it takes a slot under the daily
+            // trade caps and is refused while a loss breaker is tripped
+            const riskEngine = this.apiSignalProcessor.getRiskEngine();
+            const reservations: EntryReservation[] = [];
+            try {
+              for (let leg = 0; leg < plan.swaps.length; leg++) {
+                const reservation = await riskEngine.reserveEntry(username);
+                reservations.push(reservation);
+                if (!reservation.allowed) {
+                  return res.status(403).json({
+                    error: "Risk limit breached",
+                    message: `Rebalancing refused by the risk engine: ${reservation.reason}`,
+                    breaker: reservation.breaker,
+                  });
+                }
+              }
+              plan = await this.rebalancingService.executeRebalance(plan);
+            } finally {
+              reservations.forEach((reservation) => reservation.release());
+            }
+          }
+
+          res.json({
+            success: plan.status !== "failed",
+            dryRun: dryRun !== false,
+            plan,
+            timestamp: new Date().toISOString(),
+          });
+        } catch (error) {
+          console.error("Rebalance error:", error);
+          res.status(500).json({
+            error: "Failed to rebalance Safe",
+            message: error instanceof Error ? error.message : "Unknown error",
+          });
+        }
+      }
+    );
+
+    // NEW: Trade Monitoring API Endpoints
+    this.app.get(
+      "/api/trades/monitoring/status",
+      readOnly,
+      async (req, res) => {
+        try {
+          if (!this.tradeMonitoringService) {
+            return res.status(503).json({
+              error: "Trade monitoring service not available",
+            });
+          }
+
+          // Only the caller's own positions
+          const principal = getPrincipal(res)!;
+          const status = this.tradeMonitoringService.getSystemStatus((trade) =>
+            this.authService.canActAsUser(principal, trade.userId)
+          );
+
+          res.json({
+            success: true,
+            monitoringStatus: status,
+            timestamp: new Date().toISOString(),
+          });
+        } catch (error) {
+          console.error("Trade monitoring status error:", error);
+          res.status(500).json({
+            error: "Failed to get trade monitoring status",
+            message: error instanceof Error ? error.message : "Unknown error",
+          });
+        }
+      }
+    );
+
+    this.app.get("/api/trades/active", readOnly, async (req, res) => {
+      try {
+        if (!this.tradeMonitoringService) {
+          return res.status(503).json({
+            error: "Trade monitoring service not available",
+          });
+        }
+
+        const principal = getPrincipal(res)!;
+        const activeTrades = this.tradeMonitoringService
+          .getMonitoredTrades()
+          .filter((trade) =>
+            this.authService.canActAsUser(principal, trade.userId)
+          );
+
+        res.json({
+          success: true,
+          activeTrades,
+          count: activeTrades.length,
+          timestamp: new Date().toISOString(),
+        });
+      } catch (error) {
+        console.error("Active trades error:", error);
+        res.status(500).json({
+          error: "Failed to get active trades",
+          message: error instanceof Error ? error.message : "Unknown error",
+        });
+      }
+    });
+
+    this.app.get("/api/trades/history", readOnly, async (req, res) => {
+      try {
+        const { limit = 50 } = req.query;
+        const principal = getPrincipal(res)!;
+
+        // Callers without admin only ever see their own history
+        const userId =
+          (req.query["userId"] as string) ||
+          (this.authService.hasScope(principal, "admin")
+            ? undefined
+            : principal.username);
+        if (userId && !this.authService.canActAsUser(principal, userId)) {
+          return res.status(403).json({
+            error: "Forbidden",
+            message: "Cannot read another user's trade history",
+          });
+        }
+
+        if (!this.dbService) {
+          return res.status(503).json({
+            error: "Database service not available",
+          });
+        }
+
+        const trades = await this.dbService.getTradeHistory(
+          userId,
+          parseInt(limit as string)
+        );
+
+        res.json({
+          success: true,
+          trades,
+          count: trades.length,
+          timestamp: new Date().toISOString(),
+        });
       } catch (error) {
-        console.error("Manual trade exit error:", error);
+        console.error("Trade history error:", error);
         res.status(500).json({
-          error: "Failed to exit trade",
+          error: "Failed to get trade history",
           message: error instanceof Error ? error.message : "Unknown error",
         });
       }
     });
 
-    this.app.get("/api/trades/:tradeId/status", async (req, res) => {
+    this.app.post(
+      "/api/trades/:tradeId/exit",
+      tradeControl,
+      async (req, res) => {
+        try {
+          const { tradeId } = req.params;
+          const { reason = "Manual API exit" } = req.body;
+
+          if (!this.tradeMonitoringService) {
+            return res.status(503).json({
+              error: "Trade monitoring service not available",
+            });
+          }
+
+          const trade = this.tradeMonitoringService.getTradeStatus(tradeId);
+          if (
+            trade &&
+            !(await this.authService.canAccessSafe(
+              getPrincipal(res)!,
+              trade.safeAddress
+            ))
+          ) {
+            return res.status(403).json({
+              error: "Forbidden",
+              message: `Trade ${tradeId} belongs to a Safe you do not own`,
+              tradeId,
+            });
+          }
+
+          if (trade?.exitInProgress) {
+            return res.status(409).json({
+              error: "Exit already in progress",
+              message: `Trade ${tradeId} has an exit leg in flight`,
+              tradeId,
+            });
+          }
+
+          const success = await this.tradeMonitoringService.manualExitTrade(
+            tradeId,
+            reason
+          );
+
+          if (success) {
+            res.json({
+              success: true,
+              message: `Trade ${tradeId} exit initiated`,
+              tradeId,
+              reason,
+              timestamp: new Date().toISOString(),
+            });
+          } else {
+            res.status(404).json({
+              error: `Trade ${tradeId} not found or already exited`,
+              tradeId,
+            });
+          }
+        } catch (error) {
+          console.error("Manual trade exit error:", error);
+          res.status(500).json({
+            error: "Failed to exit trade",
+            message: error instanceof Error ? error.message : "Unknown error",
+          });
+        }
+      }
+    );
+
+    this.app.get("/api/trades/:tradeId/status", readOnly, async (req, res) => {
       try {
         const { tradeId } = req.params;
 
@@ -611,6 +1874,20 @@ class AITradingServer {
 
         const tradeStatus = this.tradeMonitoringService.getTradeStatus(tradeId);
 
+        if (
+          tradeStatus &&
+          !(await this.authService.canAccessSafe(
+            getPrincipal(res)!,
+            tradeStatus.safeAddress
+          ))
+        ) {
+          return res.status(403).json({
+            error: "Forbidden",
+            message: `Trade ${tradeId} belongs to a Safe you do not own`,
+            tradeId,
+          });
+        }
+
         if (tradeStatus) {
           res.json({
             success: true,
@@ -632,6 +1909,98 @@ class AITradingServer {
       }
     });
 
+    // API key management - callers manage keys under their own username
+    this.app.post("/api/auth/api-keys", async (req, res) => {
+      try {
+        const { scopes, label } = req.body;
+
+        if (!Array.isArray(scopes) || scopes.length === 0) {
+          return res.status(400).json({
+            error: "scopes array is required",
+            validScopes: AUTH_SCOPES,
+          });
+        }
+
+        const created = await this.authService.createApiKey(
+          getPrincipal(res)!,
+          scopes,
+          label
+        );
+
+        res.status(201).json({
+          success: true,
+          ...created,
+          message: "Store this key now, it cannot be retrieved again",
+          timestamp: new Date().toISOString(),
+        });
+      } catch (error) {
+        console.error("API key creation error:", error);
+        res.status(400).json({
+          error: "Failed to create API key",
+          message: error instanceof Error ? error.message : "Unknown error",
+        });
+      }
+    });
+
+    this.app.get("/api/auth/api-keys", async (req, res) => {
+      try {
+        const apiKeys = await this.authService.listApiKeys(
+          getPrincipal(res)!.username
+        );
+
+        res.json({
+          success: true,
+          apiKeys,
+          count: apiKeys.length,
+          timestamp: new Date().toISOString(),
+        });
+      } catch (error) {
+        console.error("API key listing error:", error);
+        res.status(500).json({
+          error: "Failed to list API keys",
+          message: error instanceof Error ? error.message : "Unknown error",
+        });
+      }
+    });
+
+    this.app.delete("/api/auth/api-keys/:keyId", async (req, res) => {
+      try {
+        const { keyId } = req.params;
+
+        const revoked = await this.authService.revokeApiKey(
+          getPrincipal(res)!.username,
+          keyId
+        );
+
+        if (!revoked) {
+          return res.status(404).json({
+            error: `API key ${keyId} not found or already revoked`,
+            keyId,
+          });
+        }
+
+        res.json({
+          success: true,
+          keyId,
+          timestamp: new Date().toISOString(),
+        });
+      } catch (error) {
+        console.error("API key revocation error:", error);
+        res.status(500).json({
+          error: "Failed to revoke API key",
+          message: error instanceof Error ? error.message : "Unknown error",
+        });
+      }
+    });
+
+    // 404 handler
+    this.app.use("*", (req, res) => {
+      res.status(404).json({
+        error: "Endpoint not found",
+        path: req.originalUrl,
+      });
+    });
+
     // Global error handler
     this.app.use(
       (
@@ -695,15 +2064,39 @@ class AITradingServer {
   }
 
   private initializeSocketIO(): void {
+    // Sockets authenticate with the same credentials as the REST API, passed
+    // as auth.token / auth.apiKey in the handshake or as headers
+    this.io.use(async (socket, next) => {
+      try {
+        const { token, apiKey } = socket.handshake.auth || {};
+        const headers = socket.handshake.headers;
+        socket.data.principal = await this.authService.authenticateCredentials(
+          token ? `Bearer ${token}` : headers.authorization,
+          apiKey || (headers["x-api-key"] as string | undefined)
+        );
+        next();
+      } catch (error) {
+        next(new Error("Unauthorized"));
+      }
+    });
+
     this.io.on("connection", (socket) => {
       console.log(`🔌 Client connected: ${socket.id}`);
 
       socket.on("join-user-room", (userId: string) => {
+        if (!this.authService.canActAsUser(socket.data.principal, userId)) {
+          socket.emit("error", { message: "Cannot join another user's room" });
+          return;
+        }
         socket.join(`user-${userId}`);
         console.log(`👤 User ${userId} joined their room`);
       });
 
       socket.on("request-market-analysis", async () => {
+        if (!this.authService.hasScope(socket.data.principal, "admin")) {
+          socket.emit("error", { message: "Market analysis requires admin" });
+          return;
+        }
         try {
           const analysis = await this.tradingAgent.executeDecision(
             "Provide a quick market overview with current trends and trading opportunities"
@@ -714,12 +2107,153 @@ class AITradingServer {
         }
       });
 
+      socket.on(
+        "kill-switch",
+        async (request: {
+          action: "engage" | "release";
+          scope: KillSwitchScope;
+          target?: string;
+          reason?: string;
+          flatten?: boolean;
+        }) => {
+          const { status, body } = await this.toggleKillSwitch(
+            socket.data.principal,
+            request?.action === "release" ? "release" : "engage",
+            request,
+            "socket"
+          );
+          socket.emit(status < 300 ? "kill-switch-result" : "error", body);
+        }
+      );
+
       socket.on("disconnect", () => {
         console.log(`❌ Client disconnected: ${socket.id}`);
       });
     });
   }
 
+  /**
+   * Shared by the REST routes and the "kill-switch" socket event
+   */
+  private async toggleKillSwitch(
+    principal: AuthPrincipal,
+    action: "engage" | "release",
+    request: {
+      scope?: KillSwitchScope;
+      target?: string;
+      reason?: string;
+      flatten?: boolean;
+    },
+    source: KillSwitchSource
+  ): Promise<{ status: number; body: any }> {
+    try {
+      const { scope, target, reason, flatten } = request || {};
+
+      if (!scope || !KILL_SWITCH_SCOPES.includes(scope)) {
+        return {
+          status: 400,
+          body: {
+            error: "Invalid kill switch scope",
+            validScopes: KILL_SWITCH_SCOPES,
+          },
+        };
+      }
+      if (action === "engage" && !reason) {
+        return { status: 400, body: { error: "A reason is required" } };
+      }
+      if (
+        !this.killSwitchService.canControl(principal, scope, target, action)
+      ) {
+        return {
+          status: 403,
+          body: {
+            error: "Forbidden",
+            message: `Cannot ${action} the ${scope} kill switch`,
+          },
+        };
+      }
+
+      if (action === "release") {
+        const released = await this.killSwitchService.release(scope, target, {
+          reason,
+          actor: principal.username,
+          source,
+        });
+        if (!released) {
+          return {
+            status: 404,
+            body: { error: "Kill switch is not engaged", scope, target },
+          };
+        }
+        return {
+          status: 200,
+          body: {
+            success: true,
+            released: true,
+            scope,
+            target,
+            timestamp: new Date().toISOString(),
+          },
+        };
+      }
+
+      const killSwitch = await this.killSwitchService.engage(scope, target, {
+        reason,
+        actor: principal.username,
+        source,
+        flatten: !!flatten,
+      });
+      return {
+        status: 200,
+        body: {
+          success: true,
+          killSwitch,
+          timestamp: new Date().toISOString(),
+        },
+      };
+    } catch (error) {
+      console.error(`Kill switch ${action} error:`, error);
+      return {
+        status: 400,
+        body: {
+          error: `Failed to ${action} kill switch`,
+          message: error instanceof Error ? error.message : "Unknown error",
+        },
+      };
+    }
+  }
+
+  /**
+   * The profile settings in a request body, ignoring anything else
+   */
+  private getProfileSettings(body: any): TradingProfileSettings {
+    const {
+      riskTolerance,
+      sizing,
+      maxOpenPositions,
+      allowedTokens,
+      deniedTokens,
+      preferredNetworks,
+      baseToken,
+      slippagePercent,
+      trailingStopPercent,
+      enableTrailingStop,
+    } = body || {};
+
+    return {
+      riskTolerance,
+      sizing,
+      maxOpenPositions,
+      allowedTokens,
+      deniedTokens,
+      preferredNetworks,
+      baseToken,
+      slippagePercent,
+      trailingStopPercent,
+      enableTrailingStop,
+    };
+  }
+
   private initializeTradingAgent(): void {
     try {
       this.tradingAgent = new AITradingAgent();
@@ -745,22 +2279,42 @@ class AITradingServer {
       });
 
       // Initialize core services
-      const tradeStateManager = new TradeStateManager();
-      const tradeExecutionService = new TradeExecutionService();
+      this.tradeStateManager = new TradeStateManager(this.dbService);
       const priceMonitoringService = new PriceMonitoringService();
+      // PAPER mode fills swaps against virtual Safe balances instead of on-chain
+      this.tradeExecutionService = isPaperTrading()
+        ? new PaperTradeExecutionService(
+            this.dbService,
+            priceMonitoringService.getPriceOracle(),
+            priceMonitoringService
+          )
+        : new TradeExecutionService(
+            new FlexibleDEXRouter(),
+            priceMonitoringService
+          );
+      this.tradeExecutionService.setDatabaseService(this.dbService);
+      this.authService.setDatabaseService(this.dbService);
+
+      // Cost basis and realized P&L from actual swap fills
+      this.pnlLedgerService = new PnlLedgerService(
+        this.dbService,
+        priceMonitoringService.getPriceOracle()
+      );
+      this.tradeExecutionService.setPnlLedgerService(this.pnlLedgerService);
 
       // Initialize trade monitoring service
       this.tradeMonitoringService = new TradeMonitoringService(
         this.dbService,
-        tradeExecutionService,
-        priceMonitoringService
+        this.tradeExecutionService,
+        priceMonitoringService,
+        this.tradeStateManager
       );
 
       // Initialize API signal processor
       this.apiSignalProcessor = new ApiSignalProcessor(
         this.dbService,
-        tradeStateManager,
-        tradeExecutionService,
+        this.tradeStateManager,
+        this.tradeExecutionService,
         priceMonitoringService,
         this.tradeMonitoringService,
         {
@@ -777,6 +2331,102 @@ class AITradingServer {
         }
       );
 
+      if (isPaperTrading()) {
+        // Size positions from virtual balances
+        this.apiSignalProcessor
+          .getPositionSizingService()
+          .setBalanceReader((safeAddress, tokenAddress, network) =>
+            this.tradeExecutionService.getSafeBalance(
+              safeAddress,
+              tokenAddress,
+              network.chainId,
+              network
+            )
+          );
+      }
+
+      const riskEngine = this.apiSignalProcessor.getRiskEngine();
+      riskEngine.on("breakerTripped", (breaker) =>
+        this.io.emit("circuit-breaker-tripped", {
+          breaker,
+          timestamp: new Date(),
+        })
+      );
+      riskEngine.on("breakerReset", (breaker) =>
+        this.io.emit("circuit-breaker-reset", {
+          breaker,
+          timestamp: new Date(),
+        })
+      );
+
+      this.portfolioService = new PortfolioService(
+        this.dbService,
+        priceMonitoringService.getPriceOracle(),
+        this.tradeMonitoringService,
+        this.tradeStateManager
+      );
+      if (this.tradeExecutionService instanceof PaperTradeExecutionService) {
+        this.portfolioService.setPaperTradeExecutionService(
+          this.tradeExecutionService
+        );
+      }
+      setPortfolioService(this.portfolioService);
+      this.rebalancingService = new RebalancingService(
+        this.portfolioService,
+        this.tradeExecutionService
+      );
+      this.rebalancingService.setTradeMonitoringService(
+        this.tradeMonitoringService
+      );
+      setRebalancingService(this.rebalancingService);
+
+      this.killSwitchService = new KillSwitchService(
+        this.dbService,
+        this.tradeMonitoringService
+      );
+      this.apiSignalProcessor.setKillSwitchService(this.killSwitchService);
+      this.killSwitchService.on("engaged", (killSwitch) =>
+        this.io.emit("kill-switch-engaged", {
+          killSwitch,
+          timestamp: new Date(),
+        })
+      );
+      this.killSwitchService.on("released", (killSwitch) =>
+        this.io.emit("kill-switch-released", {
+          killSwitch,
+          timestamp: new Date(),
+        })
+      );
+      this.killSwitchService.on("flattened", (result) =>
+        this.io.emit("kill-switch-flattened", {
+          ...result,
+          timestamp: new Date(),
+        })
+      );
+
+      if (this.dbConfig.redisEnabled) {
+        this.signalQueue = new SignalQueueService(this.apiSignalProcessor, {
+          redisUrl: this.dbConfig.redisUrl,
+        });
+        this.signalQueue.on("jobCompleted", ({ jobId, result }) => {
+          if (!result?.duplicate) {
+            this.io.emit("signal-processed", {
+              signalId: result?.signalId,
+              jobId,
+              result,
+              timestamp: new Date(),
+            });
+          }
+        });
+        this.signalQueue.on("jobDeadLettered", ({ jobId, error }) =>
+          this.io.emit("signal-dead-lettered", {
+            jobId,
+            error,
+            timestamp: new Date(),
+          })
+        );
+      }
+
       console.log("✅ API Signal Processor initialized successfully");
     } catch (error) {
       console.error("❌ Failed to initialize API Signal Processor:", error);
@@ -806,6 +2456,15 @@ class AITradingServer {
         }
       }
 
+      // Let queued signals already running finish before the processor stops
+      if (this.signalQueue) {
+        try {
+          await this.signalQueue.stop();
+        } catch (error) {
+          console.error("⚠️ Error stopping signal queue:", error);
+        }
+      }
+
       // Stop API signal processor and trade monitoring
       if (this.apiSignalProcessor) {
         try {
@@ -823,6 +2482,15 @@ class AITradingServer {
         }
       }
 
+      // Let pending trade state writes reach MongoDB before closing connections
+      if (this.tradeStateManager) {
+        try {
+          await this.tradeStateManager.flush();
+        } catch (error) {
+          console.error("⚠️ Error flushing trade state:", error);
+        }
+      }
+
       // Close server
       this.server.close(() => {
         console.log("✅ HTTP server closed");
@@ -876,13 +2544,17 @@ class AITradingServer {
 🔌 Socket.IO: Connected
 🤖 AI Agent: Ready
 🎯 Environment: ${this.config.nodeEnv}
+💱 Execution: ${isPaperTrading() ? "PAPER" : "LIVE"}
 ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
       `);
 
       // Start API signal processor and trade monitoring
       try {
         await this.dbService.connect();
+        await this.killSwitchService.start();
+        await this.tradeStateManager.rehydrate();
         await this.apiSignalProcessor.start();
+        await this.signalQueue?.start();
         await this.tradeMonitoringService.start();
         console.log(
           "✅ API Signal Processor and Trade Monitoring started successfully"
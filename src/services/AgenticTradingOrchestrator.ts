@@ -55,14 +55,19 @@ class AgenticTradingOrchestrator extends EventEmitter {
 
     // Initialize core services
     this.tradeStateManager = new TradeStateManager();
-    this.tradeExecutionService = new TradeExecutionService();
     this.priceMonitoringService = new PriceMonitoringService();
+    this.tradeExecutionService = new TradeExecutionService(
+      undefined,
+      this.priceMonitoringService
+    );
+    this.tradeExecutionService.setDatabaseService(this.dbService);
 
     // Initialize trade monitoring service
     this.tradeMonitoringService = new TradeMonitoringService(
       this.dbService,
       this.tradeExecutionService,
-      this.priceMonitoringService
+      this.priceMonitoringService,
+      this.tradeStateManager
     );
 
     // Initialize API signal processor
@@ -518,6 +523,13 @@ Provide your price alert analysis and exit recommendations.
     };
   }
 
+  /**
+   * Get the trade execution service (used by the Safe allowance tools)
+   */
+  getTradeExecutionService(): TradeExecutionService {
+    return this.tradeExecutionService;
+  }
+
   /**
    * Get pending decisions
    */
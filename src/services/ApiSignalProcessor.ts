@@ -1,4 +1,5 @@
 import { EventEmitter } from "events";
+import crypto from "crypto";
 import winston from "winston";
 import { v4 as uuidv4 } from "uuid";
 import TradeStateManager from "./TradeStateManager";
@@ -7,10 +8,24 @@ import PriceMonitoringService from "./PriceMonitoringService";
 import DatabaseService from "./DatabaseService";
 import TradeMonitoringService from "./TradeMonitoringService";
 import { NetworkUtils } from "../utils/NetworkUtils";
-import TokenChainDetectionService from "./TokenChainDetectionService";
+import TokenChainDetectionService, {
+  ChainDetectionResult,
+  TokenChainInfo,
+} from "./TokenChainDetectionService";
 import SafeChainValidationService from "./SafeChainValidationService";
-import PositionSizingService from "./PositionSizingService";
+import PositionSizingService, {
+  SizingInputs,
+  SizingStrategy,
+} from "./PositionSizingService";
+import SignalSubscriptionService, {
+  SignalSubscription,
+  SkippedSubscription,
+} from "./SignalSubscriptionService";
+import TradingProfileService, { TradingProfile } from "./TradingProfileService";
 import { errorHandler } from "./ErrorHandlingService";
+import KillSwitchService from "./KillSwitchService";
+import RiskEngineService, { RiskDecision } from "./RiskEngineService";
+import { validateApiSignal } from "./SignalFormats";
 import { logger, tradingLogger, flowLogger } from "../config/logger";
 
 /**
@@ -27,13 +42,25 @@ interface ApiSignal {
   "Max Exit Time": { $date: string };
   username: string;
   safeAddress: string;
+  // Optional hints, only carried by v2 signals (see SignalFormats)
+  contractAddress?: string; // pins the exact token contract
+  networkKey?: string; // pins the chain to trade on
+  positionSizePercent?: number; // overrides the default share of the balance
 }
 
+/**
+ * A provider's signal before it is addressed to a subscriber's Safe
+ */
+type BroadcastSignal = Omit<ApiSignal, "username" | "safeAddress">;
+
 interface ProcessedSignal {
   signalId: string;
   tradingPair: ProcessedTradingPair;
   status: "success" | "failed" | "pending";
   error?: string;
+  errorCode?: string; // code of the underlying TradingError, used to decide retries
+  idempotencyKey?: string;
+  duplicate?: boolean; // true when this is the stored outcome of an earlier request
 }
 
 interface ProcessedTradingPair {
@@ -45,6 +72,28 @@ interface ProcessedTradingPair {
   error?: string;
 }
 
+interface SubscriberSignal {
+  subscription: SignalSubscription;
+  signal: ApiSignal;
+  idempotencyKey?: string;
+}
+
+interface SubscriberSignalResult extends ProcessedSignal {
+  subscriptionId: string;
+  username: string;
+  safeAddress: string;
+}
+
+interface FanOutResult {
+  providerId: string;
+  totalSubscribers: number;
+  successfulTrades: number;
+  failedTrades: number;
+  pendingTrades: number;
+  results: SubscriberSignalResult[];
+  skipped: SkippedSubscription[];
+}
+
 interface TradingConfig {
   positionSizeUsd: number;
   maxDailyTrades: number;
@@ -52,6 +101,7 @@ interface TradingConfig {
   trailingStopRetracement: number;
   defaultSlippage: number;
   gasBuffer: number;
+  idempotencyWindowSeconds?: number; // how long duplicates return the original outcome
 }
 
 /**
@@ -70,8 +120,12 @@ class ApiSignalProcessor extends EventEmitter {
   private tokenChainService: TokenChainDetectionService;
   private safeValidationService: SafeChainValidationService;
   private positionSizingService: PositionSizingService;
+  private subscriptionService: SignalSubscriptionService;
+  private profileService: TradingProfileService;
+  private killSwitchService: KillSwitchService | null = null;
+  private riskEngine: RiskEngineService;
   private config: TradingConfig;
-  private processingQueue: Set<string> = new Set();
+  private processingQueue: Map<string, Promise<ProcessedSignal>> = new Map(); // idempotency key -> in-flight processing
   private isActive: boolean = false;
 
   constructor(
@@ -100,11 +154,22 @@ class ApiSignalProcessor extends EventEmitter {
     this.tokenChainService = new TokenChainDetectionService();
     this.safeValidationService = new SafeChainValidationService();
     this.positionSizingService = new PositionSizingService({
-      defaultPercentage: 10, // Use 10% of balance as requested
+      defaultPercentage: 20, // percent_equity share when none is configured
       minimumUsdAmount: 0.01,
       minimumGasReserve: "0.001",
       maxPositionPercentage: 80,
     });
+    this.subscriptionService = new SignalSubscriptionService(
+      dbService,
+      this.positionSizingService
+    );
+    this.profileService = new TradingProfileService(dbService);
+    this.riskEngine = new RiskEngineService(
+      dbService,
+      tradeStateManager,
+      tradeMonitoringService,
+      { maxDailyTrades: config.maxDailyTrades }
+    );
 
     // Use simplified logger
     this.logger = logger;
@@ -124,11 +189,6 @@ class ApiSignalProcessor extends EventEmitter {
     this.priceMonitoringService.on("tradeExit", async (exitData) => {
       await this.handleTradeExit(exitData);
     });
-
-    // Handle trade execution queue
-    setInterval(() => {
-      this.processExecutionQueue();
-    }, 5000);
   }
 
   async start(): Promise<void> {
@@ -140,6 +200,7 @@ class ApiSignalProcessor extends EventEmitter {
     try {
       // Start price monitoring service
       await this.priceMonitoringService.start();
+      await this.riskEngine.start();
 
       this.isActive = true;
       this.logger.info("🚀 API Signal Processor started successfully");
@@ -169,23 +230,266 @@ class ApiSignalProcessor extends EventEmitter {
   /**
    * Process a signal received via API
    * This is the main entry point for processing signals with enhanced validation
+   *
+   * Signals are idempotent: a repeat of the same signal (by the client's
+   * idempotency key, or a fingerprint of the signal itself) within the
+   * idempotency window returns the original outcome instead of trading again.
+   */
+  async processApiSignal(
+    signalData: ApiSignal,
+    idempotencyKey?: string
+  ): Promise<ProcessedSignal> {
+    const key = this.getIdempotencyKey(signalData, idempotencyKey);
+
+    // Concurrent duplicates share the outcome of the request already running
+    const inFlight = this.processingQueue.get(key);
+    if (inFlight) {
+      this.logger.info(
+        `🔁 Duplicate signal ${key} arrived while processing, awaiting original`
+      );
+      return { ...(await inFlight), duplicate: true };
+    }
+
+    const processing = this.processIdempotentSignal(signalData, key);
+    this.processingQueue.set(key, processing);
+    try {
+      return await processing;
+    } finally {
+      this.processingQueue.delete(key);
+    }
+  }
+
+  setKillSwitchService(killSwitchService: KillSwitchService): void {
+    this.killSwitchService = killSwitchService;
+  }
+
+  getRiskEngine(): RiskEngineService {
+    return this.riskEngine;
+  }
+
+  getPositionSizingService(): PositionSizingService {
+    return this.positionSizingService;
+  }
+
+  getSubscriptionService(): SignalSubscriptionService {
+    return this.subscriptionService;
+  }
+
+  getProfileService(): TradingProfileService {
+    return this.profileService;
+  }
+
+  /**
+   * Address a provider's broadcast to each subscriber whose filters accept
+   * it, applying the subscriber's own sizing. Client idempotency keys are
+   * extended per subscription so every subscriber still deduplicates.
+   */
+  async getSubscriberSignals(
+    signalData: BroadcastSignal,
+    providerId: string,
+    idempotencyKey?: string
+  ): Promise<{
+    subscribers: SubscriberSignal[];
+    skipped: SkippedSubscription[];
+  }> {
+    const { eligible, skipped } =
+      await this.subscriptionService.getEligibleSubscriptions(
+        providerId,
+        signalData
+      );
+
+    const subscribers = eligible.map((subscription) => ({
+      subscription,
+      signal: {
+        ...signalData,
+        username: subscription.username,
+        safeAddress: subscription.safeAddress,
+        positionSizePercent:
+          subscription.positionSizePercent ?? signalData.positionSizePercent,
+      },
+      idempotencyKey:
+        idempotencyKey && `${idempotencyKey}:${subscription.subscriptionId}`,
+    }));
+
+    return { subscribers, skipped };
+  }
+
+  /**
+   * Execute a provider's broadcast for every eligible subscriber
+   * concurrently. One subscriber failing does not affect the others.
+   */
+  async processBroadcastSignal(
+    signalData: BroadcastSignal,
+    providerId: string,
+    idempotencyKey?: string
+  ): Promise<FanOutResult> {
+    const { subscribers, skipped } = await this.getSubscriberSignals(
+      signalData,
+      providerId,
+      idempotencyKey
+    );
+
+    this.logger.info(
+      `📨 Fanning out ${signalData["Signal Message"]} ${signalData["Token Mentioned"]} from provider ${providerId} to ${subscribers.length} subscribers (${skipped.length} skipped)`
+    );
+
+    const settled = await Promise.allSettled(
+      subscribers.map(({ signal, idempotencyKey }) =>
+        this.processApiSignal(signal, idempotencyKey)
+      )
+    );
+
+    const result: FanOutResult = {
+      providerId,
+      totalSubscribers: subscribers.length,
+      successfulTrades: 0,
+      failedTrades: 0,
+      pendingTrades: 0,
+      results: [],
+      skipped,
+    };
+
+    settled.forEach((outcome, i) => {
+      const { subscription, signal } = subscribers[i];
+      const error =
+        outcome.status === "rejected"
+          ? outcome.reason?.message || String(outcome.reason)
+          : undefined;
+      const processed: ProcessedSignal =
+        outcome.status === "fulfilled"
+          ? outcome.value
+          : {
+              signalId: "",
+              tradingPair: {
+                userId: signal.username,
+                tradeId: "",
+                safeAddress: signal.safeAddress,
+                networkKey: "unknown",
+                status: "failed",
+                error,
+              },
+              status: "failed",
+              error,
+            };
+
+      if (processed.status === "success") {
+        result.successfulTrades++;
+      } else if (processed.status === "failed") {
+        result.failedTrades++;
+      } else {
+        result.pendingTrades++;
+      }
+
+      result.results.push({
+        ...processed,
+        subscriptionId: subscription.subscriptionId,
+        username: subscription.username,
+        safeAddress: subscription.safeAddress,
+      });
+    });
+
+    this.emit("broadcastProcessed", result);
+    return result;
+  }
+
+  /**
+   * Claims the idempotency key before processing so retries, including ones
+   * reaching other instances, find the stored outcome. Failures before any
+   * swap was sent release the key so the signal can be retried; once a swap
+   * may have gone out the failed outcome is stored like any other. Without
+   * the store the signal is refused with a retryable code rather than
+   * processed unprotected.
    */
-  async processApiSignal(signalData: ApiSignal): Promise<ProcessedSignal> {
+  private async processIdempotentSignal(
+    signalData: ApiSignal,
+    idempotencyKey: string
+  ): Promise<ProcessedSignal> {
     const signalId = uuidv4();
-    const flowName = `Signal-${signalId.slice(0, 8)}`;
 
-    // Prevent duplicate processing
-    if (this.processingQueue.has(signalId)) {
-      const error = errorHandler.createError("SIGNAL_ALREADY_PROCESSING", {
-        service: "api-signal-processor",
-        operation: "processApiSignal",
-        userId: signalData.username,
+    try {
+      const claim = await this.dbService.claimSignalIdempotencyKey({
+        key: idempotencyKey,
+        username: signalData.username,
         signalId,
+        expiresAt: new Date(Date.now() + this.getIdempotencyWindowMs()),
       });
-      throw new Error(error.message);
+
+      if (!claim.claimed) {
+        const existing = claim.existing;
+        this.logger.info(
+          `🔁 Duplicate signal ${idempotencyKey}, returning outcome of ${existing?.signalId || "in-flight request"}`
+        );
+
+        if (existing?.result) {
+          return { ...existing.result, idempotencyKey, duplicate: true };
+        }
+
+        // Still being processed elsewhere
+        return {
+          signalId: existing?.signalId || signalId,
+          tradingPair: {
+            userId: signalData.username,
+            tradeId: existing?.signalId || signalId,
+            safeAddress: signalData.safeAddress,
+            networkKey: "unknown",
+            status: "pending",
+          },
+          status: "pending",
+          idempotencyKey,
+          duplicate: true,
+        };
+      }
+    } catch (error) {
+      const tradingError = errorHandler.createError(
+        "IDEMPOTENCY_UNAVAILABLE",
+        {
+          service: "api-signal-processor",
+          operation: "processIdempotentSignal",
+          userId: signalData.username,
+          tokenSymbol: signalData["Token Mentioned"],
+          safeAddress: signalData.safeAddress,
+          signalId,
+        },
+        error instanceof Error ? error : undefined
+      );
+
+      return {
+        signalId,
+        tradingPair: {
+          userId: signalData.username,
+          tradeId: signalId,
+          safeAddress: signalData.safeAddress,
+          networkKey: "unknown",
+          status: "failed",
+          error: tradingError.message,
+        },
+        status: "failed",
+        error: tradingError.message,
+        errorCode: tradingError.code,
+        idempotencyKey,
+      };
+    }
+
+    const result = await this.executeSignal(signalId, signalData);
+    result.idempotencyKey = idempotencyKey;
+
+    if (
+      result.status === "failed" &&
+      result.errorCode !== "SWAP_OUTCOME_UNKNOWN"
+    ) {
+      await this.dbService.releaseSignalIdempotencyKey(idempotencyKey);
+    } else {
+      await this.dbService.completeSignalIdempotencyKey(idempotencyKey, result);
     }
 
-    this.processingQueue.add(signalId);
+    return result;
+  }
+
+  private async executeSignal(
+    signalId: string,
+    signalData: ApiSignal
+  ): Promise<ProcessedSignal> {
+    const flowName = `Signal-${signalId.slice(0, 8)}`;
 
     try {
       flowLogger.start(flowName, {
@@ -245,15 +549,47 @@ class ApiSignalProcessor extends EventEmitter {
         },
         status: "failed",
         error: tradingError.message,
+        errorCode: error?.code || tradingError.code,
       };
 
       this.emit("signalError", errorResult);
       return errorResult;
-    } finally {
-      this.processingQueue.delete(signalId);
     }
   }
 
+  /**
+   * Client-supplied keys are scoped to the user. Without one, the signal is
+   * fingerprinted from its user, Safe, token, direction, prices and exit time.
+   */
+  getIdempotencyKey(signalData: ApiSignal, clientKey?: string): string {
+    if (clientKey) {
+      return `${signalData.username}:client:${clientKey}`;
+    }
+
+    const fingerprint = [
+      signalData.username,
+      signalData.safeAddress?.toLowerCase(),
+      signalData["Token Mentioned"]?.toUpperCase(),
+      signalData["Signal Message"],
+      signalData.TP1,
+      signalData.TP2,
+      signalData.SL,
+      signalData["Current Price"],
+      signalData["Max Exit Time"]?.$date,
+      signalData.contractAddress?.toLowerCase(),
+      signalData.networkKey,
+    ].join("|");
+
+    return `${signalData.username}:signal:${crypto.createHash("sha256").update(fingerprint).digest("hex")}`;
+  }
+
+  private getIdempotencyWindowMs(): number {
+    const seconds =
+      this.config.idempotencyWindowSeconds ??
+      parseInt(process.env["SIGNAL_IDEMPOTENCY_WINDOW_SECONDS"] || "86400");
+    return seconds * 1000;
+  }
+
   /**
    * Enhanced signal processing with comprehensive validation
    */
@@ -266,20 +602,43 @@ class ApiSignalProcessor extends EventEmitter {
       // Step 1: Validate signal data format
       flowLogger.step(flowName, "Validating Signal Format");
       this.validateSignalData(signalData);
+      this.assertEntryAllowed(signalData, signalData.networkKey);
+      this.assertRiskAllowed(
+        signalData,
+        await this.riskEngine.checkEntry(signalData.username)
+      );
+      const profile = await this.profileService.getProfile(signalData.username);
+      this.assertProfileAllows(
+        signalData,
+        this.profileService.getEntryRestriction(
+          profile,
+          signalData["Token Mentioned"],
+          this.tradeStateManager.getActiveTrades(signalData.username).length
+        )
+      );
 
-      // Step 2: Detect token chain
+      // Step 2: Detect token chain, limited to the profile's networks
       flowLogger.step(flowName, "Detecting Token Chain");
-      const tokenDetection = await this.tokenChainService.detectTokenChains(
-        signalData["Token Mentioned"]
+      const detection = await this.detectSignalTokenChains(signalData);
+      const tokenDetection = this.profileService.applyNetworkPreference(
+        profile,
+        detection
       );
 
+      if (detection.success && !tokenDetection.success) {
+        this.assertProfileAllows(signalData, tokenDetection.error);
+      }
       if (!tokenDetection.success || !tokenDetection.primaryChain) {
-        throw errorHandler.createError("TOKEN_NOT_FOUND", {
-          service: "api-signal-processor",
-          operation: "processSignalEnhanced",
-          userId: signalData.username,
-          tokenSymbol: signalData["Token Mentioned"],
-        });
+        throw errorHandler.createError(
+          signalData.networkKey ? "TOKEN_CHAIN_MISMATCH" : "TOKEN_NOT_FOUND",
+          {
+            service: "api-signal-processor",
+            operation: "processSignalEnhanced",
+            userId: signalData.username,
+            tokenSymbol: signalData["Token Mentioned"],
+            networkKey: signalData.networkKey,
+          }
+        );
       }
 
       tradingLogger.validation(
@@ -318,7 +677,8 @@ class ApiSignalProcessor extends EventEmitter {
         await this.safeValidationService.validateSafeForToken(
           signalData.safeAddress,
           signalData["Token Mentioned"],
-          [userSafe] // Pass the full user Safe document which contains deployments
+          [userSafe], // Pass the full user Safe document which contains deployments
+          tokenDetection
         );
 
       if (!safeCompatibility.hasCompatibleSafe) {
@@ -339,14 +699,28 @@ class ApiSignalProcessor extends EventEmitter {
         }
       );
 
-      // Step 5: Calculate position size (20% of USDC balance)
+      // Step 5: Calculate position size with the profile's sizing strategy,
+      // unless the signal fixes a share of the base token balance
       flowLogger.step(flowName, "Calculating Position Size");
+      const baseToken = profile?.baseToken || "USDC";
+      const sizingStrategy = this.profileService.getSizingStrategy(
+        profile,
+        this.positionSizingService.getConfig().defaultStrategy
+      );
       const positionCalculation =
         await this.positionSizingService.calculatePositionSize(
           signalData.safeAddress,
-          "USDC", // Base trading token
+          baseToken,
           safeCompatibility.tokenChainInfo,
-          20 // 20% as requested
+          signalData.positionSizePercent,
+          {
+            strategy: sizingStrategy,
+            inputs: await this.getSizingInputs(
+              signalData,
+              sizingStrategy,
+              safeCompatibility.tokenChainInfo
+            ),
+          }
         );
 
       tradingLogger.validation(`Position calculation result:`, {
@@ -355,21 +729,28 @@ class ApiSignalProcessor extends EventEmitter {
         meetsMinimum: positionCalculation.meetsMinimum,
         positionSize: positionCalculation.positionSizeFormatted,
         minimumRequired: positionCalculation.minimumRequired,
+        sizingMode: positionCalculation.sizingMode,
+        sizingRationale: positionCalculation.sizingRationale,
         error: positionCalculation.error,
       });
 
       if (!positionCalculation.success || !positionCalculation.meetsMinimum) {
-        throw errorHandler.createError("POSITION_SIZE_TOO_SMALL", {
-          service: "api-signal-processor",
-          operation: "processSignalEnhanced",
-          userId: signalData.username,
-          safeAddress: signalData.safeAddress,
-          positionSize: positionCalculation.positionSizeFormatted,
-        });
+        throw errorHandler.createError(
+          "POSITION_SIZE_TOO_SMALL",
+          {
+            service: "api-signal-processor",
+            operation: "processSignalEnhanced",
+            userId: signalData.username,
+            safeAddress: signalData.safeAddress,
+            positionSize: positionCalculation.positionSizeFormatted,
+          },
+          undefined,
+          positionCalculation.error
+        );
       }
 
       tradingLogger.trade(
-        `Position size calculated: ${positionCalculation.positionSizeFormatted} USDC`,
+        `Position size calculated: ${positionCalculation.positionSizeFormatted} ${baseToken}`,
         {
           amount: positionCalculation.positionSizeFormatted,
           percentage: positionCalculation.positionSizePercentage,
@@ -386,14 +767,26 @@ class ApiSignalProcessor extends EventEmitter {
         positionCalculation
       );
 
-      // Step 7: Execute the trade
+      // Step 7: Execute the trade, unless a kill switch now covers its
+      // network or the risk engine refuses the entry. The reservation holds
+      // a slot against the daily caps until the trade is recorded.
       flowLogger.step(flowName, "Executing Trade");
-      await this.executeTradeEnhanced(
-        tradingPair,
-        signalData,
-        positionCalculation,
-        tokenDetection // Pass token detection results
+      this.assertEntryAllowed(signalData, tradingPair.networkKey);
+      const reservation = await this.riskEngine.reserveEntry(
+        signalData.username
       );
+      this.assertRiskAllowed(signalData, reservation);
+      try {
+        await this.executeTradeEnhanced(
+          tradingPair,
+          signalData,
+          positionCalculation,
+          tokenDetection, // Pass token detection results
+          profile
+        );
+      } finally {
+        reservation.release();
+      }
 
       return {
         signalId,
@@ -401,14 +794,17 @@ class ApiSignalProcessor extends EventEmitter {
         status: "success",
       };
     } catch (error) {
-      if (error.code) {
+      // Transient failures (a failed swap quote, an RPC outage) keep a
+      // retryable code so the signal queue tries them again
+      const retryableCode = errorHandler.getRetryableCode(error);
+      if (error.code && !(error instanceof Error && retryableCode)) {
         // Already a TradingError, re-throw
         throw error;
       }
 
       // Wrap unknown errors
       throw errorHandler.createError(
-        "SIGNAL_PROCESSING_FAILED",
+        retryableCode || "SIGNAL_PROCESSING_FAILED",
         {
           service: "api-signal-processor",
           operation: "processSignalEnhanced",
@@ -421,50 +817,174 @@ class ApiSignalProcessor extends EventEmitter {
     }
   }
 
-  private validateSignalData(signalData: ApiSignal): void {
-    if (
-      !signalData["Signal Message"] ||
-      !["buy", "sell"].includes(signalData["Signal Message"])
-    ) {
-      throw new Error("Invalid signal message");
+  private assertEntryAllowed(signalData: ApiSignal, networkKey?: string): void {
+    const killSwitch = this.killSwitchService?.getBlockingSwitch({
+      username: signalData.username,
+      token: signalData["Token Mentioned"],
+      networkKey,
+    });
+    if (!killSwitch) {
+      return;
+    }
+
+    throw errorHandler.createError(
+      "TRADING_HALTED",
+      {
+        service: "api-signal-processor",
+        operation: "assertEntryAllowed",
+        userId: signalData.username,
+        tokenSymbol: signalData["Token Mentioned"],
+        networkKey,
+        killSwitch: killSwitch.key,
+      },
+      undefined,
+      `New entries halted by kill switch ${killSwitch.key}: ${killSwitch.reason}`
+    );
+  }
+
+  private assertProfileAllows(
+    signalData: ApiSignal,
+    restriction: string | null
+  ): void {
+    if (!restriction) {
+      return;
     }
 
-    if (!signalData["Token Mentioned"]) {
-      throw new Error("Token mentioned is required");
+    throw errorHandler.createError(
+      "PROFILE_RESTRICTION",
+      {
+        service: "api-signal-processor",
+        operation: "assertProfileAllows",
+        userId: signalData.username,
+        tokenSymbol: signalData["Token Mentioned"],
+      },
+      undefined,
+      restriction
+    );
+  }
+
+  private assertRiskAllowed(
+    signalData: ApiSignal,
+    decision: RiskDecision
+  ): void {
+    if (decision.allowed) {
+      return;
     }
 
-    if (!signalData.username) {
-      throw new Error("Username is required");
+    throw errorHandler.createError(
+      "RISK_LIMIT_BREACHED",
+      {
+        service: "api-signal-processor",
+        operation: "assertRiskAllowed",
+        userId: signalData.username,
+        tokenSymbol: signalData["Token Mentioned"],
+        circuitBreaker: decision.breaker?.key,
+      },
+      undefined,
+      decision.reason
+    );
+  }
+
+  /**
+   * Market and track-record data for the strategy; ATR and trade history are
+   * only looked up for the modes that use them
+   */
+  private async getSizingInputs(
+    signalData: ApiSignal,
+    strategy: SizingStrategy,
+    tokenChainInfo: TokenChainInfo
+  ): Promise<SizingInputs> {
+    const inputs: SizingInputs = {
+      entryPrice: signalData["Current Price"],
+      stopLoss: signalData.SL,
+    };
+    if (signalData.positionSizePercent !== undefined) {
+      return inputs;
     }
 
-    if (!signalData.safeAddress) {
-      throw new Error("Safe address is required");
+    if (strategy.mode === "volatility") {
+      const range = await this.priceMonitoringService
+        .getPriceOracle()
+        .getAverageTrueRange({
+          symbol: signalData["Token Mentioned"],
+          tokenAddress: tokenChainInfo.contractAddress,
+          networkKey: tokenChainInfo.networkKey,
+        });
+      inputs.atr = range?.atr;
     }
 
-    if (!signalData["Current Price"] || signalData["Current Price"] <= 0) {
-      throw new Error("Valid current price is required");
+    if (strategy.mode === "kelly") {
+      Object.assign(
+        inputs,
+        this.tradeStateManager.getEdgeStats(signalData.username)
+      );
     }
 
-    if (!signalData["Max Exit Time"] || !signalData["Max Exit Time"]["$date"]) {
-      throw new Error("Valid max exit time is required");
+    return inputs;
+  }
+
+  private validateSignalData(signalData: ApiSignal): void {
+    const errors = validateApiSignal(signalData);
+    if (errors.length > 0) {
+      throw new Error(
+        errors.map((error) => `${error.field}: ${error.message}`).join("; ")
+      );
     }
+  }
 
-    // Validate TP and SL values
-    if (signalData["Signal Message"] === "buy") {
-      if (signalData.TP1 <= signalData["Current Price"]) {
-        throw new Error("TP1 must be higher than current price for buy signal");
-      }
-      if (signalData.SL >= signalData["Current Price"]) {
-        throw new Error("SL must be lower than current price for buy signal");
-      }
-    } else {
-      if (signalData.TP1 >= signalData["Current Price"]) {
-        throw new Error("TP1 must be lower than current price for sell signal");
-      }
-      if (signalData.SL <= signalData["Current Price"]) {
-        throw new Error("SL must be higher than current price for sell signal");
+  /**
+   * Detect the chains a signal's token trades on, narrowed to the signal's
+   * chain hint and contract address when it carries them. A contract on a
+   * hinted chain that detection does not know is used as given.
+   */
+  private async detectSignalTokenChains(
+    signalData: ApiSignal
+  ): Promise<ChainDetectionResult> {
+    const symbol = signalData["Token Mentioned"];
+    const { contractAddress, networkKey } = signalData;
+    const detection = await this.tokenChainService.detectTokenChains(symbol);
+
+    if (!contractAddress && !networkKey) {
+      return detection;
+    }
+
+    const candidates = (detection.tokenInfo || []).filter(
+      (info) =>
+        (!networkKey || info.networkKey === networkKey) &&
+        (!contractAddress ||
+          info.contractAddress?.toLowerCase() === contractAddress.toLowerCase())
+    );
+
+    if (candidates.length === 0 && contractAddress && networkKey) {
+      const network = NetworkUtils.getNetworkByKey(networkKey);
+      if (network) {
+        const pinned: TokenChainInfo = {
+          symbol: symbol.toUpperCase(),
+          contractAddress,
+          chainId: network.chainId,
+          networkKey,
+          verified: false,
+          source: "manual",
+        };
+        this.logger.info(
+          `📌 Using signal-supplied contract ${contractAddress} for ${symbol} on ${networkKey}`
+        );
+        return { success: true, tokenInfo: [pinned], primaryChain: pinned };
       }
     }
+
+    if (candidates.length === 0) {
+      return {
+        success: false,
+        error: `Token ${symbol} not found${networkKey ? ` on ${networkKey}` : ""}${contractAddress ? ` at ${contractAddress}` : ""}`,
+      };
+    }
+
+    const primaryChain =
+      candidates.find(
+        (info) => info.networkKey === detection.primaryChain?.networkKey
+      ) || candidates[0];
+    return { success: true, tokenInfo: candidates, primaryChain };
   }
 
   private async processSignal(
@@ -593,7 +1113,8 @@ class ApiSignalProcessor extends EventEmitter {
     tradingPair: ProcessedTradingPair,
     signalData: ApiSignal,
     positionCalculation: any,
-    tokenDetection?: any
+    tokenDetection?: any,
+    profile?: TradingProfile | null
   ): Promise<void> {
     try {
       // Convert signal data to the format expected by the trade execution service
@@ -610,6 +1131,11 @@ class ApiSignalProcessor extends EventEmitter {
         sl: signalData.SL,
         maxExitTime: new Date(signalData["Max Exit Time"]["$date"]),
         signalId: tradingPair.tradeId.split("_")[0],
+        // Profile overrides, carried through to monitoring and exits
+        baseToken: profile?.baseToken,
+        slippagePercent: profile?.slippagePercent,
+        trailingStopPercent: profile?.trailingStopPercent,
+        trailingStopEnabled: profile?.enableTrailingStop,
       };
 
       tradingLogger.trade(
@@ -770,23 +1296,6 @@ class ApiSignalProcessor extends EventEmitter {
     }
   }
 
-  private async processExecutionQueue(): Promise<void> {
-    try {
-      // Process any pending trades in the execution queue
-      const pendingTrades = await this.tradeStateManager.getPendingTrades();
-
-      for (const trade of pendingTrades) {
-        try {
-          await this.tradeExecutionService.retryFailedTrade(trade);
-        } catch (error) {
-          this.logger.error(`Error retrying trade ${trade.tradeId}:`, error);
-        }
-      }
-    } catch (error) {
-      this.logger.error("Error processing execution queue:", error);
-    }
-  }
-
   private async handleTradeExit(exitData: any): Promise<void> {
     try {
       this.logger.info(
@@ -835,4 +1344,13 @@ class ApiSignalProcessor extends EventEmitter {
 }
 
 export default ApiSignalProcessor;
-export { ApiSignal, ProcessedSignal, ProcessedTradingPair, TradingConfig };
+export {
+  ApiSignal,
+  BroadcastSignal,
+  ProcessedSignal,
+  ProcessedTradingPair,
+  SubscriberSignal,
+  SubscriberSignalResult,
+  FanOutResult,
+  TradingConfig,
+};
@@ -0,0 +1,148 @@
+import crypto from "crypto";
+import AuthService, { AuthPrincipal } from "./AuthService";
+import DatabaseService from "./DatabaseService";
+
+const SECRET = "test-jwt-secret";
+
+function encode(value: object): string {
+  return Buffer.from(JSON.stringify(value)).toString("base64url");
+}
+
+function signJwt(
+  payload: object,
+  { header = { alg: "HS256", typ: "JWT" }, secret = SECRET } = {}
+): string {
+  const unsigned = `${encode(header)}.${encode(payload)}`;
+  const signature = crypto
+    .createHmac("sha256", secret)
+    .update(unsigned)
+    .digest("base64url");
+  return `${unsigned}.${signature}`;
+}
+
+describe("AuthService JWT verification", () => {
+  const now = Math.floor(Date.now() / 1000);
+  let service: AuthService;
+
+  const authenticate = (token: string) =>
+    service.authenticateCredentials(`Bearer ${token}`);
+
+  beforeEach(() => {
+    process.env["JWT_ISSUER"] = "spot-trading";
+    process.env["JWT_AUDIENCE"] = "trading-api";
+    service = new AuthService(undefined, SECRET);
+  });
+
+  afterEach(() => {
+    delete process.env["JWT_ISSUER"];
+    delete process.env["JWT_AUDIENCE"];
+  });
+
+  const claims = {
+    sub: "alice",
+    scopes: ["trade-control"],
+    iss: "spot-trading",
+    aud: "trading-api",
+    exp: now + 3600,
+  };
+
+  it("accepts a well-formed HS256 token", async () => {
+    await expect(authenticate(signJwt(claims))).resolves.toEqual({
+      username: "alice",
+      scopes: ["trade-control"],
+      method: "jwt",
+    });
+  });
+
+  it("rejects tokens that pick another algorithm", async () => {
+    const unsigned = `${encode({ alg: "none" })}.${encode(claims)}`;
+    await expect(authenticate(`${unsigned}.`)).rejects.toThrow(
+      "Unsupported token algorithm"
+    );
+    await expect(
+      authenticate(signJwt(claims, { header: { alg: "HS512", typ: "JWT" } }))
+    ).rejects.toThrow("Unsupported token algorithm");
+  });
+
+  it("rejects a token signed with another secret", async () => {
+    await expect(
+      authenticate(signJwt(claims, { secret: "not-the-secret" }))
+    ).rejects.toThrow("Invalid token signature");
+  });
+
+  it("rejects a token whose claims were altered after signing", async () => {
+    const [header, , signature] = signJwt(claims).split(".");
+    const forged = encode({ ...claims, scopes: ["admin"] });
+    await expect(
+      authenticate(`${header}.${forged}.${signature}`)
+    ).rejects.toThrow("Invalid token signature");
+  });
+
+  it("rejects expired and not-yet-valid tokens", async () => {
+    await expect(
+      authenticate(signJwt({ ...claims, exp: now - 1 }))
+    ).rejects.toThrow("Token expired");
+    await expect(
+      authenticate(signJwt({ ...claims, nbf: now + 600 }))
+    ).rejects.toThrow("Token not yet valid");
+  });
+
+  it("rejects tokens for another issuer or audience", async () => {
+    await expect(
+      authenticate(signJwt({ ...claims, iss: "someone-else" }))
+    ).rejects.toThrow("Invalid token issuer");
+    await expect(
+      authenticate(signJwt({ ...claims, aud: ["other-api"] }))
+    ).rejects.toThrow("Invalid token audience");
+  });
+});
+
+describe("AuthService API key issuance", () => {
+  const storeApiKey = jest.fn(async () => true);
+  const service = new AuthService(
+    { storeApiKey } as unknown as DatabaseService,
+    SECRET
+  );
+
+  const principal = (scopes: AuthPrincipal["scopes"]): AuthPrincipal => ({
+    username: "alice",
+    scopes,
+    method: "jwt",
+  });
+
+  beforeEach(() => storeApiKey.mockClear());
+
+  it("refuses to grant scopes the issuer does not hold", async () => {
+    await expect(
+      service.createApiKey(principal(["trade-control"]), ["admin"])
+    ).rejects.toThrow("Cannot grant scopes you do not hold: admin");
+    await expect(
+      service.createApiKey(principal(["read-only"]), [
+        "read-only",
+        "signal-ingest",
+      ])
+    ).rejects.toThrow("Cannot grant scopes you do not hold: signal-ingest");
+    expect(storeApiKey).not.toHaveBeenCalled();
+  });
+
+  it("refuses to issue keys from a signed webhook", async () => {
+    await expect(
+      service.createApiKey(
+        { ...principal(["signal-ingest"]), method: "signed-webhook" },
+        ["signal-ingest"]
+      )
+    ).rejects.toThrow("Signed webhooks cannot issue API keys");
+  });
+
+  it("issues keys within the issuer's own scopes", async () => {
+    const created = await service.createApiKey(principal(["trade-control"]), [
+      "read-only",
+    ]);
+
+    expect(created.scopes).toEqual(["read-only"]);
+    expect(created.apiKey).toMatch(/^sta_[0-9a-f]{64}$/);
+    expect(storeApiKey).toHaveBeenCalledWith(
+      expect.objectContaining({ username: "alice", scopes: ["read-only"] })
+    );
+  });
+});
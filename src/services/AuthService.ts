@@ -0,0 +1,448 @@
+import crypto from "crypto";
+import { NextFunction, Request, RequestHandler, Response } from "express";
+import { logger } from "../config/logger";
+import DatabaseService from "./DatabaseService";
+import SignalWebhookService, {
+  SIGNATURE_HEADERS,
+  SignedRequest,
+} from "./SignalWebhookService";
+
+type AuthScope = "signal-ingest" | "trade-control" | "read-only" | "admin";
+
+interface AuthPrincipal {
+  username: string;
+  scopes: AuthScope[];
+  method: "jwt" | "api-key" | "signed-webhook";
+  keyId?: string; // set for API key callers
+  providerId?: string; // set for signed webhook callers
+}
+
+interface CreatedApiKey {
+  keyId: string;
+  apiKey: string; // only ever returned at creation time
+  username: string;
+  scopes: AuthScope[];
+  label?: string;
+}
+
+const AUTH_SCOPES: AuthScope[] = [
+  "signal-ingest",
+  "trade-control",
+  "read-only",
+  "admin",
+];
+const API_KEY_PREFIX = "sta_";
+
+/**
+ * Authenticates API callers and authorizes what they may touch
+ *
+ * Callers present either a JWT signed with JWT_SECRET (HS256) as
+ * "Authorization: Bearer <token>", or an API key as "X-API-Key". API keys are
+ * stored hashed and carry their own scopes. Registered signal providers can
+ * instead sign each request (see SignalWebhookService) and are treated as
+ * their owner with only the signal-ingest scope. Scopes gate the kind of route:
+ * - signal-ingest: submit trading signals
+ * - trade-control: execute, exit and revoke on the caller's own Safes
+ * - read-only: view status, trades and allowances (implied by every scope)
+ * - admin: system-wide control and access to every user's Safes
+ *
+ * Outside admin, callers may only act on Safes owned by their username in the
+ * safes collection.
+ */
+class AuthService {
+  private databaseService: DatabaseService | null;
+  private readonly jwtSecret: string | undefined;
+  private readonly jwtIssuer = process.env["JWT_ISSUER"];
+  private readonly jwtAudience = process.env["JWT_AUDIENCE"];
+  private readonly requireSignedSignals =
+    process.env["SIGNAL_WEBHOOK_REQUIRE_SIGNATURE"] !== "false";
+  private signalWebhookService: SignalWebhookService;
+
+  constructor(
+    databaseService?: DatabaseService,
+    jwtSecret?: string,
+    signalWebhookService?: SignalWebhookService
+  ) {
+    this.databaseService = databaseService || null;
+    this.jwtSecret = jwtSecret ?? process.env["JWT_SECRET"];
+    this.signalWebhookService =
+      signalWebhookService || new SignalWebhookService(databaseService);
+
+    if (!this.jwtSecret) {
+      logger.warn("⚠️ JWT_SECRET not set - only API keys will be accepted");
+    }
+  }
+
+  setDatabaseService(databaseService: DatabaseService): void {
+    this.databaseService = databaseService;
+    this.signalWebhookService.setDatabaseService(databaseService);
+  }
+
+  getSignalWebhookService(): SignalWebhookService {
+    return this.signalWebhookService;
+  }
+
+  /**
+   * Middleware that resolves the caller into res.locals.principal or answers
+   * 401. Use requireScope() after it to gate individual routes. Signed
+   * webhooks are verified over req.rawBody, so this must run after body
+   * parsing has captured it.
+   */
+  authenticate(): RequestHandler {
+    return async (req: Request, res: Response, next: NextFunction) => {
+      try {
+        const principal = req.header(SIGNATURE_HEADERS.signature)
+          ? await this.authenticateSignedRequest({
+              providerId: req.header(SIGNATURE_HEADERS.providerId),
+              timestamp: req.header(SIGNATURE_HEADERS.timestamp),
+              nonce: req.header(SIGNATURE_HEADERS.nonce),
+              signature: req.header(SIGNATURE_HEADERS.signature),
+              rawBody: (req as any).rawBody || "",
+            })
+          : await this.authenticateCredentials(
+              req.header("authorization"),
+              req.header("x-api-key")
+            );
+        res.locals["principal"] = principal;
+        next();
+      } catch (error) {
+        res.status(401).json({
+          error: "Unauthorized",
+          message:
+            error instanceof Error ? error.message : "Invalid credentials",
+        });
+      }
+    };
+  }
+
+  requireScope(scope: AuthScope): RequestHandler {
+    return (req: Request, res: Response, next: NextFunction) => {
+      const principal = getPrincipal(res);
+      if (!principal) {
+        return res.status(401).json({ error: "Unauthorized" });
+      }
+
+      if (!this.hasScope(principal, scope)) {
+        return res.status(403).json({
+          error: "Forbidden",
+          message: `This route requires the "${scope}" scope`,
+        });
+      }
+
+      next();
+    };
+  }
+
+  /**
+   * Middleware for signal ingestion: unless SIGNAL_WEBHOOK_REQUIRE_SIGNATURE
+   * is "false", signals must arrive as signed webhooks (admins exempt), since
+   * a bearer-authenticated request can be replayed as-is
+   */
+  requireSignedSignal(): RequestHandler {
+    return (req: Request, res: Response, next: NextFunction) => {
+      const principal = getPrincipal(res);
+      if (!principal) {
+        return res.status(401).json({ error: "Unauthorized" });
+      }
+
+      if (
+        this.requireSignedSignals &&
+        principal.method !== "signed-webhook" &&
+        !principal.scopes.includes("admin")
+      ) {
+        return res.status(401).json({
+          error: "Unauthorized",
+          message: `Signals must be signed with ${Object.values(SIGNATURE_HEADERS).join(", ")}`,
+        });
+      }
+
+      next();
+    };
+  }
+
+  /**
+   * Middleware that answers 403 unless the caller owns the Safe named in the
+   * request, e.g. requireSafeOwnership((req) => req.params["safeAddress"])
+   */
+  requireSafeOwnership(
+    getSafeAddress: (req: Request) => string
+  ): RequestHandler {
+    return async (req: Request, res: Response, next: NextFunction) => {
+      const principal = getPrincipal(res);
+      if (!principal) {
+        return res.status(401).json({ error: "Unauthorized" });
+      }
+
+      const safeAddress = getSafeAddress(req);
+      if (!(await this.canAccessSafe(principal, safeAddress))) {
+        return res.status(403).json({
+          error: "Forbidden",
+          message: `Safe ${safeAddress} is not owned by ${principal.username}`,
+        });
+      }
+
+      next();
+    };
+  }
+
+  /**
+   * Resolve a caller from an Authorization header value and/or API key.
+   * Throws with a client-safe message when neither is valid.
+   */
+  async authenticateCredentials(
+    authorization?: string,
+    apiKey?: string
+  ): Promise<AuthPrincipal> {
+    if (apiKey) {
+      return this.verifyApiKey(apiKey);
+    }
+
+    const match = authorization?.match(/^Bearer\s+(.+)$/i);
+    if (!match) {
+      throw new Error("Missing Bearer token or X-API-Key header");
+    }
+
+    const token = match[1].trim();
+    return token.startsWith(API_KEY_PREFIX)
+      ? this.verifyApiKey(token)
+      : this.verifyJwt(token);
+  }
+
+  async authenticateSignedRequest(
+    request: SignedRequest
+  ): Promise<AuthPrincipal> {
+    const provider = await this.signalWebhookService.verify(request);
+    return {
+      username: provider.username,
+      scopes: ["signal-ingest"],
+      method: "signed-webhook",
+      providerId: provider.providerId,
+    };
+  }
+
+  hasScope(principal: AuthPrincipal, scope: AuthScope): boolean {
+    if (principal.scopes.includes("admin")) {
+      return true;
+    }
+    if (scope === "read-only") {
+      return principal.scopes.length > 0;
+    }
+    return principal.scopes.includes(scope);
+  }
+
+  canActAsUser(principal: AuthPrincipal, username: string): boolean {
+    return (
+      principal.scopes.includes("admin") || principal.username === username
+    );
+  }
+
+  async canAccessSafe(
+    principal: AuthPrincipal,
+    safeAddress: string
+  ): Promise<boolean> {
+    if (principal.scopes.includes("admin")) {
+      return true;
+    }
+    if (!this.databaseService) {
+      logger.warn("⚠️ Safe ownership check without a database, denying");
+      return false;
+    }
+    return this.databaseService.isSafeOwnedBy(principal.username, safeAddress);
+  }
+
+  /**
+   * Issue an API key for a user. Scopes can never exceed the issuer's own.
+   */
+  async createApiKey(
+    issuer: AuthPrincipal,
+    scopes: AuthScope[],
+    label?: string
+  ): Promise<CreatedApiKey> {
+    // A provider's signing secret must not be convertible into a bearer key
+    if (issuer.method === "signed-webhook") {
+      throw new Error("Signed webhooks cannot issue API keys");
+    }
+
+    const requested = this.parseScopes(scopes);
+    if (requested.length === 0) {
+      throw new Error(`scopes must include one of: ${AUTH_SCOPES.join(", ")}`);
+    }
+
+    const escalated = requested.filter(
+      (scope) => !this.hasScope(issuer, scope)
+    );
+    if (escalated.length > 0) {
+      throw new Error(
+        `Cannot grant scopes you do not hold: ${escalated.join(", ")}`
+      );
+    }
+
+    if (!this.databaseService) {
+      throw new Error("Database service not available");
+    }
+
+    const keyId = crypto.randomUUID();
+    const apiKey = `${API_KEY_PREFIX}${crypto.randomBytes(32).toString("hex")}`;
+    const stored = await this.databaseService.storeApiKey({
+      keyId,
+      keyHash: this.hashApiKey(apiKey),
+      username: issuer.username,
+      scopes: requested,
+      label,
+    });
+    if (!stored) {
+      throw new Error("Failed to store API key");
+    }
+
+    logger.info(
+      `🔑 API key ${keyId} issued to ${issuer.username} with scopes [${requested.join(", ")}]`
+    );
+    return {
+      keyId,
+      apiKey,
+      username: issuer.username,
+      scopes: requested,
+      label,
+    };
+  }
+
+  async listApiKeys(username: string): Promise<any[]> {
+    return this.databaseService
+      ? this.databaseService.getApiKeys(username)
+      : [];
+  }
+
+  async revokeApiKey(username: string, keyId: string): Promise<boolean> {
+    if (!this.databaseService) {
+      return false;
+    }
+
+    const revoked = await this.databaseService.revokeApiKey(username, keyId);
+    if (revoked) {
+      logger.info(`🔑 API key ${keyId} revoked by ${username}`);
+    }
+    return revoked;
+  }
+
+  private async verifyApiKey(apiKey: string): Promise<AuthPrincipal> {
+    if (!this.databaseService) {
+      throw new Error("API keys are unavailable");
+    }
+
+    const record = await this.databaseService.findApiKeyByHash(
+      this.hashApiKey(apiKey)
+    );
+    if (!record) {
+      throw new Error("Invalid API key");
+    }
+
+    this.databaseService.touchApiKey(record.keyId);
+    return {
+      username: record.username,
+      scopes: this.parseScopes(record.scopes),
+      method: "api-key",
+      keyId: record.keyId,
+    };
+  }
+
+  private verifyJwt(token: string): AuthPrincipal {
+    if (!this.jwtSecret) {
+      throw new Error("JWT authentication is not configured");
+    }
+
+    const parts = token.split(".");
+    if (parts.length !== 3) {
+      throw new Error("Malformed token");
+    }
+    const [encodedHeader, encodedPayload, signature] = parts;
+
+    let header: any;
+    let payload: any;
+    try {
+      header = JSON.parse(Buffer.from(encodedHeader, "base64url").toString());
+      payload = JSON.parse(Buffer.from(encodedPayload, "base64url").toString());
+    } catch {
+      throw new Error("Malformed token");
+    }
+
+    // Pin the algorithm so a token cannot pick "none" or another scheme
+    if (header?.alg !== "HS256") {
+      throw new Error("Unsupported token algorithm");
+    }
+
+    const expected = crypto
+      .createHmac("sha256", this.jwtSecret)
+      .update(`${encodedHeader}.${encodedPayload}`)
+      .digest();
+    const actual = Buffer.from(signature, "base64url");
+    if (
+      actual.length !== expected.length ||
+      !crypto.timingSafeEqual(actual, expected)
+    ) {
+      throw new Error("Invalid token signature");
+    }
+
+    const now = Math.floor(Date.now() / 1000);
+    if (typeof payload.exp === "number" && payload.exp <= now) {
+      throw new Error("Token expired");
+    }
+    if (typeof payload.nbf === "number" && payload.nbf > now) {
+      throw new Error("Token not yet valid");
+    }
+    if (this.jwtIssuer && payload.iss !== this.jwtIssuer) {
+      throw new Error("Invalid token issuer");
+    }
+    if (this.jwtAudience) {
+      const audiences = Array.isArray(payload.aud)
+        ? payload.aud
+        : [payload.aud];
+      if (!audiences.includes(this.jwtAudience)) {
+        throw new Error("Invalid token audience");
+      }
+    }
+
+    const username = payload.sub || payload.username;
+    if (!username) {
+      throw new Error("Token has no subject");
+    }
+
+    return {
+      username: String(username),
+      scopes: this.parseScopes(payload.scopes ?? payload.scope),
+      method: "jwt",
+    };
+  }
+
+  /**
+   * Accepts an array or the space-separated OAuth "scope" form, dropping
+   * anything that is not a known scope
+   */
+  private parseScopes(raw: unknown): AuthScope[] {
+    const values = Array.isArray(raw)
+      ? raw
+      : typeof raw === "string"
+        ? raw.split(/\s+/)
+        : [];
+    return Array.from(
+      new Set(
+        values.filter((value): value is AuthScope =>
+          AUTH_SCOPES.includes(value as AuthScope)
+        )
+      )
+    );
+  }
+
+  private hashApiKey(apiKey: string): string {
+    return crypto.createHash("sha256").update(apiKey).digest("hex");
+  }
+}
+
+/**
+ * The caller resolved by AuthService.authenticate() for this request
+ */
+function getPrincipal(res: Response): AuthPrincipal | undefined {
+  return res.locals["principal"];
+}
+
+export default AuthService;
+export { AuthScope, AuthPrincipal, CreatedApiKey, AUTH_SCOPES, getPrincipal };
@@ -0,0 +1,634 @@
+import { logger } from "../config/logger";
+import DatabaseService from "./DatabaseService";
+import { ApiSignal } from "./ApiSignalProcessor";
+import { PositionSizingService, SizingStrategy } from "./PositionSizingService";
+import PriceOracleService, { PriceCandle } from "./PriceOracleService";
+import {
+  ExitCondition,
+  ExitState,
+  ScaleOutConfig,
+  resolveScaleOutConfig,
+  getTrailingStopPrice,
+  updateTrailingStop,
+  checkExitConditions,
+  getExitPercentage,
+} from "./TradeMonitoringService";
+
+/**
+ * A signal as it was received. The time defaults to createdAt for records
+ * exported from the signals collection.
+ */
+type HistoricalSignal = ApiSignal & {
+  timestamp?: string | Date | { $date: string };
+  createdAt?: string | Date | { $date: string };
+};
+
+interface BacktestConfig {
+  startingEquityUsd: number;
+  slippagePercent: number; // charged against every fill
+  gasUsdPerSwap: number; // entry and each exit leg is one swap
+  sizing: SizingStrategy;
+  trailingStopEnabled: boolean;
+  trailingStopPercent: number;
+  scaleOut: ScaleOutConfig;
+  atrPeriods: number; // candles before entry used for volatility sizing
+}
+
+interface BacktestExitLeg {
+  exitType: ExitCondition["type"] | "END_OF_DATA";
+  exitPercentage: number; // of the original position
+  quantity: number;
+  marketPrice: number;
+  fillPrice: number; // after slippage
+  pnlUsd: number; // before gas
+  exitedAt: Date;
+}
+
+interface BacktestTrade {
+  signalIndex: number; // position in the input file
+  tokenSymbol: string;
+  signalMessage: "buy" | "sell";
+  signalTime: Date;
+  status: "closed" | "skipped";
+  skipReason?: string;
+  sizingPercent?: number;
+  positionUsd?: number;
+  quantity?: number;
+  entryTime?: Date;
+  entryMarketPrice?: number;
+  entryFillPrice?: number;
+  exitLegs: BacktestExitLeg[];
+  exitType?: BacktestExitLeg["exitType"]; // of the final leg
+  exitTime?: Date;
+  gasUsd: number;
+  slippageUsd: number;
+  pnlUsd: number; // after gas and slippage
+  returnPercent: number; // of positionUsd
+}
+
+interface BacktestSummary {
+  signals: number;
+  trades: number;
+  skipped: number;
+  wins: number;
+  losses: number;
+  winRate: number; // %
+  expectancyUsd: number; // average P&L per trade
+  expectancyPercent: number; // average return per trade
+  averageWinUsd: number;
+  averageLossUsd: number;
+  totalPnlUsd: number;
+  totalGasUsd: number;
+  totalSlippageUsd: number;
+  startingEquityUsd: number;
+  endingEquityUsd: number;
+  returnPercent: number;
+  maxDrawdownUsd: number;
+  maxDrawdownPercent: number; // from the highest equity reached
+  sharpeRatio: number | null; // annualized from daily equity, null with under 2 days
+}
+
+interface BacktestResult {
+  config: BacktestConfig;
+  trades: BacktestTrade[];
+  summary: BacktestSummary;
+  from?: Date;
+  to?: Date;
+}
+
+// Candles before the signal loaded for volatility sizing
+const LOOKBACK_MS = 7 * 24 * 60 * 60 * 1000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Replays historical signals against stored candles
+ *
+ * Each signal enters at the open of the first candle at or after it was
+ * received and is then walked through its candles with the same exit rules
+ * live monitoring uses (checkExitConditions, trailing stop, TP1 scale-out and
+ * break-even stop). Within a candle the price is assumed to move
+ * open → low → high → close on an up candle and open → high → low → close on
+ * a down candle. A level crossed inside a candle fills at the level, a gap
+ * through it fills at the candle's open. Every fill pays slippage and every
+ * swap a fixed gas cost. Positions are sized by the configured strategy from
+ * the equity realized before the signal.
+ */
+class BacktestService {
+  private config: BacktestConfig;
+
+  constructor(
+    private databaseService: DatabaseService,
+    private positionSizingService: PositionSizingService = new PositionSizingService(),
+    config?: Partial<BacktestConfig>
+  ) {
+    this.config = {
+      startingEquityUsd: parseFloat(
+        process.env["BACKTEST_STARTING_EQUITY"] || "10000"
+      ),
+      slippagePercent: parseFloat(
+        process.env["BACKTEST_SLIPPAGE_PERCENT"] || "0.5"
+      ),
+      gasUsdPerSwap: parseFloat(process.env["BACKTEST_GAS_USD"] || "0.5"),
+      sizing: this.positionSizingService.getConfig().defaultStrategy,
+      trailingStopEnabled: true,
+      trailingStopPercent: 1,
+      scaleOut: resolveScaleOutConfig(config?.scaleOut),
+      atrPeriods: 14,
+      ...config,
+    };
+  }
+
+  getConfig(): BacktestConfig {
+    return this.config;
+  }
+
+  async run(signals: HistoricalSignal[]): Promise<BacktestResult> {
+    const ordered = signals
+      .map((signal, signalIndex) => ({
+        signal,
+        signalIndex,
+        signalTime: this.getSignalTime(signal),
+      }))
+      .sort(
+        (a, b) =>
+          (a.signalTime?.getTime() ?? 0) - (b.signalTime?.getTime() ?? 0)
+      );
+
+    logger.info(`🧪 Backtesting ${signals.length} signal(s)`);
+
+    const trades: BacktestTrade[] = [];
+    for (const { signal, signalIndex, signalTime } of ordered) {
+      const closed = trades.filter(
+        (t) => t.status === "closed" && t.exitTime! <= signalTime
+      );
+      const trade = await this.simulateTrade(
+        signal,
+        signalIndex,
+        signalTime,
+        closed
+      );
+      if (trade.status === "skipped") {
+        logger.warn(
+          `⚠️ Signal #${signalIndex} (${trade.tokenSymbol}) skipped: ${trade.skipReason}`
+        );
+      }
+      trades.push(trade);
+    }
+
+    trades.sort((a, b) => a.signalIndex - b.signalIndex);
+    const summary = this.summarize(trades);
+    logger.info(
+      `🧪 Backtest done: ${summary.trades} trade(s), ${summary.winRate.toFixed(1)}% wins, P&L $${summary.totalPnlUsd.toFixed(2)}`
+    );
+
+    const times = ordered
+      .map((o) => o.signalTime)
+      .filter((time): time is Date => !!time);
+    return {
+      config: this.config,
+      trades,
+      summary,
+      from: times[0],
+      to: times[times.length - 1],
+    };
+  }
+
+  /**
+   * Pull candles covering every signal's holding period from the price
+   * oracle into the candle store. Sources only keep recent history (30 days
+   * of 4-hour candles on CoinGecko), so older signals need candles imported
+   * from elsewhere.
+   */
+  async importCandles(
+    signals: HistoricalSignal[],
+    priceOracle: PriceOracleService
+  ): Promise<Record<string, number>> {
+    const imported: Record<string, number> = {};
+    const earliest: Map<string, number> = new Map();
+
+    for (const signal of signals) {
+      const signalTime = this.getSignalTime(signal);
+      const symbol = signal["Token Mentioned"]?.toUpperCase();
+      if (!signalTime || !symbol) continue;
+      earliest.set(
+        symbol,
+        Math.min(earliest.get(symbol) ?? Infinity, signalTime.getTime())
+      );
+    }
+
+    for (const [symbol, from] of earliest) {
+      const days = Math.min(
+        30,
+        Math.max(1, Math.ceil((Date.now() - from + LOOKBACK_MS) / DAY_MS))
+      );
+      const candles = await priceOracle.getCandles({ symbol }, days);
+      await this.databaseService.storePriceCandles(symbol, candles);
+      imported[symbol] = candles.length;
+      logger.info(`🕯️ Imported ${candles.length} ${symbol} candle(s)`);
+    }
+
+    return imported;
+  }
+
+  private async simulateTrade(
+    signal: HistoricalSignal,
+    signalIndex: number,
+    signalTime: Date | null,
+    closedTrades: BacktestTrade[]
+  ): Promise<BacktestTrade> {
+    const trade: BacktestTrade = {
+      signalIndex,
+      tokenSymbol: (signal["Token Mentioned"] || "").toUpperCase(),
+      signalMessage: signal["Signal Message"],
+      signalTime,
+      status: "skipped",
+      exitLegs: [],
+      gasUsd: 0,
+      slippageUsd: 0,
+      pnlUsd: 0,
+      returnPercent: 0,
+    };
+    const skip = (reason: string): BacktestTrade => ({
+      ...trade,
+      skipReason: reason,
+    });
+
+    const maxExitTime = new Date(signal["Max Exit Time"]?.$date);
+    if (!signalTime) {
+      return skip("Signal has no timestamp");
+    }
+    if (!trade.tokenSymbol) {
+      return skip("Signal has no token");
+    }
+    if (trade.signalMessage !== "buy" && trade.signalMessage !== "sell") {
+      return skip(`Unknown signal message ${trade.signalMessage}`);
+    }
+    if (isNaN(maxExitTime.getTime()) || maxExitTime <= signalTime) {
+      return skip("Max exit time must be after the signal");
+    }
+
+    const candles: PriceCandle[] = await this.databaseService.getPriceCandles(
+      trade.tokenSymbol,
+      new Date(signalTime.getTime() - LOOKBACK_MS),
+      maxExitTime
+    );
+    const entryIndex = candles.findIndex(
+      (candle) => new Date(candle.timestamp) >= signalTime
+    );
+    if (entryIndex === -1) {
+      return skip(
+        `No ${trade.tokenSymbol} candles between the signal and its max exit time`
+      );
+    }
+
+    const entryCandle = candles[entryIndex]!;
+    const entryMarketPrice = entryCandle.open;
+    const equityUsd =
+      this.config.startingEquityUsd +
+      closedTrades.reduce((sum, t) => sum + t.pnlUsd, 0);
+    if (!(equityUsd > 0)) {
+      return skip("No equity left");
+    }
+
+    const strategy: SizingStrategy =
+      signal.positionSizePercent !== undefined
+        ? {
+            ...this.config.sizing,
+            mode: "percent_equity",
+            percentOfEquity: signal.positionSizePercent,
+          }
+        : this.config.sizing;
+    const target = this.positionSizingService.resolveTargetPercentage(
+      strategy,
+      equityUsd,
+      {
+        entryPrice: entryMarketPrice,
+        stopLoss: signal.SL,
+        atr: this.getAverageTrueRange(candles.slice(0, entryIndex)),
+        ...this.getTrackRecord(closedTrades),
+      }
+    );
+    if (target.error || !(target.percentage > 0)) {
+      return skip(target.error || "Sized to zero");
+    }
+
+    const isBuy = trade.signalMessage === "buy";
+    const slippage = this.config.slippagePercent / 100;
+    // Buys pay up on entry and sell down on exit, sells the reverse
+    const entryFillPrice =
+      entryMarketPrice * (isBuy ? 1 + slippage : 1 - slippage);
+    const positionUsd = (equityUsd * target.percentage) / 100;
+    const quantity = positionUsd / entryFillPrice;
+
+    Object.assign(trade, {
+      status: "closed",
+      sizingPercent: target.percentage,
+      positionUsd,
+      quantity,
+      entryTime: new Date(entryCandle.timestamp),
+      entryMarketPrice,
+      entryFillPrice,
+      gasUsd: this.config.gasUsdPerSwap,
+      slippageUsd: quantity * Math.abs(entryFillPrice - entryMarketPrice),
+    });
+
+    const state: ExitState = {
+      signalMessage: trade.signalMessage,
+      tp1: signal.TP1,
+      tp2: signal.TP2,
+      sl: signal.SL,
+      maxExitTime,
+      highestPriceSinceEntry: entryMarketPrice,
+      trailingStopPrice: getTrailingStopPrice(
+        trade.signalMessage,
+        entryMarketPrice,
+        this.config.trailingStopPercent
+      ),
+      trailingStopEnabled: this.config.trailingStopEnabled,
+      trailingStopPercent: this.config.trailingStopPercent,
+      exitedPercentage: 0,
+      tp1Filled: false,
+    };
+
+    let previousPrice = entryMarketPrice;
+    for (let i = entryIndex; i < candles.length; i++) {
+      const candle = candles[i]!;
+      const now = new Date(candle.timestamp);
+      // The entry candle's open is the entry itself
+      const path = this.getPricePath(candle).slice(i === entryIndex ? 1 : 0);
+
+      for (const price of path) {
+        updateTrailingStop(state, price);
+        const exitCondition = checkExitConditions(state, price, now);
+
+        if (exitCondition.triggered) {
+          this.exitLeg(
+            trade,
+            state,
+            exitCondition,
+            this.getCrossingPrice(previousPrice, price, exitCondition),
+            now
+          );
+          if (state.exitedPercentage >= 100) {
+            return this.closeTrade(trade);
+          }
+        }
+        previousPrice = price;
+      }
+    }
+
+    // Candles ran out before an exit: close at the last price seen
+    const last = candles[candles.length - 1]!;
+    this.exitLeg(
+      trade,
+      state,
+      { type: "MANUAL", currentPrice: last.close, triggered: true },
+      last.close,
+      new Date(last.timestamp),
+      "END_OF_DATA"
+    );
+    return this.closeTrade(trade);
+  }
+
+  /**
+   * Sell a leg of the position, mirroring TradeMonitoringService's scale-out
+   */
+  private exitLeg(
+    trade: BacktestTrade,
+    state: ExitState,
+    exitCondition: ExitCondition,
+    marketPrice: number,
+    exitedAt: Date,
+    exitType: BacktestExitLeg["exitType"] = exitCondition.type
+  ): void {
+    const exitPercentage =
+      exitType === "END_OF_DATA"
+        ? 100 - state.exitedPercentage
+        : getExitPercentage(
+            state,
+            exitCondition,
+            this.config.scaleOut.tp1ExitPercentage
+          );
+    const isBuy = trade.signalMessage === "buy";
+    const slippage = this.config.slippagePercent / 100;
+    const fillPrice = marketPrice * (isBuy ? 1 - slippage : 1 + slippage);
+    const quantity = (trade.quantity! * exitPercentage) / 100;
+
+    trade.exitLegs.push({
+      exitType,
+      exitPercentage,
+      quantity,
+      marketPrice,
+      fillPrice,
+      pnlUsd:
+        quantity *
+        (isBuy
+          ? fillPrice - trade.entryFillPrice!
+          : trade.entryFillPrice! - fillPrice),
+      exitedAt,
+    });
+    trade.gasUsd += this.config.gasUsdPerSwap;
+    trade.slippageUsd += quantity * Math.abs(marketPrice - fillPrice);
+    state.exitedPercentage += exitPercentage;
+
+    if (exitType === "TP1" && state.exitedPercentage < 100) {
+      state.tp1Filled = true;
+      if (this.config.scaleOut.moveStopToBreakEven) {
+        state.sl = trade.entryMarketPrice!;
+      }
+    }
+  }
+
+  private closeTrade(trade: BacktestTrade): BacktestTrade {
+    const finalLeg = trade.exitLegs[trade.exitLegs.length - 1]!;
+    trade.exitType = finalLeg.exitType;
+    trade.exitTime = finalLeg.exitedAt;
+    trade.pnlUsd =
+      trade.exitLegs.reduce((sum, leg) => sum + leg.pnlUsd, 0) - trade.gasUsd;
+    trade.returnPercent = (trade.pnlUsd / trade.positionUsd!) * 100;
+    return trade;
+  }
+
+  /**
+   * Intra-candle path: an up candle is assumed to dip first, a down candle
+   * to rally first
+   */
+  private getPricePath(candle: PriceCandle): number[] {
+    return candle.close >= candle.open
+      ? [candle.open, candle.low, candle.high, candle.close]
+      : [candle.open, candle.high, candle.low, candle.close];
+  }
+
+  /**
+   * Where an exit fills: at its level when the price moved through it, at
+   * the current price when it gapped past it or has no level
+   */
+  private getCrossingPrice(
+    previousPrice: number,
+    price: number,
+    exitCondition: ExitCondition
+  ): number {
+    const level = exitCondition.targetPrice;
+    if (
+      level !== undefined &&
+      level >= Math.min(previousPrice, price) &&
+      level <= Math.max(previousPrice, price)
+    ) {
+      return level;
+    }
+    return price;
+  }
+
+  private getAverageTrueRange(candles: PriceCandle[]): number | undefined {
+    const periods = this.config.atrPeriods;
+    if (candles.length <= periods) {
+      return undefined;
+    }
+
+    const recent = candles.slice(-(periods + 1));
+    let total = 0;
+    for (let i = 1; i < recent.length; i++) {
+      const { high, low } = recent[i]!;
+      const previousClose = recent[i - 1]!.close;
+      total += Math.max(
+        high - low,
+        Math.abs(high - previousClose),
+        Math.abs(low - previousClose)
+      );
+    }
+    return total / periods;
+  }
+
+  /**
+   * Win rate and payoff of the trades closed so far, for Kelly sizing
+   */
+  private getTrackRecord(closedTrades: BacktestTrade[]) {
+    const wins = closedTrades.filter((t) => t.pnlUsd > 0);
+    const losses = closedTrades.filter((t) => t.pnlUsd <= 0);
+    const averageWin =
+      wins.reduce((sum, t) => sum + t.pnlUsd, 0) / (wins.length || 1);
+    const averageLoss =
+      Math.abs(losses.reduce((sum, t) => sum + t.pnlUsd, 0)) /
+      (losses.length || 1);
+
+    return {
+      completedTrades: closedTrades.length,
+      winRate:
+        closedTrades.length > 0 ? (wins.length / closedTrades.length) * 100 : 0,
+      payoffRatio: averageLoss > 0 ? averageWin / averageLoss : 0,
+    };
+  }
+
+  private summarize(trades: BacktestTrade[]): BacktestSummary {
+    const closed = trades
+      .filter((t) => t.status === "closed")
+      .sort((a, b) => a.exitTime!.getTime() - b.exitTime!.getTime());
+    const wins = closed.filter((t) => t.pnlUsd > 0);
+    const losses = closed.filter((t) => t.pnlUsd <= 0);
+    const sum = (values: number[]) => values.reduce((a, b) => a + b, 0);
+    const average = (values: number[]) =>
+      values.length > 0 ? sum(values) / values.length : 0;
+
+    const { startingEquityUsd } = this.config;
+    const totalPnlUsd = sum(closed.map((t) => t.pnlUsd));
+
+    // Drawdown on the equity realized after each exit
+    let equity = startingEquityUsd;
+    let peak = startingEquityUsd;
+    let maxDrawdownUsd = 0;
+    let maxDrawdownPercent = 0;
+    for (const trade of closed) {
+      equity += trade.pnlUsd;
+      peak = Math.max(peak, equity);
+      maxDrawdownUsd = Math.max(maxDrawdownUsd, peak - equity);
+      maxDrawdownPercent = Math.max(
+        maxDrawdownPercent,
+        ((peak - equity) / peak) * 100
+      );
+    }
+
+    return {
+      signals: trades.length,
+      trades: closed.length,
+      skipped: trades.length - closed.length,
+      wins: wins.length,
+      losses: losses.length,
+      winRate: closed.length > 0 ? (wins.length / closed.length) * 100 : 0,
+      expectancyUsd: average(closed.map((t) => t.pnlUsd)),
+      expectancyPercent: average(closed.map((t) => t.returnPercent)),
+      averageWinUsd: average(wins.map((t) => t.pnlUsd)),
+      averageLossUsd: average(losses.map((t) => t.pnlUsd)),
+      totalPnlUsd,
+      totalGasUsd: sum(closed.map((t) => t.gasUsd)),
+      totalSlippageUsd: sum(closed.map((t) => t.slippageUsd)),
+      startingEquityUsd,
+      endingEquityUsd: startingEquityUsd + totalPnlUsd,
+      returnPercent: (totalPnlUsd / startingEquityUsd) * 100,
+      maxDrawdownUsd,
+      maxDrawdownPercent,
+      sharpeRatio: this.getSharpeRatio(closed),
+    };
+  }
+
+  /**
+   * Sharpe ratio of daily returns on realized equity, annualized over 365
+   * trading days, with no risk-free rate
+   */
+  private getSharpeRatio(closed: BacktestTrade[]): number | null {
+    if (closed.length === 0) {
+      return null;
+    }
+
+    const firstDay = Math.floor(
+      Math.min(...closed.map((t) => t.entryTime!.getTime())) / DAY_MS
+    );
+    const lastDay = Math.floor(
+      closed[closed.length - 1]!.exitTime!.getTime() / DAY_MS
+    );
+    const pnlByDay: Map<number, number> = new Map();
+    for (const trade of closed) {
+      const day = Math.floor(trade.exitTime!.getTime() / DAY_MS);
+      pnlByDay.set(day, (pnlByDay.get(day) || 0) + trade.pnlUsd);
+    }
+
+    const returns: number[] = [];
+    let equity = this.config.startingEquityUsd;
+    for (let day = firstDay; day <= lastDay; day++) {
+      const pnl = pnlByDay.get(day) || 0;
+      returns.push(pnl / equity);
+      equity += pnl;
+    }
+    if (returns.length < 2) {
+      return null;
+    }
+
+    const mean = returns.reduce((a, b) => a + b, 0) / returns.length;
+    const variance =
+      returns.reduce((sum, r) => sum + (r - mean) ** 2, 0) /
+      (returns.length - 1);
+    const deviation = Math.sqrt(variance);
+    return deviation > 0 ? (mean / deviation) * Math.sqrt(365) : null;
+  }
+
+  private getSignalTime(signal: HistoricalSignal): Date | null {
+    const value = signal.timestamp ?? signal.createdAt;
+    if (!value) {
+      return null;
+    }
+
+    const time = new Date(
+      typeof value === "object" && "$date" in value ? value.$date : value
+    );
+    return isNaN(time.getTime()) ? null : time;
+  }
+}
+
+export default BacktestService;
+export {
+  HistoricalSignal,
+  BacktestConfig,
+  BacktestExitLeg,
+  BacktestTrade,
+  BacktestSummary,
+  BacktestResult,
+};
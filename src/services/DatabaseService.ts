@@ -9,6 +9,23 @@ interface DatabaseConfig {
   safeDeploymentDb: string;
   safeCollection: string;
   tradesCollection?: string;
+  tradeStatesCollection?: string;
+  tradeTransitionsCollection?: string;
+  executionQueueCollection?: string;
+  tokenApprovalsCollection?: string;
+  apiKeysCollection?: string;
+  signalProvidersCollection?: string;
+  signalNoncesCollection?: string;
+  signalIdempotencyCollection?: string;
+  signalSubscriptionsCollection?: string;
+  killSwitchesCollection?: string;
+  killSwitchAuditCollection?: string;
+  circuitBreakersCollection?: string;
+  tradingProfilesCollection?: string;
+  pnlLotsCollection?: string;
+  pnlLedgerCollection?: string;
+  priceCandlesCollection?: string;
+  paperBalancesCollection?: string;
 }
 
 class DatabaseService {
@@ -39,6 +56,8 @@ class DatabaseService {
         this.config.safeDeploymentDb
       );
 
+      await this.ensureIndexes();
+
       this.logger.info("Successfully connected to both databases");
     } catch (error) {
       this.logger.error("Failed to connect to databases:", error);
@@ -46,6 +65,62 @@ class DatabaseService {
     }
   }
 
+  private async ensureIndexes(): Promise<void> {
+    try {
+      // Unique nonces make replay detection a single atomic insert, and the
+      // TTL index drops them once they fall outside the replay window
+      const nonces = this.getSignalNoncesCollection();
+      await nonces.createIndex({ providerId: 1, nonce: 1 }, { unique: true });
+      await nonces.createIndex({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+      const idempotency = this.getSignalIdempotencyCollection();
+      await idempotency.createIndex({ key: 1 }, { unique: true });
+      await idempotency.createIndex(
+        { expiresAt: 1 },
+        { expireAfterSeconds: 0 }
+      );
+
+      // One live subscription per Safe and provider; cancelled ones are kept
+      await this.getSignalSubscriptionsCollection().createIndex(
+        { providerId: 1, safeAddress: 1 },
+        {
+          unique: true,
+          partialFilterExpression: { status: { $in: ["active", "paused"] } },
+        }
+      );
+
+      await this.getTradingProfilesCollection().createIndex(
+        { username: 1 },
+        { unique: true }
+      );
+
+      // FIFO lookups walk a position's lots oldest first
+      await this.getPnlLotsCollection().createIndex({
+        safeAddress: 1,
+        networkKey: 1,
+        tokenAddress: 1,
+        openedAt: 1,
+      });
+      await this.getPnlLedgerCollection().createIndex({
+        userId: 1,
+        timestamp: -1,
+      });
+
+      // One candle per token and open time, so re-imports overwrite
+      await this.getPriceCandlesCollection().createIndex(
+        { symbol: 1, timestamp: 1 },
+        { unique: true }
+      );
+
+      await this.getPaperBalancesCollection().createIndex(
+        { safeAddress: 1, networkKey: 1, tokenAddress: 1 },
+        { unique: true }
+      );
+    } catch (error) {
+      this.logger.warn("⚠️ Failed to create database indexes:", error);
+    }
+  }
+
   async disconnect(): Promise<void> {
     try {
       if (this.signalFlowClient) {
@@ -239,6 +314,60 @@ class DatabaseService {
     }
   }
 
+  /**
+   * Strict ownership check for authorization. Unlike getUserSafe there is no
+   * fallback to another of the user's Safes, so a match means this user owns
+   * this exact address.
+   */
+  async isSafeOwnedBy(username: string, safeAddress: string): Promise<boolean> {
+    if (!username || !/^0x[0-9a-fA-F]{40}$/.test(safeAddress || "")) {
+      return false;
+    }
+
+    try {
+      const safesCollection = this.getSafeDeploymentDb().collection(
+        this.config.safeCollection
+      );
+
+      // Stored addresses may be checksummed, requests may not be
+      const address = new RegExp(`^${safeAddress}$`, "i");
+      const safe = await safesCollection.findOne({
+        status: { $in: ["active", "deployed", "pending"] },
+        $and: [
+          {
+            $or: [
+              { "userInfo.userId": username },
+              { "userInfo.username": username },
+              { userId: username },
+              { username: username },
+            ],
+          },
+          {
+            $or: [
+              { "deployments.sepolia.address": address },
+              { "deployments.arbitrum.address": address },
+              { "deployments.arbitrum_sepolia.address": address },
+              { "deployments.base_sepolia.address": address },
+              { "deployments.polygon.address": address },
+              { "deployments.optimism.address": address },
+              { "deployments.ethereum.address": address },
+              { "deployments.base.address": address },
+              { safeAddress: address },
+            ],
+          },
+        ],
+      });
+
+      return !!safe;
+    } catch (error) {
+      this.logger.error(
+        `Error checking ownership of Safe ${safeAddress} for ${username}:`,
+        error
+      );
+      return false;
+    }
+  }
+
   // Helper method to extract Safe address from deployments
   private extractSafeAddressFromDeployments(safeDoc: any): string[] {
     const addresses: string[] = [];
@@ -371,6 +500,45 @@ class DatabaseService {
     }
   }
 
+  /**
+   * Record one leg of a scaled-out exit. The trade stays "active" so it
+   * keeps being picked up by the monitor until the remainder is sold.
+   */
+  async recordPartialExit(
+    tradeId: string,
+    exitLeg: any,
+    updates: Record<string, any>
+  ): Promise<boolean> {
+    try {
+      const tradesCollection = this.getSignalFlowDb().collection(
+        this.config.tradesCollection || "executed-trades"
+      );
+
+      const { ObjectId } = require("mongodb");
+
+      const result = await tradesCollection.updateOne(
+        { _id: new ObjectId(tradeId) },
+        {
+          $set: { ...updates, updatedAt: new Date() },
+          $push: { exitLegs: exitLeg },
+        } as any
+      );
+
+      if (result.matchedCount > 0) {
+        this.logger.info(
+          `✅ Recorded ${exitLeg.exitType} partial exit for trade ${tradeId}`
+        );
+        return true;
+      } else {
+        this.logger.warn(`⚠️ Trade ${tradeId} not found for partial exit`);
+        return false;
+      }
+    } catch (error) {
+      this.logger.error("Error recording partial exit:", error);
+      return false;
+    }
+  }
+
   async getTradeHistory(userId?: string, limit: number = 100): Promise<any[]> {
     try {
       const tradesCollection = this.getSignalFlowDb().collection(
@@ -391,6 +559,937 @@ class DatabaseService {
       return [];
     }
   }
+
+  // Trade Lifecycle State Methods
+  private getTradeStatesCollection() {
+    return this.getSignalFlowDb().collection(
+      this.config.tradeStatesCollection || "trade-states"
+    );
+  }
+
+  private getTradeTransitionsCollection() {
+    return this.getSignalFlowDb().collection(
+      this.config.tradeTransitionsCollection || "trade-transitions"
+    );
+  }
+
+  private getExecutionQueueCollection() {
+    return this.getSignalFlowDb().collection(
+      this.config.executionQueueCollection || "trade-execution-queue"
+    );
+  }
+
+  async saveTradeState(trade: any): Promise<boolean> {
+    try {
+      const { _id, ...tradeDoc } = trade;
+      await this.getTradeStatesCollection().replaceOne(
+        { tradeId: trade.tradeId },
+        tradeDoc,
+        { upsert: true }
+      );
+      return true;
+    } catch (error) {
+      this.logger.error(
+        `Error saving state for trade ${trade.tradeId}:`,
+        error
+      );
+      return false;
+    }
+  }
+
+  async getTradeStates(
+    statuses: string[],
+    updatedSince?: Date
+  ): Promise<any[]> {
+    try {
+      const query: any = { status: { $in: statuses } };
+      if (updatedSince) {
+        query.updatedAt = { $gte: updatedSince };
+      }
+
+      return await this.getTradeStatesCollection()
+        .find(query, { projection: { _id: 0 } })
+        .toArray();
+    } catch (error) {
+      this.logger.error("Error retrieving trade states:", error);
+      return [];
+    }
+  }
+
+  async recordTradeTransition(transition: any): Promise<boolean> {
+    try {
+      await this.getTradeTransitionsCollection().insertOne({ ...transition });
+      return true;
+    } catch (error) {
+      this.logger.error(
+        `Error recording transition for trade ${transition.tradeId}:`,
+        error
+      );
+      return false;
+    }
+  }
+
+  async getTradeTransitions(tradeId: string): Promise<any[]> {
+    try {
+      return await this.getTradeTransitionsCollection()
+        .find({ tradeId }, { projection: { _id: 0 } })
+        .sort({ timestamp: 1 })
+        .toArray();
+    } catch (error) {
+      this.logger.error(
+        `Error retrieving transitions for trade ${tradeId}:`,
+        error
+      );
+      return [];
+    }
+  }
+
+  async saveExecutionPlan(plan: any): Promise<boolean> {
+    try {
+      await this.getExecutionQueueCollection().replaceOne(
+        { planId: plan.planId },
+        { ...plan },
+        { upsert: true }
+      );
+      return true;
+    } catch (error) {
+      this.logger.error(`Error saving execution plan ${plan.planId}:`, error);
+      return false;
+    }
+  }
+
+  async removeExecutionPlan(planId: string): Promise<boolean> {
+    try {
+      await this.getExecutionQueueCollection().deleteOne({ planId });
+      return true;
+    } catch (error) {
+      this.logger.error(`Error removing execution plan ${planId}:`, error);
+      return false;
+    }
+  }
+
+  async getExecutionPlans(): Promise<any[]> {
+    try {
+      return await this.getExecutionQueueCollection()
+        .find({}, { projection: { _id: 0 } })
+        .sort({ queuedAt: 1 })
+        .toArray();
+    } catch (error) {
+      this.logger.error("Error retrieving execution plans:", error);
+      return [];
+    }
+  }
+
+  // Token Approval Methods
+  private getTokenApprovalsCollection() {
+    return this.getSignalFlowDb().collection(
+      this.config.tokenApprovalsCollection || "token-approvals"
+    );
+  }
+
+  async recordTokenApproval(approval: {
+    safeAddress: string;
+    networkKey: string;
+    tokenAddress: string;
+    spender: string;
+    amount: string;
+    txHash?: string;
+  }): Promise<boolean> {
+    try {
+      const now = new Date();
+      await this.getTokenApprovalsCollection().updateOne(
+        {
+          safeAddress: approval.safeAddress.toLowerCase(),
+          networkKey: approval.networkKey,
+          tokenAddress: approval.tokenAddress.toLowerCase(),
+          spender: approval.spender.toLowerCase(),
+        },
+        {
+          $set: {
+            amount: approval.amount,
+            txHash: approval.txHash,
+            updatedAt: now,
+          },
+          $setOnInsert: { grantedAt: now },
+        },
+        { upsert: true }
+      );
+      return true;
+    } catch (error) {
+      this.logger.error("Error recording token approval:", error);
+      return false;
+    }
+  }
+
+  async getTokenApprovals(
+    safeAddress: string,
+    networkKey: string
+  ): Promise<any[]> {
+    try {
+      return await this.getTokenApprovalsCollection()
+        .find(
+          { safeAddress: safeAddress.toLowerCase(), networkKey },
+          { projection: { _id: 0 } }
+        )
+        .toArray();
+    } catch (error) {
+      this.logger.error("Error retrieving token approvals:", error);
+      return [];
+    }
+  }
+
+  async removeTokenApprovals(
+    safeAddress: string,
+    networkKey: string,
+    approvals: { tokenAddress: string; spender: string }[]
+  ): Promise<boolean> {
+    if (approvals.length === 0) {
+      return true;
+    }
+
+    try {
+      await this.getTokenApprovalsCollection().deleteMany({
+        safeAddress: safeAddress.toLowerCase(),
+        networkKey,
+        $or: approvals.map((approval) => ({
+          tokenAddress: approval.tokenAddress.toLowerCase(),
+          spender: approval.spender.toLowerCase(),
+        })),
+      });
+      return true;
+    } catch (error) {
+      this.logger.error("Error removing token approvals:", error);
+      return false;
+    }
+  }
+
+  // API Key Methods
+  private getApiKeysCollection() {
+    return this.getSignalFlowDb().collection(
+      this.config.apiKeysCollection || "api-keys"
+    );
+  }
+
+  async storeApiKey(apiKey: {
+    keyId: string;
+    keyHash: string;
+    username: string;
+    scopes: string[];
+    label?: string;
+  }): Promise<boolean> {
+    try {
+      await this.getApiKeysCollection().insertOne({
+        ...apiKey,
+        createdAt: new Date(),
+      });
+      return true;
+    } catch (error) {
+      this.logger.error("Error storing API key:", error);
+      return false;
+    }
+  }
+
+  async findApiKeyByHash(keyHash: string): Promise<any | null> {
+    try {
+      return await this.getApiKeysCollection().findOne({
+        keyHash,
+        revokedAt: { $exists: false },
+      });
+    } catch (error) {
+      this.logger.error("Error looking up API key:", error);
+      return null;
+    }
+  }
+
+  async touchApiKey(keyId: string): Promise<void> {
+    try {
+      await this.getApiKeysCollection().updateOne(
+        { keyId },
+        { $set: { lastUsedAt: new Date() } }
+      );
+    } catch (error) {
+      this.logger.error("Error updating API key usage:", error);
+    }
+  }
+
+  async getApiKeys(username: string): Promise<any[]> {
+    try {
+      return await this.getApiKeysCollection()
+        .find({ username }, { projection: { _id: 0, keyHash: 0 } })
+        .sort({ createdAt: -1 })
+        .toArray();
+    } catch (error) {
+      this.logger.error("Error retrieving API keys:", error);
+      return [];
+    }
+  }
+
+  async revokeApiKey(username: string, keyId: string): Promise<boolean> {
+    try {
+      const result = await this.getApiKeysCollection().updateOne(
+        { keyId, username, revokedAt: { $exists: false } },
+        { $set: { revokedAt: new Date() } }
+      );
+      return result.modifiedCount > 0;
+    } catch (error) {
+      this.logger.error("Error revoking API key:", error);
+      return false;
+    }
+  }
+
+  // Signal Provider Methods
+  private getSignalProvidersCollection() {
+    return this.getSignalFlowDb().collection(
+      this.config.signalProvidersCollection || "signal-providers"
+    );
+  }
+
+  private getSignalNoncesCollection() {
+    return this.getSignalFlowDb().collection(
+      this.config.signalNoncesCollection || "signal-nonces"
+    );
+  }
+
+  async storeSignalProvider(provider: {
+    providerId: string;
+    username: string;
+    name: string;
+    secret: string;
+  }): Promise<boolean> {
+    try {
+      await this.getSignalProvidersCollection().insertOne({
+        ...provider,
+        createdAt: new Date(),
+      });
+      return true;
+    } catch (error) {
+      this.logger.error("Error storing signal provider:", error);
+      return false;
+    }
+  }
+
+  async getActiveSignalProvider(providerId: string): Promise<any | null> {
+    try {
+      return await this.getSignalProvidersCollection().findOne({
+        providerId,
+        revokedAt: { $exists: false },
+      });
+    } catch (error) {
+      this.logger.error("Error looking up signal provider:", error);
+      return null;
+    }
+  }
+
+  async getSignalProviders(username: string): Promise<any[]> {
+    try {
+      return await this.getSignalProvidersCollection()
+        .find({ username }, { projection: { _id: 0, secret: 0 } })
+        .sort({ createdAt: -1 })
+        .toArray();
+    } catch (error) {
+      this.logger.error("Error retrieving signal providers:", error);
+      return [];
+    }
+  }
+
+  async revokeSignalProvider(
+    username: string,
+    providerId: string
+  ): Promise<boolean> {
+    try {
+      const result = await this.getSignalProvidersCollection().updateOne(
+        { providerId, username, revokedAt: { $exists: false } },
+        { $set: { revokedAt: new Date() } }
+      );
+      return result.modifiedCount > 0;
+    } catch (error) {
+      this.logger.error("Error revoking signal provider:", error);
+      return false;
+    }
+  }
+
+  /**
+   * Returns false when the nonce was already used by this provider
+   */
+  async recordSignalNonce(
+    providerId: string,
+    nonce: string,
+    expiresAt: Date
+  ): Promise<boolean> {
+    try {
+      await this.getSignalNoncesCollection().insertOne({
+        providerId,
+        nonce,
+        expiresAt,
+        createdAt: new Date(),
+      });
+      return true;
+    } catch (error: any) {
+      if (error?.code === 11000) {
+        return false;
+      }
+      throw error;
+    }
+  }
+
+  // Signal Idempotency Methods
+  private getSignalIdempotencyCollection() {
+    return this.getSignalFlowDb().collection(
+      this.config.signalIdempotencyCollection || "signal-idempotency"
+    );
+  }
+
+  /**
+   * Atomically claim an idempotency key. When the key is already held and
+   * unexpired, returns the existing record (with its result once finished).
+   */
+  async claimSignalIdempotencyKey(record: {
+    key: string;
+    username: string;
+    signalId: string;
+    expiresAt: Date;
+  }): Promise<{ claimed: boolean; existing?: any }> {
+    const collection = this.getSignalIdempotencyCollection();
+
+    for (let attempt = 0; attempt < 2; attempt++) {
+      try {
+        await collection.insertOne({
+          ...record,
+          status: "processing",
+          createdAt: new Date(),
+        });
+        return { claimed: true };
+      } catch (error: any) {
+        if (error?.code !== 11000) {
+          throw error;
+        }
+      }
+
+      const existing = await collection.findOne(
+        { key: record.key },
+        { projection: { _id: 0 } }
+      );
+      if (existing && existing.expiresAt > new Date()) {
+        return { claimed: false, existing };
+      }
+
+      // Expired but not yet swept by the TTL monitor, clear it and retry
+      await collection.deleteOne({
+        key: record.key,
+        expiresAt: { $lte: new Date() },
+      });
+    }
+
+    return { claimed: false };
+  }
+
+  async completeSignalIdempotencyKey(
+    key: string,
+    result: any
+  ): Promise<boolean> {
+    try {
+      await this.getSignalIdempotencyCollection().updateOne(
+        { key },
+        {
+          $set: {
+            status: result.status,
+            result,
+            completedAt: new Date(),
+          },
+        }
+      );
+      return true;
+    } catch (error) {
+      this.logger.error("Error storing signal outcome:", error);
+      return false;
+    }
+  }
+
+  async releaseSignalIdempotencyKey(key: string): Promise<boolean> {
+    try {
+      await this.getSignalIdempotencyCollection().deleteOne({ key });
+      return true;
+    } catch (error) {
+      this.logger.error("Error releasing signal idempotency key:", error);
+      return false;
+    }
+  }
+
+  // Signal Subscription Methods
+  private getSignalSubscriptionsCollection() {
+    return this.getSignalFlowDb().collection(
+      this.config.signalSubscriptionsCollection || "signal-subscriptions"
+    );
+  }
+
+  /**
+   * Returns false when the Safe already has a live subscription to the provider
+   */
+  async storeSignalSubscription(subscription: any): Promise<boolean> {
+    try {
+      const now = new Date();
+      await this.getSignalSubscriptionsCollection().insertOne({
+        ...subscription,
+        createdAt: now,
+        updatedAt: now,
+      });
+      return true;
+    } catch (error: any) {
+      if (error?.code === 11000) {
+        return false;
+      }
+      throw error;
+    }
+  }
+
+  async getSignalSubscriptions(username: string): Promise<any[]> {
+    try {
+      return await this.getSignalSubscriptionsCollection()
+        .find(
+          { username, status: { $ne: "cancelled" } },
+          { projection: { _id: 0 } }
+        )
+        .sort({ createdAt: -1 })
+        .toArray();
+    } catch (error) {
+      this.logger.error("Error retrieving signal subscriptions:", error);
+      return [];
+    }
+  }
+
+  async getActiveSubscriptionsForProvider(providerId: string): Promise<any[]> {
+    try {
+      return await this.getSignalSubscriptionsCollection()
+        .find({ providerId, status: "active" }, { projection: { _id: 0 } })
+        .toArray();
+    } catch (error) {
+      this.logger.error("Error retrieving provider subscriptions:", error);
+      return [];
+    }
+  }
+
+  async updateSignalSubscription(
+    username: string,
+    subscriptionId: string,
+    updates: any
+  ): Promise<any | null> {
+    try {
+      return await this.getSignalSubscriptionsCollection().findOneAndUpdate(
+        { subscriptionId, username, status: { $ne: "cancelled" } },
+        { $set: { ...updates, updatedAt: new Date() } },
+        { returnDocument: "after", projection: { _id: 0 } }
+      );
+    } catch (error) {
+      this.logger.error("Error updating signal subscription:", error);
+      return null;
+    }
+  }
+
+  async cancelSignalSubscription(
+    username: string,
+    subscriptionId: string
+  ): Promise<boolean> {
+    try {
+      const result = await this.getSignalSubscriptionsCollection().updateOne(
+        { subscriptionId, username, status: { $ne: "cancelled" } },
+        { $set: { status: "cancelled", cancelledAt: new Date() } }
+      );
+      return result.modifiedCount > 0;
+    } catch (error) {
+      this.logger.error("Error cancelling signal subscription:", error);
+      return false;
+    }
+  }
+
+  // Kill Switch Methods
+  private getKillSwitchesCollection() {
+    return this.getSignalFlowDb().collection(
+      this.config.killSwitchesCollection || "kill-switches"
+    );
+  }
+
+  private getKillSwitchAuditCollection() {
+    return this.getSignalFlowDb().collection(
+      this.config.killSwitchAuditCollection || "kill-switch-audit"
+    );
+  }
+
+  async saveKillSwitch(killSwitch: any): Promise<boolean> {
+    try {
+      await this.getKillSwitchesCollection().replaceOne(
+        { key: killSwitch.key },
+        killSwitch,
+        { upsert: true }
+      );
+      return true;
+    } catch (error) {
+      this.logger.error("Error saving kill switch:", error);
+      return false;
+    }
+  }
+
+  async removeKillSwitch(key: string): Promise<boolean> {
+    try {
+      await this.getKillSwitchesCollection().deleteOne({ key });
+      return true;
+    } catch (error) {
+      this.logger.error("Error removing kill switch:", error);
+      return false;
+    }
+  }
+
+  async getKillSwitches(): Promise<any[]> {
+    try {
+      return await this.getKillSwitchesCollection()
+        .find({}, { projection: { _id: 0 } })
+        .toArray();
+    } catch (error) {
+      this.logger.error("Error retrieving kill switches:", error);
+      return [];
+    }
+  }
+
+  async recordKillSwitchAudit(entry: any): Promise<boolean> {
+    try {
+      await this.getKillSwitchAuditCollection().insertOne(entry);
+      return true;
+    } catch (error) {
+      this.logger.error("Error recording kill switch audit entry:", error);
+      return false;
+    }
+  }
+
+  async getKillSwitchAudit(limit: number = 100): Promise<any[]> {
+    try {
+      return await this.getKillSwitchAuditCollection()
+        .find({}, { projection: { _id: 0 } })
+        .sort({ at: -1 })
+        .limit(limit)
+        .toArray();
+    } catch (error) {
+      this.logger.error("Error retrieving kill switch audit log:", error);
+      return [];
+    }
+  }
+
+  // Circuit Breaker Methods
+  private getCircuitBreakersCollection() {
+    return this.getSignalFlowDb().collection(
+      this.config.circuitBreakersCollection || "circuit-breakers"
+    );
+  }
+
+  async saveCircuitBreaker(breaker: any): Promise<boolean> {
+    try {
+      await this.getCircuitBreakersCollection().replaceOne(
+        { key: breaker.key, day: breaker.day },
+        breaker,
+        { upsert: true }
+      );
+      return true;
+    } catch (error) {
+      this.logger.error("Error saving circuit breaker:", error);
+      return false;
+    }
+  }
+
+  async getCircuitBreakers(day: string): Promise<any[]> {
+    try {
+      return await this.getCircuitBreakersCollection()
+        .find({ day }, { projection: { _id: 0 } })
+        .toArray();
+    } catch (error) {
+      this.logger.error("Error retrieving circuit breakers:", error);
+      return [];
+    }
+  }
+
+  // Trading Profile Methods
+  private getTradingProfilesCollection() {
+    return this.getSignalFlowDb().collection(
+      this.config.tradingProfilesCollection || "trading-profiles"
+    );
+  }
+
+  async getTradingProfile(username: string): Promise<any | null> {
+    try {
+      return await this.getTradingProfilesCollection().findOne(
+        { username },
+        { projection: { _id: 0 } }
+      );
+    } catch (error) {
+      this.logger.error("Error retrieving trading profile:", error);
+      return null;
+    }
+  }
+
+  /**
+   * Replaces every setting, keeping the original creation time
+   */
+  async saveTradingProfile(profile: any): Promise<any | null> {
+    try {
+      const now = new Date();
+      const existing = await this.getTradingProfile(profile.username);
+      const document = {
+        ...profile,
+        createdAt: existing?.createdAt || now,
+        updatedAt: now,
+      };
+      await this.getTradingProfilesCollection().replaceOne(
+        { username: profile.username },
+        document,
+        { upsert: true }
+      );
+      return document;
+    } catch (error) {
+      this.logger.error("Error saving trading profile:", error);
+      return null;
+    }
+  }
+
+  async updateTradingProfile(
+    username: string,
+    updates: any
+  ): Promise<any | null> {
+    try {
+      return await this.getTradingProfilesCollection().findOneAndUpdate(
+        { username },
+        { $set: { ...updates, updatedAt: new Date() } },
+        { returnDocument: "after", projection: { _id: 0 } }
+      );
+    } catch (error) {
+      this.logger.error("Error updating trading profile:", error);
+      return null;
+    }
+  }
+
+  async deleteTradingProfile(username: string): Promise<boolean> {
+    try {
+      const result = await this.getTradingProfilesCollection().deleteOne({
+        username,
+      });
+      return result.deletedCount > 0;
+    } catch (error) {
+      this.logger.error("Error deleting trading profile:", error);
+      return false;
+    }
+  }
+
+  // P&L Ledger Methods
+  private getPnlLotsCollection() {
+    return this.getSignalFlowDb().collection(
+      this.config.pnlLotsCollection || "pnl-lots"
+    );
+  }
+
+  private getPnlLedgerCollection() {
+    return this.getSignalFlowDb().collection(
+      this.config.pnlLedgerCollection || "pnl-ledger"
+    );
+  }
+
+  async storePnlLot(lot: any): Promise<boolean> {
+    try {
+      await this.getPnlLotsCollection().insertOne({ ...lot });
+      return true;
+    } catch (error) {
+      this.logger.error("Error storing P&L lot:", error);
+      return false;
+    }
+  }
+
+  /**
+   * Lots of one position that still hold tokens, oldest first
+   */
+  async getOpenPnlLots(
+    safeAddress: string,
+    networkKey: string,
+    tokenAddress: string
+  ): Promise<any[]> {
+    try {
+      return await this.getPnlLotsCollection()
+        .find(
+          {
+            safeAddress: safeAddress.toLowerCase(),
+            networkKey,
+            tokenAddress: tokenAddress.toLowerCase(),
+            closed: false,
+          },
+          { projection: { _id: 0 } }
+        )
+        .sort({ openedAt: 1 })
+        .toArray();
+    } catch (error) {
+      this.logger.error("Error retrieving open P&L lots:", error);
+      return [];
+    }
+  }
+
+  async getAllOpenPnlLots(userId?: string): Promise<any[]> {
+    try {
+      return await this.getPnlLotsCollection()
+        .find(userId ? { userId, closed: false } : { closed: false }, {
+          projection: { _id: 0 },
+        })
+        .sort({ openedAt: 1 })
+        .toArray();
+    } catch (error) {
+      this.logger.error("Error retrieving open P&L lots:", error);
+      return [];
+    }
+  }
+
+  async updatePnlLot(lotId: string, updates: any): Promise<boolean> {
+    try {
+      await this.getPnlLotsCollection().updateOne({ lotId }, { $set: updates });
+      return true;
+    } catch (error) {
+      this.logger.error("Error updating P&L lot:", error);
+      return false;
+    }
+  }
+
+  async recordPnlLedgerEntry(entry: any): Promise<boolean> {
+    try {
+      await this.getPnlLedgerCollection().insertOne({ ...entry });
+      return true;
+    } catch (error) {
+      this.logger.error("Error recording P&L ledger entry:", error);
+      return false;
+    }
+  }
+
+  async getPnlLedgerEntries(
+    userId?: string,
+    since?: Date,
+    limit: number = 100
+  ): Promise<any[]> {
+    try {
+      const query: any = userId ? { userId } : {};
+      if (since) {
+        query.timestamp = { $gte: since };
+      }
+      return await this.getPnlLedgerCollection()
+        .find(query, { projection: { _id: 0 } })
+        .sort({ timestamp: -1 })
+        .limit(limit)
+        .toArray();
+    } catch (error) {
+      this.logger.error("Error retrieving P&L ledger entries:", error);
+      return [];
+    }
+  }
+
+  // Price Candle Methods
+  private getPriceCandlesCollection() {
+    return this.getSignalFlowDb().collection(
+      this.config.priceCandlesCollection || "price-candles"
+    );
+  }
+
+  /**
+   * Store OHLCV candles for a token, replacing any with the same open time
+   */
+  async storePriceCandles(symbol: string, candles: any[]): Promise<boolean> {
+    if (candles.length === 0) {
+      return true;
+    }
+
+    try {
+      await this.getPriceCandlesCollection().bulkWrite(
+        candles.map((candle) => ({
+          updateOne: {
+            filter: {
+              symbol: symbol.toUpperCase(),
+              timestamp: new Date(candle.timestamp),
+            },
+            update: {
+              $set: {
+                ...candle,
+                symbol: symbol.toUpperCase(),
+                timestamp: new Date(candle.timestamp),
+              },
+            },
+            upsert: true,
+          },
+        })),
+        { ordered: false }
+      );
+      return true;
+    } catch (error) {
+      this.logger.error("Error storing price candles:", error);
+      return false;
+    }
+  }
+
+  /**
+   * A token's candles opening between from and to, oldest first
+   */
+  async getPriceCandles(symbol: string, from: Date, to: Date): Promise<any[]> {
+    try {
+      return await this.getPriceCandlesCollection()
+        .find(
+          {
+            symbol: symbol.toUpperCase(),
+            timestamp: { $gte: from, $lte: to },
+          },
+          { projection: { _id: 0, symbol: 0 } }
+        )
+        .sort({ timestamp: 1 })
+        .toArray();
+    } catch (error) {
+      this.logger.error("Error retrieving price candles:", error);
+      return [];
+    }
+  }
+
+  // Paper Trading Methods
+  private getPaperBalancesCollection() {
+    return this.getSignalFlowDb().collection(
+      this.config.paperBalancesCollection || "paper-balances"
+    );
+  }
+
+  /**
+   * Virtual token balances of a paper-traded Safe, on one network or all
+   */
+  async getPaperBalances(
+    safeAddress: string,
+    networkKey?: string
+  ): Promise<any[]> {
+    try {
+      const query: any = { safeAddress: safeAddress.toLowerCase() };
+      if (networkKey) {
+        query.networkKey = networkKey;
+      }
+      return await this.getPaperBalancesCollection()
+        .find(query, { projection: { _id: 0 } })
+        .sort({ networkKey: 1, symbol: 1 })
+        .toArray();
+    } catch (error) {
+      this.logger.error("Error retrieving paper balances:", error);
+      return [];
+    }
+  }
+
+  async savePaperBalance(balance: any): Promise<boolean> {
+    try {
+      const filter = {
+        safeAddress: balance.safeAddress.toLowerCase(),
+        networkKey: balance.networkKey,
+        tokenAddress: balance.tokenAddress.toLowerCase(),
+      };
+      await this.getPaperBalancesCollection().updateOne(
+        filter,
+        { $set: { ...balance, ...filter, updatedAt: new Date() } },
+        { upsert: true }
+      );
+      return true;
+    } catch (error) {
+      this.logger.error("Error saving paper balance:", error);
+      return false;
+    }
+  }
 }
 
 export default DatabaseService;
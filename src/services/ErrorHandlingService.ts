@@ -170,6 +170,38 @@ export class ErrorHandlingService {
       recommendedAction:
         "Reduce trade size or increase slippage tolerance (with caution). Consider trading during less volatile periods",
     },
+    SIMULATION_REVERTED: {
+      type: "system",
+      severity: "high",
+      actionable: true,
+      message: "Swap transaction reverted in pre-trade simulation",
+      recommendedAction:
+        "The trade was not sent on-chain. Check token balances and allowances, or retry with a fresh quote",
+    },
+    SIMULATION_OUTPUT_MISMATCH: {
+      type: "validation",
+      severity: "high",
+      actionable: true,
+      message: "Simulated swap output deviates too far from the quoted amount",
+      recommendedAction:
+        "The trade was not sent on-chain. The token may charge transfer fees or the quote is stale. Retry later or raise SIMULATION_MAX_DEVIATION_PERCENT with caution",
+    },
+    SWAP_OUTCOME_UNKNOWN: {
+      type: "system",
+      severity: "critical",
+      actionable: true,
+      message: "Swap transaction was sent but its outcome is unknown",
+      recommendedAction:
+        "Check the Safe's transactions on the block explorer before resubmitting. The signal is not retried automatically, since the swap may have gone through",
+    },
+    SIMULATION_UNAVAILABLE: {
+      type: "network",
+      severity: "medium",
+      actionable: false,
+      message: "Pre-trade simulation could not be run",
+      recommendedAction:
+        "The simulation backend or RPC node is unreachable. Please try again in a few moments",
+    },
 
     // Network and Connection Errors
     RPC_CONNECTION_FAILED: {
@@ -206,6 +238,14 @@ export class ErrorHandlingService {
       recommendedAction:
         "Price feeds are temporarily unavailable. Please try again in a few minutes",
     },
+    IDEMPOTENCY_UNAVAILABLE: {
+      type: "system",
+      severity: "high",
+      actionable: false,
+      message: "Signal deduplication store is unavailable",
+      recommendedAction:
+        "The signal was not processed, so a retried webhook cannot open a second position. It is retried once the database is reachable",
+    },
     API_RATE_LIMITED: {
       type: "system",
       severity: "low",
@@ -232,6 +272,30 @@ export class ErrorHandlingService {
       recommendedAction:
         "Signal exceeded maximum exit time. No action taken for safety",
     },
+    TRADING_HALTED: {
+      type: "system",
+      severity: "high",
+      actionable: false,
+      message: "New entries are halted by a kill switch",
+      recommendedAction:
+        "Trading is paused for this user, token or network, or system-wide. No trade was opened. Resubmit once the kill switch is released",
+    },
+    RISK_LIMIT_BREACHED: {
+      type: "validation",
+      severity: "high",
+      actionable: false,
+      message: "Entry refused by the risk engine",
+      recommendedAction:
+        "A daily trade cap was reached or a loss circuit breaker is tripped. No trade was opened. Entries resume on the next UTC day or after an admin reset",
+    },
+    PROFILE_RESTRICTION: {
+      type: "validation",
+      severity: "medium",
+      actionable: true,
+      message: "Entry refused by the user's trading profile",
+      recommendedAction:
+        "The token is filtered out, the open-position limit is reached or the token is not on a preferred network. Adjust the profile at /api/profiles/:userId to allow it",
+    },
     INVALID_PRICE_LEVELS: {
       type: "validation",
       severity: "medium",
@@ -436,11 +500,45 @@ export class ErrorHandlingService {
       "SWAP_QUOTE_FAILED",
       "PRICE_DATA_UNAVAILABLE",
       "API_RATE_LIMITED",
+      "SIMULATION_UNAVAILABLE",
+      "IDEMPOTENCY_UNAVAILABLE",
     ];
 
     return retryableErrors.includes(errorCode);
   }
 
+  /**
+   * Retryable code for a transient failure: a code already set upstream, an
+   * HTTP 429, or an ethers/Node network error. Undefined when retrying
+   * would not help.
+   */
+  getRetryableCode(error: any): string | undefined {
+    if (typeof error?.code === "string" && this.isRetryable(error.code)) {
+      return error.code;
+    }
+
+    if ((error?.response?.status ?? error?.status) === 429) {
+      return "API_RATE_LIMITED";
+    }
+
+    switch (error?.code) {
+      case "TIMEOUT":
+      case "ETIMEDOUT":
+      case "ECONNABORTED":
+        return "TRANSACTION_TIMEOUT";
+      case "NETWORK_ERROR":
+      case "SERVER_ERROR":
+      case "ECONNREFUSED":
+      case "ECONNRESET":
+      case "ENOTFOUND":
+        return "RPC_CONNECTION_FAILED";
+      case "REPLACEMENT_UNDERPRICED":
+        return "NETWORK_CONGESTION";
+      default:
+        return undefined;
+    }
+  }
+
   /**
    * Get error statistics for monitoring
    */
@@ -0,0 +1,67 @@
+import { ethers } from "ethers";
+import FlexibleDEXRouter, { QuoteResponse } from "./FlexibleDEXRouter";
+
+const USDC = "0xaf88d065e77c8cc2239327c5edb3a432268e5831";
+const WETH = "0x82aF49447D8a07e3bd95BD0d56f35241523fBab1";
+const ZERO = ethers.ZeroAddress;
+
+function quote(
+  aggregator: string,
+  amountOut: string,
+  gasEstimate: string,
+  gasPrice?: string
+): QuoteResponse {
+  return {
+    aggregator,
+    amountOut,
+    gasEstimate,
+    gasPrice,
+    executionData: { to: ZERO, data: "0x", value: "0" },
+    allowanceTarget: ZERO,
+    confidence: 0.9,
+  };
+}
+
+describe("FlexibleDEXRouter", () => {
+  beforeEach(() => {
+    // 1 gwei on chain
+    jest
+      .spyOn(ethers.JsonRpcProvider.prototype, "getFeeData")
+      .mockResolvedValue(new ethers.FeeData(1_000_000_000n, null, null));
+  });
+
+  afterEach(() => jest.restoreAllMocks());
+
+  it("prices gas at the chain's gas price for quotes that omit it", async () => {
+    const router = new FlexibleDEXRouter([]);
+    const quotes = {
+      // 1000 USDC gross, 2M gas at 1 gwei = 0.002 ETH = $4
+      nogas: quote("nogas", "1000000000", "2000000"),
+      // 999 USDC gross, 0.5M gas = $1, reports a lower gas price than the chain's
+      honest: quote("honest", "999000000", "500000", "100000000"),
+    };
+    for (const [name, response] of Object.entries(quotes)) {
+      router.registerAggregator({
+        name,
+        timeoutMs: 1000,
+        supportsChain: () => true,
+        getQuote: async () => response,
+      });
+      router.enableAggregator(name);
+    }
+
+    const best = await router.getBestQuote({
+      chainId: 42161,
+      tokenIn: WETH,
+      tokenOut: USDC,
+      tokenInDecimals: 18,
+      tokenOutDecimals: 6,
+      amountIn: "500000000000000000",
+      safeAddress: ZERO,
+      gasPricing: { nativeTokenPriceUsd: 2000, tokenOutPriceUsd: 1 },
+    });
+
+    expect(best.aggregator).toBe("honest");
+    expect(best.netAmountOut).toBe("998000000");
+  });
+});
@@ -1,115 +1,728 @@
 import { ethers } from "ethers";
 import axios from "axios";
 import { logger } from "../config/logger";
-import { NetworkConfig } from "../config/networks";
+import { ZERO_ADDRESS, isNativeTokenAddress } from "../constants/addresses";
+import { NetworkUtils } from "../utils/NetworkUtils";
 
 interface QuoteRequest {
-  tokenIn: string;
-  tokenOut: string;
-  amountIn: string;
+  chainId: number;
+  tokenIn: string; // token contract address
+  tokenOut: string; // token contract address
+  tokenInDecimals: number;
+  tokenOutDecimals: number;
+  amountIn: string; // amount in base units (wei)
   safeAddress: string;
-  slippage?: number;
+  slippage?: number; // percent, e.g. 0.5 for 0.5%
+  // Optional pricing used to deduct gas cost from the quoted output
+  gasPricing?: {
+    nativeTokenPriceUsd: number;
+    tokenOutPriceUsd: number;
+  };
 }
 
 interface QuoteResponse {
   aggregator: string;
-  amountOut: string;
+  amountOut: string; // amount in base units (wei)
   gasEstimate: string;
+  gasPrice?: string;
   executionData: {
     to: string;
     data: string;
     value: string;
   };
+  allowanceTarget: string; // contract that must be approved to pull tokenIn
   confidence: number;
+  // Fees the aggregator reports separately, already deducted from amountOut
+  fees?: { tokenAddress: string; amount: string }[]; // amount in base units
+  // Filled in by the router when ranking
+  gasCostInTokenOut?: string;
+  netAmountOut?: string;
+  latencyMs?: number;
+}
+
+/**
+ * Contract every DEX aggregator integration implements.
+ * Register new ones with FlexibleDEXRouter.registerAggregator().
+ */
+interface AggregatorAdapter {
+  name: string;
+  timeoutMs: number;
+  supportsChain(chainId: number): boolean;
+  getQuote(request: QuoteRequest): Promise<QuoteResponse | null>;
+}
+
+interface AggregatorHealth {
+  successes: number;
+  failures: number;
+  timeouts: number;
+  consecutiveFailures: number;
+  averageLatencyMs: number;
+  score: number; // 0..1, exponential moving average of success
+  disabledUntil?: Date;
+  lastError?: string;
 }
 
+const DEFAULT_GAS_ESTIMATE = "500000";
+const DEFAULT_TIMEOUT_MS = parseInt(
+  process.env["DEX_AGGREGATOR_TIMEOUT_MS"] || "8000"
+);
+
 /**
- * Simple, flexible DEX router that can easily add new aggregators
- * Currently uses 0x Protocol (which already includes 100+ DEXs)
- * Future: Easy to add other aggregators when needed
+ * 0x Protocol (AllowanceHolder flow, API v2)
+ */
+class ZeroXAdapter implements AggregatorAdapter {
+  name = "zerox";
+  timeoutMs = DEFAULT_TIMEOUT_MS;
+  private supportedChains = new Set([
+    1, 10, 137, 8453, 42161, 11155111, 421614, 84532,
+  ]);
+
+  supportsChain(chainId: number): boolean {
+    return this.supportedChains.has(chainId);
+  }
+
+  async getQuote(request: QuoteRequest): Promise<QuoteResponse | null> {
+    const response = await axios.get(
+      "https://api.0x.org/swap/allowance-holder/quote",
+      {
+        params: {
+          chainId: request.chainId.toString(),
+          sellToken: request.tokenIn,
+          buyToken: request.tokenOut,
+          sellAmount: request.amountIn,
+          taker: request.safeAddress,
+          slippageBps: Math.round((request.slippage || 0.5) * 100),
+        },
+        headers: {
+          "0x-api-key": process.env["ZEROX_API_KEY"] || "",
+          "0x-version": "v2",
+        },
+        timeout: this.timeoutMs,
+      }
+    );
+
+    const data = response.data;
+    if (!data?.transaction || data.liquidityAvailable === false) {
+      return null;
+    }
+
+    return {
+      aggregator: this.name,
+      amountOut: data.buyAmount,
+      gasEstimate: data.transaction.gas || DEFAULT_GAS_ESTIMATE,
+      gasPrice: data.transaction.gasPrice,
+      executionData: {
+        to: data.transaction.to,
+        data: data.transaction.data,
+        value: data.transaction.value || "0",
+      },
+      allowanceTarget: data.issues?.allowance?.spender || data.transaction.to,
+      confidence: 0.95, // High confidence - 0x is very reliable
+      fees: [data.fees?.integratorFee, data.fees?.zeroExFee]
+        .filter((fee) => fee?.amount && fee?.token)
+        .map((fee) => ({ tokenAddress: fee.token, amount: fee.amount })),
+    };
+  }
+}
+
+/**
+ * 1inch Swap API v6
+ */
+class OneInchAdapter implements AggregatorAdapter {
+  name = "oneinch";
+  timeoutMs = DEFAULT_TIMEOUT_MS;
+  private supportedChains = new Set([1, 10, 137, 8453, 42161]);
+
+  supportsChain(chainId: number): boolean {
+    return (
+      this.supportedChains.has(chainId) && !!process.env["ONEINCH_API_KEY"]
+    );
+  }
+
+  async getQuote(request: QuoteRequest): Promise<QuoteResponse | null> {
+    const response = await axios.get(
+      `https://api.1inch.dev/swap/v6.0/${request.chainId}/swap`,
+      {
+        params: {
+          src: request.tokenIn,
+          dst: request.tokenOut,
+          amount: request.amountIn,
+          from: request.safeAddress,
+          origin: request.safeAddress,
+          slippage: request.slippage || 0.5,
+          // The Safe executes the call, not the API caller, so skip 1inch's own simulation
+          disableEstimate: true,
+        },
+        headers: {
+          Authorization: `Bearer ${process.env["ONEINCH_API_KEY"]}`,
+        },
+        timeout: this.timeoutMs,
+      }
+    );
+
+    const data = response.data;
+    if (!data?.tx) {
+      return null;
+    }
+
+    return {
+      aggregator: this.name,
+      amountOut: data.dstAmount,
+      gasEstimate:
+        data.tx.gas && data.tx.gas !== 0
+          ? data.tx.gas.toString()
+          : DEFAULT_GAS_ESTIMATE,
+      gasPrice: data.tx.gasPrice,
+      executionData: {
+        to: data.tx.to,
+        data: data.tx.data,
+        value: data.tx.value || "0",
+      },
+      allowanceTarget: data.tx.to,
+      confidence: 0.9,
+    };
+  }
+}
+
+/**
+ * ParaSwap (Velora) - price route followed by transaction build
+ */
+class ParaSwapAdapter implements AggregatorAdapter {
+  name = "paraswap";
+  timeoutMs = DEFAULT_TIMEOUT_MS;
+  private readonly API_BASE = "https://api.paraswap.io";
+  private supportedChains = new Set([1, 10, 137, 8453, 42161]);
+
+  supportsChain(chainId: number): boolean {
+    return this.supportedChains.has(chainId);
+  }
+
+  async getQuote(request: QuoteRequest): Promise<QuoteResponse | null> {
+    const priceResponse = await axios.get(`${this.API_BASE}/prices`, {
+      params: {
+        srcToken: request.tokenIn,
+        destToken: request.tokenOut,
+        srcDecimals: request.tokenInDecimals,
+        destDecimals: request.tokenOutDecimals,
+        amount: request.amountIn,
+        side: "SELL",
+        network: request.chainId,
+        userAddress: request.safeAddress,
+      },
+      timeout: this.timeoutMs,
+    });
+
+    const priceRoute = priceResponse.data?.priceRoute;
+    if (!priceRoute) {
+      return null;
+    }
+
+    const txResponse = await axios.post(
+      `${this.API_BASE}/transactions/${request.chainId}`,
+      {
+        srcToken: request.tokenIn,
+        destToken: request.tokenOut,
+        srcAmount: request.amountIn,
+        srcDecimals: request.tokenInDecimals,
+        destDecimals: request.tokenOutDecimals,
+        slippage: Math.round((request.slippage || 0.5) * 100),
+        priceRoute,
+        userAddress: request.safeAddress,
+      },
+      {
+        params: { ignoreChecks: true, ignoreGasEstimate: true },
+        timeout: this.timeoutMs,
+      }
+    );
+
+    const tx = txResponse.data;
+    return {
+      aggregator: this.name,
+      amountOut: priceRoute.destAmount,
+      gasEstimate: priceRoute.gasCost || DEFAULT_GAS_ESTIMATE,
+      gasPrice: tx.gasPrice,
+      executionData: {
+        to: tx.to,
+        data: tx.data,
+        value: tx.value || "0",
+      },
+      allowanceTarget: priceRoute.tokenTransferProxy || tx.to,
+      confidence: 0.9,
+    };
+  }
+}
+
+/**
+ * Odos Smart Order Routing - quote followed by assemble
+ */
+class OdosAdapter implements AggregatorAdapter {
+  name = "odos";
+  timeoutMs = DEFAULT_TIMEOUT_MS;
+  private readonly API_BASE = "https://api.odos.xyz";
+  private supportedChains = new Set([1, 10, 137, 8453, 42161]);
+
+  supportsChain(chainId: number): boolean {
+    return this.supportedChains.has(chainId);
+  }
+
+  async getQuote(request: QuoteRequest): Promise<QuoteResponse | null> {
+    // Odos represents native tokens with the zero address
+    const toOdosAddress = (address: string) =>
+      isNativeTokenAddress(address) ? ZERO_ADDRESS : address;
+
+    const quoteResponse = await axios.post(
+      `${this.API_BASE}/sor/quote/v2`,
+      {
+        chainId: request.chainId,
+        inputTokens: [
+          {
+            tokenAddress: toOdosAddress(request.tokenIn),
+            amount: request.amountIn,
+          },
+        ],
+        outputTokens: [
+          { tokenAddress: toOdosAddress(request.tokenOut), proportion: 1 },
+        ],
+        userAddr: request.safeAddress,
+        slippageLimitPercent: request.slippage || 0.5,
+        compact: true,
+      },
+      { timeout: this.timeoutMs }
+    );
+
+    const quote = quoteResponse.data;
+    if (!quote?.pathId || !quote.outAmounts?.length) {
+      return null;
+    }
+
+    const assembleResponse = await axios.post(
+      `${this.API_BASE}/sor/assemble`,
+      {
+        userAddr: request.safeAddress,
+        pathId: quote.pathId,
+        simulate: false,
+      },
+      { timeout: this.timeoutMs }
+    );
+
+    const tx = assembleResponse.data?.transaction;
+    if (!tx) {
+      return null;
+    }
+
+    return {
+      aggregator: this.name,
+      amountOut: quote.outAmounts[0],
+      gasEstimate: (quote.gasEstimate || DEFAULT_GAS_ESTIMATE).toString(),
+      gasPrice: tx.gasPrice?.toString(),
+      executionData: {
+        to: tx.to,
+        data: tx.data,
+        value: (tx.value || "0").toString(),
+      },
+      allowanceTarget: tx.to,
+      confidence: 0.85,
+    };
+  }
+}
+
+/**
+ * KyberSwap Aggregator - route followed by route build
+ */
+class KyberSwapAdapter implements AggregatorAdapter {
+  name = "kyberswap";
+  timeoutMs = DEFAULT_TIMEOUT_MS;
+  private readonly API_BASE = "https://aggregator-api.kyberswap.com";
+  private chainNames: Record<number, string> = {
+    1: "ethereum",
+    10: "optimism",
+    137: "polygon",
+    8453: "base",
+    42161: "arbitrum",
+  };
+
+  supportsChain(chainId: number): boolean {
+    return !!this.chainNames[chainId];
+  }
+
+  async getQuote(request: QuoteRequest): Promise<QuoteResponse | null> {
+    const chain = this.chainNames[request.chainId];
+    const headers = {
+      "x-client-id": process.env["KYBERSWAP_CLIENT_ID"] || "ai-trading-agent",
+    };
+
+    const routeResponse = await axios.get(
+      `${this.API_BASE}/${chain}/api/v1/routes`,
+      {
+        params: {
+          tokenIn: request.tokenIn,
+          tokenOut: request.tokenOut,
+          amountIn: request.amountIn,
+        },
+        headers,
+        timeout: this.timeoutMs,
+      }
+    );
+
+    const routeSummary = routeResponse.data?.data?.routeSummary;
+    if (!routeSummary) {
+      return null;
+    }
+
+    const buildResponse = await axios.post(
+      `${this.API_BASE}/${chain}/api/v1/route/build`,
+      {
+        routeSummary,
+        sender: request.safeAddress,
+        recipient: request.safeAddress,
+        slippageTolerance: Math.round((request.slippage || 0.5) * 100),
+      },
+      { headers, timeout: this.timeoutMs }
+    );
+
+    const build = buildResponse.data?.data;
+    if (!build?.data) {
+      return null;
+    }
+
+    return {
+      aggregator: this.name,
+      amountOut: build.amountOut || routeSummary.amountOut,
+      gasEstimate: (
+        build.gas ||
+        routeSummary.gas ||
+        DEFAULT_GAS_ESTIMATE
+      ).toString(),
+      gasPrice: routeSummary.gasPrice,
+      executionData: {
+        to: build.routerAddress,
+        data: build.data,
+        value: build.transactionValue || "0",
+      },
+      allowanceTarget: build.routerAddress,
+      confidence: 0.85,
+    };
+  }
+}
+
+/**
+ * Flexible DEX router that queries every enabled aggregator in parallel
+ * and picks the quote with the highest output after gas costs.
+ *
+ * Aggregators are plain adapters, so adding a new one is a matter of
+ * implementing AggregatorAdapter and calling registerAggregator().
  */
 export class FlexibleDEXRouter {
+  private adapters: Map<string, AggregatorAdapter> = new Map();
   private enabledAggregators: Set<string>;
+  private health: Map<string, AggregatorHealth> = new Map();
+  private providers: Map<number, ethers.JsonRpcProvider> = new Map();
+
+  private readonly MAX_CONSECUTIVE_FAILURES = 3;
+  private readonly COOLDOWN_MS = 60000; // 1 minute
+  private readonly HEALTH_EMA_WEIGHT = 0.2;
+
+  constructor(enabledAggregators?: string[]) {
+    for (const adapter of [
+      new ZeroXAdapter(),
+      new OneInchAdapter(),
+      new ParaSwapAdapter(),
+      new OdosAdapter(),
+      new KyberSwapAdapter(),
+    ]) {
+      this.registerAggregator(adapter);
+    }
+
+    const configured =
+      enabledAggregators ||
+      (
+        process.env["DEX_AGGREGATORS"] ||
+        "zerox,oneinch,paraswap,odos,kyberswap"
+      )
+        .split(",")
+        .map((name) => name.trim())
+        .filter(Boolean);
+
+    this.enabledAggregators = new Set(
+      configured.filter((name) => this.adapters.has(name))
+    );
 
-  constructor() {
-    // Start simple - just 0x Protocol (which gives you everything!)
-    this.enabledAggregators = new Set(["zerox"]);
-    logger.info("FlexibleDEXRouter initialized with 0x Protocol");
+    logger.info(
+      `FlexibleDEXRouter initialized with aggregators: ${this.getEnabledAggregators().join(", ")}`
+    );
   }
 
   /**
-   * Get the best quote (currently from 0x, easily extensible)
+   * Query all enabled aggregators in parallel and return the best quote
    */
   async getBestQuote(request: QuoteRequest): Promise<QuoteResponse> {
-    try {
-      logger.info(
-        `Getting quote: ${request.amountIn} ${request.tokenIn} -> ${request.tokenOut}`
+    const quotes = await this.getAllQuotes(request);
+
+    if (quotes.length === 0) {
+      // Aggregator outages and rate limits pass, so callers may retry
+      throw Object.assign(
+        new Error(
+          `No valid quotes available from aggregators: ${this.getEnabledAggregators().join(", ")}`
+        ),
+        { code: "SWAP_QUOTE_FAILED" }
       );
+    }
 
-      // For now, just use 0x (which is excellent!)
-      if (this.enabledAggregators.has("zerox")) {
-        const quote = await this.get0xQuote(request);
-        if (quote) {
-          logger.info(`✅ Best quote from 0x: ${quote.amountOut} output`);
-          return quote;
-        }
+    const best = quotes[0];
+    logger.info(
+      `✅ Best quote from ${best.aggregator}: ${best.amountOut} output (net ${best.netAmountOut} after gas)`,
+      {
+        candidates: quotes.map((q) => ({
+          aggregator: q.aggregator,
+          amountOut: q.amountOut,
+          netAmountOut: q.netAmountOut,
+          latencyMs: q.latencyMs,
+        })),
       }
+    );
 
-      // Future: Easy to add more aggregators here
-      // if (this.enabledAggregators.has('oneinch')) {
-      //   const quote = await this.get1inchQuote(request);
-      //   // Compare and select best...
-      // }
+    return best;
+  }
 
-      throw new Error("No valid quotes available");
-    } catch (error) {
-      logger.error(`Quote retrieval failed: ${error}`);
-      throw error;
+  /**
+   * Get every successful quote, ranked best first
+   */
+  async getAllQuotes(request: QuoteRequest): Promise<QuoteResponse[]> {
+    logger.info(
+      `Getting quotes: ${request.amountIn} ${request.tokenIn} -> ${request.tokenOut} on chain ${request.chainId}`
+    );
+
+    const candidates = Array.from(this.enabledAggregators)
+      .map((name) => this.adapters.get(name)!)
+      .filter(
+        (adapter) =>
+          adapter.supportsChain(request.chainId) && this.isHealthy(adapter.name)
+      );
+
+    const [results, gasPrice] = await Promise.all([
+      Promise.all(
+        candidates.map((adapter) => this.queryAdapter(adapter, request))
+      ),
+      request.gasPricing
+        ? this.getChainGasPrice(request.chainId)
+        : Promise.resolve(null),
+    ]);
+
+    const quotes = results.filter(
+      (quote): quote is QuoteResponse =>
+        quote !== null && BigInt(quote.amountOut || "0") > 0n
+    );
+
+    for (const quote of quotes) {
+      const gasCost = this.calculateGasCostInTokenOut(quote, request, gasPrice);
+      quote.gasCostInTokenOut = gasCost.toString();
+      quote.netAmountOut = (BigInt(quote.amountOut) - gasCost).toString();
     }
+
+    return quotes.sort((a, b) => {
+      const diff = BigInt(b.netAmountOut!) - BigInt(a.netAmountOut!);
+      if (diff !== 0n) {
+        return diff > 0n ? 1 : -1;
+      }
+      // Tie-break on aggregator health, then adapter confidence
+      return (
+        this.getHealth(b.aggregator).score -
+          this.getHealth(a.aggregator).score || b.confidence - a.confidence
+      );
+    });
   }
 
   /**
-   * 0x Protocol quote (already perfect for your needs!)
+   * Query a single adapter with its timeout and record the outcome
    */
-  private async get0xQuote(
+  private async queryAdapter(
+    adapter: AggregatorAdapter,
     request: QuoteRequest
   ): Promise<QuoteResponse | null> {
+    const startedAt = Date.now();
+    let timer: NodeJS.Timeout | undefined;
+
     try {
-      const response = await axios.get("https://api.0x.org/swap/v1/quote", {
-        params: {
-          sellToken: request.tokenIn,
-          buyToken: request.tokenOut,
-          sellAmount: request.amountIn,
-          takerAddress: request.safeAddress,
-          slippagePercentage: (request.slippage || 0.5) / 100,
-        },
-        headers: {
-          "0x-api-key": process.env["ZEROX_API_KEY"],
-        },
-        timeout: 5000,
+      const timeout = new Promise<never>((_, reject) => {
+        timer = setTimeout(
+          () => reject(new Error(`timed out after ${adapter.timeoutMs}ms`)),
+          adapter.timeoutMs
+        );
       });
 
-      return {
-        aggregator: "0x_protocol",
-        amountOut: response.data.buyAmount,
-        gasEstimate: response.data.gas,
-        executionData: {
-          to: response.data.to,
-          data: response.data.data,
-          value: response.data.value || "0",
-        },
-        confidence: 0.95, // High confidence - 0x is very reliable
-      };
+      const quote = await Promise.race([adapter.getQuote(request), timeout]);
+      const latencyMs = Date.now() - startedAt;
+
+      if (!quote) {
+        this.recordFailure(adapter.name, latencyMs, "No route returned");
+        return null;
+      }
+
+      this.recordSuccess(adapter.name, latencyMs);
+      return { ...quote, latencyMs };
+    } catch (error) {
+      const message = axios.isAxiosError(error)
+        ? `${error.response?.status || ""} ${JSON.stringify(error.response?.data || error.message)}`
+        : error instanceof Error
+          ? error.message
+          : String(error);
+
+      this.recordFailure(
+        adapter.name,
+        Date.now() - startedAt,
+        message,
+        message.includes("timed out")
+      );
+      logger.warn(`${adapter.name} quote failed: ${message}`);
+      return null;
+    } finally {
+      if (timer) {
+        clearTimeout(timer);
+      }
+    }
+  }
+
+  /**
+   * Current gas price on the chain. Every candidate is priced with it, so a
+   * quote that omits or understates its gas price gains no edge.
+   */
+  private async getChainGasPrice(chainId: number): Promise<bigint | null> {
+    const network = NetworkUtils.getNetworkByChainId(chainId);
+    if (!network) {
+      return null;
+    }
+
+    try {
+      if (!this.providers.has(chainId)) {
+        this.providers.set(
+          chainId,
+          new ethers.JsonRpcProvider(network.rpcUrl, chainId, {
+            staticNetwork: true,
+          })
+        );
+      }
+      const feeData = await this.providers.get(chainId)!.getFeeData();
+      return feeData.gasPrice ?? feeData.maxFeePerGas ?? null;
     } catch (error) {
-      logger.warn(`0x Protocol quote failed: ${error}`);
+      logger.warn(`Could not read gas price on chain ${chainId}: ${error}`);
       return null;
     }
   }
 
   /**
-   * Easy way to add more aggregators in the future
+   * Convert the quote's gas cost (native token) at the chain's gas price
+   * into tokenOut base units
+   */
+  private calculateGasCostInTokenOut(
+    quote: QuoteResponse,
+    request: QuoteRequest,
+    gasPrice: bigint | null
+  ): bigint {
+    if (
+      !request.gasPricing ||
+      !gasPrice ||
+      request.gasPricing.tokenOutPriceUsd <= 0
+    ) {
+      return 0n;
+    }
+
+    try {
+      const gasCostWei = BigInt(quote.gasEstimate) * gasPrice;
+      const gasCostUsd =
+        parseFloat(ethers.formatEther(gasCostWei)) *
+        request.gasPricing.nativeTokenPriceUsd;
+      const gasCostInTokenOut =
+        gasCostUsd / request.gasPricing.tokenOutPriceUsd;
+
+      return ethers.parseUnits(
+        gasCostInTokenOut.toFixed(request.tokenOutDecimals),
+        request.tokenOutDecimals
+      );
+    } catch (error) {
+      logger.warn(`Could not price gas for ${quote.aggregator}: ${error}`);
+      return 0n;
+    }
+  }
+
+  private getHealth(name: string): AggregatorHealth {
+    if (!this.health.has(name)) {
+      this.health.set(name, {
+        successes: 0,
+        failures: 0,
+        timeouts: 0,
+        consecutiveFailures: 0,
+        averageLatencyMs: 0,
+        score: 1,
+      });
+    }
+    return this.health.get(name)!;
+  }
+
+  private isHealthy(name: string): boolean {
+    const health = this.getHealth(name);
+    if (health.disabledUntil && health.disabledUntil > new Date()) {
+      return false;
+    }
+    return true;
+  }
+
+  private recordSuccess(name: string, latencyMs: number): void {
+    const health = this.getHealth(name);
+    health.successes++;
+    health.consecutiveFailures = 0;
+    health.disabledUntil = undefined;
+    this.updateHealthScore(health, 1, latencyMs);
+  }
+
+  private recordFailure(
+    name: string,
+    latencyMs: number,
+    error: string,
+    timedOut: boolean = false
+  ): void {
+    const health = this.getHealth(name);
+    health.failures++;
+    health.consecutiveFailures++;
+    health.lastError = error;
+    if (timedOut) {
+      health.timeouts++;
+    }
+    this.updateHealthScore(health, 0, latencyMs);
+
+    if (health.consecutiveFailures >= this.MAX_CONSECUTIVE_FAILURES) {
+      health.disabledUntil = new Date(Date.now() + this.COOLDOWN_MS);
+      logger.warn(
+        `⏸️ Aggregator ${name} paused for ${this.COOLDOWN_MS / 1000}s after ${health.consecutiveFailures} consecutive failures`
+      );
+    }
+  }
+
+  private updateHealthScore(
+    health: AggregatorHealth,
+    outcome: number,
+    latencyMs: number
+  ): void {
+    const total = health.successes + health.failures;
+    health.score =
+      health.score * (1 - this.HEALTH_EMA_WEIGHT) +
+      outcome * this.HEALTH_EMA_WEIGHT;
+    health.averageLatencyMs =
+      (health.averageLatencyMs * (total - 1) + latencyMs) / total;
+  }
+
+  /**
+   * Plug in a new aggregator (replaces any adapter with the same name)
    */
+  registerAggregator(adapter: AggregatorAdapter): void {
+    this.adapters.set(adapter.name, adapter);
+    this.getHealth(adapter.name);
+  }
+
   enableAggregator(aggregatorName: string): void {
+    if (!this.adapters.has(aggregatorName)) {
+      logger.warn(`Unknown aggregator: ${aggregatorName}`);
+      return;
+    }
     this.enabledAggregators.add(aggregatorName);
     logger.info(`✅ Enabled aggregator: ${aggregatorName}`);
   }
@@ -123,26 +736,15 @@ export class FlexibleDEXRouter {
     return Array.from(this.enabledAggregators);
   }
 
-  /**
-   * Future: Easy to add 1inch when you want more options
-   */
-  private async get1inchQuote(
-    request: QuoteRequest
-  ): Promise<QuoteResponse | null> {
-    // Implementation would go here when you're ready
-    // For now, just return null
-    return null;
-  }
-
-  /**
-   * Future: Easy to add any other aggregator
-   */
-  private async getCustomAggregatorQuote(
-    request: QuoteRequest
-  ): Promise<QuoteResponse | null> {
-    // Implementation would go here when you're ready
-    return null;
+  getAggregatorHealth(): Record<string, AggregatorHealth> {
+    return Object.fromEntries(
+      Array.from(this.adapters.keys()).map((name) => [
+        name,
+        { ...this.getHealth(name) },
+      ])
+    );
   }
 }
 
 export default FlexibleDEXRouter;
+export { QuoteRequest, QuoteResponse, AggregatorAdapter, AggregatorHealth };
@@ -0,0 +1,360 @@
+import { EventEmitter } from "events";
+import { logger } from "../config/logger";
+import DatabaseService from "./DatabaseService";
+import TradeMonitoringService, {
+  MonitoredTrade,
+} from "./TradeMonitoringService";
+import { AuthPrincipal } from "./AuthService";
+
+type KillSwitchScope = "global" | "user" | "token" | "network";
+
+type KillSwitchSource = "api" | "socket" | "env";
+
+interface KillSwitch {
+  key: string; // "<scope>" or "<scope>:<target>"
+  scope: KillSwitchScope;
+  target?: string; // username, token symbol or network key
+  reason: string;
+  engagedBy: string;
+  engagedAt: Date;
+  source: KillSwitchSource;
+  flatten: boolean;
+}
+
+interface KillSwitchAuditEntry {
+  action: "engage" | "release" | "flatten";
+  key: string;
+  scope: KillSwitchScope;
+  target?: string;
+  reason?: string;
+  actor: string;
+  source: KillSwitchSource;
+  exitedTrades?: string[];
+  failedExits?: string[];
+  at: Date;
+}
+
+/**
+ * What a new entry would trade, checked against every engaged switch
+ */
+interface EntryContext {
+  username?: string;
+  token?: string;
+  networkKey?: string;
+}
+
+const KILL_SWITCH_SCOPES: KillSwitchScope[] = [
+  "global",
+  "user",
+  "token",
+  "network",
+];
+
+/**
+ * Runtime kill switch for new entries
+ *
+ * Switches can be engaged for everything or scoped to a user, a token or a
+ * network. While one matches, ApiSignalProcessor refuses to open positions;
+ * exits keep running. Engaging with `flatten` also exits every monitored
+ * trade in the switch's scope. Switches persist in MongoDB so they survive
+ * restarts, and every engage, release and flatten is written to an audit log.
+ *
+ * EMERGENCY_STOP=true or MAINTENANCE_MODE=true engage the global switch at
+ * startup.
+ */
+class KillSwitchService extends EventEmitter {
+  private switches: Map<string, KillSwitch> = new Map();
+
+  constructor(
+    private databaseService: DatabaseService,
+    private tradeMonitoringService?: TradeMonitoringService
+  ) {
+    super();
+
+    if (process.env["EMERGENCY_STOP"] === "true") {
+      this.setSwitch("global", undefined, "EMERGENCY_STOP is set", "env");
+    } else if (process.env["MAINTENANCE_MODE"] === "true") {
+      this.setSwitch("global", undefined, "MAINTENANCE_MODE is set", "env");
+    }
+  }
+
+  /**
+   * Load switches engaged before the last restart
+   */
+  async start(): Promise<void> {
+    for (const killSwitch of this.switches.values()) {
+      await this.audit({
+        action: "engage",
+        key: killSwitch.key,
+        scope: killSwitch.scope,
+        reason: killSwitch.reason,
+        actor: killSwitch.engagedBy,
+        source: killSwitch.source,
+      });
+    }
+
+    const persisted = await this.databaseService.getKillSwitches();
+    for (const killSwitch of persisted) {
+      if (!this.switches.has(killSwitch.key)) {
+        this.switches.set(killSwitch.key, killSwitch);
+      }
+    }
+
+    if (this.switches.size > 0) {
+      logger.warn(
+        `🛑 Kill switches engaged: ${Array.from(this.switches.keys()).join(", ")}`
+      );
+    }
+  }
+
+  async engage(
+    scope: KillSwitchScope,
+    target: string | undefined,
+    options: {
+      reason: string;
+      actor: string;
+      source: KillSwitchSource;
+      flatten?: boolean;
+    }
+  ): Promise<KillSwitch & { exitedTrades?: string[]; failedExits?: string[] }> {
+    const killSwitch = this.setSwitch(
+      scope,
+      target,
+      options.reason,
+      options.source,
+      options.actor,
+      !!options.flatten
+    );
+
+    await this.databaseService.saveKillSwitch(killSwitch);
+    await this.audit({
+      action: "engage",
+      key: killSwitch.key,
+      scope,
+      target: killSwitch.target,
+      reason: options.reason,
+      actor: options.actor,
+      source: options.source,
+    });
+
+    logger.warn(
+      `🛑 Kill switch ${killSwitch.key} engaged by ${options.actor}: ${options.reason}`
+    );
+    this.emit("engaged", killSwitch);
+
+    if (!options.flatten) {
+      return killSwitch;
+    }
+
+    const { exitedTrades, failedExits } = await this.flatten(killSwitch);
+    await this.audit({
+      action: "flatten",
+      key: killSwitch.key,
+      scope,
+      target: killSwitch.target,
+      reason: options.reason,
+      actor: options.actor,
+      source: options.source,
+      exitedTrades,
+      failedExits,
+    });
+
+    return { ...killSwitch, exitedTrades, failedExits };
+  }
+
+  async release(
+    scope: KillSwitchScope,
+    target: string | undefined,
+    options: { reason?: string; actor: string; source: KillSwitchSource }
+  ): Promise<boolean> {
+    const key = this.getKey(scope, target);
+    const killSwitch = this.switches.get(key);
+    if (!killSwitch) {
+      return false;
+    }
+
+    this.switches.delete(key);
+    await this.databaseService.removeKillSwitch(key);
+    await this.audit({
+      action: "release",
+      key,
+      scope,
+      target: killSwitch.target,
+      reason: options.reason,
+      actor: options.actor,
+      source: options.source,
+    });
+
+    logger.info(`✅ Kill switch ${key} released by ${options.actor}`);
+    this.emit("released", { ...killSwitch, releasedBy: options.actor });
+    return true;
+  }
+
+  /**
+   * The switch that blocks an entry with this context, or null when trading
+   * is allowed
+   */
+  getBlockingSwitch(context: EntryContext): KillSwitch | null {
+    const candidates = [
+      this.getKey("global"),
+      context.username && this.getKey("user", context.username),
+      context.token && this.getKey("token", context.token),
+      context.networkKey && this.getKey("network", context.networkKey),
+    ];
+
+    for (const key of candidates) {
+      const killSwitch = key && this.switches.get(key);
+      if (killSwitch) {
+        return killSwitch;
+      }
+    }
+    return null;
+  }
+
+  getSwitch(scope: KillSwitchScope, target?: string): KillSwitch | null {
+    return this.switches.get(this.getKey(scope, target)) || null;
+  }
+
+  listSwitches(): KillSwitch[] {
+    return Array.from(this.switches.values());
+  }
+
+  async getAuditLog(limit: number = 100): Promise<KillSwitchAuditEntry[]> {
+    return this.databaseService.getKillSwitchAudit(limit);
+  }
+
+  /**
+   * Admins control every switch. Other callers with trade-control may only
+   * engage a switch on themselves, and only change or release one they
+   * engaged.
+   */
+  canControl(
+    principal: AuthPrincipal,
+    scope: KillSwitchScope,
+    target: string | undefined,
+    action: "engage" | "release"
+  ): boolean {
+    if (principal.scopes.includes("admin")) {
+      return true;
+    }
+    if (
+      !principal.scopes.includes("trade-control") ||
+      scope !== "user" ||
+      target !== principal.username
+    ) {
+      return false;
+    }
+    // Switches engaged by an admin stay under admin control
+    const existing = this.getSwitch(scope, target);
+    return existing
+      ? existing.engagedBy === principal.username
+      : action === "engage";
+  }
+
+  /**
+   * Exit every monitored trade the switch covers
+   */
+  private async flatten(
+    killSwitch: KillSwitch
+  ): Promise<{ exitedTrades: string[]; failedExits: string[] }> {
+    if (!this.tradeMonitoringService) {
+      logger.warn(`⚠️ Cannot flatten ${killSwitch.key}, no trade monitoring`);
+      return { exitedTrades: [], failedExits: [] };
+    }
+
+    logger.warn(`🛑 Flattening open positions under ${killSwitch.key}`);
+    const results = await this.tradeMonitoringService.exitTrades(
+      (trade) => this.covers(killSwitch, trade),
+      `Kill switch ${killSwitch.key}: ${killSwitch.reason}`
+    );
+
+    const exitedTrades = results.filter((r) => r.exited).map((r) => r.tradeId);
+    const failedExits = results.filter((r) => !r.exited).map((r) => r.tradeId);
+    this.emit("flattened", { key: killSwitch.key, exitedTrades, failedExits });
+    return { exitedTrades, failedExits };
+  }
+
+  private covers(killSwitch: KillSwitch, trade: MonitoredTrade): boolean {
+    switch (killSwitch.scope) {
+      case "global":
+        return true;
+      case "user":
+        return trade.userId === killSwitch.target;
+      case "token":
+        return (
+          (trade.tokenSymbol || trade.tokenMentioned)?.toUpperCase() ===
+          killSwitch.target
+        );
+      case "network":
+        return trade.networkKey === killSwitch.target;
+    }
+  }
+
+  private setSwitch(
+    scope: KillSwitchScope,
+    target: string | undefined,
+    reason: string,
+    source: KillSwitchSource,
+    engagedBy: string = source,
+    flatten: boolean = false
+  ): KillSwitch {
+    if (!KILL_SWITCH_SCOPES.includes(scope)) {
+      throw new Error(`Scope must be one of: ${KILL_SWITCH_SCOPES.join(", ")}`);
+    }
+    if (scope !== "global" && !target) {
+      throw new Error(`A ${scope} kill switch needs a target`);
+    }
+
+    const killSwitch: KillSwitch = {
+      key: this.getKey(scope, target),
+      scope,
+      target: this.normalizeTarget(scope, target),
+      reason,
+      engagedBy,
+      engagedAt: new Date(),
+      source,
+      flatten,
+    };
+    this.switches.set(killSwitch.key, killSwitch);
+    return killSwitch;
+  }
+
+  private getKey(scope: KillSwitchScope, target?: string): string {
+    return scope === "global"
+      ? scope
+      : `${scope}:${this.normalizeTarget(scope, target)}`;
+  }
+
+  private normalizeTarget(
+    scope: KillSwitchScope,
+    target?: string
+  ): string | undefined {
+    if (scope === "global" || !target) {
+      return undefined;
+    }
+    if (scope === "token") {
+      return target.toUpperCase();
+    }
+    if (scope === "network") {
+      return target.toLowerCase();
+    }
+    return target;
+  }
+
+  private async audit(entry: Omit<KillSwitchAuditEntry, "at">): Promise<void> {
+    await this.databaseService.recordKillSwitchAudit({
+      ...entry,
+      at: new Date(),
+    });
+  }
+}
+
+export default KillSwitchService;
+export {
+  KillSwitch,
+  KillSwitchScope,
+  KillSwitchSource,
+  KillSwitchAuditEntry,
+  EntryContext,
+  KILL_SWITCH_SCOPES,
+};
@@ -0,0 +1,490 @@
+import { ethers } from "ethers";
+import { NetworkConfig } from "../config/networks";
+import { logger } from "../config/logger";
+import { NetworkUtils } from "../utils/NetworkUtils";
+import TradeExecutionService, {
+  SwapFill,
+  TokenAllowance,
+} from "./TradeExecutionService";
+import DatabaseService from "./DatabaseService";
+import PriceMonitoringService from "./PriceMonitoringService";
+import PriceOracleService, {
+  PriceQuery,
+  getPriceKey,
+} from "./PriceOracleService";
+import { isNativeTokenAddress } from "../constants/addresses";
+
+interface PaperBalance {
+  safeAddress: string;
+  networkKey: string;
+  tokenAddress: string;
+  symbol: string;
+  decimals: number;
+  balance: string; // base units
+  updatedAt?: Date;
+}
+
+interface PaperTradingConfig {
+  slippagePercent: number; // charged against every fill
+  startingBalances: Record<string, string>; // symbol -> token units a Safe starts with on each network
+}
+
+interface PaperToken {
+  symbol: string;
+  address: string;
+  decimals: number;
+}
+
+// Priced at $1 when no oracle has them
+const STABLECOINS = ["USDC", "USDT", "DAI"];
+
+/**
+ * "USDC:10000,ETH:1" -> { USDC: "10000", ETH: "1" }
+ */
+function parseStartingBalances(value: string): Record<string, string> {
+  const balances: Record<string, string> = {};
+  for (const entry of value.split(",")) {
+    const [symbol, amount] = entry.split(":").map((part) => part.trim());
+    if (symbol && amount) {
+      balances[symbol.toUpperCase()] = amount;
+    }
+  }
+  return balances;
+}
+
+/**
+ * Paper trading executor (EXECUTION_MODE=PAPER)
+ *
+ * Stands in for TradeExecutionService without touching a chain: swaps fill
+ * at the oracle's market price less slippage, move virtual Safe balances
+ * kept in MongoDB and return a random transaction hash. executeTrade and
+ * exitTrade are inherited, so entries still open P&L lots and monitoring,
+ * and exits still go through the ledger. A Safe starts with
+ * PAPER_STARTING_BALANCES on each network the first time it is used.
+ */
+class PaperTradeExecutionService extends TradeExecutionService {
+  private paperConfig: PaperTradingConfig;
+  private safeLocks: Map<string, Promise<unknown>> = new Map();
+
+  constructor(
+    private balanceStore: DatabaseService,
+    private priceOracle: PriceOracleService,
+    priceMonitoringService?: PriceMonitoringService,
+    config?: Partial<PaperTradingConfig>
+  ) {
+    super(undefined, priceMonitoringService);
+    this.setDatabaseService(balanceStore);
+
+    this.paperConfig = {
+      slippagePercent: parseFloat(
+        process.env["PAPER_SLIPPAGE_PERCENT"] || "0.3"
+      ),
+      startingBalances: parseStartingBalances(
+        process.env["PAPER_STARTING_BALANCES"] || "USDC:10000"
+      ),
+      ...config,
+    };
+
+    logger.info(
+      `📝 Paper trading enabled: fills at market price less ${this.paperConfig.slippagePercent}% slippage`
+    );
+  }
+
+  /**
+   * Fill a swap against the Safe's virtual balances
+   */
+  async executeSwap(
+    safeAddress: string,
+    sellToken: string,
+    buyToken: string,
+    sellAmount: string,
+    chainId: number,
+    networkConfig: NetworkConfig,
+    dynamicTokenInfo?: any
+  ): Promise<{
+    success: boolean;
+    transactionHash?: string;
+    amountOut?: string;
+    buyTokenAddress?: string;
+    buyTokenDecimals?: number;
+    fill?: SwapFill;
+    error?: string;
+    errorCode?: string;
+  }> {
+    try {
+      logger.info(
+        `📝 Paper swap: ${sellAmount} ${sellToken} -> ${buyToken} for Safe ${safeAddress}`
+      );
+
+      const sell = await this.resolveToken(
+        sellToken,
+        chainId,
+        networkConfig,
+        dynamicTokenInfo
+      );
+      const buy = await this.resolveToken(
+        buyToken,
+        chainId,
+        networkConfig,
+        dynamicTokenInfo
+      );
+      const amountInWei = ethers.parseUnits(sellAmount, sell.decimals);
+
+      const amountOutWei = await this.withSafeLock(
+        safeAddress,
+        networkConfig.networkKey,
+        async () => {
+          const balances = await this.loadBalances(
+            safeAddress,
+            networkConfig,
+            chainId
+          );
+          const sellBalance = BigInt(
+            balances.get(sell.address.toLowerCase())?.balance || "0"
+          );
+          if (sellBalance < amountInWei) {
+            throw new Error(`Insufficient ${sellToken} balance in Safe`);
+          }
+
+          const outWei = await this.getFillAmount(
+            sell,
+            buy,
+            amountInWei,
+            networkConfig.networkKey
+          );
+          const buyBalance = BigInt(
+            balances.get(buy.address.toLowerCase())?.balance || "0"
+          );
+
+          await this.saveBalance(
+            safeAddress,
+            networkConfig.networkKey,
+            sell,
+            sellBalance - amountInWei
+          );
+          await this.saveBalance(
+            safeAddress,
+            networkConfig.networkKey,
+            buy,
+            buyBalance + outWei
+          );
+          return outWei;
+        }
+      );
+
+      const transactionHash = ethers.hexlify(ethers.randomBytes(32));
+      const fill: SwapFill = {
+        sellTokenAddress: sell.address,
+        buyTokenAddress: buy.address,
+        amountIn: ethers.formatUnits(amountInWei, sell.decimals),
+        amountOut: ethers.formatUnits(amountOutWei, buy.decimals),
+        source: "paper",
+        gasUsed: "0",
+        gasCostNative: "0",
+        fees: [],
+      };
+
+      logger.info(
+        `📝 Paper fill ${transactionHash}: ${fill.amountIn} ${sellToken} -> ${fill.amountOut} ${buyToken}`
+      );
+
+      return {
+        success: true,
+        transactionHash,
+        amountOut: fill.amountOut,
+        buyTokenAddress: buy.address,
+        buyTokenDecimals: buy.decimals,
+        fill,
+      };
+    } catch (error) {
+      logger.error(`❌ Paper swap failed: ${error}`);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : "Unknown error",
+      };
+    }
+  }
+
+  /**
+   * Quote at the market price, without moving balances
+   */
+  async previewSwap(
+    safeAddress: string,
+    sellToken: string,
+    buyToken: string,
+    sellAmount: string,
+    networkConfig: NetworkConfig,
+    dynamicTokenInfo?: any
+  ): Promise<{ aggregator: string; amountOut: string; gasEstimate: string }> {
+    const sell = await this.resolveToken(
+      sellToken,
+      networkConfig.chainId,
+      networkConfig,
+      dynamicTokenInfo
+    );
+    const buy = await this.resolveToken(
+      buyToken,
+      networkConfig.chainId,
+      networkConfig,
+      dynamicTokenInfo
+    );
+    const amountOutWei = await this.getFillAmount(
+      sell,
+      buy,
+      ethers.parseUnits(sellAmount, sell.decimals),
+      networkConfig.networkKey
+    );
+
+    return {
+      aggregator: "paper",
+      amountOut: ethers.formatUnits(amountOutWei, buy.decimals),
+      gasEstimate: "0",
+    };
+  }
+
+  async getSafeBalance(
+    safeAddress: string,
+    tokenAddress: string,
+    chainId: number,
+    networkConfig: NetworkConfig = NetworkUtils.getNetworkByChainId(chainId)!
+  ): Promise<string> {
+    try {
+      const balances = await this.withSafeLock(
+        safeAddress,
+        networkConfig.networkKey,
+        () => this.loadBalances(safeAddress, networkConfig, chainId)
+      );
+      return balances.get(tokenAddress.toLowerCase())?.balance || "0";
+    } catch (error) {
+      logger.error(`Failed to get paper Safe balance: ${error}`);
+      return "0";
+    }
+  }
+
+  // Paper Safes never grant on-chain approvals
+  async listTokenAllowances(): Promise<TokenAllowance[]> {
+    return [];
+  }
+
+  async revokeTokenAllowances(): Promise<{
+    success: boolean;
+    transactionHash?: string;
+    revoked: { tokenAddress: string; spender: string }[];
+    error?: string;
+  }> {
+    return { success: true, revoked: [] };
+  }
+
+  /**
+   * Virtual balances of a Safe on a network, seeding new Safes
+   */
+  async getPaperBalances(
+    safeAddress: string,
+    networkKey: string
+  ): Promise<PaperBalance[]> {
+    const networkConfig = this.getNetwork(networkKey);
+    const balances = await this.withSafeLock(safeAddress, networkKey, () =>
+      this.loadBalances(safeAddress, networkConfig, networkConfig.chainId)
+    );
+    return Array.from(balances.values());
+  }
+
+  /**
+   * Set a Safe's virtual balance of a token, in token units
+   */
+  async setPaperBalance(
+    safeAddress: string,
+    networkKey: string,
+    tokenSymbol: string,
+    amount: string
+  ): Promise<PaperBalance> {
+    const networkConfig = this.getNetwork(networkKey);
+    const token = await this.resolveToken(
+      tokenSymbol,
+      networkConfig.chainId,
+      networkConfig
+    );
+    const balance = ethers.parseUnits(amount, token.decimals);
+    if (balance < 0n) {
+      throw new Error("amount must be 0 or more");
+    }
+
+    return this.withSafeLock(safeAddress, networkKey, async () => {
+      // Seed first so a later read does not replace this balance
+      await this.loadBalances(
+        safeAddress,
+        networkConfig,
+        networkConfig.chainId
+      );
+      return this.saveBalance(safeAddress, networkKey, token, balance);
+    });
+  }
+
+  /**
+   * Buy tokens received for amountInWei at market prices, less slippage
+   */
+  private async getFillAmount(
+    sell: PaperToken,
+    buy: PaperToken,
+    amountInWei: bigint,
+    networkKey: string
+  ): Promise<bigint> {
+    const sellQuery = this.getPriceQuery(sell, networkKey);
+    const buyQuery = this.getPriceQuery(buy, networkKey);
+    const prices = await this.priceOracle.getPrices([sellQuery, buyQuery]);
+
+    const sellUsd = this.getUsdPrice(sell, prices.get(getPriceKey(sellQuery)));
+    const buyUsd = this.getUsdPrice(buy, prices.get(getPriceKey(buyQuery)));
+
+    const amountIn = parseFloat(ethers.formatUnits(amountInWei, sell.decimals));
+    const amountOut =
+      ((amountIn * sellUsd) / buyUsd) *
+      (1 - this.paperConfig.slippagePercent / 100);
+    return ethers.parseUnits(amountOut.toFixed(buy.decimals), buy.decimals);
+  }
+
+  private getUsdPrice(token: PaperToken, price?: { price: number }): number {
+    if (price?.price > 0) {
+      return price.price;
+    }
+    if (STABLECOINS.includes(token.symbol.toUpperCase())) {
+      return 1;
+    }
+    throw new Error(`No market price for ${token.symbol} to fill at`);
+  }
+
+  // The gas token is priced by symbol, ERC20s by contract
+  private getPriceQuery(token: PaperToken, networkKey: string): PriceQuery {
+    return isNativeTokenAddress(token.address)
+      ? { symbol: token.symbol, networkKey }
+      : { symbol: token.symbol, tokenAddress: token.address, networkKey };
+  }
+
+  private async resolveToken(
+    symbol: string,
+    chainId: number,
+    networkConfig: NetworkConfig,
+    dynamicTokenInfo?: any
+  ): Promise<PaperToken> {
+    const address = await this.getTokenAddress(
+      symbol,
+      chainId,
+      dynamicTokenInfo
+    );
+    if (!address) {
+      throw new Error(
+        `Token address not found for ${symbol} on ${networkConfig.networkKey}`
+      );
+    }
+
+    return {
+      symbol,
+      address,
+      decimals: await this.getTokenDecimals(
+        symbol,
+        address,
+        networkConfig,
+        dynamicTokenInfo
+      ),
+    };
+  }
+
+  /**
+   * The Safe's balances on a network keyed by lowercase token address. A
+   * Safe with none yet is given the starting balances.
+   */
+  private async loadBalances(
+    safeAddress: string,
+    networkConfig: NetworkConfig,
+    chainId: number
+  ): Promise<Map<string, PaperBalance>> {
+    let stored: PaperBalance[] = await this.balanceStore.getPaperBalances(
+      safeAddress,
+      networkConfig.networkKey
+    );
+
+    if (stored.length === 0) {
+      for (const [symbol, amount] of Object.entries(
+        this.paperConfig.startingBalances
+      )) {
+        try {
+          const token = await this.resolveToken(symbol, chainId, networkConfig);
+          stored.push(
+            await this.saveBalance(
+              safeAddress,
+              networkConfig.networkKey,
+              token,
+              ethers.parseUnits(amount, token.decimals)
+            )
+          );
+        } catch (error) {
+          logger.warn(
+            `⚠️ Could not seed paper ${symbol} on ${networkConfig.networkKey}: ${error}`
+          );
+        }
+      }
+      logger.info(
+        `📝 Seeded paper Safe ${safeAddress} on ${networkConfig.networkKey}: ${stored.map((b) => `${ethers.formatUnits(b.balance, b.decimals)} ${b.symbol}`).join(", ")}`
+      );
+    }
+
+    return new Map(
+      stored.map((balance) => [balance.tokenAddress.toLowerCase(), balance])
+    );
+  }
+
+  private async saveBalance(
+    safeAddress: string,
+    networkKey: string,
+    token: PaperToken,
+    balance: bigint
+  ): Promise<PaperBalance> {
+    const paperBalance: PaperBalance = {
+      safeAddress: safeAddress.toLowerCase(),
+      networkKey,
+      tokenAddress: token.address.toLowerCase(),
+      symbol: token.symbol,
+      decimals: token.decimals,
+      balance: balance.toString(),
+    };
+
+    if (!(await this.balanceStore.savePaperBalance(paperBalance))) {
+      throw new Error(`Failed to save paper ${token.symbol} balance`);
+    }
+    return paperBalance;
+  }
+
+  private getNetwork(networkKey: string): NetworkConfig {
+    const networkConfig = NetworkUtils.getNetworkByKey(networkKey);
+    if (!networkConfig) {
+      throw new Error(`Unsupported network: ${networkKey}`);
+    }
+    return networkConfig;
+  }
+
+  /**
+   * Serialize balance updates per Safe and network so concurrent fills
+   * never read the same balance
+   */
+  private async withSafeLock<T>(
+    safeAddress: string,
+    networkKey: string,
+    task: () => Promise<T>
+  ): Promise<T> {
+    const key = `${safeAddress.toLowerCase()}:${networkKey}`;
+    const previous = this.safeLocks.get(key) || Promise.resolve();
+    const run = previous.catch(() => undefined).then(task);
+    this.safeLocks.set(key, run);
+
+    try {
+      return await run;
+    } finally {
+      if (this.safeLocks.get(key) === run) {
+        this.safeLocks.delete(key);
+      }
+    }
+  }
+}
+
+export default PaperTradeExecutionService;
+export { PaperBalance, PaperTradingConfig };
@@ -0,0 +1,151 @@
+import PnlLedgerService, { PnlLot } from "./PnlLedgerService";
+import DatabaseService from "./DatabaseService";
+import PriceOracleService, { PriceQuery } from "./PriceOracleService";
+import { SwapFill } from "./TradeExecutionService";
+
+const SAFE = "0x1111111111111111111111111111111111111111";
+const TOKEN = "0x2222222222222222222222222222222222222222";
+const USDC = "0xaf88d065e77c8cc2239327c5edb3a432268e5831";
+
+// 0.0005 ETH of gas at $2000 costs $1 per swap
+const GAS_COST_NATIVE = "0.0005";
+const PRICES: Record<string, number> = { ETH: 2000, USDC: 1 };
+
+/**
+ * In-memory lots and ledger with the same FIFO ordering as MongoDB
+ */
+function createDatabase() {
+  const lots: PnlLot[] = [];
+  const entries: any[] = [];
+  return {
+    lots,
+    entries,
+    storePnlLot: async (lot: PnlLot) => {
+      lots.push({ ...lot });
+    },
+    recordPnlLedgerEntry: async (entry: any) => {
+      entries.push(entry);
+    },
+    getOpenPnlLots: async () =>
+      lots
+        .filter((lot) => !lot.closed)
+        .sort((a, b) => a.openedAt.getTime() - b.openedAt.getTime()),
+    updatePnlLot: async (lotId: string, updates: Partial<PnlLot>) => {
+      Object.assign(lots.find((lot) => lot.lotId === lotId)!, updates);
+    },
+  };
+}
+
+function createService(database: ReturnType<typeof createDatabase>) {
+  const priceOracle = {
+    getPrices: async (queries: PriceQuery[]) =>
+      new Map(
+        queries.map((query) => [
+          `symbol:${query.symbol.toUpperCase()}`,
+          { price: PRICES[query.symbol.toUpperCase()] },
+        ])
+      ),
+  } as unknown as PriceOracleService;
+  return new PnlLedgerService(
+    database as unknown as DatabaseService,
+    priceOracle
+  );
+}
+
+function fill(
+  sellTokenAddress: string,
+  buyTokenAddress: string,
+  amountIn: string,
+  amountOut: string
+): SwapFill {
+  return {
+    sellTokenAddress,
+    buyTokenAddress,
+    amountIn,
+    amountOut,
+    source: "receipt",
+    gasUsed: "250000",
+    gasCostNative: GAS_COST_NATIVE,
+    fees: [],
+  };
+}
+
+const identity = {
+  userId: "alice",
+  safeAddress: SAFE,
+  networkKey: "arbitrum",
+  tokenSymbol: "TKN",
+  baseToken: "USDC",
+};
+
+describe("PnlLedgerService exits", () => {
+  let database: ReturnType<typeof createDatabase>;
+  let ledger: PnlLedgerService;
+
+  const buy = (tradeId: string, usdcIn: string, tokensOut: string) =>
+    ledger.recordEntry({
+      ...identity,
+      tradeId,
+      fill: fill(USDC, TOKEN, usdcIn, tokensOut),
+    });
+
+  const sell = (
+    tradeId: string,
+    tokensIn: string,
+    usdcOut: string,
+    fallbackUnitCostUsd = 0
+  ) =>
+    ledger.recordExit({
+      ...identity,
+      tradeId,
+      fill: fill(TOKEN, USDC, tokensIn, usdcOut),
+      exitType: "TP1",
+      fallbackUnitCostUsd,
+    });
+
+  beforeEach(() => {
+    database = createDatabase();
+    ledger = createService(database);
+  });
+
+  it("costs a partial exit across two lots oldest first, net of gas", async () => {
+    // Lot costs include their $1 entry gas: $101 and $201
+    await buy("trade-1", "100", "100");
+    await buy("trade-2", "200", "100");
+
+    const exit = await sell("trade-2", "150", "300");
+
+    expect(exit!.lots).toEqual([
+      { lotId: database.lots[0].lotId, quantity: "100", costUsd: 101 },
+      { lotId: database.lots[1].lotId, quantity: "50", costUsd: 100.5 },
+    ]);
+    expect(exit!.gasUsd).toBe(1);
+    expect(exit!.costBasisUsd).toBeCloseTo(201.5);
+    expect(exit!.proceedsUsd).toBe(300);
+    expect(exit!.realizedPnlUsd).toBeCloseTo(300 - 201.5 - 1);
+    expect(exit!.unmatchedQuantity).toBeUndefined();
+
+    expect(database.lots[0]).toMatchObject({
+      remainingQuantity: "0",
+      remainingCostUsd: 0,
+      closed: true,
+    });
+    expect(database.lots[1]).toMatchObject({
+      remainingQuantity: "50",
+      closed: false,
+    });
+    expect(database.lots[1].remainingCostUsd).toBeCloseTo(100.5);
+  });
+
+  it("costs tokens sold beyond the recorded lots at the fallback price", async () => {
+    await buy("trade-1", "100", "100");
+
+    const exit = await sell("trade-1", "130", "260", 1.5);
+
+    expect(exit!.lots).toHaveLength(1);
+    expect(exit!.unmatchedQuantity).toBe("30");
+    expect(exit!.costBasisUsd).toBeCloseTo(101 + 30 * 1.5);
+    expect(exit!.realizedPnlUsd).toBeCloseTo(260 - 146 - 1);
+    expect(database.lots[0].closed).toBe(true);
+  });
+});
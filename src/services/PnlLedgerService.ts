@@ -0,0 +1,510 @@
+import { logger } from "../config/logger";
+import DatabaseService from "./DatabaseService";
+import PriceOracleService, { getPriceKey } from "./PriceOracleService";
+import { SwapFill } from "./TradeExecutionService";
+import { NetworkUtils } from "../utils/NetworkUtils";
+
+// Fixed precision for lot quantity arithmetic
+const AMOUNT_SCALE = 18;
+
+/**
+ * Tokens bought by one entry. Exits consume a position's lots oldest first.
+ */
+interface PnlLot {
+  lotId: string;
+  tradeId: string;
+  userId: string;
+  safeAddress: string; // lowercased
+  networkKey: string;
+  tokenAddress: string; // lowercased
+  tokenSymbol: string;
+  quantity: string;
+  remainingQuantity: string;
+  costUsd: number; // base token spent plus entry gas
+  remainingCostUsd: number;
+  entryTxHash?: string;
+  openedAt: Date;
+  closed: boolean;
+}
+
+interface PnlLedgerEntry {
+  type: "entry" | "exit";
+  tradeId: string;
+  userId: string;
+  safeAddress: string;
+  networkKey: string;
+  tokenAddress: string;
+  tokenSymbol: string;
+  exitType?: string;
+  txHash?: string;
+  quantity: string; // tokens bought or sold
+  baseToken: string;
+  baseAmount: string; // base token spent on entry, received on exit
+  fillSource: SwapFill["source"];
+  fillPrice: number; // USD per token, before gas
+  gasCostNative: string;
+  gasUsd: number;
+  feesUsd: number; // aggregator fees, already netted out of the fill
+  costBasisUsd?: number; // exit: FIFO cost of the tokens sold
+  proceedsUsd?: number; // exit
+  realizedPnlUsd?: number; // exit: proceeds - cost basis - exit gas
+  lots?: { lotId: string; quantity: string; costUsd: number }[];
+  unmatchedQuantity?: string; // exit: sold without a lot, costed at the trade's entry price
+  timestamp: Date;
+}
+
+interface OpenPosition {
+  userId: string;
+  safeAddress: string;
+  networkKey: string;
+  tokenAddress: string;
+  tokenSymbol: string;
+  quantity: string;
+  costBasisUsd: number;
+  averageCostUsd: number;
+  currentPrice: number | null; // null when no oracle could price it
+  marketValueUsd: number | null;
+  unrealizedPnlUsd: number | null;
+  unrealizedPnlPercent: number | null;
+  lots: number;
+}
+
+interface PnlSummary {
+  userId?: string;
+  since?: Date;
+  realizedPnlUsd: number;
+  unrealizedPnlUsd: number;
+  gasUsd: number;
+  feesUsd: number;
+  exits: PnlLedgerEntry[]; // newest first
+  openPositions: OpenPosition[];
+}
+
+interface LedgerFill {
+  tradeId: string;
+  userId: string;
+  safeAddress: string;
+  networkKey: string;
+  tokenSymbol: string;
+  baseToken: string;
+  txHash?: string;
+  fill: SwapFill;
+}
+
+/**
+ * P&L accounting from actual fills
+ *
+ * Every entry and exit swap is recorded with the amounts decoded from its
+ * receipt and the gas it cost in USD. Entries open a lot per position (Safe,
+ * network, token) costed at the base token spent plus gas; exits consume
+ * lots FIFO, so a leg's realized P&L is its proceeds less the cost of the
+ * oldest tokens it sold and its own gas. Aggregator fees are already netted
+ * out of the filled amounts and are recorded for reporting only.
+ */
+class PnlLedgerService {
+  // Serializes lot updates per position so concurrent exits cannot consume
+  // the same lot twice
+  private positionLocks: Map<string, Promise<unknown>> = new Map();
+
+  constructor(
+    private databaseService: DatabaseService,
+    private priceOracle: PriceOracleService
+  ) {}
+
+  /**
+   * Open a lot for the tokens an entry swap bought
+   */
+  async recordEntry(params: LedgerFill): Promise<PnlLedgerEntry | null> {
+    const { fill } = params;
+    const tokenAddress = fill.buyTokenAddress.toLowerCase();
+
+    try {
+      return await this.withPositionLock(
+        this.getPositionKey(
+          params.safeAddress,
+          params.networkKey,
+          tokenAddress
+        ),
+        async () => {
+          const { baseUsd, nativeUsd } = await this.getUsdPrices(
+            params.networkKey,
+            params.baseToken
+          );
+          const spentUsd = parseFloat(fill.amountIn) * baseUsd;
+          const gasUsd = parseFloat(fill.gasCostNative) * nativeUsd;
+          const fillPrice = spentUsd / parseFloat(fill.amountOut) || 0;
+          const costUsd = spentUsd + gasUsd;
+
+          const lot: PnlLot = {
+            lotId: `lot_${params.tradeId}_${Date.now()}`,
+            tradeId: params.tradeId,
+            userId: params.userId,
+            safeAddress: params.safeAddress.toLowerCase(),
+            networkKey: params.networkKey,
+            tokenAddress,
+            tokenSymbol: params.tokenSymbol,
+            quantity: fill.amountOut,
+            remainingQuantity: fill.amountOut,
+            costUsd,
+            remainingCostUsd: costUsd,
+            entryTxHash: params.txHash,
+            openedAt: new Date(),
+            closed: false,
+          };
+
+          const entry: PnlLedgerEntry = {
+            type: "entry",
+            ...this.getEntryIdentity(params, tokenAddress),
+            quantity: fill.amountOut,
+            baseAmount: fill.amountIn,
+            fillSource: fill.source,
+            fillPrice,
+            gasCostNative: fill.gasCostNative,
+            gasUsd,
+            feesUsd: this.getFeesUsd(
+              fill,
+              fill.sellTokenAddress,
+              baseUsd,
+              fillPrice
+            ),
+            timestamp: lot.openedAt,
+          };
+
+          await this.databaseService.storePnlLot(lot);
+          await this.databaseService.recordPnlLedgerEntry(entry);
+
+          logger.info(
+            `📒 Lot opened for ${params.tradeId}: ${lot.quantity} ${params.tokenSymbol} at $${fillPrice.toFixed(6)} (cost $${costUsd.toFixed(2)} incl. $${gasUsd.toFixed(2)} gas)`
+          );
+          return entry;
+        }
+      );
+    } catch (error) {
+      logger.error(`❌ Failed to record entry for ${params.tradeId}:`, error);
+      return null;
+    }
+  }
+
+  /**
+   * Consume lots FIFO for the tokens an exit swap sold and record the leg's
+   * realized P&L. Tokens sold beyond the recorded lots (positions opened
+   * before the ledger existed) are costed at fallbackUnitCostUsd.
+   */
+  async recordExit(
+    params: LedgerFill & { exitType: string; fallbackUnitCostUsd: number }
+  ): Promise<PnlLedgerEntry | null> {
+    const { fill } = params;
+    const tokenAddress = fill.sellTokenAddress.toLowerCase();
+
+    try {
+      return await this.withPositionLock(
+        this.getPositionKey(
+          params.safeAddress,
+          params.networkKey,
+          tokenAddress
+        ),
+        async () => {
+          const { baseUsd, nativeUsd } = await this.getUsdPrices(
+            params.networkKey,
+            params.baseToken
+          );
+          const proceedsUsd = parseFloat(fill.amountOut) * baseUsd;
+          const gasUsd = parseFloat(fill.gasCostNative) * nativeUsd;
+          const fillPrice = proceedsUsd / parseFloat(fill.amountIn) || 0;
+
+          const lots = await this.databaseService.getOpenPnlLots(
+            params.safeAddress,
+            params.networkKey,
+            tokenAddress
+          );
+
+          let toSell = this.toUnits(fill.amountIn);
+          let costBasisUsd = 0;
+          const consumed: PnlLedgerEntry["lots"] = [];
+
+          for (const lot of lots as PnlLot[]) {
+            if (toSell === 0n) {
+              break;
+            }
+
+            const remaining = this.toUnits(lot.remainingQuantity);
+            const quantity = toSell < remaining ? toSell : remaining;
+            const lotCostUsd =
+              remaining > 0n
+                ? lot.remainingCostUsd * (Number(quantity) / Number(remaining))
+                : 0;
+            const left = remaining - quantity;
+
+            await this.databaseService.updatePnlLot(lot.lotId, {
+              remainingQuantity: this.fromUnits(left),
+              remainingCostUsd:
+                left > 0n ? lot.remainingCostUsd - lotCostUsd : 0,
+              closed: left === 0n,
+            });
+
+            consumed.push({
+              lotId: lot.lotId,
+              quantity: this.fromUnits(quantity),
+              costUsd: lotCostUsd,
+            });
+            costBasisUsd += lotCostUsd;
+            toSell -= quantity;
+          }
+
+          const unmatchedQuantity = this.fromUnits(toSell);
+          if (toSell > 0n) {
+            costBasisUsd +=
+              parseFloat(unmatchedQuantity) * params.fallbackUnitCostUsd;
+            logger.warn(
+              `⚠️ ${unmatchedQuantity} ${params.tokenSymbol} sold by ${params.tradeId} had no recorded lot, costed at the trade's entry price`
+            );
+          }
+
+          const realizedPnlUsd = proceedsUsd - costBasisUsd - gasUsd;
+          const entry: PnlLedgerEntry = {
+            type: "exit",
+            ...this.getEntryIdentity(params, tokenAddress),
+            exitType: params.exitType,
+            quantity: fill.amountIn,
+            baseAmount: fill.amountOut,
+            fillSource: fill.source,
+            fillPrice,
+            gasCostNative: fill.gasCostNative,
+            gasUsd,
+            feesUsd: this.getFeesUsd(
+              fill,
+              fill.buyTokenAddress,
+              baseUsd,
+              fillPrice
+            ),
+            costBasisUsd,
+            proceedsUsd,
+            realizedPnlUsd,
+            lots: consumed,
+            unmatchedQuantity: toSell > 0n ? unmatchedQuantity : undefined,
+            timestamp: new Date(),
+          };
+
+          await this.databaseService.recordPnlLedgerEntry(entry);
+
+          logger.info(
+            `📒 ${params.exitType} exit for ${params.tradeId}: sold ${fill.amountIn} ${params.tokenSymbol} for $${proceedsUsd.toFixed(2)}, cost basis $${costBasisUsd.toFixed(2)}, gas $${gasUsd.toFixed(2)} | realized $${realizedPnlUsd.toFixed(2)}`
+          );
+          return entry;
+        }
+      );
+    } catch (error) {
+      logger.error(`❌ Failed to record exit for ${params.tradeId}:`, error);
+      return null;
+    }
+  }
+
+  /**
+   * Open lots grouped per position and marked to the current market price
+   */
+  async getOpenPositions(userId?: string): Promise<OpenPosition[]> {
+    const lots = (await this.databaseService.getAllOpenPnlLots(
+      userId
+    )) as PnlLot[];
+
+    const positions: Map<string, OpenPosition> = new Map();
+    for (const lot of lots) {
+      const key = this.getPositionKey(
+        lot.safeAddress,
+        lot.networkKey,
+        lot.tokenAddress
+      );
+      const position = positions.get(key) || {
+        userId: lot.userId,
+        safeAddress: lot.safeAddress,
+        networkKey: lot.networkKey,
+        tokenAddress: lot.tokenAddress,
+        tokenSymbol: lot.tokenSymbol,
+        quantity: "0",
+        costBasisUsd: 0,
+        averageCostUsd: 0,
+        currentPrice: null,
+        marketValueUsd: null,
+        unrealizedPnlUsd: null,
+        unrealizedPnlPercent: null,
+        lots: 0,
+      };
+
+      position.quantity = this.fromUnits(
+        this.toUnits(position.quantity) + this.toUnits(lot.remainingQuantity)
+      );
+      position.costBasisUsd += lot.remainingCostUsd;
+      position.lots++;
+      positions.set(key, position);
+    }
+
+    const openPositions = Array.from(positions.values());
+    if (openPositions.length === 0) {
+      return openPositions;
+    }
+
+    const queries = openPositions.map((position) => ({
+      symbol: position.tokenSymbol,
+      tokenAddress: position.tokenAddress,
+      networkKey: position.networkKey,
+    }));
+    const prices = await this.priceOracle.getPrices(queries).catch((error) => {
+      logger.error("❌ Failed to price open positions:", error);
+      return new Map();
+    });
+
+    openPositions.forEach((position, index) => {
+      const quantity = parseFloat(position.quantity);
+      position.averageCostUsd =
+        quantity > 0 ? position.costBasisUsd / quantity : 0;
+
+      const price = prices.get(getPriceKey(queries[index]));
+      if (!price) {
+        return;
+      }
+      position.currentPrice = price.price;
+      position.marketValueUsd = quantity * price.price;
+      position.unrealizedPnlUsd =
+        position.marketValueUsd - position.costBasisUsd;
+      position.unrealizedPnlPercent =
+        position.costBasisUsd > 0
+          ? (position.unrealizedPnlUsd / position.costBasisUsd) * 100
+          : null;
+    });
+
+    return openPositions;
+  }
+
+  /**
+   * Realized P&L from exits (optionally since a date) and unrealized P&L of
+   * what is still held
+   */
+  async getSummary(userId?: string, since?: Date): Promise<PnlSummary> {
+    const [entries, openPositions] = await Promise.all([
+      this.databaseService.getPnlLedgerEntries(userId, since, 1000),
+      this.getOpenPositions(userId),
+    ]);
+    const ledger = entries as PnlLedgerEntry[];
+    const exits = ledger.filter((entry) => entry.type === "exit");
+
+    return {
+      userId,
+      since,
+      realizedPnlUsd: exits.reduce(
+        (sum, exit) => sum + (exit.realizedPnlUsd || 0),
+        0
+      ),
+      unrealizedPnlUsd: openPositions.reduce(
+        (sum, position) => sum + (position.unrealizedPnlUsd || 0),
+        0
+      ),
+      gasUsd: ledger.reduce((sum, entry) => sum + (entry.gasUsd || 0), 0),
+      feesUsd: ledger.reduce((sum, entry) => sum + (entry.feesUsd || 0), 0),
+      exits,
+      openPositions,
+    };
+  }
+
+  /**
+   * USD price of the network's gas token and of the base token. A base
+   * token the oracles cannot price is a stablecoin and counts as $1.
+   */
+  private async getUsdPrices(
+    networkKey: string,
+    baseToken: string
+  ): Promise<{ baseUsd: number; nativeUsd: number }> {
+    const network = NetworkUtils.getNetworkByKey(networkKey);
+    const nativeQuery = {
+      symbol: network?.nativeCurrency.symbol || "ETH",
+      networkKey,
+    };
+    const baseQuery = { symbol: baseToken, networkKey };
+
+    const prices = await this.priceOracle
+      .getPrices([nativeQuery, baseQuery])
+      .catch((error) => {
+        logger.error("❌ Failed to price fill:", error);
+        return new Map();
+      });
+
+    const nativeUsd = prices.get(getPriceKey(nativeQuery))?.price;
+    if (!nativeUsd) {
+      logger.warn(
+        `⚠️ No ${nativeQuery.symbol} price on ${networkKey}, gas not counted in P&L`
+      );
+    }
+
+    return {
+      baseUsd: prices.get(getPriceKey(baseQuery))?.price || 1,
+      nativeUsd: nativeUsd || 0,
+    };
+  }
+
+  /**
+   * Fees are charged in either side of the pair: the base token, or the
+   * traded token valued at the fill price
+   */
+  private getFeesUsd(
+    fill: SwapFill,
+    baseTokenAddress: string,
+    baseUsd: number,
+    tokenUsd: number
+  ): number {
+    return fill.fees.reduce((sum, fee) => {
+      const unitUsd =
+        fee.tokenAddress.toLowerCase() === baseTokenAddress.toLowerCase()
+          ? baseUsd
+          : tokenUsd;
+      return sum + parseFloat(fee.amount) * unitUsd;
+    }, 0);
+  }
+
+  private getEntryIdentity(params: LedgerFill, tokenAddress: string) {
+    return {
+      tradeId: params.tradeId,
+      userId: params.userId,
+      safeAddress: params.safeAddress.toLowerCase(),
+      networkKey: params.networkKey,
+      tokenAddress,
+      tokenSymbol: params.tokenSymbol,
+      txHash: params.txHash,
+      baseToken: params.baseToken,
+    };
+  }
+
+  private async withPositionLock<T>(
+    key: string,
+    task: () => Promise<T>
+  ): Promise<T> {
+    const previous = this.positionLocks.get(key) || Promise.resolve();
+    const run = previous.catch(() => undefined).then(task);
+    this.positionLocks.set(key, run);
+
+    try {
+      return await run;
+    } finally {
+      if (this.positionLocks.get(key) === run) {
+        this.positionLocks.delete(key);
+      }
+    }
+  }
+
+  private getPositionKey(
+    safeAddress: string,
+    networkKey: string,
+    tokenAddress: string
+  ): string {
+    return `${safeAddress.toLowerCase()}:${networkKey}:${tokenAddress.toLowerCase()}`;
+  }
+
+  private toUnits(amount: string): bigint {
+    return NetworkUtils.formatTokenAmount(amount, AMOUNT_SCALE);
+  }
+
+  private fromUnits(amount: bigint): string {
+    return NetworkUtils.parseTokenAmount(amount, AMOUNT_SCALE);
+  }
+}
+
+export default PnlLedgerService;
+export { PnlLot, PnlLedgerEntry, OpenPosition, PnlSummary };
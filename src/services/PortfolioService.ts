@@ -0,0 +1,495 @@
+import { ethers } from "ethers";
+import { logger } from "../config/logger";
+import DatabaseService from "./DatabaseService";
+import PriceOracleService, {
+  ConsensusPrice,
+  PriceQuery,
+  getPriceKey,
+} from "./PriceOracleService";
+import TradeMonitoringService from "./TradeMonitoringService";
+import TradeStateManager from "./TradeStateManager";
+import PaperTradeExecutionService from "./PaperTradeExecutionService";
+import { NetworkUtils, TOKEN_MAP } from "../utils/NetworkUtils";
+import {
+  MULTICALL3_ADDRESS,
+  getNativeTokenAddress,
+  isNativeTokenAddress,
+} from "../constants/addresses";
+
+const MULTICALL3_ABI = [
+  "function aggregate3((address target, bool allowFailure, bytes callData)[] calls) view returns ((bool success, bytes returnData)[] returnData)",
+];
+
+const ERC20_ABI = [
+  "function balanceOf(address) view returns (uint256)",
+  "function decimals() view returns (uint8)",
+];
+
+interface PortfolioHolding {
+  symbol: string;
+  tokenAddress: string; // the network's native token address for the gas token
+  networkKey: string;
+  safeAddress: string;
+  isNative: boolean;
+  balance: string; // in token units
+  priceUsd: number | null; // null when no oracle could price it
+  valueUsd: number | null;
+  change24h: number | null; // percent
+  allocationPercent: number; // share of the priced total
+}
+
+interface DeploymentBalance {
+  networkKey: string;
+  safeAddress: string;
+  valueUsd: number;
+  error?: string; // balances could not be read
+}
+
+interface Portfolio {
+  userId?: string;
+  totalValueUsd: number;
+  change24hPercent: number | null; // value-weighted over priced holdings
+  holdings: PortfolioHolding[]; // largest value first
+  deployments: DeploymentBalance[];
+  updatedAt: Date;
+}
+
+interface RealizedPnl {
+  since?: Date;
+  pnlUsd: number;
+  costUsd: number; // entry value of the amounts exited
+  returnPercent: number;
+  trades: {
+    tradeId: string;
+    tokenSymbol: string;
+    networkKey: string;
+    pnlUsd: number;
+    exits: number;
+  }[];
+}
+
+interface TokenToRead {
+  symbol: string;
+  address: string;
+  decimals?: number; // read on-chain when unknown
+}
+
+/**
+ * Reads what a user's Safes actually hold and values it at market prices
+ *
+ * Each active deployment is read with one Multicall3 batch of ERC20
+ * balanceOf calls (every TOKEN_MAP token on the network plus tokens of open
+ * positions on that Safe) and a native balance lookup. Holdings are priced
+ * through the PriceOracleService in a single batch. In paper trading the
+ * virtual balances are read instead.
+ */
+class PortfolioService {
+  private providers: Map<string, ethers.JsonRpcProvider> = new Map();
+  private paperTradeExecutionService: PaperTradeExecutionService | null = null;
+
+  constructor(
+    private databaseService: DatabaseService,
+    private priceOracle: PriceOracleService,
+    private tradeMonitoringService?: TradeMonitoringService,
+    private tradeStateManager?: TradeStateManager
+  ) {}
+
+  /**
+   * Read the Safes' virtual balances (EXECUTION_MODE=PAPER) in place of the chain
+   */
+  setPaperTradeExecutionService(
+    paperTradeExecutionService: PaperTradeExecutionService
+  ): void {
+    this.paperTradeExecutionService = paperTradeExecutionService;
+  }
+
+  /**
+   * Holdings across all of the user's active Safe deployments, or null when
+   * the user has no Safe
+   */
+  async getUserPortfolio(userId: string): Promise<Portfolio | null> {
+    const safeDoc = await this.databaseService.getUserSafe(userId);
+    if (!safeDoc) {
+      return null;
+    }
+
+    const deployments =
+      await this.databaseService.getActiveDeployments(safeDoc);
+    const portfolio = await this.buildPortfolio(
+      deployments.map((deployment) => ({
+        networkKey: deployment.networkKey,
+        safeAddress: deployment.safeAddress,
+      }))
+    );
+    return { userId, ...portfolio };
+  }
+
+  /**
+   * Holdings of one Safe address on the given networks
+   */
+  async getSafePortfolio(
+    safeAddress: string,
+    networkKeys: string[]
+  ): Promise<Portfolio> {
+    return this.buildPortfolio(
+      networkKeys.map((networkKey) => ({ networkKey, safeAddress }))
+    );
+  }
+
+  /**
+   * P&L realized by exits from this Safe, optionally only exits since a date
+   */
+  getRealizedPnl(safeAddress: string, since?: Date): RealizedPnl {
+    const result: RealizedPnl = {
+      since,
+      pnlUsd: 0,
+      costUsd: 0,
+      returnPercent: 0,
+      trades: [],
+    };
+    if (!this.tradeStateManager) {
+      return result;
+    }
+
+    for (const trade of this.tradeStateManager.getAllTrades()) {
+      if (trade.safeAddress?.toLowerCase() !== safeAddress.toLowerCase()) {
+        continue;
+      }
+
+      const exits = trade.exitEvents.filter(
+        (exitEvent) => !since || exitEvent.timestamp >= since
+      );
+      if (exits.length === 0) {
+        continue;
+      }
+
+      let pnlUsd = 0;
+      for (const exitEvent of exits) {
+        pnlUsd += exitEvent.profitLoss || 0;
+        result.costUsd +=
+          (parseFloat(exitEvent.exitAmount) || 0) * trade.entryPrice;
+      }
+      result.pnlUsd += pnlUsd;
+      result.trades.push({
+        tradeId: trade.tradeId,
+        tokenSymbol: trade.tokenSymbol,
+        networkKey: trade.networkKey,
+        pnlUsd,
+        exits: exits.length,
+      });
+    }
+
+    result.returnPercent =
+      result.costUsd > 0 ? (result.pnlUsd / result.costUsd) * 100 : 0;
+    return result;
+  }
+
+  private async buildPortfolio(
+    deployments: { networkKey: string; safeAddress: string }[]
+  ): Promise<Portfolio> {
+    const reads = await Promise.all(
+      deployments.map(async ({ networkKey, safeAddress }) => {
+        try {
+          return {
+            networkKey,
+            safeAddress,
+            holdings: await this.readBalances(safeAddress, networkKey),
+          };
+        } catch (error) {
+          logger.error(
+            `❌ Failed to read balances of ${safeAddress} on ${networkKey}:`,
+            error
+          );
+          return {
+            networkKey,
+            safeAddress,
+            holdings: [] as PortfolioHolding[],
+            error: error instanceof Error ? error.message : String(error),
+          };
+        }
+      })
+    );
+
+    const holdings = reads.flatMap((read) => read.holdings);
+    await this.applyPrices(holdings);
+
+    const totalValueUsd = holdings.reduce(
+      (sum, holding) => sum + (holding.valueUsd || 0),
+      0
+    );
+    let weightedChange = 0;
+    let changeWeight = 0;
+    for (const holding of holdings) {
+      if (totalValueUsd > 0 && holding.valueUsd !== null) {
+        holding.allocationPercent = (holding.valueUsd / totalValueUsd) * 100;
+      }
+      if (holding.valueUsd && holding.change24h !== null) {
+        weightedChange += holding.change24h * holding.valueUsd;
+        changeWeight += holding.valueUsd;
+      }
+    }
+    holdings.sort((a, b) => (b.valueUsd || 0) - (a.valueUsd || 0));
+
+    return {
+      totalValueUsd,
+      change24hPercent: changeWeight > 0 ? weightedChange / changeWeight : null,
+      holdings,
+      deployments: reads.map((read) => ({
+        networkKey: read.networkKey,
+        safeAddress: read.safeAddress,
+        valueUsd: read.holdings.reduce(
+          (sum, holding) => sum + (holding.valueUsd || 0),
+          0
+        ),
+        error: read.error,
+      })),
+      updatedAt: new Date(),
+    };
+  }
+
+  /**
+   * Non-zero native and ERC20 balances of a Safe on one network
+   */
+  private async readBalances(
+    safeAddress: string,
+    networkKey: string
+  ): Promise<PortfolioHolding[]> {
+    const network = NetworkUtils.getNetworkByKey(networkKey);
+    if (!network) {
+      throw new Error(`Unsupported network: ${networkKey}`);
+    }
+    if (this.paperTradeExecutionService) {
+      return this.readPaperBalances(safeAddress, networkKey);
+    }
+    const provider = this.getProvider(networkKey);
+
+    const tokens = this.getTokensToRead(safeAddress, networkKey);
+    const erc20 = new ethers.Interface(ERC20_ABI);
+    const calls = tokens.flatMap((token) => [
+      {
+        target: token.address,
+        allowFailure: true,
+        callData: erc20.encodeFunctionData("balanceOf", [safeAddress]),
+      },
+      ...(token.decimals === undefined
+        ? [
+            {
+              target: token.address,
+              allowFailure: true,
+              callData: erc20.encodeFunctionData("decimals"),
+            },
+          ]
+        : []),
+    ]);
+
+    const multicall = new ethers.Contract(
+      MULTICALL3_ADDRESS,
+      MULTICALL3_ABI,
+      provider
+    );
+    const [nativeBalance, results] = await Promise.all([
+      provider.getBalance(safeAddress),
+      calls.length > 0
+        ? multicall["aggregate3"].staticCall(calls)
+        : Promise.resolve([]),
+    ]);
+
+    const holdings: PortfolioHolding[] = [];
+    if (nativeBalance > 0n) {
+      holdings.push(
+        this.createHolding(
+          network.nativeCurrency.symbol,
+          getNativeTokenAddress(networkKey),
+          networkKey,
+          safeAddress,
+          ethers.formatUnits(nativeBalance, network.nativeCurrency.decimals),
+          true
+        )
+      );
+    }
+
+    let index = 0;
+    for (const token of tokens) {
+      const balanceResult = results[index++];
+      const decimalsResult =
+        token.decimals === undefined ? results[index++] : null;
+
+      if (!balanceResult?.success || balanceResult.returnData === "0x") {
+        continue;
+      }
+      const balance = erc20.decodeFunctionResult(
+        "balanceOf",
+        balanceResult.returnData
+      )[0] as bigint;
+      if (balance === 0n) {
+        continue;
+      }
+
+      let decimals = token.decimals;
+      if (decimals === undefined) {
+        if (!decimalsResult?.success || decimalsResult.returnData === "0x") {
+          logger.warn(
+            `⚠️ Could not read decimals of ${token.symbol} (${token.address}) on ${networkKey}`
+          );
+          continue;
+        }
+        decimals = Number(
+          erc20.decodeFunctionResult("decimals", decimalsResult.returnData)[0]
+        );
+      }
+
+      holdings.push(
+        this.createHolding(
+          token.symbol,
+          token.address,
+          networkKey,
+          safeAddress,
+          ethers.formatUnits(balance, decimals),
+          false
+        )
+      );
+    }
+
+    return holdings;
+  }
+
+  private async readPaperBalances(
+    safeAddress: string,
+    networkKey: string
+  ): Promise<PortfolioHolding[]> {
+    const balances = await this.paperTradeExecutionService!.getPaperBalances(
+      safeAddress,
+      networkKey
+    );
+
+    return balances
+      .filter((balance) => BigInt(balance.balance) > 0n)
+      .map((balance) =>
+        this.createHolding(
+          balance.symbol,
+          balance.tokenAddress,
+          networkKey,
+          safeAddress,
+          ethers.formatUnits(balance.balance, balance.decimals),
+          isNativeTokenAddress(balance.tokenAddress)
+        )
+      );
+  }
+
+  /**
+   * TOKEN_MAP tokens on the network, plus contracts of open positions on
+   * this Safe that are not listed there
+   */
+  private getTokensToRead(
+    safeAddress: string,
+    networkKey: string
+  ): TokenToRead[] {
+    const tokens: Map<string, TokenToRead> = new Map();
+
+    for (const info of Object.values(TOKEN_MAP)) {
+      const address = info.addresses[networkKey];
+      if (address && !isNativeTokenAddress(address)) {
+        tokens.set(address.toLowerCase(), {
+          symbol: info.symbol,
+          address,
+          decimals: info.decimals,
+        });
+      }
+    }
+
+    for (const trade of this.tradeMonitoringService?.getMonitoredTrades() ||
+      []) {
+      if (
+        trade.networkKey !== networkKey ||
+        trade.safeAddress?.toLowerCase() !== safeAddress.toLowerCase() ||
+        !trade.tokenAddress ||
+        isNativeTokenAddress(trade.tokenAddress) ||
+        tokens.has(trade.tokenAddress.toLowerCase())
+      ) {
+        continue;
+      }
+      tokens.set(trade.tokenAddress.toLowerCase(), {
+        symbol: trade.tokenSymbol.toUpperCase(),
+        address: trade.tokenAddress,
+        decimals: trade.tokenDecimals,
+      });
+    }
+
+    return Array.from(tokens.values());
+  }
+
+  private async applyPrices(holdings: PortfolioHolding[]): Promise<void> {
+    if (holdings.length === 0) {
+      return;
+    }
+
+    let prices: Map<string, ConsensusPrice>;
+    try {
+      prices = await this.priceOracle.getPrices(
+        holdings.map((holding) => this.getPriceQuery(holding))
+      );
+    } catch (error) {
+      logger.error("❌ Failed to price portfolio holdings:", error);
+      return;
+    }
+
+    for (const holding of holdings) {
+      const price = prices.get(getPriceKey(this.getPriceQuery(holding)));
+      if (!price) {
+        continue;
+      }
+      holding.priceUsd = price.price;
+      holding.valueUsd = parseFloat(holding.balance) * price.price;
+      holding.change24h = price.change24h ?? null;
+    }
+  }
+
+  // Native balances are priced by symbol, ERC20s by their exact contract
+  private getPriceQuery(holding: PortfolioHolding): PriceQuery {
+    return holding.isNative
+      ? { symbol: holding.symbol, networkKey: holding.networkKey }
+      : {
+          symbol: holding.symbol,
+          tokenAddress: holding.tokenAddress,
+          networkKey: holding.networkKey,
+        };
+  }
+
+  private createHolding(
+    symbol: string,
+    tokenAddress: string,
+    networkKey: string,
+    safeAddress: string,
+    balance: string,
+    isNative: boolean
+  ): PortfolioHolding {
+    return {
+      symbol,
+      tokenAddress,
+      networkKey,
+      safeAddress,
+      isNative,
+      balance,
+      priceUsd: null,
+      valueUsd: null,
+      change24h: null,
+      allocationPercent: 0,
+    };
+  }
+
+  private getProvider(networkKey: string): ethers.JsonRpcProvider {
+    if (!this.providers.has(networkKey)) {
+      const network = NetworkUtils.getNetworkByKey(networkKey)!;
+      this.providers.set(
+        networkKey,
+        new ethers.JsonRpcProvider(network.rpcUrl, network.chainId, {
+          staticNetwork: true,
+        })
+      );
+    }
+    return this.providers.get(networkKey)!;
+  }
+}
+
+export default PortfolioService;
+export { PortfolioHolding, DeploymentBalance, Portfolio, RealizedPnl };
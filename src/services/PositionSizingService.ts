@@ -1,7 +1,8 @@
 import { ethers } from "ethers";
 import { logger } from "../config/logger";
-import { NetworkUtils } from "../utils/NetworkUtils";
+import { NetworkUtils, NetworkConfig } from "../utils/NetworkUtils";
 import { TokenChainInfo } from "./TokenChainDetectionService";
+import { isNativeTokenAddress } from "../constants/addresses";
 
 export interface BalanceInfo {
   tokenSymbol: string;
@@ -12,9 +13,51 @@ export interface BalanceInfo {
   usdValue?: number;
 }
 
+export type SizingMode =
+  | "fixed_usd" // the same dollar amount every trade
+  | "percent_equity" // a fixed share of the balance
+  | "fixed_fractional" // risk a share of the balance down to the signal's SL
+  | "volatility" // as fixed_fractional, with the stop a multiple of ATR away
+  | "kelly"; // a fraction of the Kelly bet from the user's win rate and payoff
+
+export interface SizingStrategy {
+  mode: SizingMode;
+  fixedUsd?: number; // fixed_usd
+  percentOfEquity?: number; // percent_equity, defaults to defaultPercentage
+  riskPercent?: number; // fixed_fractional, volatility: % of equity lost at the stop
+  atrMultiple?: number; // volatility: stop distance in ATRs
+  kellyFraction?: number; // kelly: share of the full Kelly bet, e.g. 0.5
+  maxPercentOfEquity?: number; // cap for any mode, within maxPositionPercentage
+}
+
+/**
+ * Market and track-record data the strategies size from
+ */
+export interface SizingInputs {
+  entryPrice?: number;
+  stopLoss?: number;
+  atr?: number; // average true range, in the same units as entryPrice
+  completedTrades?: number;
+  winRate?: number; // % of completed trades that were profitable
+  payoffRatio?: number; // average win / average loss
+}
+
+export interface SizingTarget {
+  mode: SizingMode;
+  percentage: number; // of the available balance
+  rationale: string;
+  riskUsd?: number; // loss if the stop is hit, for the risk-based modes
+  capped: boolean;
+  error?: string;
+}
+
 export interface PositionSizeCalculation {
   success: boolean;
   originalBalance: BalanceInfo;
+  sizingMode?: SizingMode;
+  sizingRationale?: string;
+  riskUsd?: number;
+  capped?: boolean; // the strategy asked for more than the cap allowed
   positionSizePercentage: number;
   positionSizeFormatted: string;
   positionSizeWei: string;
@@ -27,11 +70,22 @@ export interface PositionSizeCalculation {
   recommendedAction?: string;
 }
 
+/**
+ * Reads a Safe's balance of a token in base units, in place of the chain
+ */
+export type BalanceReader = (
+  safeAddress: string,
+  tokenAddress: string,
+  network: NetworkConfig
+) => Promise<string>;
+
 export interface PositionSizingConfig {
   defaultPercentage: number; // e.g., 20 for 20%
   minimumUsdAmount: number; // e.g., 0.01 USD minimum
   minimumGasReserve: string; // e.g., "0.001" ETH for gas
   maxPositionPercentage: number; // e.g., 80 for max 80%
+  defaultStrategy: SizingStrategy; // used when the caller passes none
+  kellyMinTrades: number; // completed trades needed before Kelly applies
 }
 
 /**
@@ -39,7 +93,7 @@ export interface PositionSizingConfig {
  *
  * This service calculates dynamic position sizes based on:
  * 1. Safe balance of base trading token (USDC)
- * 2. User-defined percentage (default 10%)
+ * 2. A sizing strategy (see SizingMode), POSITION_SIZING_MODE by default
  * 3. Minimum amount requirements
  * 4. Gas fee considerations
  * 5. DEX and Safe minimum limits
@@ -50,8 +104,19 @@ export class PositionSizingService {
     minimumUsdAmount: 0.01, // $0.01 minimum for testing
     minimumGasReserve: "0.001", // 0.001 ETH for gas
     maxPositionPercentage: 80, // Max 80% of balance
+    defaultStrategy: {
+      mode:
+        (process.env["POSITION_SIZING_MODE"] as SizingMode) || "percent_equity",
+      fixedUsd: parseFloat(process.env["DEFAULT_POSITION_SIZE_USD"] || "100"),
+      riskPercent: parseFloat(process.env["RISK_PER_TRADE"] || "2"),
+      atrMultiple: parseFloat(process.env["ATR_STOP_MULTIPLE"] || "2"),
+      kellyFraction: parseFloat(process.env["KELLY_FRACTION"] || "0.5"),
+    },
+    kellyMinTrades: parseInt(process.env["KELLY_MIN_TRADES"] || "20"),
   };
 
+  private balanceReader: BalanceReader | null = null;
+
   constructor(config?: Partial<PositionSizingConfig>) {
     if (config) {
       this.defaultConfig = { ...this.defaultConfig, ...config };
@@ -59,26 +124,41 @@ export class PositionSizingService {
   }
 
   /**
-   * Calculate position size for trading
+   * Size from balances read elsewhere, e.g. a paper trading Safe's
+   */
+  setBalanceReader(reader: BalanceReader): void {
+    this.balanceReader = reader;
+  }
+
+  /**
+   * Calculate position size for trading. An explicit positionPercentage
+   * sizes as percent_equity and takes precedence over the strategy.
    */
   async calculatePositionSize(
     safeAddress: string,
     baseTokenSymbol: string, // e.g., "USDC"
     tokenChainInfo: TokenChainInfo,
-    positionPercentage?: number
+    positionPercentage?: number,
+    sizing: { strategy?: SizingStrategy; inputs?: SizingInputs } = {}
   ): Promise<PositionSizeCalculation> {
-    try {
-      const percentage =
-        positionPercentage || this.defaultConfig.defaultPercentage;
+    const strategy: SizingStrategy = positionPercentage
+      ? { mode: "percent_equity", percentOfEquity: positionPercentage }
+      : sizing.strategy || this.defaultConfig.defaultStrategy;
+    let percentage =
+      positionPercentage ||
+      strategy.percentOfEquity ||
+      this.defaultConfig.defaultPercentage;
 
+    try {
       logger.info(
-        `💰 Calculating ${percentage}% position size for Safe ${safeAddress}`
+        `💰 Calculating ${strategy.mode} position size for Safe ${safeAddress}`
       );
 
       // Validate percentage
       if (
-        percentage <= 0 ||
-        percentage > this.defaultConfig.maxPositionPercentage
+        positionPercentage !== undefined &&
+        (percentage <= 0 ||
+          percentage > this.defaultConfig.maxPositionPercentage)
       ) {
         return {
           success: false,
@@ -124,7 +204,28 @@ export class PositionSizingService {
         balanceInfo.decimals
       );
 
-      // Step 4: Calculate position size
+      // Step 4: Size the position as a share of the available balance
+      const equityUsd = await this.getUsdValue(
+        ethers.formatUnits(availableBalance, balanceInfo.decimals),
+        baseTokenSymbol
+      );
+      const target = this.resolveTargetPercentage(
+        strategy,
+        equityUsd,
+        sizing.inputs
+      );
+      if (target.error) {
+        return {
+          ...this.createFailureResult(
+            target.percentage,
+            target.error,
+            `Provide the inputs ${strategy.mode} sizing needs or choose another sizing mode`
+          ),
+          sizingMode: strategy.mode,
+        };
+      }
+      percentage = target.percentage;
+
       const positionSizeWei = this.calculatePercentageAmount(
         availableBalance,
         percentage
@@ -161,6 +262,10 @@ export class PositionSizingService {
           decimals: balanceInfo.decimals,
           usdValue: balanceInfo.usdValue,
         },
+        sizingMode: target.mode,
+        sizingRationale: target.rationale,
+        riskUsd: target.riskUsd,
+        capped: target.capped,
         positionSizePercentage: percentage,
         positionSizeFormatted,
         positionSizeWei,
@@ -192,13 +297,190 @@ export class PositionSizingService {
     } catch (error) {
       logger.error(`❌ Position size calculation failed:`, error);
       return this.createFailureResult(
-        positionPercentage || this.defaultConfig.defaultPercentage,
+        percentage,
         error instanceof Error ? error.message : "Unknown error",
         "Please check Safe address and network configuration"
       );
     }
   }
 
+  /**
+   * Share of the balance (equityUsd) a strategy would put into one trade,
+   * capped at maxPercentOfEquity and maxPositionPercentage. Kelly falls back
+   * to percent_equity until the user has kellyMinTrades completed trades.
+   */
+  resolveTargetPercentage(
+    strategy: SizingStrategy,
+    equityUsd: number | undefined,
+    inputs: SizingInputs = {}
+  ): SizingTarget {
+    const cap = Math.min(
+      strategy.maxPercentOfEquity ?? this.defaultConfig.maxPositionPercentage,
+      this.defaultConfig.maxPositionPercentage
+    );
+    const fail = (error: string): SizingTarget => ({
+      mode: strategy.mode,
+      percentage: 0,
+      rationale: error,
+      capped: false,
+      error,
+    });
+
+    if (strategy.mode !== "percent_equity" && !(equityUsd > 0)) {
+      return fail(
+        `${strategy.mode} sizing needs a base token balance with a known USD value`
+      );
+    }
+
+    let percentage: number;
+    let rationale: string;
+    let stopPercent: number | undefined; // risk-based modes only
+
+    switch (strategy.mode) {
+      case "fixed_usd": {
+        const fixedUsd = strategy.fixedUsd ?? 0;
+        if (!(fixedUsd > 0)) {
+          return fail("fixed_usd sizing needs a positive fixedUsd");
+        }
+        percentage = (fixedUsd / equityUsd!) * 100;
+        rationale = `Fixed $${fixedUsd} per trade`;
+        break;
+      }
+
+      case "percent_equity":
+        percentage =
+          strategy.percentOfEquity ?? this.defaultConfig.defaultPercentage;
+        if (!(percentage > 0)) {
+          return fail("percent_equity sizing needs a positive percentOfEquity");
+        }
+        rationale = `${percentage}% of the balance`;
+        break;
+
+      case "fixed_fractional":
+      case "volatility": {
+        const riskPercent = strategy.riskPercent ?? 1;
+        const { entryPrice, stopLoss, atr } = inputs;
+        const stopDistance =
+          strategy.mode === "fixed_fractional"
+            ? entryPrice && stopLoss
+              ? Math.abs(entryPrice - stopLoss)
+              : 0
+            : (strategy.atrMultiple ?? 2) * (atr || 0);
+
+        if (!(entryPrice > 0) || !(stopDistance > 0)) {
+          return fail(
+            strategy.mode === "fixed_fractional"
+              ? "fixed_fractional sizing needs the entry price and a stop loss away from it"
+              : "volatility sizing needs the entry price and the token's ATR"
+          );
+        }
+
+        stopPercent = (stopDistance / entryPrice!) * 100;
+        percentage = (riskPercent / stopPercent) * 100;
+        rationale = `Risk ${riskPercent}% of the balance with the stop ${stopPercent.toFixed(2)}% away${
+          strategy.mode === "volatility"
+            ? ` (${strategy.atrMultiple ?? 2} x ATR ${atr})`
+            : ""
+        }`;
+        break;
+      }
+
+      case "kelly": {
+        const { completedTrades = 0, winRate = 0, payoffRatio = 0 } = inputs;
+        if (
+          completedTrades < this.defaultConfig.kellyMinTrades ||
+          !(payoffRatio > 0)
+        ) {
+          const fallback = this.resolveTargetPercentage(
+            { ...strategy, mode: "percent_equity" },
+            equityUsd,
+            inputs
+          );
+          return {
+            ...fallback,
+            rationale: `${fallback.rationale}; Kelly needs ${this.defaultConfig.kellyMinTrades} completed trades with wins and losses, have ${completedTrades}`,
+          };
+        }
+
+        const winProbability = winRate / 100;
+        const kelly = winProbability - (1 - winProbability) / payoffRatio;
+        if (kelly <= 0) {
+          return fail(
+            `No edge: Kelly fraction ${kelly.toFixed(3)} at ${winRate.toFixed(1)}% wins and ${payoffRatio.toFixed(2)} payoff`
+          );
+        }
+
+        const kellyFraction = strategy.kellyFraction ?? 0.5;
+        percentage = kelly * kellyFraction * 100;
+        rationale = `${kellyFraction} x Kelly ${(kelly * 100).toFixed(2)}% (${winRate.toFixed(1)}% wins, ${payoffRatio.toFixed(2)} payoff over ${completedTrades} trades)`;
+        break;
+      }
+
+      default:
+        return fail(`Unknown sizing mode: ${strategy.mode}`);
+    }
+
+    const capped = percentage > cap;
+    if (capped) {
+      percentage = cap;
+      rationale += `, capped at ${cap}%`;
+    }
+
+    return {
+      mode: strategy.mode,
+      percentage,
+      rationale,
+      riskUsd:
+        stopPercent !== undefined
+          ? (equityUsd! * percentage * stopPercent) / 10000
+          : undefined,
+      capped,
+    };
+  }
+
+  /**
+   * Decimals of a token whose balance came from the balance reader: native
+   * decimals, the static token map, detected token info, then the contract
+   */
+  private async getTokenDecimals(
+    tokenSymbol: string,
+    tokenAddress: string,
+    network: NetworkConfig,
+    provider: ethers.JsonRpcProvider,
+    tokenChainInfo: TokenChainInfo
+  ): Promise<number> {
+    if (isNativeTokenAddress(tokenAddress)) {
+      return network.nativeCurrency.decimals;
+    }
+
+    const staticInfo = NetworkUtils.getTokenInfo(tokenSymbol);
+    if (staticInfo) {
+      return staticInfo.decimals;
+    }
+
+    if (
+      tokenChainInfo.decimals &&
+      tokenChainInfo.contractAddress?.toLowerCase() ===
+        tokenAddress.toLowerCase()
+    ) {
+      return tokenChainInfo.decimals;
+    }
+
+    try {
+      const tokenContract = new ethers.Contract(
+        tokenAddress,
+        ["function decimals() view returns (uint8)"],
+        provider
+      );
+      return Number(await tokenContract.decimals());
+    } catch (error) {
+      logger.warn(
+        `Could not read decimals for ${tokenSymbol}, defaulting to 18: ${error}`
+      );
+      return 18;
+    }
+  }
+
   /**
    * Get token balance for Safe
    */
@@ -251,8 +533,20 @@ export class PositionSizingService {
       let balance: bigint;
       let decimals: number;
 
+      if (this.balanceReader) {
+        balance = BigInt(
+          await this.balanceReader(safeAddress, tokenAddress, network)
+        );
+        decimals = await this.getTokenDecimals(
+          tokenSymbol,
+          tokenAddress,
+          network,
+          provider,
+          tokenChainInfo
+        );
+      }
       // Check if it's a native token
-      if (
+      else if (
         tokenAddress === "0xEeeeeEeeeEeEeeEeEeEeeEEEeeeeEeeeeeeeEEeE" ||
         tokenAddress === ethers.ZeroAddress
       ) {
@@ -548,6 +842,7 @@ export class PositionSizingService {
       summary += `⛽ Gas Reserve: ${calculation.gasFeeEstimate} ETH\n`;
       summary += `💵 Available: ${calculation.availableAfterGas} ${baseTokenSymbol}\n`;
       summary += `🎯 Position Size: ${calculation.positionSizeFormatted} ${baseTokenSymbol}\n`;
+      summary += `📐 Sizing: ${calculation.sizingMode} (${calculation.sizingRationale})\n`;
 
       if (calculation.positionSizeUsd) {
         summary += `💲 USD Value: $${calculation.positionSizeUsd.toFixed(2)}\n`;
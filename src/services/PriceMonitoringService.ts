@@ -1,13 +1,17 @@
-import axios from "axios";
 import { EventEmitter } from "events";
 import { logger } from "../config/logger";
-import { NetworkUtils } from "../utils/NetworkUtils";
+import PriceOracleService, {
+  ConsensusPrice,
+  getPriceKey,
+} from "./PriceOracleService";
+import PriceTickScheduler, { PriceTick } from "./PriceTickScheduler";
 
 interface PriceData {
   price: number;
   timestamp: Date;
   change24h?: number;
   volume24h?: number;
+  source?: string;
 }
 
 interface PriceAlert {
@@ -20,6 +24,8 @@ interface PriceAlert {
 interface TradeMonitoringConfig {
   tradeId: string;
   tokenId: string;
+  tokenAddress?: string; // exact contract to price, when known
+  networkKey?: string;
   entryPrice: number;
   tp1: number;
   tp2: number;
@@ -35,115 +41,73 @@ class PriceMonitoringService extends EventEmitter {
   private priceAlerts: PriceAlert[] = [];
   private tradeMonitoringConfigs: Map<string, TradeMonitoringConfig> =
     new Map();
-  private monitoringInterval: NodeJS.Timeout | null = null;
-  private readonly MONITORING_INTERVAL_MS = 30000; // 30 seconds
-  private readonly COINGECKO_API_BASE = "https://api.coingecko.com/api/v3";
+  private isRunning = false;
   private trailingHighs: Map<string, number> = new Map(); // Track highest prices for trailing stops
 
-  constructor() {
+  private priceOracle: PriceOracleService;
+  private tickScheduler: PriceTickScheduler;
+
+  private readonly SCHEDULER_CONSUMER = "price-monitoring";
+
+  constructor(
+    priceOracle?: PriceOracleService,
+    tickScheduler?: PriceTickScheduler
+  ) {
     super();
+    this.priceOracle = priceOracle || new PriceOracleService();
+    this.tickScheduler =
+      tickScheduler || new PriceTickScheduler(this.priceOracle);
   }
 
   async start(): Promise<void> {
-    if (this.monitoringInterval) {
+    if (this.isRunning) {
       this.logger.warn("Price monitoring already started");
       return;
     }
 
     this.logger.info("Starting price monitoring service");
-    this.monitoringInterval = setInterval(
-      () => this.monitorPrices(),
-      this.MONITORING_INTERVAL_MS
-    );
+    this.isRunning = true;
+    this.tickScheduler.on("tick", this.handlePriceTick);
+    this.tickScheduler.start(this.SCHEDULER_CONSUMER);
 
     // Initial price fetch
-    await this.monitorPrices();
+    await this.tickScheduler.tick();
   }
 
   stop(): void {
-    if (this.monitoringInterval) {
-      clearInterval(this.monitoringInterval);
-      this.monitoringInterval = null;
+    if (this.isRunning) {
+      this.tickScheduler.off("tick", this.handlePriceTick);
+      this.tickScheduler.stop(this.SCHEDULER_CONSUMER);
+      this.isRunning = false;
       this.logger.info("Price monitoring service stopped");
     }
   }
 
-  async getCurrentPrice(tokenSymbol: string): Promise<number | null> {
+  /**
+   * Fetch the USD price through the oracle layer. Pass the contract address
+   * and network to price the exact token rather than a symbol match.
+   */
+  async getCurrentPrice(
+    tokenSymbol: string,
+    tokenAddress?: string,
+    networkKey?: string
+  ): Promise<number | null> {
     try {
-      // First try: Get token info from static TOKEN_MAP
-      let tokenInfo = NetworkUtils.getTokenInfo(tokenSymbol);
-      let coingeckoId = tokenInfo?.coingeckoId;
-
-      // Second try: If not in static map, query CoinGecko directly
-      if (!tokenInfo) {
-        this.logger.info(
-          `Token ${tokenSymbol} not in static TOKEN_MAP, querying CoinGecko directly...`
-        );
-
-        try {
-          // Search CoinGecko for the token symbol
-          const searchResponse = await axios.get(
-            `https://api.coingecko.com/api/v3/search?query=${tokenSymbol}`,
-            { timeout: 10000 }
-          );
-
-          const coins = searchResponse.data.coins || [];
-          const exactMatch = coins.find(
-            (coin: any) =>
-              coin.symbol?.toLowerCase() === tokenSymbol.toLowerCase()
-          );
-
-          if (exactMatch) {
-            coingeckoId = exactMatch.id;
-            this.logger.info(
-              `✅ Found ${tokenSymbol} on CoinGecko with ID: ${coingeckoId}`
-            );
-          } else {
-            this.logger.error(
-              `No exact match found for ${tokenSymbol} on CoinGecko`
-            );
-            return null;
-          }
-        } catch (searchError) {
-          const message =
-            searchError instanceof Error
-              ? searchError.message
-              : String(searchError);
-          this.logger.error(
-            `Error searching CoinGecko for ${tokenSymbol}: ${message}`
-          );
-          return null;
-        }
-      }
+      const result = await this.priceOracle.getPrice({
+        symbol: tokenSymbol,
+        tokenAddress,
+        networkKey,
+      });
 
-      if (!coingeckoId) {
-        this.logger.error(`No CoinGecko ID found for ${tokenSymbol}`);
+      if (!result) {
         return null;
       }
 
-      const response = await axios.get(
-        `${this.COINGECKO_API_BASE}/simple/price?ids=${coingeckoId}&vs_currencies=usd&include_24hr_change=true&include_24hr_vol=true`,
-        { timeout: 10000 }
+      this.cachePrice(result, tokenSymbol, tokenAddress, networkKey);
+      this.logger.info(
+        `✅ Price fetched for ${tokenSymbol}: $${result.price} (${result.source})`
       );
-
-      const data = response.data[coingeckoId];
-      if (!data) {
-        this.logger.error(
-          `Price data not found for ${tokenSymbol} (CoinGecko ID: ${coingeckoId})`
-        );
-        return null;
-      }
-
-      const priceData: PriceData = {
-        price: data.usd,
-        timestamp: new Date(),
-        change24h: data.usd_24h_change,
-        volume24h: data.usd_24h_vol,
-      };
-
-      this.priceCache.set(tokenSymbol, priceData);
-      this.logger.info(`✅ Price fetched for ${tokenSymbol}: $${data.usd}`);
-      return data.usd;
+      return result.price;
     } catch (error) {
       const message =
         error instanceof Error ? `${error.message}` : String(error);
@@ -152,12 +116,70 @@ class PriceMonitoringService extends EventEmitter {
     }
   }
 
-  getCachedPrice(tokenSymbol: string): PriceData | null {
-    return this.priceCache.get(tokenSymbol) || null;
+  getCachedPrice(
+    tokenSymbol: string,
+    tokenAddress?: string,
+    networkKey?: string
+  ): PriceData | null {
+    return (
+      this.priceCache.get(
+        this.getCacheKey(tokenSymbol, tokenAddress, networkKey)
+      ) || null
+    );
+  }
+
+  getPriceOracle(): PriceOracleService {
+    return this.priceOracle;
+  }
+
+  /**
+   * Shared scheduler other services subscribe to so every monitored token
+   * is priced once per tick
+   */
+  getTickScheduler(): PriceTickScheduler {
+    return this.tickScheduler;
+  }
+
+  private cachePrice(
+    result: ConsensusPrice,
+    tokenSymbol: string,
+    tokenAddress?: string,
+    networkKey?: string
+  ): void {
+    const priceData: PriceData = {
+      price: result.price,
+      timestamp: result.timestamp,
+      change24h: result.change24h,
+      volume24h: result.volume24h,
+      source: result.source,
+    };
+
+    this.priceCache.set(tokenSymbol, priceData);
+    if (tokenAddress && networkKey) {
+      this.priceCache.set(
+        this.getCacheKey(tokenSymbol, tokenAddress, networkKey),
+        priceData
+      );
+    }
+  }
+
+  private getCacheKey(
+    tokenSymbol: string,
+    tokenAddress?: string,
+    networkKey?: string
+  ): string {
+    return tokenAddress && networkKey
+      ? getPriceKey({ symbol: tokenSymbol, tokenAddress, networkKey })
+      : tokenSymbol;
   }
 
   addTradeMonitoring(config: TradeMonitoringConfig): void {
     this.tradeMonitoringConfigs.set(config.tradeId, config);
+    this.tickScheduler.subscribe(this.getTradeSubscriberId(config.tradeId), {
+      symbol: config.tokenId,
+      tokenAddress: config.tokenAddress,
+      networkKey: config.networkKey,
+    });
     this.logger.info(
       `Added trade monitoring for ${config.tradeId} (${config.tokenId})`
     );
@@ -171,56 +193,78 @@ class PriceMonitoringService extends EventEmitter {
   removeTradeMonitoring(tradeId: string): void {
     this.tradeMonitoringConfigs.delete(tradeId);
     this.trailingHighs.delete(tradeId);
+    this.tickScheduler.unsubscribe(this.getTradeSubscriberId(tradeId));
     this.logger.info(`Removed trade monitoring for ${tradeId}`);
   }
 
   addPriceAlert(alert: PriceAlert): void {
     this.priceAlerts.push(alert);
+    this.tickScheduler.subscribe(this.getAlertSubscriberId(alert.tokenId), {
+      symbol: alert.tokenId,
+    });
     this.logger.info(
       `Added price alert for ${alert.tokenId} ${alert.direction} ${alert.targetPrice}`
     );
   }
 
-  private async monitorPrices(): Promise<void> {
-    try {
-      // Get unique token IDs that need monitoring
-      const tokenIds = new Set<string>();
-
-      // Add tokens from trade monitoring
-      this.tradeMonitoringConfigs.forEach((config) => {
-        tokenIds.add(config.tokenId);
-      });
+  private getTradeSubscriberId(tradeId: string): string {
+    return `${this.SCHEDULER_CONSUMER}:trade:${tradeId}`;
+  }
 
-      // Add tokens from price alerts
-      this.priceAlerts.forEach((alert) => {
-        tokenIds.add(alert.tokenId);
-      });
+  private getAlertSubscriberId(tokenId: string): string {
+    return `${this.SCHEDULER_CONSUMER}:alert:${tokenId}`;
+  }
 
-      if (tokenIds.size === 0) {
+  private handlePriceTick = async (tick: PriceTick): Promise<void> => {
+    try {
+      if (
+        this.tradeMonitoringConfigs.size === 0 &&
+        this.priceAlerts.length === 0
+      ) {
         return; // Nothing to monitor
       }
 
-      // Fetch prices for all monitored tokens
-      await Promise.allSettled(
-        Array.from(tokenIds).map((tokenId) => this.getCurrentPrice(tokenId))
-      );
-
       // Check trade conditions
-      await this.checkTradeConditions();
+      await this.checkTradeConditions(tick);
 
       // Check price alerts
-      await this.checkPriceAlerts();
+      await this.checkPriceAlerts(tick);
     } catch (error) {
       const message =
         error instanceof Error ? `${error.message}` : String(error);
       this.logger.error(`Error in price monitoring: ${message}`);
     }
+  };
+
+  /**
+   * Look up a token in the tick and refresh the cache with it
+   */
+  private getTickPrice(
+    tick: PriceTick,
+    tokenSymbol: string,
+    tokenAddress?: string,
+    networkKey?: string
+  ): number | null {
+    const result = tick.prices.get(
+      getPriceKey({ symbol: tokenSymbol, tokenAddress, networkKey })
+    );
+    if (!result) {
+      return null;
+    }
+
+    this.cachePrice(result, tokenSymbol, tokenAddress, networkKey);
+    return result.price;
   }
 
-  private async checkTradeConditions(): Promise<void> {
+  private async checkTradeConditions(tick: PriceTick): Promise<void> {
     for (const [tradeId, config] of this.tradeMonitoringConfigs) {
       try {
-        const currentPrice = await this.getCurrentPrice(config.tokenId);
+        const currentPrice = this.getTickPrice(
+          tick,
+          config.tokenId,
+          config.tokenAddress,
+          config.networkKey
+        );
         if (currentPrice === null) {
           continue;
         }
@@ -294,13 +338,13 @@ class PriceMonitoringService extends EventEmitter {
     }
   }
 
-  private async checkPriceAlerts(): Promise<void> {
+  private async checkPriceAlerts(tick: PriceTick): Promise<void> {
     const alertsToRemove: number[] = [];
 
     for (let i = 0; i < this.priceAlerts.length; i++) {
       const alert = this.priceAlerts[i];
       try {
-        const currentPrice = await this.getCurrentPrice(alert.tokenId);
+        const currentPrice = this.getTickPrice(tick, alert.tokenId);
         if (currentPrice === null) {
           continue;
         }
@@ -333,7 +377,12 @@ class PriceMonitoringService extends EventEmitter {
 
     // Remove triggered alerts
     for (let i = alertsToRemove.length - 1; i >= 0; i--) {
-      this.priceAlerts.splice(alertsToRemove[i], 1);
+      const [removed] = this.priceAlerts.splice(alertsToRemove[i], 1);
+      if (!this.priceAlerts.some((a) => a.tokenId === removed.tokenId)) {
+        this.tickScheduler.unsubscribe(
+          this.getAlertSubscriberId(removed.tokenId)
+        );
+      }
     }
   }
 
@@ -347,7 +396,11 @@ class PriceMonitoringService extends EventEmitter {
       return null;
     }
 
-    const priceData = this.getCachedPrice(config.tokenId);
+    const priceData = this.getCachedPrice(
+      config.tokenId,
+      config.tokenAddress,
+      config.networkKey
+    );
     const trailingHigh = this.trailingHighs.get(tradeId);
 
     return {
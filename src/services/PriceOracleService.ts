@@ -0,0 +1,1101 @@
+import { ethers } from "ethers";
+import axios from "axios";
+import { logger } from "../config/logger";
+import {
+  CHAINLINK_USD_FEEDS,
+  UNISWAP_V3_FACTORIES,
+  ZERO_ADDRESS,
+  isNativeTokenAddress,
+} from "../constants/addresses";
+import { NetworkUtils, TOKEN_MAP, TokenInfo } from "../utils/NetworkUtils";
+
+interface PriceQuery {
+  symbol: string;
+  tokenAddress?: string; // exact contract to price, takes precedence over symbol
+  networkKey?: string;
+}
+
+interface OraclePrice {
+  price: number; // USD
+  source: string;
+  timestamp: Date; // when the source last updated this value
+  maxAgeSeconds?: number; // source-specific staleness limit (e.g. feed heartbeat)
+  change24h?: number;
+  volume24h?: number;
+}
+
+interface ConsensusPrice extends OraclePrice {
+  sources: OraclePrice[]; // prices that passed the guards
+  rejected: { source: string; reason: string }[];
+}
+
+type OracleMode = "fallback" | "median";
+
+interface PriceCandle {
+  timestamp: Date; // candle open
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  volume?: number; // in USD, when the source reports it
+}
+
+interface PriceOracleConfig {
+  sources: string[]; // in fallback order
+  mode: OracleMode;
+  maxStalenessSeconds: number;
+  maxDeviationPercent: number; // from the median, consensus mode only
+  minSources: number; // consensus mode only
+  timeoutMs: number;
+}
+
+/**
+ * Contract every price source implements.
+ * Register new ones with PriceOracleService.registerOracle().
+ */
+interface PriceOracle {
+  name: string;
+  supports(query: PriceQuery): boolean;
+  getPrice(query: PriceQuery): Promise<OraclePrice | null>;
+  // Optional batch lookup keyed by getPriceKey(), one round trip for many tokens
+  getPrices?(queries: PriceQuery[]): Promise<Map<string, OraclePrice>>;
+  // Optional USD OHLC history over the last `days`, oldest first
+  getCandles?(query: PriceQuery, days: number): Promise<PriceCandle[]>;
+}
+
+const DEFAULT_TIMEOUT_MS = parseInt(
+  process.env["PRICE_ORACLE_TIMEOUT_MS"] || "8000"
+);
+
+/**
+ * Resolve the TOKEN_MAP entry for a query. A contract address is matched
+ * exactly and never falls back to the symbol, so a token that merely shares
+ * a ticker with a listed one is not mispriced.
+ */
+function findKnownToken(query: PriceQuery): TokenInfo | null {
+  if (query.tokenAddress && query.networkKey) {
+    if (isNativeTokenAddress(query.tokenAddress)) {
+      const network = NetworkUtils.getNetworkByKey(query.networkKey);
+      return network
+        ? NetworkUtils.getTokenInfo(network.nativeCurrency.symbol)
+        : null;
+    }
+
+    const address = query.tokenAddress.toLowerCase();
+    return (
+      Object.values(TOKEN_MAP).find(
+        (token) => token.addresses[query.networkKey!]?.toLowerCase() === address
+      ) || null
+    );
+  }
+
+  return NetworkUtils.getTokenInfo(query.symbol);
+}
+
+/**
+ * Resolve an ERC20 contract to price on-chain or on a DEX. Native tokens are
+ * priced through their wrapped counterpart.
+ */
+function resolveContract(
+  query: PriceQuery
+): { address: string; networkKey: string } | null {
+  const networkKey = query.networkKey || "ethereum";
+  const address =
+    query.tokenAddress || findKnownToken(query)?.addresses[networkKey];
+
+  if (!address) {
+    return null;
+  }
+
+  if (isNativeTokenAddress(address)) {
+    const wrapped = TOKEN_MAP["WETH"]?.addresses[networkKey];
+    const network = NetworkUtils.getNetworkByKey(networkKey);
+    return wrapped && network?.nativeCurrency.symbol === "ETH"
+      ? { address: wrapped, networkKey }
+      : null;
+  }
+
+  return { address, networkKey };
+}
+
+/**
+ * Stable key for a query: the contract when one is known, else the symbol
+ */
+function getPriceKey(query: PriceQuery): string {
+  return query.tokenAddress && query.networkKey
+    ? `${query.networkKey}:${query.tokenAddress.toLowerCase()}`
+    : `symbol:${query.symbol.toUpperCase()}`;
+}
+
+const providers: Map<string, ethers.JsonRpcProvider> = new Map();
+
+function getProvider(networkKey: string): ethers.JsonRpcProvider | null {
+  const network = NetworkUtils.getNetworkByKey(networkKey);
+  if (!network) {
+    return null;
+  }
+
+  if (!providers.has(networkKey)) {
+    providers.set(
+      networkKey,
+      new ethers.JsonRpcProvider(network.rpcUrl, network.chainId, {
+        staticNetwork: true,
+      })
+    );
+  }
+  return providers.get(networkKey)!;
+}
+
+const COINGECKO_PLATFORMS: Record<string, string> = {
+  ethereum: "ethereum",
+  arbitrum: "arbitrum-one",
+  polygon: "polygon-pos",
+  base: "base",
+  optimism: "optimistic-ethereum",
+};
+
+/**
+ * CoinGecko simple/price and simple/token_price, authenticated when
+ * COINGECKO_API_KEY is set. A batch costs one simple/price request for every
+ * listed coin plus one token_price request per network for unlisted contracts.
+ */
+class CoinGeckoOracle implements PriceOracle {
+  name = "coingecko";
+  private searchCache: Map<string, string> = new Map(); // symbol -> coin id
+
+  supports(query: PriceQuery): boolean {
+    // Unlisted contracts are only priceable on chains CoinGecko indexes
+    return (
+      !query.tokenAddress ||
+      !query.networkKey ||
+      !!findKnownToken(query) ||
+      !!COINGECKO_PLATFORMS[query.networkKey]
+    );
+  }
+
+  async getPrice(query: PriceQuery): Promise<OraclePrice | null> {
+    const prices = await this.getPrices([query]);
+    return prices.get(getPriceKey(query)) || null;
+  }
+
+  async getPrices(queries: PriceQuery[]): Promise<Map<string, OraclePrice>> {
+    const byCoinId: Map<string, string[]> = new Map(); // coin id -> price keys
+    const byContract: Map<string, Map<string, string[]>> = new Map(); // networkKey -> address -> price keys
+
+    for (const query of queries) {
+      const key = getPriceKey(query);
+      const known = findKnownToken(query);
+
+      if (!known && query.tokenAddress && query.networkKey) {
+        const contracts = byContract.get(query.networkKey) || new Map();
+        const address = query.tokenAddress.toLowerCase();
+        contracts.set(address, [...(contracts.get(address) || []), key]);
+        byContract.set(query.networkKey, contracts);
+        continue;
+      }
+
+      const coinId =
+        known?.coingeckoId || (await this.searchCoinId(query.symbol));
+      if (coinId) {
+        byCoinId.set(coinId, [...(byCoinId.get(coinId) || []), key]);
+      }
+    }
+
+    const prices: Map<string, OraclePrice> = new Map();
+    const requests: Promise<void>[] = [];
+
+    if (byCoinId.size > 0) {
+      requests.push(
+        this.fetchPrices("simple/price", {
+          ids: Array.from(byCoinId.keys()).join(","),
+        }).then((data) => {
+          for (const [coinId, keys] of byCoinId) {
+            this.assign(prices, keys, data[coinId]);
+          }
+        })
+      );
+    }
+
+    for (const [networkKey, contracts] of byContract) {
+      requests.push(
+        this.fetchPrices(
+          `simple/token_price/${COINGECKO_PLATFORMS[networkKey]}`,
+          { contract_addresses: Array.from(contracts.keys()).join(",") }
+        ).then((data) => {
+          for (const [address, keys] of contracts) {
+            this.assign(prices, keys, data[address]);
+          }
+        })
+      );
+    }
+
+    await Promise.all(requests);
+    return prices;
+  }
+
+  /**
+   * coins/{id}/ohlc, in 4-hour candles for 3-30 days. Only listed coins have
+   * history; unlisted contracts return none.
+   */
+  async getCandles(query: PriceQuery, days: number): Promise<PriceCandle[]> {
+    const known = findKnownToken(query);
+    if (!known && query.tokenAddress) {
+      return [];
+    }
+
+    const coinId =
+      known?.coingeckoId || (await this.searchCoinId(query.symbol));
+    if (!coinId) {
+      return [];
+    }
+
+    const response = await axios.get(
+      `${this.getBaseUrl()}/coins/${coinId}/ohlc`,
+      {
+        params: { vs_currency: "usd", days },
+        headers: this.getHeaders(),
+        timeout: DEFAULT_TIMEOUT_MS,
+      }
+    );
+
+    return (response.data || []).map(
+      ([timestamp, open, high, low, close]: number[]) => ({
+        timestamp: new Date(timestamp),
+        open,
+        high,
+        low,
+        close,
+      })
+    );
+  }
+
+  private async fetchPrices(
+    path: string,
+    params: Record<string, string>
+  ): Promise<Record<string, any>> {
+    const response = await axios.get(`${this.getBaseUrl()}/${path}`, {
+      params: {
+        ...params,
+        vs_currencies: "usd",
+        include_24hr_change: true,
+        include_24hr_vol: true,
+        include_last_updated_at: true,
+      },
+      headers: this.getHeaders(),
+      timeout: DEFAULT_TIMEOUT_MS,
+    });
+    return response.data || {};
+  }
+
+  private assign(
+    prices: Map<string, OraclePrice>,
+    keys: string[],
+    data: any
+  ): void {
+    const price = this.toOraclePrice(data);
+    if (price) {
+      keys.forEach((key) => prices.set(key, price));
+    }
+  }
+
+  /**
+   * Symbol search is ambiguous, so pick the highest ranked exact match
+   * rather than whichever coin CoinGecko lists first
+   */
+  private async searchCoinId(symbol: string): Promise<string | null> {
+    const key = symbol.toLowerCase();
+    if (this.searchCache.has(key)) {
+      return this.searchCache.get(key)!;
+    }
+
+    const response = await axios.get(`${this.getBaseUrl()}/search`, {
+      params: { query: symbol },
+      headers: this.getHeaders(),
+      timeout: DEFAULT_TIMEOUT_MS,
+    });
+
+    const matches = (response.data.coins || [])
+      .filter((coin: any) => coin.symbol?.toLowerCase() === key)
+      .sort(
+        (a: any, b: any) =>
+          (a.market_cap_rank ?? Number.MAX_SAFE_INTEGER) -
+          (b.market_cap_rank ?? Number.MAX_SAFE_INTEGER)
+      );
+
+    if (matches.length === 0) {
+      logger.warn(`No exact match found for ${symbol} on CoinGecko`);
+      return null;
+    }
+
+    this.searchCache.set(key, matches[0].id);
+    return matches[0].id;
+  }
+
+  private toOraclePrice(data: any): OraclePrice | null {
+    if (!data || typeof data.usd !== "number") {
+      return null;
+    }
+
+    return {
+      price: data.usd,
+      source: this.name,
+      timestamp: data.last_updated_at
+        ? new Date(data.last_updated_at * 1000)
+        : new Date(),
+      change24h: data.usd_24h_change,
+      volume24h: data.usd_24h_vol,
+    };
+  }
+
+  private getBaseUrl(): string {
+    return process.env["COINGECKO_API_PLAN"] === "pro"
+      ? "https://pro-api.coingecko.com/api/v3"
+      : "https://api.coingecko.com/api/v3";
+  }
+
+  private getHeaders(): Record<string, string> {
+    const apiKey = process.env["COINGECKO_API_KEY"];
+    if (!apiKey) {
+      return {};
+    }
+    return process.env["COINGECKO_API_PLAN"] === "pro"
+      ? { "x-cg-pro-api-key": apiKey }
+      : { "x-cg-demo-api-key": apiKey };
+  }
+}
+
+/**
+ * DexScreener, priced from the most liquid pair for the exact contract.
+ * Batches look up to 30 contracts per request.
+ */
+class DexScreenerOracle implements PriceOracle {
+  name = "dexscreener";
+  private readonly MAX_ADDRESSES_PER_REQUEST = 30;
+  private minLiquidityUsd = parseFloat(
+    process.env["DEXSCREENER_MIN_LIQUIDITY_USD"] || "10000"
+  );
+
+  supports(query: PriceQuery): boolean {
+    return resolveContract(query) !== null;
+  }
+
+  async getPrice(query: PriceQuery): Promise<OraclePrice | null> {
+    const prices = await this.getPrices([query]);
+    return prices.get(getPriceKey(query)) || null;
+  }
+
+  async getPrices(queries: PriceQuery[]): Promise<Map<string, OraclePrice>> {
+    // networkKey:address -> price keys, so wrapped and native share a lookup
+    const contracts: Map<string, string[]> = new Map();
+    for (const query of queries) {
+      const contract = resolveContract(query)!;
+      const id = `${contract.networkKey}:${contract.address.toLowerCase()}`;
+      contracts.set(id, [...(contracts.get(id) || []), getPriceKey(query)]);
+    }
+
+    const addresses = Array.from(
+      new Set(Array.from(contracts.keys()).map((id) => id.split(":")[1]!))
+    );
+    const chunks: string[][] = [];
+    for (let i = 0; i < addresses.length; i += this.MAX_ADDRESSES_PER_REQUEST) {
+      chunks.push(addresses.slice(i, i + this.MAX_ADDRESSES_PER_REQUEST));
+    }
+
+    const responses = await Promise.all(
+      chunks.map((chunk) =>
+        axios.get(
+          `https://api.dexscreener.com/latest/dex/tokens/${chunk.join(",")}`,
+          { timeout: DEFAULT_TIMEOUT_MS }
+        )
+      )
+    );
+
+    // Keep the most liquid qualifying pair per contract
+    const bestPairs: Map<string, any> = new Map();
+    for (const response of responses) {
+      for (const pair of response.data.pairs || []) {
+        if (
+          !pair.priceUsd ||
+          (pair.liquidity?.usd || 0) < this.minLiquidityUsd
+        ) {
+          continue;
+        }
+        const id = `${pair.chainId}:${pair.baseToken?.address?.toLowerCase()}`;
+        const current = bestPairs.get(id);
+        if (
+          contracts.has(id) &&
+          (!current || pair.liquidity.usd > current.liquidity.usd)
+        ) {
+          bestPairs.set(id, pair);
+        }
+      }
+    }
+
+    const prices: Map<string, OraclePrice> = new Map();
+    for (const [id, pair] of bestPairs) {
+      const price: OraclePrice = {
+        price: parseFloat(pair.priceUsd),
+        source: this.name,
+        timestamp: new Date(),
+        change24h: pair.priceChange?.h24,
+        volume24h: pair.volume?.h24,
+      };
+      contracts.get(id)!.forEach((key) => prices.set(key, price));
+    }
+    return prices;
+  }
+}
+
+const UNISWAP_V3_FACTORY_ABI = [
+  "function getPool(address tokenA, address tokenB, uint24 fee) view returns (address)",
+];
+const UNISWAP_V3_POOL_ABI = [
+  "function token0() view returns (address)",
+  "function liquidity() view returns (uint128)",
+  "function observe(uint32[] secondsAgos) view returns (int56[] tickCumulatives, uint160[] secondsPerLiquidityCumulativeX128s)",
+];
+const ERC20_DECIMALS_ABI = ["function decimals() view returns (uint8)"];
+const UNISWAP_V3_FEE_TIERS = [500, 3000, 10000, 100];
+
+interface UniswapV3Pool {
+  address: string;
+  networkKey: string;
+  tokenIsToken0: boolean;
+  tokenDecimals: number;
+  quoteDecimals: number; // USDC
+}
+
+const uniswapPools: Map<string, UniswapV3Pool> = new Map();
+
+function supportsUniswapV3(query: PriceQuery): boolean {
+  const contract = resolveContract(query);
+  const usdc = contract && TOKEN_MAP["USDC"]?.addresses[contract.networkKey];
+  return (
+    !!contract &&
+    !!usdc &&
+    !!UNISWAP_V3_FACTORIES[contract.networkKey] &&
+    contract.address.toLowerCase() !== usdc.toLowerCase()
+  );
+}
+
+/**
+ * Find the deepest Uniswap V3 pool pairing the token with USDC, which is
+ * treated as the token's primary pool for on-chain pricing
+ */
+async function findUniswapV3Pool(
+  query: PriceQuery
+): Promise<UniswapV3Pool | null> {
+  if (!supportsUniswapV3(query)) {
+    return null;
+  }
+
+  const contract = resolveContract(query)!;
+  const key = `${contract.networkKey}:${contract.address.toLowerCase()}`;
+  if (uniswapPools.has(key)) {
+    return uniswapPools.get(key)!;
+  }
+
+  const provider = getProvider(contract.networkKey);
+  if (!provider) {
+    return null;
+  }
+
+  const usdc = TOKEN_MAP["USDC"]!.addresses[contract.networkKey]!;
+  const factory = new ethers.Contract(
+    UNISWAP_V3_FACTORIES[contract.networkKey]!,
+    UNISWAP_V3_FACTORY_ABI,
+    provider
+  );
+
+  const candidates = await Promise.all(
+    UNISWAP_V3_FEE_TIERS.map(async (fee) => {
+      const pool: string = await factory["getPool"](
+        contract.address,
+        usdc,
+        fee
+      );
+      if (pool === ZERO_ADDRESS) {
+        return null;
+      }
+      const liquidity: bigint = await new ethers.Contract(
+        pool,
+        UNISWAP_V3_POOL_ABI,
+        provider
+      )["liquidity"]();
+      return { pool, liquidity };
+    })
+  );
+
+  const deepest = candidates
+    .filter(
+      (c): c is { pool: string; liquidity: bigint } =>
+        c !== null && c.liquidity > 0n
+    )
+    .sort((a, b) => (b.liquidity > a.liquidity ? 1 : -1))[0];
+
+  if (!deepest) {
+    return null;
+  }
+
+  const [token0, decimals] = await Promise.all([
+    new ethers.Contract(deepest.pool, UNISWAP_V3_POOL_ABI, provider)[
+      "token0"
+    ](),
+    new ethers.Contract(contract.address, ERC20_DECIMALS_ABI, provider)[
+      "decimals"
+    ](),
+  ]);
+
+  const pool: UniswapV3Pool = {
+    address: deepest.pool,
+    networkKey: contract.networkKey,
+    tokenIsToken0: token0.toLowerCase() === contract.address.toLowerCase(),
+    tokenDecimals: Number(decimals),
+    quoteDecimals: TOKEN_MAP["USDC"]!.decimals,
+  };
+  uniswapPools.set(key, pool);
+  return pool;
+}
+
+/**
+ * Convert a raw pool ratio of token1 per token0 (1.0001^tick, or
+ * (sqrtPriceX96 / 2^96)^2) into the token's USD price
+ */
+function poolRatioToUsd(pool: UniswapV3Pool, ratio: number): number {
+  const decimals0 = pool.tokenIsToken0
+    ? pool.tokenDecimals
+    : pool.quoteDecimals;
+  const decimals1 = pool.tokenIsToken0
+    ? pool.quoteDecimals
+    : pool.tokenDecimals;
+  const price0In1 = ratio * Math.pow(10, decimals0 - decimals1);
+  return pool.tokenIsToken0 ? price0In1 : 1 / price0In1;
+}
+
+/**
+ * Time-weighted average price from the deepest Uniswap V3 pool against USDC
+ */
+class UniswapV3TwapOracle implements PriceOracle {
+  name = "uniswap_v3_twap";
+  private twapWindowSeconds = parseInt(
+    process.env["UNISWAP_TWAP_WINDOW_SECONDS"] || "300"
+  );
+
+  supports(query: PriceQuery): boolean {
+    return supportsUniswapV3(query);
+  }
+
+  async getPrice(query: PriceQuery): Promise<OraclePrice | null> {
+    const pool = await findUniswapV3Pool(query);
+    const provider = pool && getProvider(pool.networkKey);
+    if (!pool || !provider) {
+      return null;
+    }
+
+    const observation = await new ethers.Contract(
+      pool.address,
+      UNISWAP_V3_POOL_ABI,
+      provider
+    )["observe"]([this.twapWindowSeconds, 0]);
+
+    const tickCumulatives: bigint[] = observation[0];
+    const delta = tickCumulatives[1] - tickCumulatives[0];
+    const window = BigInt(this.twapWindowSeconds);
+    let averageTick = delta / window;
+    // Round towards negative infinity like Uniswap's OracleLibrary
+    if (delta < 0n && delta % window !== 0n) {
+      averageTick--;
+    }
+
+    const price = poolRatioToUsd(pool, Math.pow(1.0001, Number(averageTick)));
+    if (!Number.isFinite(price) || price <= 0) {
+      return null;
+    }
+
+    return { price, source: this.name, timestamp: new Date() };
+  }
+}
+
+const CHAINLINK_AGGREGATOR_ABI = [
+  "function decimals() view returns (uint8)",
+  "function latestRoundData() view returns (uint80 roundId, int256 answer, uint256 startedAt, uint256 updatedAt, uint80 answeredInRound)",
+];
+
+/**
+ * Chainlink USD feeds for the majors listed in CHAINLINK_USD_FEEDS
+ */
+class ChainlinkOracle implements PriceOracle {
+  name = "chainlink";
+
+  supports(query: PriceQuery): boolean {
+    return this.findFeed(query) !== null;
+  }
+
+  async getPrice(query: PriceQuery): Promise<OraclePrice | null> {
+    const feed = this.findFeed(query)!;
+    const provider = getProvider(feed.networkKey);
+    if (!provider) {
+      return null;
+    }
+
+    const aggregator = new ethers.Contract(
+      feed.address,
+      CHAINLINK_AGGREGATOR_ABI,
+      provider
+    );
+    const [decimals, roundData] = await Promise.all([
+      aggregator["decimals"](),
+      aggregator["latestRoundData"](),
+    ]);
+
+    const answer: bigint = roundData[1];
+    if (answer <= 0n) {
+      return null;
+    }
+
+    return {
+      price: parseFloat(ethers.formatUnits(answer, decimals)),
+      source: this.name,
+      timestamp: new Date(Number(roundData[3]) * 1000),
+      maxAgeSeconds: feed.heartbeatSeconds,
+    };
+  }
+
+  private findFeed(
+    query: PriceQuery
+  ): { address: string; heartbeatSeconds: number; networkKey: string } | null {
+    const known = findKnownToken(query);
+    if (query.tokenAddress && !known) {
+      return null;
+    }
+
+    // Wrapped ETH tracks the ETH feed
+    const symbol = (known?.symbol || query.symbol).toUpperCase();
+    const feedSymbol = symbol === "WETH" ? "ETH" : symbol;
+
+    const networks = query.networkKey
+      ? [query.networkKey]
+      : Object.keys(CHAINLINK_USD_FEEDS);
+    for (const networkKey of networks) {
+      const feed = CHAINLINK_USD_FEEDS[networkKey]?.[feedSymbol];
+      if (feed) {
+        return { ...feed, networkKey };
+      }
+    }
+    return null;
+  }
+}
+
+/**
+ * Price oracle layer used by PriceMonitoringService
+ *
+ * In fallback mode sources are tried in order until one returns a fresh
+ * price. In median mode every source is queried in parallel, outliers beyond
+ * maxDeviationPercent from the median are discarded, and the median of the
+ * remaining prices is returned if at least minSources agree.
+ */
+class PriceOracleService {
+  private oracles: Map<string, PriceOracle> = new Map();
+  private config: PriceOracleConfig;
+
+  constructor(config?: Partial<PriceOracleConfig>) {
+    for (const oracle of [
+      new CoinGeckoOracle(),
+      new DexScreenerOracle(),
+      new UniswapV3TwapOracle(),
+      new ChainlinkOracle(),
+    ]) {
+      this.registerOracle(oracle);
+    }
+
+    this.config = {
+      sources:
+        config?.sources ||
+        (
+          process.env["PRICE_ORACLE_SOURCES"] ||
+          "coingecko,dexscreener,chainlink,uniswap_v3_twap"
+        )
+          .split(",")
+          .map((name) => name.trim())
+          .filter(Boolean),
+      mode:
+        config?.mode ||
+        (process.env["PRICE_ORACLE_MODE"] === "median" ? "median" : "fallback"),
+      maxStalenessSeconds:
+        config?.maxStalenessSeconds ??
+        parseInt(process.env["PRICE_MAX_STALENESS_SECONDS"] || "300"),
+      maxDeviationPercent:
+        config?.maxDeviationPercent ??
+        parseFloat(process.env["PRICE_MAX_DEVIATION_PERCENT"] || "5"),
+      minSources:
+        config?.minSources ??
+        parseInt(process.env["PRICE_ORACLE_MIN_SOURCES"] || "1"),
+      timeoutMs: config?.timeoutMs ?? DEFAULT_TIMEOUT_MS,
+    };
+
+    logger.info(
+      `PriceOracleService initialized (${this.config.mode}) with sources: ${this.getEnabledSources().join(", ")}`
+    );
+  }
+
+  registerOracle(oracle: PriceOracle): void {
+    this.oracles.set(oracle.name, oracle);
+  }
+
+  getEnabledSources(): string[] {
+    return this.config.sources.filter((name) => this.oracles.has(name));
+  }
+
+  getMode(): OracleMode {
+    return this.config.mode;
+  }
+
+  async getPrice(query: PriceQuery): Promise<ConsensusPrice | null> {
+    const prices = await this.getPrices([query]);
+    return prices.get(getPriceKey(query)) || null;
+  }
+
+  /**
+   * Price many tokens at once. Duplicate queries collapse onto one price key
+   * and each source is asked once for everything it supports.
+   */
+  async getPrices(queries: PriceQuery[]): Promise<Map<string, ConsensusPrice>> {
+    const unique: Map<string, PriceQuery> = new Map();
+    for (const query of queries) {
+      unique.set(getPriceKey(query), query);
+    }
+
+    const oracles = this.getEnabledSources().map(
+      (name) => this.oracles.get(name)!
+    );
+    const rejected: Map<string, { source: string; reason: string }[]> = new Map(
+      Array.from(unique.keys()).map((key) => [key, []])
+    );
+
+    const prices =
+      this.config.mode === "median"
+        ? await this.getMedianPrices(oracles, unique, rejected)
+        : await this.getFallbackPrices(oracles, unique, rejected);
+
+    for (const [key, query] of unique) {
+      if (prices.has(key)) {
+        continue;
+      }
+      const reasons = rejected.get(key)!;
+      logger.error(
+        `❌ No usable price for ${this.describe(query)}: ${
+          reasons.length > 0
+            ? reasons.map((r) => `${r.source} (${r.reason})`).join(", ")
+            : "no source supports it"
+        }`
+      );
+    }
+
+    return prices;
+  }
+
+  /**
+   * USD candles over the last `days` from the first enabled source that has
+   * any, oldest first
+   */
+  async getCandles(query: PriceQuery, days: number): Promise<PriceCandle[]> {
+    for (const name of this.getEnabledSources()) {
+      const oracle = this.oracles.get(name)!;
+      if (!oracle.getCandles || !oracle.supports(query)) {
+        continue;
+      }
+
+      try {
+        const candles = await this.withTimeout(oracle.getCandles(query, days));
+        if (candles.length > 0) {
+          return candles;
+        }
+      } catch (error) {
+        logger.warn(
+          `${name} candles failed for ${this.describe(query)}: ${this.describeError(error)}`
+        );
+      }
+    }
+
+    return [];
+  }
+
+  /**
+   * Average true range over the last `periods` candles from the first
+   * enabled source with enough history, or null when none has it
+   */
+  async getAverageTrueRange(
+    query: PriceQuery,
+    periods: number = 14,
+    days: number = 14
+  ): Promise<{ atr: number; source: string; candles: number } | null> {
+    for (const name of this.getEnabledSources()) {
+      const oracle = this.oracles.get(name)!;
+      if (!oracle.getCandles || !oracle.supports(query)) {
+        continue;
+      }
+
+      try {
+        const candles = await this.withTimeout(oracle.getCandles(query, days));
+        if (candles.length <= periods) {
+          continue;
+        }
+
+        const recent = candles.slice(-(periods + 1));
+        let total = 0;
+        for (let i = 1; i < recent.length; i++) {
+          const { high, low } = recent[i]!;
+          const previousClose = recent[i - 1]!.close;
+          total += Math.max(
+            high - low,
+            Math.abs(high - previousClose),
+            Math.abs(low - previousClose)
+          );
+        }
+
+        return { atr: total / periods, source: name, candles: periods };
+      } catch (error) {
+        logger.warn(
+          `${name} candles failed for ${this.describe(query)}: ${this.describeError(error)}`
+        );
+      }
+    }
+
+    return null;
+  }
+
+  private async getFallbackPrices(
+    oracles: PriceOracle[],
+    queries: Map<string, PriceQuery>,
+    rejected: Map<string, { source: string; reason: string }[]>
+  ): Promise<Map<string, ConsensusPrice>> {
+    const prices: Map<string, ConsensusPrice> = new Map();
+    const remaining = new Map(queries);
+
+    for (const oracle of oracles) {
+      if (remaining.size === 0) {
+        break;
+      }
+
+      const results = await this.queryOracle(oracle, remaining);
+      for (const [key, result] of results) {
+        if (typeof result === "string") {
+          rejected.get(key)!.push({ source: oracle.name, reason: result });
+          continue;
+        }
+        prices.set(key, {
+          ...result,
+          sources: [result],
+          rejected: rejected.get(key)!,
+        });
+        remaining.delete(key);
+      }
+    }
+
+    return prices;
+  }
+
+  private async getMedianPrices(
+    oracles: PriceOracle[],
+    queries: Map<string, PriceQuery>,
+    rejected: Map<string, { source: string; reason: string }[]>
+  ): Promise<Map<string, ConsensusPrice>> {
+    const results = await Promise.all(
+      oracles.map((oracle) => this.queryOracle(oracle, queries))
+    );
+
+    const prices: Map<string, ConsensusPrice> = new Map();
+    for (const [key, query] of queries) {
+      const fresh: OraclePrice[] = [];
+      results.forEach((sourceResults, index) => {
+        const result = sourceResults.get(key);
+        if (result === undefined) {
+          return;
+        }
+        if (typeof result === "string") {
+          rejected
+            .get(key)!
+            .push({ source: oracles[index]!.name, reason: result });
+        } else {
+          fresh.push(result);
+        }
+      });
+
+      const consensus = this.buildConsensus(query, fresh, rejected.get(key)!);
+      if (consensus) {
+        prices.set(key, consensus);
+      }
+    }
+
+    return prices;
+  }
+
+  /**
+   * Drop prices further than maxDeviationPercent from the median and return
+   * the median of the rest, provided at least minSources agree
+   */
+  private buildConsensus(
+    query: PriceQuery,
+    fresh: OraclePrice[],
+    rejected: { source: string; reason: string }[]
+  ): ConsensusPrice | null {
+    if (fresh.length === 0) {
+      return null;
+    }
+
+    const median = this.median(fresh.map((p) => p.price));
+    const agreeing = fresh.filter((p) => {
+      const deviation = (Math.abs(p.price - median) / median) * 100;
+      if (deviation > this.config.maxDeviationPercent) {
+        rejected.push({
+          source: p.source,
+          reason: `deviates ${deviation.toFixed(2)}% from median ${median}`,
+        });
+        return false;
+      }
+      return true;
+    });
+
+    if (agreeing.length === 0 || agreeing.length < this.config.minSources) {
+      logger.warn(
+        `⚠️ No price consensus for ${this.describe(query)}: ${agreeing.length}/${this.config.minSources} sources agree`
+      );
+      return null;
+    }
+
+    const withStats = agreeing.find((p) => p.change24h !== undefined);
+    return {
+      price: this.median(agreeing.map((p) => p.price)),
+      source: `median(${agreeing.map((p) => p.source).join(",")})`,
+      timestamp: new Date(
+        Math.max(...agreeing.map((p) => p.timestamp.getTime()))
+      ),
+      change24h: withStats?.change24h,
+      volume24h: withStats?.volume24h,
+      sources: agreeing,
+      rejected,
+    };
+  }
+
+  /**
+   * Query a single source for every query it supports, in one batch when the
+   * source offers it. Failed or stale answers carry the reason instead of a
+   * price; unsupported queries are left out.
+   */
+  private async queryOracle(
+    oracle: PriceOracle,
+    queries: Map<string, PriceQuery>
+  ): Promise<Map<string, OraclePrice | string>> {
+    const supported = Array.from(queries.entries()).filter(([, query]) =>
+      oracle.supports(query)
+    );
+    const results: Map<string, OraclePrice | string> = new Map();
+    if (supported.length === 0) {
+      return results;
+    }
+
+    if (oracle.getPrices) {
+      try {
+        const prices = await this.withTimeout(
+          oracle.getPrices(supported.map(([, query]) => query))
+        );
+        for (const [key] of supported) {
+          results.set(key, this.validate(prices.get(key) || null));
+        }
+      } catch (error) {
+        const message = this.describeError(error);
+        logger.warn(
+          `${oracle.name} batch price failed for ${supported.length} token(s): ${message}`
+        );
+        supported.forEach(([key]) => results.set(key, message));
+      }
+      return results;
+    }
+
+    await Promise.all(
+      supported.map(async ([key, query]) => {
+        try {
+          const price = await this.withTimeout(oracle.getPrice(query));
+          results.set(key, this.validate(price));
+        } catch (error) {
+          const message = this.describeError(error);
+          logger.warn(
+            `${oracle.name} price failed for ${this.describe(query)}: ${message}`
+          );
+          results.set(key, message);
+        }
+      })
+    );
+    return results;
+  }
+
+  private validate(price: OraclePrice | null): OraclePrice | string {
+    if (!price || !Number.isFinite(price.price) || price.price <= 0) {
+      return "no price returned";
+    }
+
+    const ageSeconds = (Date.now() - price.timestamp.getTime()) / 1000;
+    const maxAgeSeconds =
+      price.maxAgeSeconds ?? this.config.maxStalenessSeconds;
+    if (ageSeconds > maxAgeSeconds) {
+      return `stale (${Math.round(ageSeconds)}s old, limit ${maxAgeSeconds}s)`;
+    }
+
+    return price;
+  }
+
+  private async withTimeout<T>(promise: Promise<T>): Promise<T> {
+    let timer: NodeJS.Timeout | undefined;
+
+    try {
+      const timeout = new Promise<never>((_, reject) => {
+        timer = setTimeout(
+          () => reject(new Error(`timed out after ${this.config.timeoutMs}ms`)),
+          this.config.timeoutMs
+        );
+      });
+      return await Promise.race([promise, timeout]);
+    } finally {
+      if (timer) {
+        clearTimeout(timer);
+      }
+    }
+  }
+
+  private describeError(error: unknown): string {
+    return axios.isAxiosError(error)
+      ? `${error.response?.status || ""} ${error.message}`.trim()
+      : error instanceof Error
+        ? error.message
+        : String(error);
+  }
+
+  private median(values: number[]): number {
+    const sorted = [...values].sort((a, b) => a - b);
+    const mid = Math.floor(sorted.length / 2);
+    return sorted.length % 2 === 0
+      ? (sorted[mid - 1]! + sorted[mid]!) / 2
+      : sorted[mid]!;
+  }
+
+  private describe(query: PriceQuery): string {
+    return query.tokenAddress
+      ? `${query.symbol} (${query.tokenAddress} on ${query.networkKey || "unknown network"})`
+      : query.symbol;
+  }
+}
+
+export default PriceOracleService;
+export {
+  getPriceKey,
+  findUniswapV3Pool,
+  poolRatioToUsd,
+  UniswapV3Pool,
+  PriceQuery,
+  OraclePrice,
+  ConsensusPrice,
+  OracleMode,
+  PriceCandle,
+  PriceOracleConfig,
+  PriceOracle,
+};
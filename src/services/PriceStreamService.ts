@@ -0,0 +1,364 @@
+import { EventEmitter } from "events";
+import { ethers } from "ethers";
+import { logger } from "../config/logger";
+import {
+  PriceQuery,
+  UniswapV3Pool,
+  findUniswapV3Pool,
+  poolRatioToUsd,
+} from "./PriceOracleService";
+
+interface StreamedPrice {
+  watchId: string;
+  price: number;
+  blockNumber: number;
+  pool: string;
+  networkKey: string;
+}
+
+interface PoolSubscription {
+  pool: UniswapV3Pool;
+  watchIds: Set<string>;
+  // Latest swap seen since the last block was flushed
+  pending?: { ratio: number; blockNumber: number; logIndex: number };
+}
+
+interface NetworkStream {
+  networkKey: string;
+  wsUrl: string;
+  provider: ethers.WebSocketProvider | null;
+  pools: Map<string, PoolSubscription>; // lowercased pool address -> subscription
+  live: boolean;
+  lastBlockAt: number;
+  reconnectAttempts: number;
+  reconnectTimer?: NodeJS.Timeout;
+}
+
+const SWAP_EVENT_INTERFACE = new ethers.Interface([
+  "event Swap(address indexed sender, address indexed recipient, int256 amount0, int256 amount1, uint160 sqrtPriceX96, uint128 liquidity, int24 tick)",
+]);
+const SWAP_TOPIC = SWAP_EVENT_INTERFACE.getEvent("Swap")!.topicHash;
+const Q96 = 2 ** 96;
+
+/**
+ * Streams token prices from Swap events on each token's primary Uniswap V3
+ * pool over a WebSocket provider, emitting at most one "price" per pool per
+ * block. When a socket closes or stops delivering blocks the network is
+ * marked down ("streamDown") and reconnected with backoff, so callers can
+ * fall back to polling until "streamUp".
+ *
+ * WebSocket endpoints come from <NETWORK>_WS_URL, e.g. ARBITRUM_WS_URL.
+ */
+class PriceStreamService extends EventEmitter {
+  private networks: Map<string, NetworkStream> = new Map();
+  private watches: Map<string, { networkKey: string; pool: string }> =
+    new Map();
+  private watchdogInterval: NodeJS.Timeout | null = null;
+
+  private readonly stallTimeoutMs = parseInt(
+    process.env["PRICE_STREAM_STALL_TIMEOUT_MS"] || "60000"
+  );
+  private readonly MAX_RECONNECT_DELAY_MS = 300000; // 5 minutes
+
+  /**
+   * Stream the token's primary pool under a watch id. Returns false when the
+   * token cannot be streamed (no pool or no WebSocket URL for its network).
+   */
+  async watch(watchId: string, query: PriceQuery): Promise<boolean> {
+    const networkKey = query.networkKey;
+    const wsUrl =
+      networkKey && process.env[`${networkKey.toUpperCase()}_WS_URL`];
+    if (!networkKey || !wsUrl) {
+      return false;
+    }
+
+    const pool = await findUniswapV3Pool(query);
+    if (!pool) {
+      logger.info(
+        `📡 No Uniswap V3 pool to stream ${query.symbol} on ${networkKey}, using polling`
+      );
+      return false;
+    }
+
+    const stream = this.getNetworkStream(networkKey, wsUrl);
+    const poolKey = pool.address.toLowerCase();
+    let subscription = stream.pools.get(poolKey);
+    if (!subscription) {
+      subscription = { pool, watchIds: new Set() };
+      stream.pools.set(poolKey, subscription);
+      if (stream.provider) {
+        this.subscribePool(stream, subscription);
+      }
+    }
+
+    subscription.watchIds.add(watchId);
+    this.watches.set(watchId, { networkKey, pool: poolKey });
+    logger.info(
+      `📡 Streaming ${query.symbol} swaps from pool ${pool.address} on ${networkKey}`
+    );
+    return true;
+  }
+
+  unwatch(watchId: string): void {
+    const watch = this.watches.get(watchId);
+    if (!watch) {
+      return;
+    }
+
+    this.watches.delete(watchId);
+    const stream = this.networks.get(watch.networkKey);
+    const subscription = stream?.pools.get(watch.pool);
+    if (!stream || !subscription) {
+      return;
+    }
+
+    subscription.watchIds.delete(watchId);
+    if (subscription.watchIds.size === 0) {
+      stream.pools.delete(watch.pool);
+      stream.provider
+        ?.off(this.getPoolFilter(subscription.pool))
+        .catch(() => undefined);
+    }
+
+    if (stream.pools.size === 0) {
+      this.closeNetwork(stream);
+      this.networks.delete(watch.networkKey);
+    }
+
+    if (this.networks.size === 0 && this.watchdogInterval) {
+      clearInterval(this.watchdogInterval);
+      this.watchdogInterval = null;
+    }
+  }
+
+  /**
+   * Whether updates for this watch are currently arriving from a live socket
+   */
+  isStreaming(watchId: string): boolean {
+    const watch = this.watches.get(watchId);
+    return !!watch && !!this.networks.get(watch.networkKey)?.live;
+  }
+
+  stop(): void {
+    for (const stream of this.networks.values()) {
+      this.closeNetwork(stream);
+    }
+    this.networks.clear();
+    this.watches.clear();
+
+    if (this.watchdogInterval) {
+      clearInterval(this.watchdogInterval);
+      this.watchdogInterval = null;
+    }
+  }
+
+  getStatus(): Record<string, { live: boolean; pools: number }> {
+    const status: Record<string, { live: boolean; pools: number }> = {};
+    for (const [networkKey, stream] of this.networks) {
+      status[networkKey] = { live: stream.live, pools: stream.pools.size };
+    }
+    return status;
+  }
+
+  private getNetworkStream(networkKey: string, wsUrl: string): NetworkStream {
+    let stream = this.networks.get(networkKey);
+    if (!stream) {
+      stream = {
+        networkKey,
+        wsUrl,
+        provider: null,
+        pools: new Map(),
+        live: false,
+        lastBlockAt: Date.now(),
+        reconnectAttempts: 0,
+      };
+      this.networks.set(networkKey, stream);
+      this.connect(stream);
+      this.startWatchdog();
+    }
+    return stream;
+  }
+
+  private connect(stream: NetworkStream): void {
+    try {
+      const provider = new ethers.WebSocketProvider(stream.wsUrl);
+      stream.provider = provider;
+      stream.lastBlockAt = Date.now();
+
+      // ethers does not surface socket errors or closure, so hook the raw socket
+      const socket = provider.websocket as any;
+      socket.onerror = (error: any) =>
+        this.handleDisconnect(
+          stream,
+          `socket error: ${error?.message || error}`
+        );
+      socket.onclose = () => this.handleDisconnect(stream, "socket closed");
+
+      provider.on("block", (blockNumber: number) =>
+        this.handleBlock(stream, blockNumber)
+      );
+      for (const subscription of stream.pools.values()) {
+        this.subscribePool(stream, subscription);
+      }
+    } catch (error) {
+      this.handleDisconnect(stream, `connect failed: ${error}`);
+    }
+  }
+
+  private subscribePool(
+    stream: NetworkStream,
+    subscription: PoolSubscription
+  ): void {
+    stream.provider!.on(
+      this.getPoolFilter(subscription.pool),
+      (log: ethers.Log) => {
+        try {
+          const parsed = SWAP_EVENT_INTERFACE.parseLog(log);
+          if (!parsed) {
+            return;
+          }
+
+          const pending = subscription.pending;
+          if (
+            pending &&
+            (pending.blockNumber > log.blockNumber ||
+              (pending.blockNumber === log.blockNumber &&
+                pending.logIndex > log.index))
+          ) {
+            return; // Out-of-order log for an older swap
+          }
+
+          const sqrtPrice = Number(parsed.args["sqrtPriceX96"]) / Q96;
+          subscription.pending = {
+            ratio: sqrtPrice * sqrtPrice,
+            blockNumber: log.blockNumber,
+            logIndex: log.index,
+          };
+        } catch (error) {
+          logger.warn(`⚠️ Could not decode swap on ${log.address}: ${error}`);
+        }
+      }
+    );
+  }
+
+  /**
+   * Each new block publishes the last swap price seen per pool, so a burst
+   * of swaps in one block produces a single update
+   */
+  private handleBlock(stream: NetworkStream, blockNumber: number): void {
+    stream.lastBlockAt = Date.now();
+    if (!stream.live) {
+      stream.live = true;
+      stream.reconnectAttempts = 0;
+      logger.info(`📡 Price stream live on ${stream.networkKey}`);
+      this.emit("streamUp", { networkKey: stream.networkKey });
+    }
+
+    for (const subscription of stream.pools.values()) {
+      const pending = subscription.pending;
+      if (!pending) {
+        continue;
+      }
+      subscription.pending = undefined;
+
+      const price = poolRatioToUsd(subscription.pool, pending.ratio);
+      if (!Number.isFinite(price) || price <= 0) {
+        continue;
+      }
+
+      for (const watchId of subscription.watchIds) {
+        const update: StreamedPrice = {
+          watchId,
+          price,
+          blockNumber: Math.max(pending.blockNumber, blockNumber),
+          pool: subscription.pool.address,
+          networkKey: stream.networkKey,
+        };
+        this.emit("price", update);
+      }
+    }
+  }
+
+  private handleDisconnect(stream: NetworkStream, reason: string): void {
+    // Ignore late events from a socket that was already replaced or removed
+    if (
+      stream.reconnectTimer ||
+      this.networks.get(stream.networkKey) !== stream
+    ) {
+      return;
+    }
+
+    const wasLive = stream.live;
+    this.closeNetwork(stream);
+    if (wasLive) {
+      logger.warn(
+        `⚠️ Price stream down on ${stream.networkKey} (${reason}), falling back to polling`
+      );
+      this.emit("streamDown", { networkKey: stream.networkKey, reason });
+    }
+
+    const delay = Math.min(
+      5000 * 2 ** stream.reconnectAttempts,
+      this.MAX_RECONNECT_DELAY_MS
+    );
+    stream.reconnectAttempts++;
+    stream.reconnectTimer = setTimeout(() => {
+      stream.reconnectTimer = undefined;
+      if (this.networks.get(stream.networkKey) === stream) {
+        logger.info(`📡 Reconnecting price stream on ${stream.networkKey}...`);
+        this.connect(stream);
+      }
+    }, delay);
+  }
+
+  private closeNetwork(stream: NetworkStream): void {
+    stream.live = false;
+    if (stream.reconnectTimer) {
+      clearTimeout(stream.reconnectTimer);
+      stream.reconnectTimer = undefined;
+    }
+
+    const provider = stream.provider;
+    stream.provider = null;
+    if (provider) {
+      const socket = provider.websocket as any;
+      socket.onclose = null;
+      socket.onerror = () => undefined; // closing while connecting still errors
+      provider.destroy().catch(() => undefined);
+    }
+    for (const subscription of stream.pools.values()) {
+      subscription.pending = undefined;
+    }
+  }
+
+  /**
+   * Sockets can stay open without delivering anything, so treat a network
+   * that has produced no block within the stall timeout as disconnected
+   */
+  private startWatchdog(): void {
+    if (this.watchdogInterval) {
+      return;
+    }
+
+    this.watchdogInterval = setInterval(() => {
+      for (const stream of this.networks.values()) {
+        if (
+          stream.provider &&
+          Date.now() - stream.lastBlockAt > this.stallTimeoutMs
+        ) {
+          this.handleDisconnect(
+            stream,
+            `no blocks for ${this.stallTimeoutMs}ms`
+          );
+        }
+      }
+    }, this.stallTimeoutMs / 2);
+  }
+
+  private getPoolFilter(pool: UniswapV3Pool): ethers.Filter {
+    return { address: pool.address, topics: [SWAP_TOPIC] };
+  }
+}
+
+export default PriceStreamService;
+export { StreamedPrice };
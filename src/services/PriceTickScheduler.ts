@@ -0,0 +1,179 @@
+import { EventEmitter } from "events";
+import { logger } from "../config/logger";
+import PriceOracleService, {
+  ConsensusPrice,
+  PriceQuery,
+  getPriceKey,
+} from "./PriceOracleService";
+
+interface PriceTick {
+  prices: Map<string, ConsensusPrice>; // keyed by getPriceKey()
+  requested: number; // unique tokens asked for this tick
+  timestamp: Date;
+  durationMs: number;
+}
+
+interface PriceUpdate {
+  key: string;
+  query: PriceQuery;
+  price: ConsensusPrice;
+}
+
+/**
+ * Shared price poller for everything that watches prices
+ *
+ * Consumers subscribe the tokens they care about. Each tick collapses the
+ * subscriptions to unique tokens, prices them in a single batch through the
+ * oracle layer (one request per provider), then emits "tick" with every
+ * result and "price" once per token.
+ */
+class PriceTickScheduler extends EventEmitter {
+  private subscriptions: Map<string, PriceQuery> = new Map(); // subscriberId -> query
+  private consumers: Set<string> = new Set();
+  private latestPrices: Map<string, ConsensusPrice> = new Map();
+  private tickInterval: NodeJS.Timeout | null = null;
+  private tickInProgress: Promise<PriceTick> | null = null;
+  private readonly intervalMs: number;
+
+  constructor(
+    private priceOracle: PriceOracleService,
+    intervalMs?: number
+  ) {
+    super();
+    this.intervalMs =
+      intervalMs ?? parseInt(process.env["PRICE_TICK_INTERVAL_MS"] || "30000");
+  }
+
+  /**
+   * Watch a token under a subscriber id. Re-subscribing the same id replaces
+   * its query. Returns the price key results are published under.
+   */
+  subscribe(subscriberId: string, query: PriceQuery): string {
+    this.subscriptions.set(subscriberId, query);
+    return getPriceKey(query);
+  }
+
+  unsubscribe(subscriberId: string): void {
+    const query = this.subscriptions.get(subscriberId);
+    if (!query) {
+      return;
+    }
+
+    this.subscriptions.delete(subscriberId);
+    const key = getPriceKey(query);
+    const stillWatched = Array.from(this.subscriptions.values()).some(
+      (q) => getPriceKey(q) === key
+    );
+    if (!stillWatched) {
+      this.latestPrices.delete(key);
+    }
+  }
+
+  /**
+   * Ticks run while at least one consumer has started the scheduler, so
+   * services sharing it can start and stop independently
+   */
+  start(consumer: string): void {
+    this.consumers.add(consumer);
+    if (this.tickInterval) {
+      return;
+    }
+
+    this.tickInterval = setInterval(() => {
+      this.tick().catch((error) =>
+        logger.error(`❌ Price tick failed: ${error}`)
+      );
+    }, this.intervalMs);
+    logger.info(`📡 Price tick scheduler started (every ${this.intervalMs}ms)`);
+  }
+
+  stop(consumer: string): void {
+    this.consumers.delete(consumer);
+    if (this.consumers.size > 0 || !this.tickInterval) {
+      return;
+    }
+
+    clearInterval(this.tickInterval);
+    this.tickInterval = null;
+    logger.info("📡 Price tick scheduler stopped");
+  }
+
+  isRunning(): boolean {
+    return this.tickInterval !== null;
+  }
+
+  getIntervalMs(): number {
+    return this.intervalMs;
+  }
+
+  getLatestPrice(query: PriceQuery): ConsensusPrice | null {
+    return this.latestPrices.get(getPriceKey(query)) || null;
+  }
+
+  getStats(): { subscriptions: number; tokens: number; consumers: string[] } {
+    return {
+      subscriptions: this.subscriptions.size,
+      tokens: this.getUniqueQueries().size,
+      consumers: Array.from(this.consumers),
+    };
+  }
+
+  /**
+   * Run a tick now. Callers arriving while one is in flight share its result
+   * instead of issuing another round of requests.
+   */
+  async tick(): Promise<PriceTick> {
+    if (!this.tickInProgress) {
+      this.tickInProgress = this.runTick().finally(() => {
+        this.tickInProgress = null;
+      });
+    }
+    return this.tickInProgress;
+  }
+
+  private async runTick(): Promise<PriceTick> {
+    const startedAt = Date.now();
+    const queries = this.getUniqueQueries();
+    let prices: Map<string, ConsensusPrice> = new Map();
+
+    if (queries.size > 0) {
+      try {
+        prices = await this.priceOracle.getPrices(Array.from(queries.values()));
+      } catch (error) {
+        logger.error(`❌ Batched price fetch failed: ${error}`);
+      }
+
+      logger.info(
+        `📡 Price tick: ${prices.size}/${queries.size} tokens priced in ${Date.now() - startedAt}ms`
+      );
+    }
+
+    prices.forEach((price, key) => this.latestPrices.set(key, price));
+
+    const tick: PriceTick = {
+      prices,
+      requested: queries.size,
+      timestamp: new Date(),
+      durationMs: Date.now() - startedAt,
+    };
+
+    this.emit("tick", tick);
+    for (const [key, price] of prices) {
+      const update: PriceUpdate = { key, query: queries.get(key)!, price };
+      this.emit("price", update);
+    }
+
+    return tick;
+  }
+
+  private getUniqueQueries(): Map<string, PriceQuery> {
+    const queries: Map<string, PriceQuery> = new Map();
+    for (const query of this.subscriptions.values()) {
+      queries.set(getPriceKey(query), query);
+    }
+    return queries;
+  }
+}
+
+export default PriceTickScheduler;
+export { PriceTick, PriceUpdate };
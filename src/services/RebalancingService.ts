@@ -0,0 +1,519 @@
+import { logger } from "../config/logger";
+import PortfolioService, { PortfolioHolding } from "./PortfolioService";
+import TradeExecutionService from "./TradeExecutionService";
+import TradeMonitoringService from "./TradeMonitoringService";
+import { NetworkUtils } from "../utils/NetworkUtils";
+import { NetworkConfig } from "../config/networks";
+
+interface RebalanceRequest {
+  safeAddress: string;
+  networkKey: string;
+  targetWeights: Record<string, number>; // symbol -> % of the Safe's value, summing to 100
+  driftThresholdPercent?: number; // rebalance once any token drifts further than this
+  minTradeUsd?: number; // smaller swaps are left out of the plan
+  slippagePercent?: number;
+}
+
+interface AllocationDrift {
+  symbol: string;
+  currentValueUsd: number;
+  targetValueUsd: number;
+  currentPercent: number;
+  targetPercent: number;
+  driftPercent: number; // current - target
+}
+
+interface RebalanceSwap {
+  sellToken: string;
+  buyToken: string;
+  sellAmount: string; // sell token units
+  valueUsd: number;
+  dynamicTokenInfo?: PinnedTokenInfo; // for a held token missing from TOKEN_MAP
+  quote?: { aggregator: string; amountOut: string; gasEstimate: string };
+  quoteError?: string;
+  status: "planned" | "executed" | "failed" | "skipped";
+  transactionHash?: string;
+  amountOut?: string;
+  error?: string;
+}
+
+interface PinnedTokenInfo {
+  contractAddress: string;
+  symbol: string;
+  pinned: true; // only resolves the side whose symbol matches
+}
+
+interface RebalancePlan {
+  planId: string;
+  safeAddress: string;
+  networkKey: string;
+  totalValueUsd: number;
+  driftThresholdPercent: number;
+  minTradeUsd: number;
+  slippagePercent?: number;
+  allocations: AllocationDrift[];
+  swaps: RebalanceSwap[];
+  status:
+    | "balanced" // every token within the drift threshold
+    | "planned"
+    | "executed"
+    | "partially_executed"
+    | "failed";
+  createdAt: Date;
+  executedAt?: Date;
+}
+
+const DEFAULT_DRIFT_THRESHOLD_PERCENT = parseFloat(
+  process.env["REBALANCE_DRIFT_THRESHOLD"] || "5"
+);
+const DEFAULT_MIN_TRADE_USD = parseFloat(
+  process.env["REBALANCE_MIN_TRADE_USD"] || "10"
+);
+
+/**
+ * Brings a Safe's holdings on one network back to target weights
+ *
+ * Nothing is traded while every token is within the drift threshold of its
+ * target. Once one drifts further, the whole Safe is traded back to target
+ * with the fewest swaps: the largest surplus is sold directly into the
+ * largest deficit until both sides are used up, so n tokens need at most
+ * n - 1 swaps. Swaps below the minimum trade size are dropped. Plans are
+ * previewed with aggregator quotes and executed leg by leg through
+ * TradeExecutionService, stopping at the first failed leg. Tokens backing
+ * open monitored positions are left to those positions' exits, so only the
+ * rest of the Safe is rebalanced.
+ */
+class RebalancingService {
+  private tradeMonitoringService?: TradeMonitoringService;
+
+  constructor(
+    private portfolioService: PortfolioService,
+    private tradeExecutionService: TradeExecutionService
+  ) {}
+
+  setTradeMonitoringService(
+    tradeMonitoringService: TradeMonitoringService
+  ): void {
+    this.tradeMonitoringService = tradeMonitoringService;
+  }
+
+  async planRebalance(request: RebalanceRequest): Promise<RebalancePlan> {
+    const network = this.getNetwork(request.networkKey);
+    const targetWeights = this.normalizeWeights(request.targetWeights);
+    const driftThresholdPercent =
+      request.driftThresholdPercent ?? DEFAULT_DRIFT_THRESHOLD_PERCENT;
+    const minTradeUsd = request.minTradeUsd ?? DEFAULT_MIN_TRADE_USD;
+    if (
+      request.slippagePercent !== undefined &&
+      !(
+        typeof request.slippagePercent === "number" &&
+        request.slippagePercent > 0 &&
+        request.slippagePercent <= 50
+      )
+    ) {
+      throw new Error("slippagePercent must be between 0 and 50");
+    }
+
+    const portfolio = await this.portfolioService.getSafePortfolio(
+      request.safeAddress,
+      [network.networkKey]
+    );
+    const readError = portfolio.deployments.find((d) => d.error)?.error;
+    if (readError) {
+      throw new Error(`Could not read Safe balances: ${readError}`);
+    }
+
+    // Unpriced holdings cannot be valued, so they are neither sold nor counted
+    const holdings: Map<string, PortfolioHolding> = new Map();
+    for (const holding of portfolio.holdings) {
+      if (holding.valueUsd !== null) {
+        holdings.set(holding.symbol.toUpperCase(), holding);
+      }
+    }
+    const reservedValueUsd = this.reserveOpenPositions(
+      holdings,
+      request.safeAddress,
+      network.networkKey
+    );
+
+    for (const symbol of Object.keys(targetWeights)) {
+      if (!holdings.has(symbol) && !this.canBuy(symbol, network)) {
+        throw new Error(`${symbol} cannot be bought on ${network.name}`);
+      }
+    }
+
+    const totalValueUsd = portfolio.totalValueUsd - reservedValueUsd;
+    const symbols = new Set([
+      ...holdings.keys(),
+      ...Object.keys(targetWeights),
+    ]);
+    const allocations: AllocationDrift[] = Array.from(symbols).map((symbol) => {
+      const currentValueUsd = holdings.get(symbol)?.valueUsd || 0;
+      const targetPercent = targetWeights[symbol] || 0;
+      const currentPercent =
+        totalValueUsd > 0 ? (currentValueUsd / totalValueUsd) * 100 : 0;
+      return {
+        symbol,
+        currentValueUsd,
+        targetValueUsd: (totalValueUsd * targetPercent) / 100,
+        currentPercent,
+        targetPercent,
+        driftPercent: currentPercent - targetPercent,
+      };
+    });
+
+    const plan: RebalancePlan = {
+      planId: `rebalance_${Date.now()}`,
+      safeAddress: request.safeAddress,
+      networkKey: network.networkKey,
+      totalValueUsd,
+      driftThresholdPercent,
+      minTradeUsd,
+      slippagePercent: request.slippagePercent,
+      allocations,
+      swaps: [],
+      status: "balanced",
+      createdAt: new Date(),
+    };
+
+    const drifted = allocations.some(
+      (allocation) => Math.abs(allocation.driftPercent) > driftThresholdPercent
+    );
+    if (!drifted || totalValueUsd <= 0) {
+      return plan;
+    }
+
+    plan.swaps = this.matchSwaps(
+      allocations,
+      holdings,
+      minTradeUsd,
+      network.networkKey
+    );
+    plan.status = plan.swaps.length > 0 ? "planned" : "balanced";
+
+    logger.info(
+      `⚖️ Rebalance plan ${plan.planId} for ${request.safeAddress} on ${network.networkKey}: ${plan.swaps.length} swap(s)`
+    );
+    return plan;
+  }
+
+  /**
+   * Attach an aggregator quote to every planned swap
+   */
+  async previewRebalance(plan: RebalancePlan): Promise<RebalancePlan> {
+    const network = this.getNetwork(plan.networkKey);
+
+    for (const swap of plan.swaps) {
+      if (swap.status === "skipped") {
+        continue;
+      }
+      try {
+        swap.quote = await this.tradeExecutionService.previewSwap(
+          plan.safeAddress,
+          swap.sellToken,
+          swap.buyToken,
+          swap.sellAmount,
+          network,
+          swap.dynamicTokenInfo,
+          plan.slippagePercent
+        );
+      } catch (error) {
+        swap.quoteError =
+          error instanceof Error ? error.message : String(error);
+      }
+    }
+    return plan;
+  }
+
+  /**
+   * Execute the planned swaps in order. A failed leg stops the plan, since
+   * the balances the remaining legs were sized from no longer hold.
+   */
+  async executeRebalance(plan: RebalancePlan): Promise<RebalancePlan> {
+    if (plan.status !== "planned") {
+      return plan;
+    }
+
+    const network = this.getNetwork(plan.networkKey);
+    let failed = false;
+
+    for (const swap of plan.swaps) {
+      if (swap.status === "skipped") {
+        continue;
+      }
+      if (failed) {
+        swap.status = "skipped";
+        continue;
+      }
+
+      logger.info(
+        `⚖️ ${plan.planId}: selling ${swap.sellAmount} ${swap.sellToken} for ${swap.buyToken} (~$${swap.valueUsd.toFixed(2)})`
+      );
+      const result = await this.tradeExecutionService.executeSwap(
+        plan.safeAddress,
+        swap.sellToken,
+        swap.buyToken,
+        swap.sellAmount,
+        network.chainId,
+        network,
+        swap.dynamicTokenInfo,
+        plan.slippagePercent
+      );
+
+      if (result.success) {
+        swap.status = "executed";
+        swap.transactionHash = result.transactionHash;
+        swap.amountOut = result.amountOut;
+      } else {
+        swap.status = "failed";
+        swap.error = result.error;
+        failed = true;
+        logger.error(
+          `❌ ${plan.planId}: ${swap.sellToken} -> ${swap.buyToken} failed, skipping the remaining swaps: ${result.error}`
+        );
+      }
+    }
+
+    const executed = plan.swaps.filter((s) => s.status === "executed").length;
+    // Legs skipped at planning leave the plan short of target as well
+    const complete = plan.swaps.every((s) => s.status === "executed");
+    plan.status = complete
+      ? "executed"
+      : executed > 0
+        ? "partially_executed"
+        : "failed";
+    plan.executedAt = new Date();
+    return plan;
+  }
+
+  /**
+   * Pair the largest surplus with the largest deficit until both run out
+   */
+  private matchSwaps(
+    allocations: AllocationDrift[],
+    holdings: Map<string, PortfolioHolding>,
+    minTradeUsd: number,
+    networkKey: string
+  ): RebalanceSwap[] {
+    const surpluses = allocations
+      .filter((a) => a.currentValueUsd > a.targetValueUsd)
+      .map((a) => ({
+        symbol: a.symbol,
+        valueUsd: a.currentValueUsd - a.targetValueUsd,
+        sellAll: a.targetValueUsd === 0,
+      }));
+    const deficits = allocations
+      .filter((a) => a.targetValueUsd > a.currentValueUsd)
+      .map((a) => ({
+        symbol: a.symbol,
+        valueUsd: a.targetValueUsd - a.currentValueUsd,
+      }));
+    const byValue = (a: { valueUsd: number }, b: { valueUsd: number }) =>
+      b.valueUsd - a.valueUsd;
+
+    // Units of each sell token still unallocated, so legs never oversell
+    const remainingUnits: Map<string, number> = new Map(
+      surpluses.map((s) => [
+        s.symbol,
+        parseFloat(holdings.get(s.symbol)!.balance),
+      ])
+    );
+
+    const swaps: RebalanceSwap[] = [];
+    while (surpluses.length > 0 && deficits.length > 0) {
+      surpluses.sort(byValue);
+      deficits.sort(byValue);
+      const surplus = surpluses[0];
+      const deficit = deficits[0];
+      const valueUsd = Math.min(surplus.valueUsd, deficit.valueUsd);
+
+      surplus.valueUsd -= valueUsd;
+      deficit.valueUsd -= valueUsd;
+      const surplusDone = surplus.valueUsd < minTradeUsd;
+      if (surplusDone) {
+        surpluses.shift();
+      }
+      if (deficit.valueUsd < minTradeUsd) {
+        deficits.shift();
+      }
+
+      if (valueUsd < minTradeUsd) {
+        continue;
+      }
+
+      const holding = holdings.get(surplus.symbol)!;
+      const remaining = remainingUnits.get(surplus.symbol)!;
+      // A token being exited entirely sells its exact balance on its last leg
+      const units =
+        surplus.sellAll && surplusDone
+          ? remaining
+          : Math.min(valueUsd / holding.priceUsd!, remaining);
+      remainingUnits.set(surplus.symbol, remaining - units);
+
+      const swap: RebalanceSwap = {
+        sellToken: surplus.symbol,
+        buyToken: deficit.symbol,
+        sellAmount:
+          units === parseFloat(holding.balance)
+            ? holding.balance
+            : this.formatUnits(units),
+        valueUsd,
+        status: "planned",
+      };
+
+      // A swap carries one pinned contract, so two unlisted sides cannot be
+      // resolved safely
+      const unlisted = [surplus.symbol, deficit.symbol]
+        .map((symbol) => this.getDynamicTokenInfo(symbol, holdings, networkKey))
+        .filter((info): info is PinnedTokenInfo => !!info);
+      if (unlisted.length > 1) {
+        swap.status = "skipped";
+        swap.error = `${surplus.symbol} and ${deficit.symbol} are both missing from the token list`;
+      } else {
+        swap.dynamicTokenInfo = unlisted[0];
+      }
+      swaps.push(swap);
+    }
+
+    return swaps;
+  }
+
+  /**
+   * Contract address for a side of the swap missing from TOKEN_MAP (a token
+   * held from an earlier position), pinned to that side's symbol so
+   * TradeExecutionService never resolves the other side to it
+   */
+  private getDynamicTokenInfo(
+    symbol: string,
+    holdings: Map<string, PortfolioHolding>,
+    networkKey: string
+  ): PinnedTokenInfo | undefined {
+    const holding = holdings.get(symbol);
+    if (
+      holding &&
+      !holding.isNative &&
+      !NetworkUtils.getTokenAddress(symbol, networkKey)
+    ) {
+      return {
+        contractAddress: holding.tokenAddress,
+        symbol: holding.symbol,
+        pinned: true,
+      };
+    }
+    return undefined;
+  }
+
+  /**
+   * Take the amounts still held by open monitored positions out of the
+   * sellable holdings. Returns the USD value set aside.
+   */
+  private reserveOpenPositions(
+    holdings: Map<string, PortfolioHolding>,
+    safeAddress: string,
+    networkKey: string
+  ): number {
+    if (!this.tradeMonitoringService) {
+      return 0;
+    }
+
+    let reservedValueUsd = 0;
+    for (const trade of this.tradeMonitoringService.getMonitoredTrades()) {
+      if (
+        trade.safeAddress?.toLowerCase() !== safeAddress.toLowerCase() ||
+        trade.networkKey !== networkKey
+      ) {
+        continue;
+      }
+
+      const tokenSymbol = (
+        trade.tokenMentioned || trade.tokenSymbol
+      ).toUpperCase();
+      const symbol = trade.tokenAddress
+        ? Array.from(holdings.keys()).find(
+            (key) =>
+              holdings.get(key)!.tokenAddress.toLowerCase() ===
+              trade.tokenAddress!.toLowerCase()
+          )
+        : tokenSymbol;
+      const holding = symbol ? holdings.get(symbol) : undefined;
+      if (!holding) {
+        continue;
+      }
+
+      const balance = parseFloat(holding.balance);
+      const reservedUnits = Math.min(
+        parseFloat(trade.remainingAmount) || 0,
+        balance
+      );
+      const reservedValue = reservedUnits * holding.priceUsd!;
+      reservedValueUsd += reservedValue;
+
+      const freeUnits = balance - reservedUnits;
+      if (freeUnits * holding.priceUsd! < 0.01) {
+        holdings.delete(symbol!);
+      } else {
+        holdings.set(symbol!, {
+          ...holding,
+          balance: this.formatUnits(freeUnits),
+          valueUsd: holding.valueUsd! - reservedValue,
+        });
+      }
+      logger.info(
+        `⚖️ Leaving ${reservedUnits} ${tokenSymbol} to open position ${trade.tradeId}`
+      );
+    }
+    return reservedValueUsd;
+  }
+
+  private canBuy(symbol: string, network: NetworkConfig): boolean {
+    return (
+      symbol === network.nativeCurrency.symbol.toUpperCase() ||
+      !!NetworkUtils.getTokenAddress(symbol, network.networkKey)
+    );
+  }
+
+  private normalizeWeights(
+    targetWeights: Record<string, number>
+  ): Record<string, number> {
+    if (!targetWeights || Object.keys(targetWeights).length === 0) {
+      throw new Error("targetWeights must map token symbols to percentages");
+    }
+
+    const weights: Record<string, number> = {};
+    for (const [symbol, weight] of Object.entries(targetWeights)) {
+      if (typeof weight !== "number" || !(weight >= 0)) {
+        throw new Error(`Target weight for ${symbol} must be 0 or more`);
+      }
+      weights[symbol.toUpperCase()] =
+        (weights[symbol.toUpperCase()] || 0) + weight;
+    }
+
+    const total = Object.values(weights).reduce((a, b) => a + b, 0);
+    if (Math.abs(total - 100) > 0.01) {
+      throw new Error(`Target weights must add up to 100, got ${total}`);
+    }
+    return weights;
+  }
+
+  private getNetwork(networkKey: string): NetworkConfig {
+    const network = NetworkUtils.getNetworkByKey(networkKey);
+    if (!network) {
+      throw new Error(`Unsupported network: ${networkKey}`);
+    }
+    return network;
+  }
+
+  // Rounded down so a leg never asks for more than the Safe holds
+  private formatUnits(units: number): string {
+    return (Math.floor(units * 1e8) / 1e8).toFixed(8).replace(/\.?0+$/, "");
+  }
+}
+
+export default RebalancingService;
+export {
+  RebalanceRequest,
+  AllocationDrift,
+  RebalanceSwap,
+  RebalancePlan,
+  PinnedTokenInfo,
+};
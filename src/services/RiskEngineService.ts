@@ -0,0 +1,380 @@
+import { EventEmitter } from "events";
+import { logger } from "../config/logger";
+import DatabaseService from "./DatabaseService";
+import TradeStateManager from "./TradeStateManager";
+import TradeMonitoringService from "./TradeMonitoringService";
+
+interface RiskLimits {
+  maxDailyTrades: number; // entries per UTC day across all users, 0 = no cap
+  maxDailyTradesPerUser: number; // entries per UTC day per user, 0 = no cap
+  maxDailyLossUsd: number; // per-user daily loss that trips the user's breaker
+  emergencyStopLossPercent: number; // global daily loss, as % of exposure, that trips the global breaker
+}
+
+interface RiskSnapshot {
+  day: string;
+  entries: number;
+  realizedPnl: number; // closed today
+  unrealizedPnl: number; // open positions marked at their last price
+  pnl: number; // realized + unrealized, less what a manual reset absorbed
+  exposureUsd: number; // entry value of positions open now or opened today
+}
+
+/**
+ * Per-day breaker state for the platform ("global") or one user. A tripped
+ * breaker blocks entries until it is reset or the UTC day ends.
+ */
+interface CircuitBreaker {
+  key: string; // "global" or "user:<username>"
+  scope: "global" | "user";
+  username?: string;
+  day: string; // UTC day (YYYY-MM-DD) this state belongs to
+  tripped: boolean;
+  reason?: string;
+  trippedAt?: Date;
+  resetAt?: Date;
+  resetBy?: string;
+  pnlOffset: number; // P&L at the last reset, so the limit counts from there
+}
+
+interface RiskDecision {
+  allowed: boolean;
+  reason?: string;
+  breaker?: CircuitBreaker;
+}
+
+interface EntryReservation extends RiskDecision {
+  release: () => void;
+}
+
+/**
+ * Risk engine consulted before every entry
+ *
+ * Tracks each user's and the platform's entries and P&L for the current UTC
+ * day: realized from exit events in the TradeStateManager, unrealized from
+ * trades under monitoring. Trade caps simply refuse further entries for the
+ * day. Loss limits trip a circuit breaker that blocks entries until an admin
+ * resets it or the next UTC day starts:
+ * - per user: MAX_DAILY_LOSS dollars
+ * - global: EMERGENCY_STOP_LOSS percent of the day's exposure
+ *
+ * Breaker state is persisted so a restart does not clear a tripped breaker.
+ */
+class RiskEngineService extends EventEmitter {
+  private limits: RiskLimits;
+  private breakers: Map<string, CircuitBreaker> = new Map();
+  // Entries approved but not yet visible as trades, so concurrent signals
+  // cannot all slip under a cap
+  private pendingEntries: Map<string, number> = new Map();
+
+  constructor(
+    private databaseService: DatabaseService,
+    private tradeStateManager: TradeStateManager,
+    private tradeMonitoringService: TradeMonitoringService,
+    limits?: Partial<RiskLimits>
+  ) {
+    super();
+
+    this.limits = {
+      maxDailyTrades: parseInt(process.env["MAX_DAILY_TRADES"] || "20"),
+      maxDailyTradesPerUser: parseInt(
+        process.env["MAX_DAILY_TRADES_PER_USER"] || "20"
+      ),
+      maxDailyLossUsd: parseFloat(process.env["MAX_DAILY_LOSS"] || "500"),
+      emergencyStopLossPercent: parseFloat(
+        process.env["EMERGENCY_STOP_LOSS"] || "10"
+      ),
+      ...limits,
+    };
+
+    // Realized losses can trip a breaker without waiting for the next entry
+    this.tradeStateManager.on("tradeExitEvent", ({ trade }) =>
+      this.evaluate(trade.userId).catch((error) =>
+        logger.error("❌ Risk evaluation after exit failed:", error)
+      )
+    );
+  }
+
+  /**
+   * Restore breakers tripped earlier today
+   */
+  async start(): Promise<void> {
+    const persisted = await this.databaseService.getCircuitBreakers(
+      this.getDay()
+    );
+    for (const breaker of persisted) {
+      this.breakers.set(breaker.key, breaker);
+    }
+
+    const tripped = persisted.filter((breaker) => breaker.tripped);
+    if (tripped.length > 0) {
+      logger.warn(
+        `🚨 Circuit breakers tripped today: ${tripped.map((b) => b.key).join(", ")}`
+      );
+    }
+  }
+
+  getLimits(): RiskLimits {
+    return { ...this.limits };
+  }
+
+  /**
+   * Whether the user may open a new position now
+   */
+  async checkEntry(username: string): Promise<RiskDecision> {
+    await this.evaluate(username);
+
+    for (const key of ["global", this.getUserKey(username)]) {
+      const breaker = this.getBreaker(key);
+      if (breaker?.tripped) {
+        return {
+          allowed: false,
+          reason: `Circuit breaker ${key} tripped: ${breaker.reason}`,
+          breaker,
+        };
+      }
+    }
+
+    const { maxDailyTrades, maxDailyTradesPerUser } = this.limits;
+    const userEntries =
+      this.getSnapshot(username).entries +
+      (this.pendingEntries.get(username) || 0);
+    if (maxDailyTradesPerUser > 0 && userEntries >= maxDailyTradesPerUser) {
+      return {
+        allowed: false,
+        reason: `Daily trade limit reached for ${username} (${userEntries}/${maxDailyTradesPerUser})`,
+      };
+    }
+
+    const globalEntries =
+      this.getSnapshot().entries +
+      Array.from(this.pendingEntries.values()).reduce((a, b) => a + b, 0);
+    if (maxDailyTrades > 0 && globalEntries >= maxDailyTrades) {
+      return {
+        allowed: false,
+        reason: `Daily trade limit reached (${globalEntries}/${maxDailyTrades})`,
+      };
+    }
+
+    return { allowed: true };
+  }
+
+  /**
+   * checkEntry, holding a slot against the trade caps until release() is
+   * called once the entry has either become a trade or failed
+   */
+  async reserveEntry(username: string): Promise<EntryReservation> {
+    const decision = await this.checkEntry(username);
+    if (!decision.allowed) {
+      return { ...decision, release: () => undefined };
+    }
+
+    this.pendingEntries.set(
+      username,
+      (this.pendingEntries.get(username) || 0) + 1
+    );
+
+    let released = false;
+    return {
+      ...decision,
+      release: () => {
+        if (released) {
+          return;
+        }
+        released = true;
+
+        const remaining = (this.pendingEntries.get(username) || 1) - 1;
+        if (remaining > 0) {
+          this.pendingEntries.set(username, remaining);
+        } else {
+          this.pendingEntries.delete(username);
+        }
+      },
+    };
+  }
+
+  /**
+   * Check the loss limits for a user (when given) and globally, tripping
+   * breakers that are breached
+   */
+  async evaluate(username?: string): Promise<void> {
+    if (username && this.limits.maxDailyLossUsd > 0) {
+      const key = this.getUserKey(username);
+      const breaker = this.getBreaker(key);
+      const pnl = this.getSnapshot(username).pnl;
+
+      if (!breaker?.tripped && pnl <= -this.limits.maxDailyLossUsd) {
+        await this.trip(
+          key,
+          `Daily loss $${(-pnl).toFixed(2)} reached the $${this.limits.maxDailyLossUsd} limit`
+        );
+      }
+    }
+
+    if (this.limits.emergencyStopLossPercent > 0) {
+      const breaker = this.getBreaker("global");
+      const { pnl, exposureUsd } = this.getSnapshot();
+      const lossPercent = exposureUsd > 0 ? (-pnl / exposureUsd) * 100 : 0;
+
+      if (
+        !breaker?.tripped &&
+        lossPercent >= this.limits.emergencyStopLossPercent
+      ) {
+        await this.trip(
+          "global",
+          `Platform daily loss ${lossPercent.toFixed(2)}% of exposure reached the ${this.limits.emergencyStopLossPercent}% emergency stop`
+        );
+      }
+    }
+  }
+
+  /**
+   * Today's entries and P&L for one user, or for everyone
+   */
+  getSnapshot(username?: string): RiskSnapshot {
+    const day = this.getDay();
+    const dayStart = new Date(`${day}T00:00:00.000Z`);
+
+    let entries = 0;
+    let realizedPnl = 0;
+    let exposureUsd = 0;
+    for (const trade of this.tradeStateManager.getAllTrades(username)) {
+      const enteredToday = trade.entryTimestamp >= dayStart;
+      if (enteredToday && trade.status !== "failed") {
+        entries++;
+      }
+
+      const isOpen =
+        trade.status === "entered" || trade.status === "partially_exited";
+      if (enteredToday || isOpen) {
+        exposureUsd +=
+          (parseFloat(trade.entryAmount) || 0) * (trade.entryPrice || 0);
+      }
+
+      for (const exitEvent of trade.exitEvents) {
+        if (exitEvent.timestamp >= dayStart) {
+          realizedPnl += exitEvent.profitLoss || 0;
+        }
+      }
+    }
+
+    let unrealizedPnl = 0;
+    for (const trade of this.tradeMonitoringService.getMonitoredTrades()) {
+      if (username && trade.userId !== username) {
+        continue;
+      }
+      if (!trade.currentPrice) {
+        continue;
+      }
+
+      const priceMove =
+        trade.signalMessage === "buy"
+          ? trade.currentPrice - trade.entryPrice
+          : trade.entryPrice - trade.currentPrice;
+      unrealizedPnl += (parseFloat(trade.remainingAmount) || 0) * priceMove;
+    }
+
+    const key = username ? this.getUserKey(username) : "global";
+    const pnlOffset = this.getBreaker(key)?.pnlOffset || 0;
+
+    return {
+      day,
+      entries,
+      realizedPnl,
+      unrealizedPnl,
+      pnl: realizedPnl + unrealizedPnl - pnlOffset,
+      exposureUsd,
+    };
+  }
+
+  /**
+   * Breakers tripped today
+   */
+  getTrippedBreakers(): CircuitBreaker[] {
+    const day = this.getDay();
+    return Array.from(this.breakers.values()).filter(
+      (breaker) => breaker.day === day && breaker.tripped
+    );
+  }
+
+  /**
+   * Clear a tripped breaker. Losses so far are absorbed, so the limit
+   * applies afresh from here for the rest of the day.
+   */
+  async resetBreaker(
+    username: string | undefined,
+    resetBy: string
+  ): Promise<CircuitBreaker | null> {
+    const key = username ? this.getUserKey(username) : "global";
+    const breaker = this.getBreaker(key);
+    if (!breaker?.tripped) {
+      return null;
+    }
+
+    const { pnl } = this.getSnapshot(username);
+    const reset: CircuitBreaker = {
+      ...breaker,
+      tripped: false,
+      resetAt: new Date(),
+      resetBy,
+      pnlOffset: breaker.pnlOffset + pnl,
+    };
+
+    this.breakers.set(key, reset);
+    await this.databaseService.saveCircuitBreaker(reset);
+
+    logger.info(`✅ Circuit breaker ${key} reset by ${resetBy}`);
+    this.emit("breakerReset", reset);
+    return reset;
+  }
+
+  private async trip(key: string, reason: string): Promise<void> {
+    const existing = this.getBreaker(key);
+    const username = key === "global" ? undefined : key.slice("user:".length);
+    const breaker: CircuitBreaker = {
+      key,
+      scope: username ? "user" : "global",
+      username,
+      day: this.getDay(),
+      tripped: true,
+      reason,
+      trippedAt: new Date(),
+      pnlOffset: existing?.pnlOffset || 0,
+    };
+
+    this.breakers.set(key, breaker);
+    await this.databaseService.saveCircuitBreaker(breaker);
+
+    logger.error(`🚨 Circuit breaker ${key} tripped: ${reason}`);
+    this.emit("breakerTripped", breaker);
+  }
+
+  /**
+   * State from an earlier UTC day no longer applies
+   */
+  private getBreaker(key: string): CircuitBreaker | null {
+    const breaker = this.breakers.get(key);
+    if (breaker && breaker.day !== this.getDay()) {
+      this.breakers.delete(key);
+      return null;
+    }
+    return breaker || null;
+  }
+
+  private getUserKey(username: string): string {
+    return `user:${username}`;
+  }
+
+  private getDay(): string {
+    return new Date().toISOString().slice(0, 10);
+  }
+}
+
+export default RiskEngineService;
+export {
+  RiskLimits,
+  RiskSnapshot,
+  CircuitBreaker,
+  RiskDecision,
+  EntryReservation,
+};
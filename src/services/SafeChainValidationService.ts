@@ -2,7 +2,9 @@ import Safe from "@safe-global/protocol-kit";
 import { ethers } from "ethers";
 import { logger } from "../config/logger";
 import { NetworkUtils } from "../utils/NetworkUtils";
+import { isPaperTrading } from "../config/networks";
 import TokenChainDetectionService, {
+  ChainDetectionResult,
   TokenChainInfo,
 } from "./TokenChainDetectionService";
 
@@ -52,16 +54,19 @@ export class SafeChainValidationService {
   async validateSafeForToken(
     safeAddress: string,
     tokenSymbol: string,
-    userSafeDeployments?: any[]
+    userSafeDeployments?: any[],
+    knownDetection?: ChainDetectionResult // skip detection, e.g. when the signal pins a chain
   ): Promise<SafeCompatibilityCheck> {
     try {
       logger.info(`🔍 Validating Safe ${safeAddress} for token ${tokenSymbol}`);
 
       // Step 1: Detect which chains support the token
-      const tokenDetection = await this.tokenChainService.detectTokenChains(
-        tokenSymbol,
-        userSafeDeployments
-      );
+      const tokenDetection =
+        knownDetection ||
+        (await this.tokenChainService.detectTokenChains(
+          tokenSymbol,
+          userSafeDeployments
+        ));
 
       if (!tokenDetection.success || !tokenDetection.primaryChain) {
         return {
@@ -213,6 +218,18 @@ export class SafeChainValidationService {
         return result;
       }
 
+      // Paper trading Safes only exist in the database
+      if (isPaperTrading()) {
+        return {
+          isValid: true,
+          safeAddress,
+          networkKey,
+          chainId,
+          isDeployed: true,
+          recommendedAction: "Paper trading, on-chain checks skipped",
+        };
+      }
+
       // Check if Safe is deployed by trying to get basic info
       const isDeployed = await this.checkSafeDeployment(
         safeAddress,
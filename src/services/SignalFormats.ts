@@ -0,0 +1,306 @@
+import { z } from "zod";
+import { SUPPORTED_NETWORKS } from "../config/networks";
+import { ApiSignal, BroadcastSignal } from "./ApiSignalProcessor";
+
+type SignalVersion = 1 | 2;
+
+interface SignalFieldError {
+  field: string; // dotted path into the submitted body, e.g. "takeProfits.1"
+  message: string;
+  code: string;
+}
+
+type SignalParseResult<T = ApiSignal> =
+  | { success: true; version: SignalVersion; signal: T }
+  | { success: false; version?: SignalVersion; errors: SignalFieldError[] };
+
+const SUPPORTED_SIGNAL_VERSIONS: SignalVersion[] = [1, 2];
+
+const address = z
+  .string()
+  .regex(/^0x[0-9a-fA-F]{40}$/, "Must be a 0x-prefixed 20-byte address");
+const price = z.number().finite().positive();
+const username = z.string().trim().min(1, "Username is required");
+const side = z.enum(["buy", "sell"]);
+const networkKey = z.string().refine((key) => key in SUPPORTED_NETWORKS, {
+  message: `Must be one of: ${Object.keys(SUPPORTED_NETWORKS).join(", ")}`,
+});
+const dateString = z
+  .string()
+  .refine((value) => !Number.isNaN(Date.parse(value)), "Must be an ISO date");
+
+/**
+ * Take profits must sit above the entry for buys and below it for sells, and
+ * the stop loss on the other side
+ */
+function checkExitLevels(
+  ctx: z.RefinementCtx,
+  signalSide: "buy" | "sell",
+  entry: number,
+  stopLoss: { value: number; path: (string | number)[] },
+  takeProfits: { value: number; path: (string | number)[] }[]
+): void {
+  const isBuy = signalSide === "buy";
+
+  for (const tp of takeProfits) {
+    if (isBuy ? tp.value <= entry : tp.value >= entry) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: tp.path,
+        message: `Take profit must be ${isBuy ? "higher" : "lower"} than the current price for a ${signalSide} signal`,
+      });
+    }
+  }
+
+  if (isBuy ? stopLoss.value >= entry : stopLoss.value <= entry) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: stopLoss.path,
+      message: `Stop loss must be ${isBuy ? "lower" : "higher"} than the current price for a ${signalSide} signal`,
+    });
+  }
+}
+
+/**
+ * v1: the original provider format with spaced, capitalised keys. Only TP1
+ * and SL are checked against the price, as before.
+ */
+const BroadcastV1Fields = z.object({
+  "Signal Message": side,
+  "Token Mentioned": z.string().trim().min(1, "Token is required"),
+  TP1: price,
+  TP2: price,
+  SL: price,
+  "Current Price": price,
+  "Max Exit Time": z.object({ $date: dateString }),
+});
+
+function refineV1(
+  signal: z.infer<typeof BroadcastV1Fields>,
+  ctx: z.RefinementCtx
+): void {
+  checkExitLevels(
+    ctx,
+    signal["Signal Message"],
+    signal["Current Price"],
+    { value: signal.SL, path: ["SL"] },
+    [{ value: signal.TP1, path: ["TP1"] }]
+  );
+}
+
+const SignalV1Schema = BroadcastV1Fields.extend({
+  username,
+  safeAddress: address,
+}).superRefine(refineV1);
+
+/**
+ * v2: camelCase fields plus optional contract address, chain hint, position
+ * size override and up to two take-profit levels (the monitor's TP1/TP2)
+ */
+const BroadcastV2Fields = z.object({
+  version: z.literal(2).optional(),
+  side,
+  token: z.string().trim().min(1, "Token is required"),
+  contractAddress: address.optional(),
+  chain: networkKey.optional(),
+  entryPrice: price,
+  takeProfits: z
+    .array(price)
+    .min(1, "At least one take profit is required")
+    .max(2, "At most two take-profit levels are supported"),
+  stopLoss: price,
+  maxExitTime: dateString,
+  positionSizePercent: z.number().positive().max(100).optional(),
+});
+
+function refineV2(
+  signal: z.infer<typeof BroadcastV2Fields>,
+  ctx: z.RefinementCtx
+): void {
+  checkExitLevels(
+    ctx,
+    signal.side,
+    signal.entryPrice,
+    { value: signal.stopLoss, path: ["stopLoss"] },
+    signal.takeProfits.map((value, index) => ({
+      value,
+      path: ["takeProfits", index],
+    }))
+  );
+
+  const [tp1, tp2] = signal.takeProfits;
+  if (tp2 !== undefined && (signal.side === "buy" ? tp2 < tp1 : tp2 > tp1)) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ["takeProfits", 1],
+      message: "Take profits must be ordered from nearest to furthest",
+    });
+  }
+}
+
+const SignalV2Schema = BroadcastV2Fields.extend({
+  username,
+  safeAddress: address,
+}).superRefine(refineV2);
+
+// Provider broadcasts carry no user or Safe; those come from each subscription
+const BroadcastV1Schema = BroadcastV1Fields.superRefine(refineV1);
+const BroadcastV2Schema = BroadcastV2Fields.superRefine(refineV2);
+
+const SIGNAL_FORMAT_EXAMPLES: Record<SignalVersion, Record<string, any>> = {
+  1: {
+    "Signal Message": "buy or sell",
+    "Token Mentioned": "TOKEN_SYMBOL",
+    TP1: "number",
+    TP2: "number",
+    SL: "number",
+    "Current Price": "number",
+    "Max Exit Time": { $date: "ISO_DATE_STRING" },
+    username: "user_id",
+    safeAddress: "0x...",
+  },
+  2: {
+    version: 2,
+    side: "buy or sell",
+    token: "TOKEN_SYMBOL",
+    contractAddress: "0x... (optional)",
+    chain: "network key, e.g. arbitrum (optional)",
+    entryPrice: "number",
+    takeProfits: ["number", "number (optional)"],
+    stopLoss: "number",
+    maxExitTime: "ISO_DATE_STRING",
+    positionSizePercent: "number 0-100 (optional)",
+    username: "user_id",
+    safeAddress: "0x...",
+  },
+};
+
+function toFieldErrors(error: z.ZodError): SignalFieldError[] {
+  return error.issues.map((issue) => ({
+    field: issue.path.join(".") || "(body)",
+    message: issue.message,
+    code: issue.code,
+  }));
+}
+
+/**
+ * Pick the format for a request: an explicit version (header or body
+ * "version") wins, otherwise v1 is recognised by its legacy keys
+ */
+function negotiateSignalVersion(
+  body: any,
+  requestedVersion?: string | number
+): SignalVersion | null {
+  const explicit = requestedVersion ?? body?.version;
+  if (explicit !== undefined && explicit !== null && explicit !== "") {
+    const version = Number(String(explicit).replace(/^v/i, ""));
+    return SUPPORTED_SIGNAL_VERSIONS.includes(version as SignalVersion)
+      ? (version as SignalVersion)
+      : null;
+  }
+
+  return body && typeof body === "object" && "Signal Message" in body ? 1 : 2;
+}
+
+/**
+ * Validate a submitted signal in any supported format and normalise it into
+ * the ApiSignal shape the processor works with
+ */
+function parseSignal(
+  body: unknown,
+  requestedVersion?: string | number
+): SignalParseResult {
+  return parseWith(
+    { 1: SignalV1Schema, 2: SignalV2Schema },
+    body,
+    requestedVersion
+  ) as SignalParseResult;
+}
+
+/**
+ * Same as parseSignal for a provider broadcast, which names no user or Safe
+ */
+function parseBroadcastSignal(
+  body: unknown,
+  requestedVersion?: string | number
+): SignalParseResult<BroadcastSignal> {
+  return parseWith(
+    { 1: BroadcastV1Schema, 2: BroadcastV2Schema },
+    body,
+    requestedVersion
+  );
+}
+
+function parseWith(
+  schemas: Record<SignalVersion, z.ZodTypeAny>,
+  body: unknown,
+  requestedVersion?: string | number
+): SignalParseResult<BroadcastSignal> {
+  const version = negotiateSignalVersion(body, requestedVersion);
+  if (!version) {
+    return {
+      success: false,
+      errors: [
+        {
+          field: "version",
+          message: `Unsupported signal version, expected one of: ${SUPPORTED_SIGNAL_VERSIONS.join(", ")}`,
+          code: "unsupported_version",
+        },
+      ],
+    };
+  }
+
+  const parsed = schemas[version].safeParse(body);
+  if (!parsed.success) {
+    return { success: false, version, errors: toFieldErrors(parsed.error) };
+  }
+  if (version === 1) {
+    return { success: true, version, signal: parsed.data };
+  }
+
+  const signal = parsed.data;
+  const [tp1, tp2] = signal.takeProfits;
+  return {
+    success: true,
+    version,
+    signal: {
+      "Signal Message": signal.side,
+      "Token Mentioned": signal.token,
+      TP1: tp1,
+      TP2: tp2 ?? tp1,
+      SL: signal.stopLoss,
+      "Current Price": signal.entryPrice,
+      "Max Exit Time": { $date: new Date(signal.maxExitTime).toISOString() },
+      username: signal.username,
+      safeAddress: signal.safeAddress,
+      contractAddress: signal.contractAddress,
+      networkKey: signal.chain,
+      positionSizePercent: signal.positionSizePercent,
+    } as BroadcastSignal,
+  };
+}
+
+/**
+ * Check an already-normalised ApiSignal, e.g. one handed to the processor
+ * directly rather than through parseSignal
+ */
+function validateApiSignal(signal: ApiSignal): SignalFieldError[] {
+  const parsed = SignalV1Schema.safeParse(signal);
+  return parsed.success ? [] : toFieldErrors(parsed.error);
+}
+
+export {
+  SignalVersion,
+  SignalFieldError,
+  SignalParseResult,
+  SignalV1Schema,
+  SignalV2Schema,
+  BroadcastV1Schema,
+  BroadcastV2Schema,
+  SIGNAL_FORMAT_EXAMPLES,
+  SUPPORTED_SIGNAL_VERSIONS,
+  negotiateSignalVersion,
+  parseSignal,
+  parseBroadcastSignal,
+  validateApiSignal,
+};
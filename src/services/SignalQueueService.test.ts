@@ -0,0 +1,175 @@
+import SignalQueueService from "./SignalQueueService";
+import ApiSignalProcessor, {
+  ApiSignal,
+  ProcessedSignal,
+} from "./ApiSignalProcessor";
+
+/**
+ * In-memory stand-in for a bull queue: runs each job as soon as it is added
+ * and replays it on failure until its attempts are used up, firing the same
+ * "completed"/"failed" events bull does
+ */
+class FakeQueue {
+  private jobs = new Map<string, any>();
+  private handlers: Record<string, (...args: any[]) => any> = {};
+  private processor: ((job: any) => Promise<any>) | null = null;
+
+  on(event: string, handler: (...args: any[]) => any) {
+    this.handlers[event] = handler;
+  }
+
+  process(_concurrency: number, processor: (job: any) => Promise<any>) {
+    this.processor = processor;
+  }
+
+  async isReady() {}
+  async close() {}
+
+  async getJob(jobId: string) {
+    return this.jobs.get(jobId) || null;
+  }
+
+  async getWaiting() {
+    return Array.from(this.jobs.values());
+  }
+
+  async count() {
+    return this.jobs.size;
+  }
+
+  async getJobCounts() {
+    return {};
+  }
+
+  async add(data: any, opts: any) {
+    const job: any = {
+      id: opts.jobId,
+      data,
+      opts,
+      attemptsMade: 0,
+      finishedOn: undefined,
+      returnvalue: null,
+      failedReason: undefined,
+      state: "waiting",
+      isFailed: async () => job.state === "failed",
+      getState: async () => job.state,
+      remove: async () => this.jobs.delete(job.id),
+    };
+    this.jobs.set(job.id, job);
+    if (this.processor) {
+      await this.run(job);
+    }
+    return job;
+  }
+
+  private async run(job: any) {
+    while (true) {
+      try {
+        job.returnvalue = await this.processor!(job);
+        job.finishedOn = Date.now();
+        job.state = "completed";
+        this.handlers["completed"]?.(job, job.returnvalue);
+        return;
+      } catch (error) {
+        job.attemptsMade++;
+        if (job.attemptsMade >= (job.opts.attempts || 1)) {
+          job.finishedOn = Date.now();
+          job.failedReason = error.message;
+          job.state = "failed";
+        }
+        await this.handlers["failed"]?.(job, error);
+        if (job.state === "failed") {
+          return;
+        }
+      }
+    }
+  }
+}
+
+jest.mock("bull", () => jest.fn().mockImplementation(() => new FakeQueue()));
+
+const signal = {
+  "Signal Message": "buy",
+  "Token Mentioned": "ARB",
+  username: "alice",
+  safeAddress: "0x1111111111111111111111111111111111111111",
+} as ApiSignal;
+
+function createQueue(result: Partial<ProcessedSignal>) {
+  const processApiSignal = jest.fn().mockResolvedValue({
+    signalId: "signal-1",
+    ...result,
+  });
+  const processor = {
+    processApiSignal,
+    getIdempotencyKey: () => "alice:ARB:buy",
+  } as unknown as ApiSignalProcessor;
+
+  return {
+    queue: new SignalQueueService(processor, { attempts: 3, backoffMs: 0 }),
+    processApiSignal,
+  };
+}
+
+describe("SignalQueueService", () => {
+  it("retries a failed swap quote, then dead-letters the signal", async () => {
+    const { queue, processApiSignal } = createQueue({
+      status: "failed",
+      error: "Swap quote failed: No valid quotes available from aggregators",
+      errorCode: "SWAP_QUOTE_FAILED",
+    });
+    const deadLettered = jest.fn();
+    queue.on("jobDeadLettered", deadLettered);
+
+    await queue.start();
+    const { jobId } = await queue.enqueue(signal);
+
+    expect(processApiSignal).toHaveBeenCalledTimes(3);
+    expect(deadLettered).toHaveBeenCalledTimes(1);
+
+    const status = await queue.getJobStatus(jobId);
+    expect(status.state).toBe("dead-lettered");
+    expect(status.attemptsMade).toBe(3);
+    expect(status.failedReason).toContain("Swap quote failed");
+  });
+
+  it("does not retry a failure that is not retryable", async () => {
+    const { queue, processApiSignal } = createQueue({
+      status: "failed",
+      error: "Entry refused by the risk engine",
+      errorCode: "RISK_LIMIT_BREACHED",
+    });
+
+    await queue.start();
+    const { jobId } = await queue.enqueue(signal);
+
+    expect(processApiSignal).toHaveBeenCalledTimes(1);
+    expect((await queue.getJobStatus(jobId)).state).toBe("completed");
+  });
+
+  it("runs a signal again after it completed with a failed outcome", async () => {
+    const { queue, processApiSignal } = createQueue({
+      status: "failed",
+      error: "Entry refused by the risk engine",
+      errorCode: "RISK_LIMIT_BREACHED",
+    });
+
+    await queue.start();
+    await queue.enqueue(signal);
+    const resubmitted = await queue.enqueue(signal);
+
+    expect(resubmitted.duplicate).toBe(false);
+    expect(processApiSignal).toHaveBeenCalledTimes(2);
+  });
+
+  it("returns a successful signal as a duplicate", async () => {
+    const { queue, processApiSignal } = createQueue({ status: "success" });
+
+    await queue.start();
+    await queue.enqueue(signal);
+    const resubmitted = await queue.enqueue(signal);
+
+    expect(resubmitted.duplicate).toBe(true);
+    expect(processApiSignal).toHaveBeenCalledTimes(1);
+  });
+});
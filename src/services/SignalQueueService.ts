@@ -0,0 +1,361 @@
+import { EventEmitter } from "events";
+import crypto from "crypto";
+import Bull, { Job, JobOptions, Queue } from "bull";
+import { logger } from "../config/logger";
+import { errorHandler } from "./ErrorHandlingService";
+import ApiSignalProcessor, {
+  ApiSignal,
+  ProcessedSignal,
+} from "./ApiSignalProcessor";
+
+interface SignalQueueConfig {
+  redisUrl: string;
+  queueName: string;
+  concurrency: number;
+  attempts: number; // total tries per job, including the first
+  backoffMs: number; // first retry delay, doubled on each further retry
+  retentionSeconds: number; // how long finished jobs stay pollable
+}
+
+interface SignalJobData {
+  signal: ApiSignal;
+  idempotencyKey?: string; // client-supplied Idempotency-Key, if any
+  signalVersion?: number;
+  submittedBy?: string;
+  submittedAt: string;
+}
+
+interface DeadLetterJobData extends SignalJobData {
+  failedReason: string;
+  attemptsMade: number;
+  deadLetteredAt: string;
+}
+
+type SignalJobState =
+  | "waiting"
+  | "active"
+  | "delayed"
+  | "completed"
+  | "failed"
+  | "paused"
+  | "stuck"
+  | "dead-lettered";
+
+interface SignalJobStatus {
+  jobId: string;
+  state: SignalJobState;
+  username: string;
+  submittedBy?: string;
+  token: string;
+  attemptsMade: number;
+  maxAttempts: number;
+  submittedAt: string;
+  finishedAt?: string;
+  result?: ProcessedSignal;
+  failedReason?: string;
+}
+
+/**
+ * Thrown by the worker for failures errorHandler.isRetryable() accepts, so
+ * bull schedules another attempt with backoff
+ */
+class RetryableSignalError extends Error {
+  constructor(
+    public code: string,
+    message: string
+  ) {
+    super(message);
+    this.name = "RetryableSignalError";
+  }
+}
+
+/**
+ * Durable signal queue backed by bull/Redis
+ *
+ * Accepted signals become jobs processed by workers at QUEUE_CONCURRENCY.
+ * Failures with retryable error codes are retried with exponential backoff;
+ * jobs that exhaust their attempts (or crash every time) are copied to a
+ * dead-letter queue where they can be inspected and re-enqueued. Job ids are
+ * derived from the processor's idempotency key, so a retried webhook maps to
+ * the job it already created.
+ */
+class SignalQueueService extends EventEmitter {
+  private queue: Queue<SignalJobData> | null = null;
+  private deadLetterQueue: Queue<DeadLetterJobData> | null = null;
+  private config: SignalQueueConfig;
+
+  constructor(
+    private apiSignalProcessor: ApiSignalProcessor,
+    config?: Partial<SignalQueueConfig>
+  ) {
+    super();
+    this.config = {
+      redisUrl: process.env["REDIS_URL"] || "redis://localhost:6379",
+      queueName: process.env["SIGNAL_QUEUE_NAME"] || "signal-processing",
+      concurrency: parseInt(process.env["QUEUE_CONCURRENCY"] || "5"),
+      attempts: parseInt(process.env["SIGNAL_QUEUE_ATTEMPTS"] || "5"),
+      backoffMs: parseInt(process.env["SIGNAL_QUEUE_BACKOFF_MS"] || "5000"),
+      retentionSeconds: parseInt(
+        process.env["SIGNAL_QUEUE_RETENTION_SECONDS"] || "86400"
+      ),
+      ...config,
+    };
+  }
+
+  async start(): Promise<void> {
+    if (this.queue) {
+      return;
+    }
+
+    this.queue = new Bull<SignalJobData>(
+      this.config.queueName,
+      this.config.redisUrl
+    );
+    this.deadLetterQueue = new Bull<DeadLetterJobData>(
+      `${this.config.queueName}-dead-letter`,
+      this.config.redisUrl
+    );
+
+    this.queue.on("error", (error) =>
+      logger.error(`❌ Signal queue error: ${error}`)
+    );
+    this.queue.on("completed", (job: Job<SignalJobData>, result) =>
+      this.emit("jobCompleted", { jobId: String(job.id), result })
+    );
+    this.queue.on("failed", (job: Job<SignalJobData>, error: Error) =>
+      this.handleFailedJob(job, error).catch((deadLetterError) =>
+        logger.error(
+          `❌ Failed to dead-letter signal job ${job.id}: ${deadLetterError}`
+        )
+      )
+    );
+
+    this.queue.process(this.config.concurrency, (job: Job<SignalJobData>) =>
+      this.processJob(job)
+    );
+
+    await this.queue.isReady();
+    logger.info(
+      `📬 Signal queue "${this.config.queueName}" started (concurrency ${this.config.concurrency}, ${this.config.attempts} attempts)`
+    );
+  }
+
+  /**
+   * Stops taking new jobs and waits for active ones to finish
+   */
+  async stop(): Promise<void> {
+    const queues = [this.queue, this.deadLetterQueue].filter(Boolean);
+    this.queue = null;
+    this.deadLetterQueue = null;
+    await Promise.all(queues.map((queue) => queue!.close()));
+    logger.info("📬 Signal queue stopped");
+  }
+
+  isRunning(): boolean {
+    return this.queue !== null;
+  }
+
+  /**
+   * Queue a validated signal. Returns the existing job when the same signal
+   * is already queued, running or finished within the retention window;
+   * failed or dead-lettered jobs, and jobs that completed with a failed
+   * outcome, are replaced so the signal can run again.
+   */
+  async enqueue(
+    signal: ApiSignal,
+    meta: {
+      idempotencyKey?: string;
+      signalVersion?: number;
+      submittedBy?: string;
+    } = {}
+  ): Promise<{ jobId: string; duplicate: boolean }> {
+    const queue = this.getQueue();
+    const jobId = this.getJobId(signal, meta.idempotencyKey);
+
+    const existing = await queue.getJob(jobId);
+    if (existing) {
+      const failed =
+        (await existing.isFailed()) ||
+        existing.returnvalue?.status === "failed";
+      if (!failed) {
+        logger.info(`🔁 Signal already queued as job ${jobId}`);
+        return { jobId, duplicate: true };
+      }
+      await existing.remove();
+    }
+    await this.deadLetterQueue?.getJob(jobId).then((job) => job?.remove());
+
+    const options: JobOptions = {
+      jobId,
+      attempts: this.config.attempts,
+      backoff: { type: "exponential", delay: this.config.backoffMs },
+      removeOnComplete: { age: this.config.retentionSeconds },
+      removeOnFail: { age: this.config.retentionSeconds },
+    };
+
+    await queue.add(
+      {
+        signal,
+        idempotencyKey: meta.idempotencyKey,
+        signalVersion: meta.signalVersion,
+        submittedBy: meta.submittedBy,
+        submittedAt: new Date().toISOString(),
+      },
+      options
+    );
+
+    logger.info(
+      `📬 Queued ${signal["Signal Message"]} signal for ${signal["Token Mentioned"]} as job ${jobId}`
+    );
+    return { jobId, duplicate: false };
+  }
+
+  async getJobStatus(jobId: string): Promise<SignalJobStatus | null> {
+    // The failed original stays in the main queue until retention expires,
+    // so the dead-letter copy takes precedence
+    const deadLetter = await this.deadLetterQueue?.getJob(jobId);
+    if (deadLetter) {
+      return this.toStatus(deadLetter, "dead-lettered");
+    }
+
+    const job = await this.getQueue().getJob(jobId);
+    return job ? this.toStatus(job, await job.getState()) : null;
+  }
+
+  async getDeadLetters(limit: number = 50): Promise<SignalJobStatus[]> {
+    if (!this.deadLetterQueue) {
+      return [];
+    }
+
+    const jobs = await this.deadLetterQueue.getWaiting(0, limit - 1);
+    return jobs.map((job) => this.toStatus(job, "dead-lettered"));
+  }
+
+  /**
+   * Move a dead-lettered signal back onto the main queue
+   */
+  async retryDeadLetter(jobId: string): Promise<boolean> {
+    const job = await this.deadLetterQueue?.getJob(jobId);
+    if (!job) {
+      return false;
+    }
+
+    const { signal, idempotencyKey, signalVersion, submittedBy } = job.data;
+    await this.enqueue(signal, { idempotencyKey, signalVersion, submittedBy });
+    logger.info(`📬 Dead-lettered signal job ${jobId} re-queued`);
+    return true;
+  }
+
+  async getCounts(): Promise<Record<string, number>> {
+    if (!this.queue) {
+      return {};
+    }
+
+    const [counts, deadLettered] = await Promise.all([
+      this.queue.getJobCounts(),
+      this.deadLetterQueue!.count(),
+    ]);
+    return { ...counts, deadLettered };
+  }
+
+  private async processJob(job: Job<SignalJobData>): Promise<ProcessedSignal> {
+    const { signal, idempotencyKey } = job.data;
+    logger.info(
+      `📬 Processing signal job ${job.id} (attempt ${job.attemptsMade + 1}/${this.config.attempts})`
+    );
+
+    const result = await this.apiSignalProcessor.processApiSignal(
+      signal,
+      idempotencyKey
+    );
+
+    if (
+      result.status === "failed" &&
+      result.errorCode &&
+      errorHandler.isRetryable(result.errorCode)
+    ) {
+      throw new RetryableSignalError(
+        result.errorCode,
+        result.error || result.errorCode
+      );
+    }
+
+    return result;
+  }
+
+  private async handleFailedJob(
+    job: Job<SignalJobData>,
+    error: Error
+  ): Promise<void> {
+    // bull only stamps finishedOn once it gives up on the job, which also
+    // covers jobs failed for stalling too often
+    const maxAttempts = job.opts.attempts || 1;
+    if (!job.finishedOn && job.attemptsMade < maxAttempts) {
+      logger.warn(
+        `⚠️ Signal job ${job.id} attempt ${job.attemptsMade}/${maxAttempts} failed, retrying: ${error.message}`
+      );
+      return;
+    }
+
+    await this.deadLetterQueue!.add(
+      {
+        ...job.data,
+        failedReason: error.message,
+        attemptsMade: job.attemptsMade,
+        deadLetteredAt: new Date().toISOString(),
+      },
+      { jobId: String(job.id), removeOnComplete: true }
+    );
+
+    logger.error(
+      `💀 Signal job ${job.id} dead-lettered after ${job.attemptsMade} attempts: ${error.message}`
+    );
+    this.emit("jobDeadLettered", {
+      jobId: String(job.id),
+      error: error.message,
+      signal: job.data.signal,
+    });
+  }
+
+  private toStatus(job: Job<any>, state: string): SignalJobStatus {
+    return {
+      jobId: String(job.id),
+      state: state as SignalJobState,
+      username: job.data.signal.username,
+      submittedBy: job.data.submittedBy,
+      token: job.data.signal["Token Mentioned"],
+      attemptsMade: job.data.attemptsMade ?? job.attemptsMade,
+      maxAttempts: job.opts.attempts || this.config.attempts,
+      submittedAt: job.data.submittedAt,
+      finishedAt: job.finishedOn
+        ? new Date(job.finishedOn).toISOString()
+        : undefined,
+      result: job.returnvalue || undefined,
+      failedReason: job.data.failedReason || job.failedReason,
+    };
+  }
+
+  private getJobId(signal: ApiSignal, idempotencyKey?: string): string {
+    const key = this.apiSignalProcessor.getIdempotencyKey(
+      signal,
+      idempotencyKey
+    );
+    return `signal-${crypto.createHash("sha256").update(key).digest("hex").slice(0, 32)}`;
+  }
+
+  private getQueue(): Queue<SignalJobData> {
+    if (!this.queue) {
+      throw new Error("Signal queue is not running");
+    }
+    return this.queue;
+  }
+}
+
+export default SignalQueueService;
+export {
+  SignalQueueConfig,
+  SignalJobData,
+  SignalJobState,
+  SignalJobStatus,
+  RetryableSignalError,
+};
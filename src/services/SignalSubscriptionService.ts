@@ -0,0 +1,228 @@
+import crypto from "crypto";
+import { logger } from "../config/logger";
+import DatabaseService from "./DatabaseService";
+import PositionSizingService from "./PositionSizingService";
+import { BroadcastSignal } from "./ApiSignalProcessor";
+
+type SubscriptionStatus = "active" | "paused" | "cancelled";
+
+/**
+ * A user's standing instruction to trade a provider's signals from one Safe,
+ * with their own sizing and filters
+ */
+interface SignalSubscription {
+  subscriptionId: string;
+  username: string;
+  providerId: string;
+  safeAddress: string;
+  positionSizePercent?: number; // share of the Safe's USDC per trade, default 20
+  tokens?: string[]; // only follow these token symbols (uppercased)
+  sides?: ("buy" | "sell")[]; // only follow these directions
+  status: SubscriptionStatus;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+type SubscriptionRules = Pick<
+  SignalSubscription,
+  "positionSizePercent" | "tokens" | "sides"
+>;
+
+interface SkippedSubscription {
+  subscriptionId: string;
+  username: string;
+  safeAddress: string;
+  reason: string;
+}
+
+/**
+ * Manages users' subscriptions to signal providers and decides which of them
+ * a provider's broadcast signal applies to
+ */
+class SignalSubscriptionService {
+  private databaseService: DatabaseService;
+  private positionSizingService: PositionSizingService;
+
+  constructor(
+    databaseService: DatabaseService,
+    positionSizingService: PositionSizingService
+  ) {
+    this.databaseService = databaseService;
+    this.positionSizingService = positionSizingService;
+  }
+
+  async subscribe(
+    username: string,
+    providerId: string,
+    safeAddress: string,
+    rules: SubscriptionRules = {}
+  ): Promise<SignalSubscription> {
+    this.validateRules(rules);
+
+    const provider =
+      await this.databaseService.getActiveSignalProvider(providerId);
+    if (!provider) {
+      throw new Error(`Signal provider ${providerId} not found`);
+    }
+
+    const subscription: SignalSubscription = {
+      subscriptionId: crypto.randomUUID(),
+      username,
+      providerId,
+      safeAddress: safeAddress.toLowerCase(),
+      ...this.normalizeRules(rules),
+      status: "active",
+    };
+
+    const stored =
+      await this.databaseService.storeSignalSubscription(subscription);
+    if (!stored) {
+      throw new Error(
+        `Safe ${safeAddress} is already subscribed to provider ${providerId}`
+      );
+    }
+
+    logger.info(
+      `📨 ${username} subscribed Safe ${safeAddress} to provider ${providerId}`
+    );
+    return subscription;
+  }
+
+  async listSubscriptions(username: string): Promise<SignalSubscription[]> {
+    return this.databaseService.getSignalSubscriptions(username);
+  }
+
+  /**
+   * Change a subscription's rules, or pause and resume it
+   */
+  async updateSubscription(
+    username: string,
+    subscriptionId: string,
+    updates: SubscriptionRules & { status?: "active" | "paused" }
+  ): Promise<SignalSubscription | null> {
+    const { status, ...rules } = updates;
+    if (status && status !== "active" && status !== "paused") {
+      throw new Error(`Status must be "active" or "paused"`);
+    }
+    this.validateRules(rules);
+
+    return this.databaseService.updateSignalSubscription(
+      username,
+      subscriptionId,
+      { ...this.normalizeRules(rules), ...(status && { status }) }
+    );
+  }
+
+  async cancelSubscription(
+    username: string,
+    subscriptionId: string
+  ): Promise<boolean> {
+    const cancelled = await this.databaseService.cancelSignalSubscription(
+      username,
+      subscriptionId
+    );
+    if (cancelled) {
+      logger.info(`📨 Subscription ${subscriptionId} cancelled by ${username}`);
+    }
+    return cancelled;
+  }
+
+  /**
+   * Split a provider's active subscriptions into those the signal should be
+   * executed for and those whose filters exclude it
+   */
+  async getEligibleSubscriptions(
+    providerId: string,
+    signal: BroadcastSignal
+  ): Promise<{
+    eligible: SignalSubscription[];
+    skipped: SkippedSubscription[];
+  }> {
+    const subscriptions =
+      await this.databaseService.getActiveSubscriptionsForProvider(providerId);
+    const token = signal["Token Mentioned"].toUpperCase();
+    const side = signal["Signal Message"];
+
+    const eligible: SignalSubscription[] = [];
+    const skipped: SkippedSubscription[] = [];
+    for (const subscription of subscriptions) {
+      const { subscriptionId, username, safeAddress } = subscription;
+
+      if (subscription.tokens?.length && !subscription.tokens.includes(token)) {
+        skipped.push({
+          subscriptionId,
+          username,
+          safeAddress,
+          reason: `Not following ${token}`,
+        });
+      } else if (
+        subscription.sides?.length &&
+        !subscription.sides.includes(side)
+      ) {
+        skipped.push({
+          subscriptionId,
+          username,
+          safeAddress,
+          reason: `Not following ${side} signals`,
+        });
+      } else {
+        eligible.push(subscription);
+      }
+    }
+
+    return { eligible, skipped };
+  }
+
+  private validateRules(rules: SubscriptionRules): void {
+    const { positionSizePercent, tokens, sides } = rules;
+
+    // Sizing would reject anything above its cap at trade time
+    const { maxPositionPercentage } = this.positionSizingService.getConfig();
+    if (
+      positionSizePercent !== undefined &&
+      !(
+        typeof positionSizePercent === "number" &&
+        positionSizePercent > 0 &&
+        positionSizePercent <= maxPositionPercentage
+      )
+    ) {
+      throw new Error(
+        `positionSizePercent must be between 0 and ${maxPositionPercentage}`
+      );
+    }
+    if (
+      tokens !== undefined &&
+      (!Array.isArray(tokens) || tokens.some((t) => typeof t !== "string"))
+    ) {
+      throw new Error("tokens must be a list of token symbols");
+    }
+    if (
+      sides !== undefined &&
+      (!Array.isArray(sides) || sides.some((s) => s !== "buy" && s !== "sell"))
+    ) {
+      throw new Error('sides must be a list of "buy" and/or "sell"');
+    }
+  }
+
+  private normalizeRules(rules: SubscriptionRules): SubscriptionRules {
+    const normalized: SubscriptionRules = {};
+    if (rules.positionSizePercent !== undefined) {
+      normalized.positionSizePercent = rules.positionSizePercent;
+    }
+    if (rules.tokens !== undefined) {
+      normalized.tokens = rules.tokens.map((token) => token.toUpperCase());
+    }
+    if (rules.sides !== undefined) {
+      normalized.sides = rules.sides;
+    }
+    return normalized;
+  }
+}
+
+export default SignalSubscriptionService;
+export {
+  SignalSubscription,
+  SubscriptionRules,
+  SubscriptionStatus,
+  SkippedSubscription,
+};
@@ -0,0 +1,101 @@
+import crypto from "crypto";
+import SignalWebhookService, { SignedRequest } from "./SignalWebhookService";
+import DatabaseService from "./DatabaseService";
+
+const PROVIDER = {
+  providerId: "provider-1",
+  username: "alice",
+  name: "Alpha Calls",
+  secret: "provider-secret",
+};
+
+/**
+ * Provider lookup plus the nonce store, which like the unique index in
+ * MongoDB only accepts each provider/nonce pair once
+ */
+function createDatabase() {
+  const nonces = new Set<string>();
+  return {
+    getActiveSignalProvider: async (providerId: string) =>
+      providerId === PROVIDER.providerId ? PROVIDER : null,
+    recordSignalNonce: jest.fn(async (providerId: string, nonce: string) => {
+      const key = `${providerId}:${nonce}`;
+      if (nonces.has(key)) {
+        return false;
+      }
+      nonces.add(key);
+      return true;
+    }),
+  };
+}
+
+function sign(
+  rawBody: string,
+  {
+    timestamp = String(Math.floor(Date.now() / 1000)),
+    nonce = crypto.randomUUID(),
+  } = {}
+): SignedRequest {
+  const signature = crypto
+    .createHmac("sha256", PROVIDER.secret)
+    .update(`${timestamp}.${nonce}.${rawBody}`)
+    .digest("hex");
+  return {
+    providerId: PROVIDER.providerId,
+    timestamp,
+    nonce,
+    signature: `sha256=${signature}`,
+    rawBody,
+  };
+}
+
+describe("SignalWebhookService signature verification", () => {
+  const body = JSON.stringify({ "Token Mentioned": "ETH" });
+  let database: ReturnType<typeof createDatabase>;
+  let service: SignalWebhookService;
+
+  beforeEach(() => {
+    database = createDatabase();
+    service = new SignalWebhookService(
+      database as unknown as DatabaseService,
+      300
+    );
+  });
+
+  it("accepts a freshly signed request", async () => {
+    await expect(service.verify(sign(body))).resolves.toEqual({
+      providerId: PROVIDER.providerId,
+      username: PROVIDER.username,
+      name: PROVIDER.name,
+    });
+  });
+
+  it("rejects a timestamp outside the tolerance window", async () => {
+    const stale = String(Math.floor(Date.now() / 1000) - 301);
+
+    await expect(
+      service.verify(sign(body, { timestamp: stale }))
+    ).rejects.toThrow("Signature timestamp outside the 300s window");
+    expect(database.recordSignalNonce).not.toHaveBeenCalled();
+  });
+
+  it("rejects a body changed after signing without burning the nonce", async () => {
+    const request = sign(body);
+    const tampered = { ...request, rawBody: body.replace("ETH", "PEPE") };
+
+    await expect(service.verify(tampered)).rejects.toThrow(
+      "Invalid signal signature"
+    );
+    expect(database.recordSignalNonce).not.toHaveBeenCalled();
+    await expect(service.verify(request)).resolves.toBeDefined();
+  });
+
+  it("rejects a replayed nonce", async () => {
+    const request = sign(body);
+
+    await service.verify(request);
+    await expect(service.verify(request)).rejects.toThrow(
+      "Signal nonce already used"
+    );
+  });
+});
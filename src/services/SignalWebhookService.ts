@@ -0,0 +1,180 @@
+import crypto from "crypto";
+import { logger } from "../config/logger";
+import DatabaseService from "./DatabaseService";
+
+interface SignedRequest {
+  providerId?: string;
+  timestamp?: string; // unix seconds
+  nonce?: string;
+  signature?: string; // "sha256=<hex>" or bare hex
+  rawBody: Buffer | string;
+}
+
+interface VerifiedProvider {
+  providerId: string;
+  username: string;
+  name: string;
+}
+
+interface RegisteredProvider extends VerifiedProvider {
+  secret: string; // only ever returned at registration time
+}
+
+const SIGNATURE_HEADERS = {
+  providerId: "x-signal-provider",
+  timestamp: "x-signal-timestamp",
+  nonce: "x-signal-nonce",
+  signature: "x-signal-signature",
+};
+
+/**
+ * Verifies HMAC-signed signal webhooks from registered providers
+ *
+ * Each provider is registered under a username with its own shared secret.
+ * Requests carry X-Signal-Provider, X-Signal-Timestamp, X-Signal-Nonce and
+ * X-Signal-Signature, where the signature is
+ *   hex(HMAC-SHA256(secret, `${timestamp}.${nonce}.${rawBody}`))
+ * Timestamps outside the tolerance window are rejected, and every nonce is
+ * remembered for the length of that window so a captured request cannot be
+ * replayed inside it.
+ */
+class SignalWebhookService {
+  private databaseService: DatabaseService | null;
+  private readonly toleranceSeconds: number;
+
+  constructor(databaseService?: DatabaseService, toleranceSeconds?: number) {
+    this.databaseService = databaseService || null;
+    this.toleranceSeconds =
+      toleranceSeconds ??
+      parseInt(process.env["SIGNAL_WEBHOOK_TOLERANCE_SECONDS"] || "300");
+  }
+
+  setDatabaseService(databaseService: DatabaseService): void {
+    this.databaseService = databaseService;
+  }
+
+  getToleranceSeconds(): number {
+    return this.toleranceSeconds;
+  }
+
+  async registerProvider(
+    username: string,
+    name: string
+  ): Promise<RegisteredProvider> {
+    if (!this.databaseService) {
+      throw new Error("Database service not available");
+    }
+
+    const provider: RegisteredProvider = {
+      providerId: crypto.randomUUID(),
+      username,
+      name,
+      secret: crypto.randomBytes(32).toString("hex"),
+    };
+
+    const stored = await this.databaseService.storeSignalProvider(provider);
+    if (!stored) {
+      throw new Error("Failed to register signal provider");
+    }
+
+    logger.info(
+      `🔏 Signal provider ${provider.providerId} (${name}) registered for ${username}`
+    );
+    return provider;
+  }
+
+  async listProviders(username: string): Promise<any[]> {
+    return this.databaseService
+      ? this.databaseService.getSignalProviders(username)
+      : [];
+  }
+
+  async revokeProvider(username: string, providerId: string): Promise<boolean> {
+    if (!this.databaseService) {
+      return false;
+    }
+
+    const revoked = await this.databaseService.revokeSignalProvider(
+      username,
+      providerId
+    );
+    if (revoked) {
+      logger.info(`🔏 Signal provider ${providerId} revoked by ${username}`);
+    }
+    return revoked;
+  }
+
+  /**
+   * Verify a signed request. Throws with a client-safe message on a missing
+   * or bad signature, a stale timestamp or a replayed nonce.
+   */
+  async verify(request: SignedRequest): Promise<VerifiedProvider> {
+    const { providerId, timestamp, nonce, signature } = request;
+    if (!providerId || !timestamp || !nonce || !signature) {
+      throw new Error(
+        `Signed requests need ${Object.values(SIGNATURE_HEADERS).join(", ")}`
+      );
+    }
+
+    const sentAt = Number(timestamp);
+    const now = Math.floor(Date.now() / 1000);
+    if (
+      !Number.isInteger(sentAt) ||
+      Math.abs(now - sentAt) > this.toleranceSeconds
+    ) {
+      throw new Error(
+        `Signature timestamp outside the ${this.toleranceSeconds}s window`
+      );
+    }
+
+    if (!this.databaseService) {
+      throw new Error("Signal webhooks are unavailable");
+    }
+
+    const provider =
+      await this.databaseService.getActiveSignalProvider(providerId);
+    if (!provider) {
+      throw new Error("Unknown signal provider");
+    }
+
+    const expected = crypto
+      .createHmac("sha256", provider.secret)
+      .update(`${timestamp}.${nonce}.`)
+      .update(request.rawBody)
+      .digest();
+    const actual = Buffer.from(signature.replace(/^sha256=/, ""), "hex");
+    if (
+      actual.length !== expected.length ||
+      !crypto.timingSafeEqual(actual, expected)
+    ) {
+      throw new Error("Invalid signal signature");
+    }
+
+    // Only burn the nonce once the signature is known to be genuine, so
+    // forged requests cannot pre-empt a provider's nonces. Kept slightly
+    // longer than the window to cover clock skew in both directions.
+    const fresh = await this.databaseService.recordSignalNonce(
+      providerId,
+      nonce,
+      new Date((sentAt + this.toleranceSeconds * 2) * 1000)
+    );
+    if (!fresh) {
+      logger.warn(`⚠️ Replayed signal nonce ${nonce} from ${providerId}`);
+      throw new Error("Signal nonce already used");
+    }
+
+    return {
+      providerId,
+      username: provider.username,
+      name: provider.name,
+    };
+  }
+}
+
+export default SignalWebhookService;
+export {
+  SignedRequest,
+  VerifiedProvider,
+  RegisteredProvider,
+  SIGNATURE_HEADERS,
+};
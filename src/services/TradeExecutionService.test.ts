@@ -0,0 +1,74 @@
+import TradeExecutionService from "./TradeExecutionService";
+import FlexibleDEXRouter, { QuoteRequest } from "./FlexibleDEXRouter";
+import PriceMonitoringService from "./PriceMonitoringService";
+import { NetworkUtils } from "../utils/NetworkUtils";
+
+const SAFE = "0x1111111111111111111111111111111111111111";
+
+function createService(getQuote: (request: QuoteRequest) => Promise<any>) {
+  const router = new FlexibleDEXRouter([]);
+  router.registerAggregator({
+    name: "flaky",
+    timeoutMs: 1000,
+    supportsChain: () => true,
+    getQuote,
+  });
+  router.enableAggregator("flaky");
+
+  const priceMonitoring = {
+    getCurrentPrice: async () => 1,
+  } as unknown as PriceMonitoringService;
+  return new TradeExecutionService(router, priceMonitoring);
+}
+
+describe("TradeExecutionService swap quotes", () => {
+  const arbitrum = NetworkUtils.getNetworkByChainId(42161)!;
+
+  it("marks a quote no aggregator could give as retryable", async () => {
+    const service = createService(async () => {
+      throw new Error("503 Service Unavailable");
+    });
+
+    await expect(
+      service.previewSwap(SAFE, "USDC", "WETH", "100", arbitrum)
+    ).rejects.toMatchObject({
+      message: expect.stringContaining("Swap quote failed"),
+      code: "SWAP_QUOTE_FAILED",
+    });
+  });
+
+  it("does not mark a quote for an unknown token as retryable", async () => {
+    const service = createService(async () => null);
+
+    const error = await service
+      .previewSwap(SAFE, "USDC", "NOT_A_TOKEN", "100", arbitrum)
+      .catch((error) => error);
+
+    expect(error.message).toContain("Swap quote failed");
+    expect(error.code).toBeUndefined();
+  });
+
+  it("sells the pinned contract rather than the listed one with its symbol", async () => {
+    const bought = "0x2222222222222222222222222222222222222222";
+    let request: QuoteRequest | undefined;
+    const service = createService(async (quoteRequest) => {
+      request = quoteRequest;
+      return null;
+    });
+
+    await service
+      .previewSwap(SAFE, "ARB", "USDC", "10", arbitrum, {
+        contractAddress: bought,
+        decimals: 9,
+        symbol: "ARB",
+        pinned: true,
+      })
+      .catch(() => undefined);
+
+    expect(request.tokenIn).toBe(bought);
+    expect(request.tokenInDecimals).toBe(9);
+    expect(request.tokenOut).toBe(
+      NetworkUtils.getTokenAddress("USDC", "arbitrum")
+    );
+  });
+});
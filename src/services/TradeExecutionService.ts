@@ -1,11 +1,24 @@
 import Safe from "@safe-global/protocol-kit";
 import { ethers } from "ethers";
-import axios from "axios";
-import { NetworkConfig } from "../config/networks";
+import {
+  NetworkConfig,
+  SUPPORTED_NETWORKS,
+  TOKEN_MAP,
+} from "../config/networks";
 import { logger } from "../config/logger";
 import { NetworkUtils } from "../utils/NetworkUtils";
+import FlexibleDEXRouter from "./FlexibleDEXRouter";
+import PriceMonitoringService from "./PriceMonitoringService";
+import TransactionSimulationService, {
+  SwapSimulationOutcome,
+} from "./TransactionSimulationService";
+import { errorHandler, TradingError } from "./ErrorHandlingService";
+import DatabaseService from "./DatabaseService";
+import PnlLedgerService from "./PnlLedgerService";
 import {
   NATIVE_ETH_ADDRESS,
+  PERMIT2_ADDRESS,
+  KNOWN_SPENDERS,
   isNativeTokenAddress,
 } from "../constants/addresses";
 
@@ -17,6 +30,45 @@ interface SwapParams {
   slippagePercentage?: number;
 }
 
+interface SafeCall {
+  to: string;
+  value: string;
+  data: string;
+}
+
+interface TokenAllowance {
+  tokenAddress: string;
+  tokenSymbol?: string;
+  spender: string;
+  spenderLabel?: string;
+  allowance: string; // base units
+  unlimited: boolean;
+}
+
+const ERC20_APPROVAL_INTERFACE = new ethers.Interface([
+  "function approve(address spender, uint256 amount)",
+  "function allowance(address owner, address spender) view returns (uint256)",
+]);
+
+// Allowances at or above this are treated as "unlimited" when listing
+const UNLIMITED_ALLOWANCE_THRESHOLD = ethers.MaxUint256 / 2n;
+
+const TRANSFER_TOPIC = ethers.id("Transfer(address,address,uint256)");
+
+/**
+ * What a swap actually moved, taken from its receipt
+ */
+interface SwapFill {
+  sellTokenAddress: string;
+  buyTokenAddress: string;
+  amountIn: string; // sell token units that left the Safe
+  amountOut: string; // buy token units that reached the Safe
+  source: "receipt" | "quote" | "paper"; // quote when the buy side emitted no Transfer (native)
+  gasUsed: string;
+  gasCostNative: string; // native token paid by the executing signer
+  fees: { tokenAddress: string; amount: string }[]; // token units, already netted out of amountOut
+}
+
 interface SwapQuote {
   to: string;
   data: string;
@@ -24,13 +76,33 @@ interface SwapQuote {
   gas: string;
   gasPrice: string;
   buyAmount: string; // amount of buy token in base units
+  buyTokenAddress: string;
+  buyTokenDecimals: number;
+  sellTokenDecimals: number;
+  aggregator: string;
+  allowanceTarget: string; // contract that pulls the sell token
+  fees: { tokenAddress: string; amount: string }[]; // base units
 }
 
 class TradeExecutionService {
   private safeInstances = new Map<string, Safe>();
   private tradeMonitoringService?: any; // Will be set after initialization
-
-  constructor() {
+  private dexRouter: FlexibleDEXRouter;
+  private priceMonitoringService: PriceMonitoringService;
+  private transactionSimulator: TransactionSimulationService;
+  private databaseService?: DatabaseService;
+  private pnlLedgerService?: PnlLedgerService;
+
+  constructor(
+    dexRouter?: FlexibleDEXRouter,
+    priceMonitoringService?: PriceMonitoringService,
+    transactionSimulator?: TransactionSimulationService
+  ) {
+    this.dexRouter = dexRouter || new FlexibleDEXRouter();
+    this.priceMonitoringService =
+      priceMonitoringService || new PriceMonitoringService();
+    this.transactionSimulator =
+      transactionSimulator || new TransactionSimulationService();
     logger.info(
       "TradeExecutionService initialized with real Safe SDK patterns"
     );
@@ -41,6 +113,16 @@ class TradeExecutionService {
     logger.info("TradeMonitoringService connected to TradeExecutionService");
   }
 
+  setDatabaseService(databaseService: DatabaseService): void {
+    this.databaseService = databaseService;
+    logger.info("DatabaseService connected to TradeExecutionService");
+  }
+
+  setPnlLedgerService(pnlLedgerService: PnlLedgerService): void {
+    this.pnlLedgerService = pnlLedgerService;
+    logger.info("PnlLedgerService connected to TradeExecutionService");
+  }
+
   /**
    * Gets Safe instance using REAL Safe SDK v6 patterns
    */
@@ -126,18 +208,21 @@ class TradeExecutionService {
   }
 
   /**
-   * Gets swap quote from 0x API v2 (following official patterns)
+   * Gets the best swap quote across all enabled DEX aggregators
    */
   private async getSwapQuote(
     params: SwapParams,
     chainId: number,
+    networkConfig: NetworkConfig,
     dynamicTokenInfo?: any
   ): Promise<SwapQuote> {
     try {
-      // Get token contract addresses - use dynamic info for buy token if provided
+      // Get token contract addresses - dynamic info describes the non-stable
+      // side of the pair (the buy token on entry, the sell token on exit)
       const sellTokenAddress = await this.getTokenAddress(
         params.sellToken,
-        chainId
+        chainId,
+        dynamicTokenInfo
       );
       const buyTokenAddress = await this.getTokenAddress(
         params.buyToken,
@@ -151,68 +236,56 @@ class TradeExecutionService {
         );
       }
 
-      // Convert amount to wei format
-      const sellAmountWei = await this.convertToWei(
-        params.sellAmount,
+      const sellTokenDecimals = await this.getTokenDecimals(
         params.sellToken,
-        chainId
+        sellTokenAddress,
+        networkConfig,
+        dynamicTokenInfo
       );
-
-      logger.info(
-        `🔄 Getting 0x quote: ${params.sellAmount} ${params.sellToken} (${sellAmountWei} wei) -> ${params.buyToken} on chain ${chainId}`
+      const buyTokenDecimals = await this.getTokenDecimals(
+        params.buyToken,
+        buyTokenAddress,
+        networkConfig,
+        dynamicTokenInfo
       );
 
-      // ✅ Using 0x API v2 with correct format (following official examples)
-      const apiUrl = `https://api.0x.org/swap/allowance-holder/quote`;
-
-      const requestParams = {
-        chainId: chainId.toString(),
-        sellToken: sellTokenAddress,
-        buyToken: buyTokenAddress,
-        sellAmount: sellAmountWei,
-        taker: params.safeAddress,
-        slippagePercentage: (params.slippagePercentage || 0.005).toString(), // 0.5%
-        skipValidation: "false", // Validate the quote
-      };
-
-      logger.info(`📡 0x API Request:`, {
-        url: apiUrl,
-        params: requestParams,
-      });
-
-      const response = await axios.get(apiUrl, {
-        params: requestParams,
-        headers: {
-          "0x-api-key": process.env["ZEROX_API_KEY"] || "",
-          "Content-Type": "application/json",
-          "0x-version": "v2",
-        },
-        timeout: 10000,
-      });
+      // Convert amount to wei format
+      const sellAmountWei = ethers
+        .parseUnits(params.sellAmount, sellTokenDecimals)
+        .toString();
 
-      logger.info(`✅ 0x API Response received:`, {
-        buyAmount: response.data.buyAmount,
-        price: response.data.price,
-        to: response.data.transaction?.to,
-        gasPrice: response.data.transaction?.gasPrice,
-      });
+      logger.info(
+        `🔄 Getting aggregator quotes: ${params.sellAmount} ${params.sellToken} (${sellAmountWei} wei) -> ${params.buyToken} on chain ${chainId}`
+      );
 
-      // Log full response to debug potential permit2 signature requirements
-      logger.info(`🔍 Full 0x API Response:`, {
-        ...response.data,
-        transaction: response.data.transaction,
+      const quote = await this.dexRouter.getBestQuote({
+        chainId,
+        tokenIn: sellTokenAddress,
+        tokenOut: buyTokenAddress,
+        tokenInDecimals: sellTokenDecimals,
+        tokenOutDecimals: buyTokenDecimals,
+        amountIn: sellAmountWei,
+        safeAddress: params.safeAddress,
+        slippage: params.slippagePercentage || 0.5,
+        gasPricing: await this.getGasPricing(params.buyToken, networkConfig),
       });
 
       return {
-        to: response.data.transaction.to,
-        data: response.data.transaction.data,
-        value: response.data.transaction.value || "0",
-        gas: response.data.transaction.gas,
-        gasPrice: response.data.transaction.gasPrice,
-        buyAmount: response.data.buyAmount,
+        to: quote.executionData.to,
+        data: quote.executionData.data,
+        value: quote.executionData.value || "0",
+        gas: quote.gasEstimate,
+        gasPrice: quote.gasPrice || "0",
+        buyAmount: quote.amountOut,
+        buyTokenAddress,
+        buyTokenDecimals,
+        sellTokenDecimals,
+        aggregator: quote.aggregator,
+        allowanceTarget: quote.allowanceTarget,
+        fees: quote.fees || [],
       };
     } catch (error) {
-      logger.error(`❌ 0x API call failed:`, {
+      logger.error(`❌ Swap quote failed:`, {
         error: error instanceof Error ? error.message : error,
         chainId,
         sellToken: params.sellToken,
@@ -220,22 +293,119 @@ class TradeExecutionService {
         sellAmount: params.sellAmount,
       });
 
-      if (axios.isAxiosError(error)) {
-        logger.error(`🔍 Axios error details:`, {
-          status: error.response?.status,
-          statusText: error.response?.statusText,
-          data: error.response?.data,
-          url: error.config?.url,
-          params: error.config?.params,
-        });
-      }
+      // Keep the retryable code of aggregator and RPC failures; an unknown
+      // token gets none
+      throw Object.assign(
+        new Error(
+          `Swap quote failed: ${error instanceof Error ? error.message : "Unknown error"}`
+        ),
+        { code: errorHandler.getRetryableCode(error) }
+      );
+    }
+  }
 
-      throw new Error(
-        `0x API call failed: ${error instanceof Error ? error.message : "Unknown error"}`
+  /**
+   * Resolve token decimals from the static map, dynamic detection or on-chain
+   */
+  protected async getTokenDecimals(
+    tokenSymbol: string,
+    tokenAddress: string,
+    networkConfig: NetworkConfig,
+    dynamicTokenInfo?: any
+  ): Promise<number> {
+    if (isNativeTokenAddress(tokenAddress)) {
+      return networkConfig.nativeCurrency.decimals;
+    }
+
+    // A listed symbol only speaks for its own contract, not another token
+    // sharing the symbol
+    const staticInfo = NetworkUtils.getTokenInfo(tokenSymbol);
+    const staticAddress = staticInfo?.addresses[networkConfig.networkKey];
+    if (
+      staticInfo &&
+      (!staticAddress ||
+        staticAddress.toLowerCase() === tokenAddress.toLowerCase())
+    ) {
+      return staticInfo.decimals;
+    }
+
+    if (dynamicTokenInfo?.decimals) {
+      return dynamicTokenInfo.decimals;
+    }
+
+    try {
+      const provider = new ethers.JsonRpcProvider(networkConfig.rpcUrl);
+      const tokenContract = new ethers.Contract(
+        tokenAddress,
+        ["function decimals() view returns (uint8)"],
+        provider
       );
+      return Number(await tokenContract.decimals());
+    } catch (error) {
+      logger.warn(
+        `Could not read decimals for ${tokenSymbol}, defaulting to 18: ${error}`
+      );
+      return 18;
+    }
+  }
+
+  /**
+   * Best-effort USD prices used by the router to rank quotes net of gas
+   */
+  private async getGasPricing(
+    buyToken: string,
+    networkConfig: NetworkConfig
+  ): Promise<
+    { nativeTokenPriceUsd: number; tokenOutPriceUsd: number } | undefined
+  > {
+    try {
+      const nativeTokenPriceUsd =
+        await this.priceMonitoringService.getCurrentPrice(
+          networkConfig.nativeCurrency.symbol
+        );
+      const tokenOutPriceUsd = ["USDC", "USDT", "DAI"].includes(
+        buyToken.toUpperCase()
+      )
+        ? 1
+        : await this.priceMonitoringService.getCurrentPrice(buyToken);
+
+      if (!nativeTokenPriceUsd || !tokenOutPriceUsd) {
+        return undefined;
+      }
+
+      return { nativeTokenPriceUsd, tokenOutPriceUsd };
+    } catch (error) {
+      logger.warn(`Gas pricing unavailable, ranking quotes by gross output`);
+      return undefined;
     }
   }
 
+  /**
+   * Best aggregator quote for a swap from the Safe, without executing it
+   */
+  async previewSwap(
+    safeAddress: string,
+    sellToken: string,
+    buyToken: string,
+    sellAmount: string,
+    networkConfig: NetworkConfig,
+    dynamicTokenInfo?: any,
+    slippagePercentage?: number
+  ): Promise<{ aggregator: string; amountOut: string; gasEstimate: string }> {
+    const quote = await this.getSwapQuote(
+      { safeAddress, sellToken, buyToken, sellAmount, slippagePercentage },
+      networkConfig.chainId,
+      networkConfig,
+      dynamicTokenInfo
+    );
+
+    return {
+      aggregator: quote.aggregator,
+      amountOut: ethers.formatUnits(quote.buyAmount, quote.buyTokenDecimals),
+      gasEstimate: quote.gas,
+    };
+  }
+
   /**
    * Executes token swap using REAL Safe SDK transaction patterns
    */
@@ -246,13 +416,19 @@ class TradeExecutionService {
     sellAmount: string,
     chainId: number,
     networkConfig: NetworkConfig,
-    dynamicTokenInfo?: any
+    dynamicTokenInfo?: any,
+    slippagePercentage?: number
   ): Promise<{
     success: boolean;
     transactionHash?: string;
     amountOut?: string;
+    buyTokenAddress?: string;
+    buyTokenDecimals?: number;
+    fill?: SwapFill;
     error?: string;
+    errorCode?: string;
   }> {
+    let submitted = false;
     try {
       logger.info(
         `Executing swap: ${sellAmount} ${sellToken} -> ${buyToken} for Safe ${safeAddress}`
@@ -268,8 +444,12 @@ class TradeExecutionService {
         networkConfig
       );
 
-      // Get token addresses and amounts in wei - pass dynamic info for buy token (unknown token)
-      const sellTokenAddress = await this.getTokenAddress(sellToken, chainId);
+      // Get token addresses and amounts in wei - pass dynamic info for unknown tokens
+      const sellTokenAddress = await this.getTokenAddress(
+        sellToken,
+        chainId,
+        dynamicTokenInfo
+      );
       if (!sellTokenAddress) {
         throw new Error(`Sell token address not found for ${sellToken}`);
       }
@@ -278,7 +458,9 @@ class TradeExecutionService {
       const sellAmountWei = await this.convertToWei(
         sellAmount,
         sellToken,
-        chainId
+        sellTokenAddress,
+        networkConfig,
+        dynamicTokenInfo
       );
 
       // Step 1: Check USDC balance
@@ -295,58 +477,70 @@ class TradeExecutionService {
         throw new Error(`Insufficient ${sellToken} balance in Safe`);
       }
 
-      // Step 2: Ensure Permit2 allowance (only for ERC20 tokens)
-      if (!isNativeTokenAddress(sellTokenAddress)) {
-        logger.info(`🔐 Ensuring Permit2 allowance for ${sellToken}...`);
-        await this.ensurePermit2Allowance(
-          safeAddress,
-          sellTokenAddress,
-          sellAmountWei,
-          chainId,
-          networkConfig
-        );
-      }
-
-      // Step 3: Get swap quote from 0x API
-      logger.info(`📈 Getting swap quote from 0x API...`);
+      // Step 2: Get the best swap quote across aggregators
+      logger.info(`📈 Getting swap quote from DEX aggregators...`);
       const quote = await this.getSwapQuote(
         {
           safeAddress,
           sellToken,
           buyToken,
           sellAmount,
+          slippagePercentage,
         },
         chainId,
+        networkConfig,
         dynamicTokenInfo // Pass dynamic token info for unknown tokens
       );
 
-      // Step 3.5: Ensure AllowanceHolder allowance (only for ERC20 tokens)
+      logger.info(
+        `🏆 Routing swap through ${quote.aggregator} (spender ${quote.allowanceTarget})`
+      );
+
+      // Step 3: Bounded approval for the aggregator's spender (ERC20 only),
+      // batched into the same Safe transaction as the swap
+      let approvalTransactions: SafeCall[] = [];
       if (!isNativeTokenAddress(sellTokenAddress)) {
         logger.info(
-          `🔐 Ensuring AllowanceHolder allowance for ${sellToken}...`
+          `🔐 Checking ${quote.aggregator} allowance for ${sellToken}...`
         );
-        await this.ensureAllowanceHolderAllowance(
+        approvalTransactions = await this.buildApprovalTransactions(
           safeAddress,
           sellTokenAddress,
           sellAmountWei,
-          quote.to, // AllowanceHolder contract address from quote
-          chainId,
+          quote.allowanceTarget, // Spender contract reported by the aggregator
           networkConfig
         );
       }
 
-      // Step 4: Execute the swap transaction
-      logger.info(`🚀 Executing swap transaction...`);
+      // Optionally zero the allowance again once the swap has pulled its tokens
+      const resetApproval =
+        !isNativeTokenAddress(sellTokenAddress) &&
+        process.env["APPROVAL_RESET_AFTER_SWAP"] === "true";
+
+      // Step 4: Execute approve -> swap -> reset as one MultiSend batch.
+      // The batch reverts as a whole, so a failed swap never leaves an approval behind
+      const batch: SafeCall[] = [
+        ...approvalTransactions,
+        {
+          to: quote.to,
+          value: quote.value,
+          data: quote.data,
+        },
+      ];
+      if (resetApproval) {
+        batch.push(
+          this.encodeApproval(sellTokenAddress, quote.allowanceTarget, 0n)
+        );
+      }
+
+      logger.info(
+        `🚀 Executing swap transaction${batch.length > 1 ? ` in a batch of ${batch.length} calls` : ""}...`
+      );
 
       // Create Safe transaction with proper gas estimation
       const safeTransaction = await protocolKit.createTransaction({
-        transactions: [
-          {
-            to: quote.to,
-            value: quote.value,
-            data: quote.data,
-          },
-        ],
+        transactions: batch,
+        onlyCalls: true,
       });
 
       // Get proper gas price for the network
@@ -382,8 +576,20 @@ class TradeExecutionService {
         nonce: safeTransaction.data.nonce,
       });
 
+      // Step 5: Simulate before spending gas on-chain
+      await this.simulateSafeSwap(
+        protocolKit,
+        signedSafeTransaction,
+        safeAddress,
+        sellTokenAddress,
+        quote,
+        chainId,
+        networkConfig
+      );
+
       logger.info(`✍️ Safe transaction signed, executing...`);
 
+      submitted = true;
       const executeTxResponse = await protocolKit.executeTransaction(
         signedSafeTransaction,
         {
@@ -401,23 +607,41 @@ class TradeExecutionService {
 
         logger.info(`✅ Swap executed successfully: ${txHash}`);
 
-        // Format amountOut using buy token decimals (fallback 18)
-        const buyTokenInfo = NetworkUtils.getTokenInfo(buyToken);
-        const buyTokenDecimals = buyTokenInfo?.decimals || 18;
-        let formattedAmountOut: string;
-        try {
-          formattedAmountOut = ethers.formatUnits(
-            quote.buyAmount,
-            buyTokenDecimals
+        if (resetApproval) {
+          await this.databaseService?.removeTokenApprovals(
+            safeAddress,
+            networkConfig.networkKey,
+            [{ tokenAddress: sellTokenAddress, spender: quote.allowanceTarget }]
           );
-        } catch (e) {
-          // fallback to raw sellAmount if formatting fails
-          formattedAmountOut = sellAmount;
+        } else if (approvalTransactions.length > 0) {
+          await this.databaseService?.recordTokenApproval({
+            safeAddress,
+            networkKey: networkConfig.networkKey,
+            tokenAddress: sellTokenAddress,
+            spender: quote.allowanceTarget,
+            amount: this.getApprovalAmount(BigInt(sellAmountWei)).toString(),
+            txHash,
+          });
         }
+
+        const fill = this.getSwapFill(
+          receipt,
+          safeAddress,
+          sellTokenAddress,
+          sellAmountWei,
+          quote
+        );
+        logger.info(
+          `📦 Filled ${fill.amountIn} ${sellToken} -> ${fill.amountOut} ${buyToken} (${fill.source}), gas ${fill.gasCostNative} ${networkConfig.nativeCurrency.symbol}`
+        );
+
         return {
           success: true,
           transactionHash: txHash,
-          amountOut: formattedAmountOut,
+          amountOut: fill.amountOut,
+          buyTokenAddress: quote.buyTokenAddress,
+          buyTokenDecimals: quote.buyTokenDecimals,
+          fill,
         };
       } else {
         throw new Error("Transaction execution failed");
@@ -425,13 +649,192 @@ class TradeExecutionService {
     } catch (error) {
       // logger.error(`❌ Swap execution failed: ${error}`);
       console.log(`❌ Swap execution failed: ${error}`);
+      if (!(error instanceof Error) && (error as TradingError)?.code) {
+        return {
+          success: false,
+          error: (error as TradingError).message,
+          errorCode: (error as TradingError).code,
+        };
+      }
       return {
         success: false,
         error: error instanceof Error ? error.message : "Unknown error",
+        // Once the transaction may have been sent, a retry could swap twice
+        errorCode: submitted
+          ? "SWAP_OUTCOME_UNKNOWN"
+          : errorHandler.getRetryableCode(error),
       };
     }
   }
 
+  /**
+   * Decode the Transfer logs of a swap receipt into the amounts that left
+   * and reached the Safe. Native legs emit no Transfer, so they fall back to
+   * the exact sell amount or the quoted output.
+   */
+  private getSwapFill(
+    receipt: any,
+    safeAddress: string,
+    sellTokenAddress: string,
+    sellAmountWei: string,
+    quote: SwapQuote
+  ): SwapFill {
+    const safe = safeAddress.toLowerCase();
+    let sentWei = 0n;
+    let receivedWei = 0n;
+    let sawSell = false;
+    let sawBuy = false;
+
+    for (const log of receipt?.logs || []) {
+      if (
+        log.topics?.length !== 3 ||
+        log.topics[0] !== TRANSFER_TOPIC ||
+        log.data?.length !== 66
+      ) {
+        continue;
+      }
+
+      const token = log.address.toLowerCase();
+      const from = ethers.dataSlice(log.topics[1], 12).toLowerCase();
+      const to = ethers.dataSlice(log.topics[2], 12).toLowerCase();
+      const amount = BigInt(log.data);
+
+      if (token === sellTokenAddress.toLowerCase() && from === safe) {
+        sentWei += amount;
+        sawSell = true;
+      }
+      if (token === quote.buyTokenAddress.toLowerCase() && to === safe) {
+        receivedWei += amount;
+        sawBuy = true;
+      }
+    }
+
+    const gasUsed = BigInt(receipt?.gasUsed ?? 0);
+    const gasPrice = BigInt(
+      receipt?.gasPrice ?? receipt?.effectiveGasPrice ?? 0
+    );
+    const decimalsOf = (tokenAddress: string) =>
+      tokenAddress.toLowerCase() === sellTokenAddress.toLowerCase()
+        ? quote.sellTokenDecimals
+        : tokenAddress.toLowerCase() === quote.buyTokenAddress.toLowerCase()
+          ? quote.buyTokenDecimals
+          : null;
+
+    return {
+      sellTokenAddress,
+      buyTokenAddress: quote.buyTokenAddress,
+      amountIn: ethers.formatUnits(
+        sawSell ? sentWei : BigInt(sellAmountWei),
+        quote.sellTokenDecimals
+      ),
+      amountOut: ethers.formatUnits(
+        sawBuy ? receivedWei : BigInt(quote.buyAmount),
+        quote.buyTokenDecimals
+      ),
+      source: sawBuy ? "receipt" : "quote",
+      gasUsed: gasUsed.toString(),
+      gasCostNative: ethers.formatEther(gasUsed * gasPrice),
+      // Fees in a token other than the pair's cannot be valued here
+      fees: quote.fees
+        .filter((fee) => decimalsOf(fee.tokenAddress) !== null)
+        .map((fee) => ({
+          tokenAddress: fee.tokenAddress,
+          amount: ethers.formatUnits(fee.amount, decimalsOf(fee.tokenAddress)!),
+        })),
+    };
+  }
+
+  /**
+   * Simulate the signed Safe transaction and abort before execution if it
+   * would revert or deliver materially less than the quoted buyAmount
+   */
+  private async simulateSafeSwap(
+    protocolKit: Safe,
+    signedSafeTransaction: any,
+    safeAddress: string,
+    sellTokenAddress: string,
+    quote: SwapQuote,
+    chainId: number,
+    networkConfig: NetworkConfig
+  ): Promise<void> {
+    if (process.env["TRADE_SIMULATION_ENABLED"] === "false") {
+      return;
+    }
+
+    const context = {
+      service: "TradeExecutionService",
+      operation: "simulateSafeSwap",
+      safeAddress,
+      networkKey: networkConfig.networkKey,
+      aggregator: quote.aggregator,
+    };
+
+    let outcome: SwapSimulationOutcome;
+    try {
+      logger.info(`🧪 Simulating Safe transaction before execution...`);
+      outcome = await this.transactionSimulator.simulateSwap({
+        chainId,
+        rpcUrl: networkConfig.rpcUrl,
+        signerAddress: new ethers.Wallet(process.env["AGENT_PRIVATE_KEY"]!)
+          .address,
+        safeAddress,
+        data: await protocolKit.getEncodedTransaction(signedSafeTransaction),
+        sellTokenAddress,
+        buyTokenAddress: quote.buyTokenAddress,
+        quotedBuyAmount: quote.buyAmount,
+      });
+    } catch (error) {
+      if (process.env["SIMULATION_REQUIRED"] === "true") {
+        throw errorHandler.createError(
+          "SIMULATION_UNAVAILABLE",
+          context,
+          error instanceof Error ? error : undefined
+        );
+      }
+      logger.warn(
+        `⚠️ Pre-trade simulation unavailable, executing without it: ${error}`
+      );
+      return;
+    }
+
+    if (!outcome.result.success) {
+      throw errorHandler.createError(
+        "SIMULATION_REVERTED",
+        { ...context, revertReason: outcome.result.revertReason },
+        undefined,
+        `Swap would revert: ${outcome.result.revertReason}`
+      );
+    }
+
+    if (outcome.deviationPercent === undefined) {
+      logger.info(
+        `🧪 Simulation passed via ${outcome.result.backend} (revert check only, no balance deltas)`
+      );
+      return;
+    }
+
+    const maxDeviationPercent =
+      this.transactionSimulator.getMaxDeviationPercent();
+    if (outcome.deviationPercent > maxDeviationPercent) {
+      throw errorHandler.createError(
+        "SIMULATION_OUTPUT_MISMATCH",
+        {
+          ...context,
+          quotedBuyAmount: quote.buyAmount,
+          simulatedBuyAmount: outcome.simulatedBuyAmount,
+          deviationPercent: outcome.deviationPercent,
+          maxDeviationPercent,
+        },
+        undefined,
+        `Simulated output is ${outcome.deviationPercent}% below the quote (max ${maxDeviationPercent}%)`
+      );
+    }
+
+    logger.info(
+      `🧪 Simulation passed: ${outcome.simulatedBuyAmount} received vs ${quote.buyAmount} quoted (${outcome.deviationPercent}% below)`
+    );
+  }
+
   /**
    * Checks if Safe has sufficient token balance
    */
@@ -526,10 +929,10 @@ class TradeExecutionService {
   async getSafeBalance(
     safeAddress: string,
     tokenAddress: string,
-    chainId: number
+    chainId: number,
+    networkConfig: NetworkConfig = this.getNetworkConfig(chainId)
   ): Promise<string> {
     try {
-      const networkConfig = this.getNetworkConfig(chainId);
       const provider = new ethers.JsonRpcProvider(networkConfig.rpcUrl);
 
       if (isNativeTokenAddress(tokenAddress)) {
@@ -557,7 +960,7 @@ class TradeExecutionService {
     tradeData: any,
     positionSizeAmount: string,
     dynamicTokenInfo?: any
-  ): Promise<void> {
+  ): Promise<{ transactionHash?: string; amountOut?: string }> {
     try {
       logger.info(
         `Executing trade for ${tradeData.tokenMentioned} with amount ${positionSizeAmount}`
@@ -571,10 +974,15 @@ class TradeExecutionService {
         `Using network: ${networkConfig.name} (chainId: ${chainId}) for Safe ${tradeData.safeAddress}`
       );
 
+      const baseToken = tradeData.baseToken || "USDC";
       const fromToken =
-        tradeData.signalMessage === "buy" ? "USDC" : tradeData.tokenMentioned;
+        tradeData.signalMessage === "buy"
+          ? baseToken
+          : tradeData.tokenMentioned;
       const toToken =
-        tradeData.signalMessage === "buy" ? tradeData.tokenMentioned : "USDC";
+        tradeData.signalMessage === "buy"
+          ? tradeData.tokenMentioned
+          : baseToken;
 
       logger.info(`📝 Trade details:`, {
         fromToken,
@@ -592,25 +1000,52 @@ class TradeExecutionService {
         positionSizeAmount, // Now passing the actual token amount, not USD
         chainId,
         networkConfig,
-        dynamicTokenInfo // Pass dynamic token info for unknown tokens
+        dynamicTokenInfo, // Pass dynamic token info for unknown tokens
+        tradeData.slippagePercent
       );
 
       if (!result.success) {
-        throw new Error(result.error || "Trade execution failed");
+        // Keep the swap's error code so callers can tell retryable failures
+        throw Object.assign(
+          new Error(result.error || "Trade execution failed"),
+          { code: result.errorCode }
+        );
       }
 
       logger.info(`✅ Trade executed successfully: ${result.transactionHash}`);
 
+      const tradeId = tradeData.tradeId || `trade_${Date.now()}`;
+
+      // Open the position's cost basis lot from the actual fill
+      if (
+        this.pnlLedgerService &&
+        result.fill &&
+        tradeData.signalMessage === "buy"
+      ) {
+        await this.pnlLedgerService.recordEntry({
+          tradeId,
+          userId: tradeData.userId || "unknown",
+          safeAddress: tradeData.safeAddress,
+          networkKey: networkConfig.networkKey,
+          tokenSymbol: tradeData.tokenMentioned,
+          baseToken,
+          txHash: result.transactionHash,
+          fill: result.fill,
+        });
+      }
+
       // Store trade for monitoring if TradeMonitoringService is available
       if (this.tradeMonitoringService && tradeData.signalMessage === "buy") {
         try {
           const monitoringData = {
-            tradeId: tradeData.tradeId || `trade_${Date.now()}`,
+            tradeId,
             userId: tradeData.userId || "unknown",
             safeAddress: tradeData.safeAddress,
-            networkKey: networkConfig.name || "arbitrum",
+            networkKey: networkConfig.networkKey,
             tokenSymbol: tradeData.tokenMentioned,
             tokenMentioned: tradeData.tokenMentioned,
+            tokenAddress: result.buyTokenAddress,
+            tokenDecimals: result.buyTokenDecimals,
             signalMessage: tradeData.signalMessage,
             entryPrice: tradeData.currentPrice || 0,
             tp1: tradeData.tp1 || 0,
@@ -622,6 +1057,10 @@ class TradeExecutionService {
             entryTxHash: result.transactionHash,
             entryAmount: result.amountOut || positionSizeAmount,
             executedAt: new Date(),
+            baseToken,
+            slippagePercent: tradeData.slippagePercent,
+            trailingStopPercent: tradeData.trailingStopPercent,
+            trailingStopEnabled: tradeData.trailingStopEnabled,
           };
 
           await this.tradeMonitoringService.addTradeToMonitoring(
@@ -637,6 +1076,11 @@ class TradeExecutionService {
           );
         }
       }
+
+      return {
+        transactionHash: result.transactionHash,
+        amountOut: result.amountOut,
+      };
     } catch (error) {
       // logger.error(`❌ Trade execution failed: ${error}`);
       console.log(`❌ Trade execution failed: ${error}`);
@@ -645,33 +1089,183 @@ class TradeExecutionService {
   }
 
   /**
-   * Exit a trade position
+   * Exit a trade position on the network it was opened on. Without an amount
+   * the position's own remaining size is sold, never other holdings of the
+   * same token; either way the sell is capped at what the Safe actually holds.
    */
-  async exitTrade(trade: any, amount: string, reason: string): Promise<void> {
+  async exitTrade(
+    trade: any,
+    amount: string | undefined,
+    reason: string
+  ): Promise<{
+    transactionHash?: string;
+    amountOut?: string;
+    amountSold: string;
+    fillPrice?: number; // USD per token actually received
+    realizedPnlUsd?: number; // from the P&L ledger, net of cost basis and gas
+  }> {
     try {
       logger.info(`Exiting trade ${trade.tradeId} (${reason})`);
 
-      const networkConfig = this.getNetworkConfig(42161);
+      const networkConfig = this.resolveTradeNetwork(trade);
+      const chainId = networkConfig.chainId;
+      const tokenSymbol = trade.tokenMentioned || trade.tokenSymbol;
+
+      // Prefer the contract recorded at entry so dynamically detected tokens
+      // resolve to the exact asset that was bought
+      const tokenInfo = trade.tokenAddress
+        ? {
+            contractAddress: trade.tokenAddress,
+            decimals: trade.tokenDecimals,
+          }
+        : trade.dynamicTokenInfo;
+      const tokenAddress =
+        trade.tokenAddress ||
+        (await this.getTokenAddress(tokenSymbol, chainId, tokenInfo));
+      if (!tokenAddress) {
+        throw new Error(
+          `Token address not found for ${tokenSymbol} on ${networkConfig.networkKey}`
+        );
+      }
+
+      const decimals = await this.getTokenDecimals(
+        tokenSymbol,
+        tokenAddress,
+        networkConfig,
+        tokenInfo
+      );
+
+      const balanceWei = BigInt(
+        await this.getSafeBalance(
+          trade.safeAddress,
+          tokenAddress,
+          chainId,
+          networkConfig
+        )
+      );
+      if (balanceWei === 0n) {
+        throw new Error(
+          `Safe ${trade.safeAddress} holds no ${tokenSymbol} on ${networkConfig.name}`
+        );
+      }
+
+      const positionAmount =
+        amount || trade.remainingAmount || trade.entryAmount;
+      let sellAmountWei = balanceWei;
+      if (positionAmount) {
+        // Monitor amounts carry 18 decimals; truncate to the token's precision
+        const requestedWei = NetworkUtils.formatTokenAmount(
+          String(positionAmount),
+          decimals
+        );
+        if (requestedWei === 0n) {
+          throw new Error(`Trade ${trade.tradeId} has nothing left to sell`);
+        }
+        if (requestedWei <= balanceWei) {
+          sellAmountWei = requestedWei;
+        } else {
+          logger.warn(
+            `Requested exit of ${positionAmount} ${tokenSymbol} exceeds Safe balance, selling ${ethers.formatUnits(balanceWei, decimals)} instead`
+          );
+        }
+      } else {
+        logger.warn(
+          `Trade ${trade.tradeId} has no recorded size, selling the whole ${tokenSymbol} balance`
+        );
+      }
+      const sellAmount = ethers.formatUnits(sellAmountWei, decimals);
+
       const result = await this.executeSwap(
         trade.safeAddress,
-        trade.tokenMentioned,
-        "USDC",
-        amount,
-        42161,
-        networkConfig
+        tokenSymbol,
+        trade.baseToken || "USDC",
+        sellAmount,
+        chainId,
+        networkConfig,
+        // Sell exactly the contract that was bought, never a symbol lookup
+        {
+          contractAddress: tokenAddress,
+          decimals,
+          symbol: tokenSymbol,
+          pinned: true,
+        },
+        trade.slippagePercent
       );
 
       if (!result.success) {
-        throw new Error(result.error || "Trade exit failed");
+        throw Object.assign(new Error(result.error || "Trade exit failed"), {
+          code: result.errorCode,
+        });
       }
 
-      logger.info(`Trade exit completed: ${result.transactionHash}`);
+      logger.info(
+        `Trade exit completed on ${networkConfig.name}: ${result.transactionHash}`
+      );
+
+      const ledgerEntry =
+        this.pnlLedgerService && result.fill
+          ? await this.pnlLedgerService.recordExit({
+              tradeId: trade.tradeId,
+              userId: trade.userId,
+              safeAddress: trade.safeAddress,
+              networkKey: networkConfig.networkKey,
+              tokenSymbol,
+              baseToken: trade.baseToken || "USDC",
+              txHash: result.transactionHash,
+              fill: result.fill,
+              exitType: reason,
+              fallbackUnitCostUsd: trade.entryPrice || 0,
+            })
+          : null;
+
+      return {
+        transactionHash: result.transactionHash,
+        amountOut: result.amountOut,
+        amountSold: sellAmount,
+        fillPrice: ledgerEntry?.fillPrice,
+        realizedPnlUsd: ledgerEntry?.realizedPnlUsd,
+      };
     } catch (error) {
       logger.error(`Trade exit failed: ${error}`);
       throw error;
     }
   }
 
+  /**
+   * Network a trade was opened on. Older trade records stored the display
+   * name ("Arbitrum One") instead of the network key, so accept both.
+   */
+  private resolveTradeNetwork(trade: any): NetworkConfig {
+    if (trade.networkKey) {
+      const networkConfig =
+        this.getNetworkConfigByKey(trade.networkKey) ||
+        NetworkUtils.getNetworkByKey(trade.networkKey);
+      if (networkConfig) {
+        return networkConfig;
+      }
+
+      const byName = Object.values(SUPPORTED_NETWORKS).find(
+        (network) => network.name === trade.networkKey
+      );
+      if (byName) {
+        return this.getNetworkConfigByKey(byName.networkKey) || byName;
+      }
+    }
+
+    if (trade.chainId) {
+      const networkConfig = NetworkUtils.getNetworkByChainId(trade.chainId);
+      if (networkConfig) {
+        return (
+          this.getNetworkConfigByKey(networkConfig.networkKey) || networkConfig
+        );
+      }
+    }
+
+    throw new Error(
+      `Cannot determine network for trade ${trade.tradeId} (networkKey: ${trade.networkKey})`
+    );
+  }
+
   /**
    * Retry a failed trade
    */
@@ -827,7 +1421,7 @@ class TradeExecutionService {
    * Get token contract address from symbol and chain
    * Enhanced to use dynamic token detection when static mapping fails
    */
-  private async getTokenAddress(
+  protected async getTokenAddress(
     tokenSymbol: string,
     chainId: number,
     dynamicTokenInfo?: any
@@ -844,6 +1438,16 @@ class TradeExecutionService {
         return NATIVE_ETH_ADDRESS; // 0x address for native tokens in 0x API
       }
 
+      // A contract pinned for this symbol (the one bought at entry) is used
+      // as is, even if the static map lists the symbol at another address
+      if (
+        dynamicTokenInfo?.pinned &&
+        dynamicTokenInfo.contractAddress &&
+        dynamicTokenInfo.symbol?.toUpperCase() === tokenSymbol.toUpperCase()
+      ) {
+        return dynamicTokenInfo.contractAddress;
+      }
+
       // First try: Get token address from static NetworkUtils (for known tokens)
       const staticTokenAddress = NetworkUtils.getTokenAddress(
         tokenSymbol,
@@ -856,8 +1460,9 @@ class TradeExecutionService {
         return staticTokenAddress;
       }
 
-      // Second try: Use dynamic token info if provided
-      if (dynamicTokenInfo && dynamicTokenInfo.contractAddress) {
+      // Second try: Use dynamic token info if provided. Pinned info belongs to
+      // its own symbol only, never the other side of the swap
+      if (dynamicTokenInfo?.contractAddress && !dynamicTokenInfo.pinned) {
         logger.info(
           `✅ Using dynamic token address for ${tokenSymbol}: ${dynamicTokenInfo.contractAddress}`
         );
@@ -905,17 +1510,19 @@ class TradeExecutionService {
   private async convertToWei(
     amount: string,
     tokenSymbol: string,
-    chainId: number
+    tokenAddress: string,
+    networkConfig: NetworkConfig,
+    dynamicTokenInfo?: any
   ): Promise<string> {
     try {
-      const networkKey = this.getNetworkKeyFromChainId(chainId);
-      if (!networkKey) {
-        throw new Error(`Network key not found for chainId: ${chainId}`);
-      }
-
-      // Get token info to determine decimals
-      const tokenInfo = NetworkUtils.getTokenInfo(tokenSymbol);
-      const decimals = tokenInfo?.decimals || 18; // Default to 18 decimals
+      // Resolve decimals the same way quotes do so unknown tokens are not
+      // assumed to have 18
+      const decimals = await this.getTokenDecimals(
+        tokenSymbol,
+        tokenAddress,
+        networkConfig,
+        dynamicTokenInfo
+      );
 
       // Convert to wei
       const amountWei = ethers.parseUnits(amount, decimals);
@@ -1028,289 +1635,258 @@ class TradeExecutionService {
   }
 
   /**
-   * Check and set Permit2 allowance if needed
+   * Build the approve() calls that let the spender pull exactly what the swap
+   * needs (plus APPROVAL_HEADROOM_PERCENT). Empty when the current allowance
+   * already covers it.
    */
-  private async ensurePermit2Allowance(
+  private async buildApprovalTransactions(
     safeAddress: string,
     tokenAddress: string,
     amount: string,
-    chainId: number,
+    spender: string,
     networkConfig: NetworkConfig
-  ): Promise<void> {
-    try {
-      // Permit2 contract addresses per chain
-      const permit2Addresses: Record<number, string> = {
-        1: "0x000000000022D473030F116dDEE9F6B43aC78BA3", // Ethereum
-        42161: "0x000000000022D473030F116dDEE9F6B43aC78BA3", // Arbitrum
-        137: "0x000000000022D473030F116dDEE9F6B43aC78BA3", // Polygon
-        8453: "0x000000000022D473030F116dDEE9F6B43aC78BA3", // Base
-        10: "0x000000000022D473030F116dDEE9F6B43aC78BA3", // Optimism
-        11155111: "0x000000000022D473030F116dDEE9F6B43aC78BA3", // Sepolia
-        421614: "0x000000000022D473030F116dDEE9F6B43aC78BA3", // Arbitrum Sepolia
-        84532: "0x000000000022D473030F116dDEE9F6B43aC78BA3", // Base Sepolia
-      };
+  ): Promise<SafeCall[]> {
+    const provider = new ethers.JsonRpcProvider(networkConfig.rpcUrl);
+    const tokenContract = new ethers.Contract(
+      tokenAddress,
+      ERC20_APPROVAL_INTERFACE,
+      provider
+    );
 
-      const permit2Address = permit2Addresses[chainId];
-      if (!permit2Address) {
-        logger.warn(`Permit2 not available on chain ${chainId}`);
-        return;
-      }
+    const currentAllowance: bigint = await tokenContract["allowance"](
+      safeAddress,
+      spender
+    );
+    const requiredAmount = BigInt(amount);
 
-      logger.info(`🔍 Checking Permit2 allowance for ${tokenAddress}`);
+    logger.info(
+      `📊 Current allowance for ${spender}: ${currentAllowance.toString()}, Required: ${requiredAmount.toString()}`
+    );
 
-      const provider = new ethers.JsonRpcProvider(networkConfig.rpcUrl);
+    if (currentAllowance >= requiredAmount) {
+      logger.info(`✅ Sufficient allowance already set`);
+      return [];
+    }
 
-      // Check current allowance
-      const tokenContract = new ethers.Contract(
-        tokenAddress,
-        [
-          "function allowance(address owner, address spender) view returns (uint256)",
-        ],
-        provider
-      );
+    const approvalAmount = this.getApprovalAmount(requiredAmount);
+    const transactions: SafeCall[] = [];
 
-      const currentAllowance = await tokenContract.allowance(
-        safeAddress,
-        permit2Address
-      );
-      const requiredAmount = BigInt(amount);
+    // Tokens like USDT refuse to move a non-zero allowance to another non-zero value
+    if (currentAllowance > 0n) {
+      transactions.push(this.encodeApproval(tokenAddress, spender, 0n));
+    }
+    transactions.push(
+      this.encodeApproval(tokenAddress, spender, approvalAmount)
+    );
 
-      logger.info(
-        `📊 Current Permit2 allowance: ${currentAllowance.toString()}, Required: ${requiredAmount.toString()}`
-      );
+    logger.info(
+      `🔐 Approving ${approvalAmount.toString()} for ${spender} in the swap batch`
+    );
+    return transactions;
+  }
 
-      if (currentAllowance < requiredAmount) {
-        logger.info(`⚠️ Insufficient Permit2 allowance, setting approval...`);
+  private getApprovalAmount(requiredAmount: bigint): bigint {
+    const headroomPercent = parseFloat(
+      process.env["APPROVAL_HEADROOM_PERCENT"] || "0"
+    );
+    if (!(headroomPercent > 0)) {
+      return requiredAmount;
+    }
 
-        // Get Safe instance
-        const protocolKit = await this.getSafeInstance(
-          safeAddress,
-          chainId,
-          networkConfig
-        );
+    return (
+      requiredAmount +
+      (requiredAmount * BigInt(Math.round(headroomPercent * 100))) / 10000n
+    );
+  }
 
-        // Create approval transaction for maximum amount
-        const maxAllowance =
-          "0xffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffff"; // Max uint256
-
-        const approvalTransaction = await protocolKit.createTransaction({
-          transactions: [
-            {
-              to: tokenAddress,
-              value: "0",
-              data: new ethers.Interface([
-                "function approve(address spender, uint256 amount)",
-              ]).encodeFunctionData("approve", [permit2Address, maxAllowance]),
-            },
-          ],
-        });
+  private encodeApproval(
+    tokenAddress: string,
+    spender: string,
+    amount: bigint
+  ): SafeCall {
+    return {
+      to: tokenAddress,
+      value: "0",
+      data: ERC20_APPROVAL_INTERFACE.encodeFunctionData("approve", [
+        spender,
+        amount,
+      ]),
+    };
+  }
 
-        // Sign and execute approval
-        const signedApproval =
-          await protocolKit.signTransaction(approvalTransaction);
-        const approvalResult =
-          await protocolKit.executeTransaction(signedApproval);
+  /**
+   * List non-zero allowances granted by a Safe on a network. Checks every
+   * recorded approval plus the known aggregator spenders for the network's
+   * mapped tokens.
+   */
+  async listTokenAllowances(
+    safeAddress: string,
+    networkKey: string
+  ): Promise<TokenAllowance[]> {
+    const networkConfig =
+      this.getNetworkConfigByKey(networkKey) ||
+      NetworkUtils.getNetworkByKey(networkKey);
+    if (!networkConfig) {
+      throw new Error(`Unsupported network: ${networkKey}`);
+    }
 
-        // Wait for confirmation and verify
-        if (approvalResult.transactionResponse) {
-          logger.info(
-            `⏳ Waiting for Permit2 approval transaction to confirm...`
-          );
+    const tokens = new Map<string, string | undefined>(); // address -> symbol
+    for (const tokenInfo of Object.values(TOKEN_MAP)) {
+      const address = tokenInfo.addresses[networkKey];
+      if (address && !isNativeTokenAddress(address)) {
+        tokens.set(address.toLowerCase(), tokenInfo.symbol);
+      }
+    }
+
+    const spenders = new Map<string, string | undefined>(); // address -> label
+    for (const [label, address] of Object.entries(KNOWN_SPENDERS)) {
+      spenders.set(address.toLowerCase(), label);
+    }
+
+    const candidates = new Set<string>();
+    for (const token of tokens.keys()) {
+      for (const spender of spenders.keys()) {
+        candidates.add(`${token}:${spender}`);
+      }
+    }
 
+    const recorded =
+      (await this.databaseService?.getTokenApprovals(
+        safeAddress,
+        networkKey
+      )) || [];
+    for (const approval of recorded) {
+      if (!tokens.has(approval.tokenAddress)) {
+        tokens.set(approval.tokenAddress, undefined);
+      }
+      if (!spenders.has(approval.spender)) {
+        spenders.set(approval.spender, undefined);
+      }
+      candidates.add(`${approval.tokenAddress}:${approval.spender}`);
+    }
+
+    const provider = new ethers.JsonRpcProvider(networkConfig.rpcUrl);
+    const results = await Promise.all(
+      Array.from(candidates).map(
+        async (candidate): Promise<TokenAllowance | null> => {
+          const [tokenAddress, spender] = candidate.split(":");
           try {
-            const receipt = await (
-              approvalResult.transactionResponse as any
-            ).wait();
-            const txHash =
-              receipt?.hash || (approvalResult.transactionResponse as any).hash;
-
-            // Fix: Check for successful transaction status (can be 1, "success", or truthy)
-            const isSuccessful =
-              receipt &&
-              (receipt.status === 1 ||
-                receipt.status === "success" ||
-                receipt.status === true ||
-                (!receipt.status && receipt.hash)); // Some providers don't set status but provide hash
-
-            if (isSuccessful) {
-              logger.info(`✅ Permit2 approval confirmed: ${txHash}`);
-
-              // Double-check the allowance was actually set
-              await new Promise((resolve) => setTimeout(resolve, 2000)); // Wait 2 seconds for state to propagate
-
-              const newAllowance = await tokenContract.allowance(
-                safeAddress,
-                permit2Address
-              );
-              if (newAllowance >= requiredAmount) {
-                logger.info(
-                  `🎯 Permit2 allowance verified: ${newAllowance.toString()}`
-                );
-              } else {
-                throw new Error(
-                  `Permit2 allowance not set correctly. Expected >= ${requiredAmount}, got ${newAllowance}`
-                );
-              }
-            } else {
-              throw new Error(
-                `Permit2 approval transaction failed with status: ${receipt?.status || "unknown"}`
-              );
-            }
-          } catch (waitError) {
-            logger.error(`❌ Failed to confirm Permit2 approval:`, waitError);
-            throw new Error(
-              `Permit2 approval confirmation failed: ${waitError}`
+            const tokenContract = new ethers.Contract(
+              tokenAddress,
+              ERC20_APPROVAL_INTERFACE,
+              provider
+            );
+            const allowance: bigint = await tokenContract["allowance"](
+              safeAddress,
+              spender
+            );
+            return allowance > 0n
+              ? {
+                  tokenAddress: ethers.getAddress(tokenAddress),
+                  tokenSymbol: tokens.get(tokenAddress),
+                  spender: ethers.getAddress(spender),
+                  spenderLabel: spenders.get(spender),
+                  allowance: allowance.toString(),
+                  unlimited: allowance >= UNLIMITED_ALLOWANCE_THRESHOLD,
+                }
+              : null;
+          } catch (error) {
+            logger.warn(
+              `Could not read allowance of ${tokenAddress} for ${spender}: ${error}`
             );
+            return null;
           }
-        } else {
-          throw new Error("Permit2 approval transaction returned no response");
         }
-      } else {
-        logger.info(`✅ Sufficient Permit2 allowance already set`);
-      }
-    } catch (error) {
-      logger.error(`❌ Failed to check/set Permit2 allowance:`, error);
-      throw error;
-    }
+      )
+    );
+
+    return results.filter(
+      (allowance): allowance is TokenAllowance => allowance !== null
+    );
   }
 
   /**
-   * Check and set AllowanceHolder allowance if needed
+   * Revoke allowances from a Safe in a single batched transaction. Without
+   * explicit targets every outstanding allowance found by
+   * listTokenAllowances() is revoked.
    */
-  private async ensureAllowanceHolderAllowance(
+  async revokeTokenAllowances(
     safeAddress: string,
-    tokenAddress: string,
-    amount: string,
-    allowanceHolderAddress: string,
-    chainId: number,
-    networkConfig: NetworkConfig
-  ): Promise<void> {
+    networkKey: string,
+    targets?: { tokenAddress: string; spender: string }[]
+  ): Promise<{
+    success: boolean;
+    transactionHash?: string;
+    revoked: { tokenAddress: string; spender: string }[];
+    error?: string;
+  }> {
     try {
-      logger.info(`🔍 Checking AllowanceHolder allowance for ${tokenAddress}`);
-
-      const provider = new ethers.JsonRpcProvider(networkConfig.rpcUrl);
+      const networkConfig =
+        this.getNetworkConfigByKey(networkKey) ||
+        NetworkUtils.getNetworkByKey(networkKey);
+      if (!networkConfig) {
+        throw new Error(`Unsupported network: ${networkKey}`);
+      }
 
-      // Check current allowance for AllowanceHolder
-      const tokenContract = new ethers.Contract(
-        tokenAddress,
-        [
-          "function allowance(address owner, address spender) view returns (uint256)",
-        ],
-        provider
-      );
+      const toRevoke =
+        targets && targets.length > 0
+          ? targets
+          : await this.listTokenAllowances(safeAddress, networkKey);
 
-      const currentAllowance = await tokenContract.allowance(
-        safeAddress,
-        allowanceHolderAddress
-      );
-      const requiredAmount = BigInt(amount);
+      if (toRevoke.length === 0) {
+        logger.info(`✅ No outstanding allowances for Safe ${safeAddress}`);
+        return { success: true, revoked: [] };
+      }
 
       logger.info(
-        `📊 Current AllowanceHolder allowance: ${currentAllowance.toString()}, Required: ${requiredAmount.toString()}`
+        `🧹 Revoking ${toRevoke.length} allowance(s) for Safe ${safeAddress} on ${networkConfig.name}`
       );
 
-      if (currentAllowance < requiredAmount) {
-        logger.info(
-          `⚠️ Insufficient AllowanceHolder allowance, setting approval...`
-        );
-
-        // Get Safe instance
-        const protocolKit = await this.getSafeInstance(
-          safeAddress,
-          chainId,
-          networkConfig
-        );
-
-        // Create approval transaction for maximum amount
-        const maxAllowance =
-          "0xffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffff"; // Max uint256
-
-        const approvalTransaction = await protocolKit.createTransaction({
-          transactions: [
-            {
-              to: tokenAddress,
-              value: "0",
-              data: new ethers.Interface([
-                "function approve(address spender, uint256 amount)",
-              ]).encodeFunctionData("approve", [
-                allowanceHolderAddress,
-                maxAllowance,
-              ]),
-            },
-          ],
-        });
+      const protocolKit = await this.getSafeInstance(
+        safeAddress,
+        networkConfig.chainId,
+        networkConfig
+      );
+      const safeTransaction = await protocolKit.createTransaction({
+        transactions: toRevoke.map((target) =>
+          this.encodeApproval(target.tokenAddress, target.spender, 0n)
+        ),
+        onlyCalls: true,
+      });
+      const signedTransaction =
+        await protocolKit.signTransaction(safeTransaction);
+      const executeTxResponse =
+        await protocolKit.executeTransaction(signedTransaction);
 
-        // Sign and execute approval
-        const signedApproval =
-          await protocolKit.signTransaction(approvalTransaction);
-        const approvalResult =
-          await protocolKit.executeTransaction(signedApproval);
+      if (!executeTxResponse.transactionResponse) {
+        throw new Error("Revocation transaction returned no response");
+      }
 
-        // Wait for confirmation and verify
-        if (approvalResult.transactionResponse) {
-          logger.info(
-            `⏳ Waiting for AllowanceHolder approval transaction to confirm...`
-          );
+      const receipt = await (
+        executeTxResponse.transactionResponse as any
+      ).wait();
+      const txHash =
+        (executeTxResponse.transactionResponse as any).hash || receipt?.hash;
+
+      const revoked = toRevoke.map((target) => ({
+        tokenAddress: target.tokenAddress,
+        spender: target.spender,
+      }));
+      await this.databaseService?.removeTokenApprovals(
+        safeAddress,
+        networkKey,
+        revoked
+      );
 
-          try {
-            const receipt = await (
-              approvalResult.transactionResponse as any
-            ).wait();
-            const txHash =
-              receipt?.hash || (approvalResult.transactionResponse as any).hash;
-
-            // Fix: Check for successful transaction status (can be 1, "success", or truthy)
-            const isSuccessful =
-              receipt &&
-              (receipt.status === 1 ||
-                receipt.status === "success" ||
-                receipt.status === true ||
-                (!receipt.status && receipt.hash)); // Some providers don't set status but provide hash
-
-            if (isSuccessful) {
-              logger.info(`✅ AllowanceHolder approval confirmed: ${txHash}`);
-
-              // Double-check the allowance was actually set
-              await new Promise((resolve) => setTimeout(resolve, 2000)); // Wait 2 seconds for state to propagate
-
-              const newAllowance = await tokenContract.allowance(
-                safeAddress,
-                allowanceHolderAddress
-              );
-              if (newAllowance >= requiredAmount) {
-                logger.info(
-                  `🎯 AllowanceHolder allowance verified: ${newAllowance.toString()}`
-                );
-              } else {
-                throw new Error(
-                  `AllowanceHolder allowance not set correctly. Expected >= ${requiredAmount}, got ${newAllowance}`
-                );
-              }
-            } else {
-              throw new Error(
-                `AllowanceHolder approval transaction failed with status: ${receipt?.status || "unknown"}`
-              );
-            }
-          } catch (waitError) {
-            logger.error(
-              `❌ Failed to confirm AllowanceHolder approval:`,
-              waitError
-            );
-            throw new Error(
-              `AllowanceHolder approval confirmation failed: ${waitError}`
-            );
-          }
-        } else {
-          throw new Error(
-            "AllowanceHolder approval transaction returned no response"
-          );
-        }
-      } else {
-        logger.info(`✅ Sufficient AllowanceHolder allowance already set`);
-      }
+      logger.info(`✅ Allowances revoked: ${txHash}`);
+      return { success: true, transactionHash: txHash, revoked };
     } catch (error) {
-      logger.error(`❌ Failed to check/set AllowanceHolder allowance:`, error);
-      throw error;
+      logger.error(`❌ Failed to revoke allowances:`, error);
+      return {
+        success: false,
+        revoked: [],
+        error: error instanceof Error ? error.message : "Unknown error",
+      };
     }
   }
 
@@ -1358,7 +1934,7 @@ class TradeExecutionService {
       );
 
       // Check Permit2 allowance
-      const permit2Address = "0x000000000022D473030F116dDEE9F6B43aC78BA3";
+      const permit2Address = PERMIT2_ADDRESS;
       const permit2Allowance = await tokenContract.allowance(
         safeAddress,
         permit2Address
@@ -1408,3 +1984,4 @@ class TradeExecutionService {
 }
 
 export default TradeExecutionService;
+export { TokenAllowance, SwapFill };
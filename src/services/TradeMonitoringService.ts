@@ -3,6 +3,11 @@ import { logger } from "../config/logger";
 import DatabaseService from "./DatabaseService";
 import TradeExecutionService from "./TradeExecutionService";
 import PriceMonitoringService from "./PriceMonitoringService";
+import { PriceQuery, getPriceKey } from "./PriceOracleService";
+import { PriceTick } from "./PriceTickScheduler";
+import PriceStreamService, { StreamedPrice } from "./PriceStreamService";
+import TradeStateManager from "./TradeStateManager";
+import NetworkUtils from "../utils/NetworkUtils";
 import { ObjectId } from "mongodb";
 
 interface MonitoredTrade {
@@ -13,6 +18,10 @@ interface MonitoredTrade {
   networkKey: string;
   tokenSymbol: string;
   tokenMentioned: string;
+  tokenAddress?: string; // Contract bought at entry, used to exit the same asset
+  tokenDecimals?: number;
+  baseToken?: string; // stablecoin the position was bought with and exits to
+  slippagePercent?: number; // exit slippage, from the user's trading profile
   signalMessage: "buy" | "sell";
   entryPrice: number;
   currentPrice?: number;
@@ -39,32 +48,271 @@ interface MonitoredTrade {
   highestPriceSinceEntry: number;
   trailingStopPrice: number;
   trailingStopEnabled: boolean;
+  trailingStopPercent: number; // distance behind the best price
+
+  // Scale-out data
+  remainingAmount: string;
+  exitedPercentage: number; // Percentage of the original position sold so far
+  tp1Filled: boolean;
+  exitLegs: ExitLeg[];
+  exitInProgress?: boolean;
 }
 
 interface ExitCondition {
-  type: "TP1" | "TP2" | "STOP_LOSS" | "MAX_EXIT_TIME" | "TRAILING_STOP";
+  type:
+    | "TP1"
+    | "TP2"
+    | "STOP_LOSS"
+    | "MAX_EXIT_TIME"
+    | "TRAILING_STOP"
+    | "MANUAL";
   currentPrice: number;
   targetPrice?: number;
   triggered: boolean;
 }
 
+interface ExitLeg {
+  exitType: ExitCondition["type"];
+  exitPrice: number;
+  exitAmount: string;
+  exitPercentage: number; // Percentage of the original position
+  profitLoss: number;
+  txHash?: string;
+  exitedAt: Date;
+}
+
+interface ScaleOutConfig {
+  tp1ExitPercentage: number; // Share of the position sold at TP1, 100 = full exit
+  moveStopToBreakEven: boolean; // Raise the stop to entry once TP1 has filled
+}
+
+/**
+ * The parts of a trade its exit conditions are evaluated on, shared by live
+ * monitoring and the backtester
+ */
+type ExitState = Pick<
+  MonitoredTrade,
+  | "signalMessage"
+  | "tp1"
+  | "tp2"
+  | "sl"
+  | "maxExitTime"
+  | "highestPriceSinceEntry"
+  | "trailingStopPrice"
+  | "trailingStopEnabled"
+  | "trailingStopPercent"
+  | "exitedPercentage"
+  | "tp1Filled"
+>;
+
+// Fixed precision used for splitting decimal token amounts between legs
+const AMOUNT_SCALE = 18;
+
+/**
+ * Scale-out settings from the environment, with overrides applied
+ */
+function resolveScaleOutConfig(
+  overrides?: Partial<ScaleOutConfig>
+): ScaleOutConfig {
+  const config: ScaleOutConfig = {
+    tp1ExitPercentage: parseFloat(process.env["TP1_EXIT_PERCENTAGE"] || "50"),
+    moveStopToBreakEven: process.env["MOVE_STOP_TO_BREAKEVEN"] !== "false",
+    ...overrides,
+  };
+
+  const { tp1ExitPercentage } = config;
+  if (
+    !Number.isFinite(tp1ExitPercentage) ||
+    tp1ExitPercentage <= 0 ||
+    tp1ExitPercentage > 100
+  ) {
+    logger.warn(
+      `⚠️ Invalid TP1 exit percentage ${tp1ExitPercentage}, falling back to 50%`
+    );
+    config.tp1ExitPercentage = 50;
+  }
+  return config;
+}
+
+function getTrailingStopPrice(
+  signalMessage: "buy" | "sell",
+  price: number,
+  percent: number
+): number {
+  return signalMessage === "sell"
+    ? price * (1 + percent / 100)
+    : price * (1 - percent / 100);
+}
+
+/**
+ * Move the trailing stop behind a new best price. Returns true when it moved.
+ */
+function updateTrailingStop(trade: ExitState, currentPrice: number): boolean {
+  if (!trade.trailingStopEnabled) return false;
+
+  // For BUY positions: track highest price, for SELL positions the lowest
+  const isNewBest =
+    trade.signalMessage === "buy"
+      ? currentPrice > trade.highestPriceSinceEntry
+      : trade.signalMessage === "sell" &&
+        currentPrice < trade.highestPriceSinceEntry;
+  if (!isNewBest) return false;
+
+  trade.highestPriceSinceEntry = currentPrice;
+  trade.trailingStopPrice = getTrailingStopPrice(
+    trade.signalMessage,
+    currentPrice,
+    trade.trailingStopPercent
+  );
+  return true;
+}
+
+function checkExitConditions(
+  trade: ExitState,
+  currentPrice: number,
+  now: Date = new Date()
+): ExitCondition {
+  // Check Max Exit Time first
+  if (now >= trade.maxExitTime) {
+    return {
+      type: "MAX_EXIT_TIME",
+      currentPrice,
+      triggered: true,
+    };
+  }
+
+  // For BUY positions
+  if (trade.signalMessage === "buy") {
+    // Check Trailing Stop first (highest priority after Max Time)
+    if (trade.trailingStopEnabled && currentPrice <= trade.trailingStopPrice) {
+      return {
+        type: "TRAILING_STOP",
+        currentPrice,
+        targetPrice: trade.trailingStopPrice,
+        triggered: true,
+      };
+    }
+
+    // Check Stop Loss (only if trailing stop hasn't triggered)
+    if (currentPrice <= trade.sl) {
+      return {
+        type: "STOP_LOSS",
+        currentPrice,
+        targetPrice: trade.sl,
+        triggered: true,
+      };
+    }
+
+    // Check Take Profit levels
+    if (currentPrice >= trade.tp2) {
+      return {
+        type: "TP2",
+        currentPrice,
+        targetPrice: trade.tp2,
+        triggered: true,
+      };
+    } else if (!trade.tp1Filled && currentPrice >= trade.tp1) {
+      return {
+        type: "TP1",
+        currentPrice,
+        targetPrice: trade.tp1,
+        triggered: true,
+      };
+    }
+  }
+
+  // For SELL positions (if applicable)
+  else if (trade.signalMessage === "sell") {
+    // Check Trailing Stop first (highest priority after Max Time)
+    if (trade.trailingStopEnabled && currentPrice >= trade.trailingStopPrice) {
+      return {
+        type: "TRAILING_STOP",
+        currentPrice,
+        targetPrice: trade.trailingStopPrice,
+        triggered: true,
+      };
+    }
+
+    // Check Stop Loss (only if trailing stop hasn't triggered)
+    if (currentPrice >= trade.sl) {
+      return {
+        type: "STOP_LOSS",
+        currentPrice,
+        targetPrice: trade.sl,
+        triggered: true,
+      };
+    }
+
+    // Check Take Profit levels (price goes down)
+    if (currentPrice <= trade.tp2) {
+      return {
+        type: "TP2",
+        currentPrice,
+        targetPrice: trade.tp2,
+        triggered: true,
+      };
+    } else if (!trade.tp1Filled && currentPrice <= trade.tp1) {
+      return {
+        type: "TP1",
+        currentPrice,
+        targetPrice: trade.tp1,
+        triggered: true,
+      };
+    }
+  }
+
+  return {
+    type: "TP1",
+    currentPrice,
+    triggered: false,
+  };
+}
+
+/**
+ * Share of the original position to sell for this exit. Only an unfilled
+ * TP1 scales out; every other condition closes whatever is left.
+ */
+function getExitPercentage(
+  trade: ExitState,
+  exitCondition: ExitCondition,
+  tp1ExitPercentage: number
+): number {
+  const remaining = 100 - trade.exitedPercentage;
+
+  if (exitCondition.type === "TP1" && !trade.tp1Filled) {
+    return Math.min(tp1ExitPercentage, remaining);
+  }
+
+  return remaining;
+}
+
 class TradeMonitoringService extends EventEmitter {
   private logger = logger;
   private monitoredTrades: Map<string, MonitoredTrade> = new Map();
-  private monitoringInterval: NodeJS.Timeout | null = null;
   private dbSyncInterval: NodeJS.Timeout | null = null;
   private isRunning = false;
 
-  private readonly MONITORING_INTERVAL_MS = 30000; // 30 seconds
-  private readonly PRICE_CHECK_TIMEOUT = 10000; // 10 seconds timeout for price fetching
+  private readonly SCHEDULER_CONSUMER = "trade-monitoring";
   private readonly DB_SYNC_INTERVAL_MS = 60000; // 1 minute - check for new trades in DB
 
+  private scaleOutConfig: ScaleOutConfig;
+  private priceStream: PriceStreamService | null = null;
+
   constructor(
     private databaseService: DatabaseService,
     private tradeExecutionService: TradeExecutionService,
-    private priceMonitoringService: PriceMonitoringService
+    private priceMonitoringService: PriceMonitoringService,
+    private tradeStateManager?: TradeStateManager,
+    scaleOutConfig?: Partial<ScaleOutConfig>
   ) {
     super();
+
+    this.scaleOutConfig = resolveScaleOutConfig(scaleOutConfig);
+
+    // Optional per-block pricing from pool Swap events, polling stays as fallback
+    if (process.env["PRICE_STREAMING_ENABLED"] === "true") {
+      this.priceStream = new PriceStreamService();
+    }
   }
 
   async start(): Promise<void> {
@@ -76,14 +324,15 @@ class TradeMonitoringService extends EventEmitter {
     try {
       this.logger.info("🚀 Starting Trade Monitoring Service");
 
+      this.priceStream?.on("price", this.handleStreamedPrice);
+
       // Load active trades from database
       await this.loadActiveTradesFromDatabase();
 
-      // Start monitoring interval
-      this.monitoringInterval = setInterval(
-        () => this.monitorAllTrades(),
-        this.MONITORING_INTERVAL_MS
-      );
+      // Evaluate trades on every shared price tick
+      const tickScheduler = this.priceMonitoringService.getTickScheduler();
+      tickScheduler.on("tick", this.handlePriceTick);
+      tickScheduler.start(this.SCHEDULER_CONSUMER);
 
       // Start database sync interval to catch any missed trades
       this.dbSyncInterval = setInterval(
@@ -96,8 +345,8 @@ class TradeMonitoringService extends EventEmitter {
         `✅ Trade monitoring started with ${this.monitoredTrades.size} active trades`
       );
 
-      // Initial monitoring run
-      await this.monitorAllTrades();
+      // Initial monitoring run, evaluated by handlePriceTick
+      await tickScheduler.tick();
     } catch (error) {
       this.logger.error("❌ Failed to start trade monitoring service:", error);
       throw error;
@@ -111,9 +360,13 @@ class TradeMonitoringService extends EventEmitter {
 
     this.logger.info("🛑 Stopping Trade Monitoring Service");
 
-    if (this.monitoringInterval) {
-      clearInterval(this.monitoringInterval);
-      this.monitoringInterval = null;
+    const tickScheduler = this.priceMonitoringService.getTickScheduler();
+    tickScheduler.off("tick", this.handlePriceTick);
+    tickScheduler.stop(this.SCHEDULER_CONSUMER);
+
+    if (this.priceStream) {
+      this.priceStream.off("price", this.handleStreamedPrice);
+      this.priceStream.stop();
     }
 
     if (this.dbSyncInterval) {
@@ -122,7 +375,9 @@ class TradeMonitoringService extends EventEmitter {
     }
 
     this.isRunning = false;
-    this.monitoredTrades.clear();
+    for (const mongoId of this.monitoredTrades.keys()) {
+      this.unwatchTrade(mongoId);
+    }
 
     this.logger.info("✅ Trade monitoring service stopped");
   }
@@ -132,32 +387,13 @@ class TradeMonitoringService extends EventEmitter {
       const activeTrades = await this.databaseService.getActiveTrades();
 
       for (const trade of activeTrades) {
-        const monitoredTrade: MonitoredTrade = {
-          _id: trade._id.toString(),
-          tradeId: trade.tradeId,
-          userId: trade.userId,
-          safeAddress: trade.safeAddress,
-          networkKey: trade.networkKey,
-          tokenSymbol: trade.tokenSymbol || trade.tokenMentioned,
-          tokenMentioned: trade.tokenMentioned,
-          signalMessage: trade.signalMessage,
-          entryPrice: trade.entryPrice || trade.currentPrice,
-          tp1: trade.tp1,
-          tp2: trade.tp2,
-          sl: trade.sl,
-          maxExitTime: new Date(trade.maxExitTime),
-          entryTxHash: trade.entryTxHash || "",
-          entryAmount: trade.entryAmount || "0",
-          executedAt: new Date(trade.executedAt || trade.createdAt),
-          status: trade.status,
-          priceCheckCount: 0,
-          // Initialize trailing stop data
-          highestPriceSinceEntry: trade.entryPrice || trade.currentPrice,
-          trailingStopPrice: (trade.entryPrice || trade.currentPrice) * 0.99, // 1% below entry
-          trailingStopEnabled: true,
-        };
-
-        this.monitoredTrades.set(trade._id.toString(), monitoredTrade);
+        const monitoredTrade = this.buildMonitoredTrade(
+          trade._id.toString(),
+          trade
+        );
+
+        this.watchTrade(monitoredTrade);
+        this.trackTradeState(monitoredTrade);
         this.logger.info(
           `📊 Loaded trade for monitoring: ${trade.tradeId} (${trade.tokenMentioned})`
         );
@@ -181,32 +417,10 @@ class TradeMonitoringService extends EventEmitter {
 
         // If this trade is not currently being monitored, add it
         if (!this.monitoredTrades.has(tradeId)) {
-          const monitoredTrade: MonitoredTrade = {
-            _id: tradeId,
-            tradeId: trade.tradeId,
-            userId: trade.userId,
-            safeAddress: trade.safeAddress,
-            networkKey: trade.networkKey,
-            tokenSymbol: trade.tokenSymbol || trade.tokenMentioned,
-            tokenMentioned: trade.tokenMentioned,
-            signalMessage: trade.signalMessage,
-            entryPrice: trade.entryPrice || trade.currentPrice,
-            tp1: trade.tp1,
-            tp2: trade.tp2,
-            sl: trade.sl,
-            maxExitTime: new Date(trade.maxExitTime),
-            entryTxHash: trade.entryTxHash || "",
-            entryAmount: trade.entryAmount || "0",
-            executedAt: new Date(trade.executedAt || trade.createdAt),
-            status: trade.status,
-            priceCheckCount: 0,
-            // Initialize trailing stop data
-            highestPriceSinceEntry: trade.entryPrice || trade.currentPrice,
-            trailingStopPrice: (trade.entryPrice || trade.currentPrice) * 0.99, // 1% below entry
-            trailingStopEnabled: true,
-          };
-
-          this.monitoredTrades.set(tradeId, monitoredTrade);
+          const monitoredTrade = this.buildMonitoredTrade(tradeId, trade);
+
+          this.watchTrade(monitoredTrade);
+          this.trackTradeState(monitoredTrade);
           newTradesFound++;
 
           this.logger.info(
@@ -232,33 +446,14 @@ class TradeMonitoringService extends EventEmitter {
       const mongoId = await this.databaseService.storeExecutedTrade(tradeData);
 
       // Add to monitoring
-      const monitoredTrade: MonitoredTrade = {
-        _id: mongoId,
-        tradeId: tradeData.tradeId,
-        userId: tradeData.userId,
-        safeAddress: tradeData.safeAddress,
-        networkKey: tradeData.networkKey,
-        tokenSymbol: tradeData.tokenSymbol || tradeData.tokenMentioned,
-        tokenMentioned: tradeData.tokenMentioned,
-        signalMessage: tradeData.signalMessage,
-        entryPrice: tradeData.entryPrice || tradeData.currentPrice,
-        tp1: tradeData.tp1,
-        tp2: tradeData.tp2,
-        sl: tradeData.sl,
-        maxExitTime: new Date(tradeData.maxExitTime),
-        entryTxHash: tradeData.entryTxHash || "",
-        entryAmount: tradeData.entryAmount || "0",
+      const monitoredTrade = this.buildMonitoredTrade(mongoId, {
+        ...tradeData,
         executedAt: new Date(),
         status: "active",
-        priceCheckCount: 0,
-        // Initialize trailing stop data
-        highestPriceSinceEntry: tradeData.entryPrice || tradeData.currentPrice,
-        trailingStopPrice:
-          (tradeData.entryPrice || tradeData.currentPrice) * 0.99, // 1% below entry
-        trailingStopEnabled: true,
-      };
+      });
 
-      this.monitoredTrades.set(mongoId, monitoredTrade);
+      this.watchTrade(monitoredTrade);
+      this.trackTradeState(monitoredTrade);
 
       this.logger.info(
         `✅ Added trade to monitoring: ${tradeData.tradeId} (${tradeData.tokenMentioned})`
@@ -270,29 +465,192 @@ class TradeMonitoringService extends EventEmitter {
     }
   }
 
-  private async monitorAllTrades(): Promise<void> {
-    if (this.monitoredTrades.size === 0) {
+  private buildMonitoredTrade(mongoId: string, trade: any): MonitoredTrade {
+    const entryPrice = trade.entryPrice || trade.currentPrice;
+    const entryAmount = trade.entryAmount || "0";
+    const trailingStopPercent = trade.trailingStopPercent || 1;
+
+    return {
+      _id: mongoId,
+      tradeId: trade.tradeId,
+      userId: trade.userId,
+      safeAddress: trade.safeAddress,
+      networkKey: trade.networkKey,
+      tokenSymbol: trade.tokenSymbol || trade.tokenMentioned,
+      tokenMentioned: trade.tokenMentioned,
+      tokenAddress: trade.tokenAddress,
+      tokenDecimals: trade.tokenDecimals,
+      baseToken: trade.baseToken,
+      slippagePercent: trade.slippagePercent,
+      signalMessage: trade.signalMessage,
+      entryPrice,
+      tp1: trade.tp1,
+      tp2: trade.tp2,
+      sl: trade.sl,
+      maxExitTime: new Date(trade.maxExitTime),
+      entryTxHash: trade.entryTxHash || "",
+      entryAmount,
+      executedAt: new Date(trade.executedAt || trade.createdAt),
+      status: trade.status,
+      priceCheckCount: 0,
+      // Initialize trailing stop data, 1% behind entry unless the user's
+      // profile set another distance
+      highestPriceSinceEntry: entryPrice,
+      trailingStopPrice: getTrailingStopPrice(
+        trade.signalMessage,
+        entryPrice,
+        trailingStopPercent
+      ),
+      trailingStopEnabled: trade.trailingStopEnabled ?? true,
+      trailingStopPercent,
+      // Restore scale-out progress for trades that already took profit
+      remainingAmount: trade.remainingAmount || entryAmount,
+      exitedPercentage: trade.exitedPercentage || 0,
+      tp1Filled: trade.tp1Filled || false,
+      exitLegs: trade.exitLegs || [],
+    };
+  }
+
+  /**
+   * Mirror a monitored trade into the TradeStateManager so its exit legs are
+   * tracked through the partially_exited / fully_exited lifecycle.
+   */
+  private trackTradeState(trade: MonitoredTrade): void {
+    if (
+      !this.tradeStateManager ||
+      this.tradeStateManager.getTrade(trade.tradeId)
+    ) {
       return;
     }
 
-    this.logger.info(
-      `🔍 Monitoring ${this.monitoredTrades.size} active trades...`
+    this.tradeStateManager.createTradeEntry(
+      trade.userId,
+      trade.tradeId.split("_")[0],
+      trade.safeAddress,
+      trade.networkKey,
+      trade.tokenSymbol,
+      {
+        tradeId: trade.tradeId,
+        currentPrice: trade.entryPrice,
+        targets: [trade.tp1, trade.tp2],
+        stopLoss: trade.sl,
+        maxExitTime: trade.maxExitTime,
+      }
+    );
+    this.tradeStateManager.setTradeEntryAmount(
+      trade.tradeId,
+      trade.entryAmount
     );
+    this.tradeStateManager.updateTradeStatus(
+      trade.tradeId,
+      "entered",
+      trade.entryTxHash || undefined,
+      "Entry swap executed"
+    );
+
+    // Replay legs filled before a restart so the exited percentage adds up
+    for (const leg of trade.exitLegs) {
+      this.tradeStateManager.addExitEvent(trade.tradeId, {
+        exitType: leg.exitType,
+        exitPrice: leg.exitPrice,
+        exitAmount: leg.exitAmount,
+        exitPercentage: leg.exitPercentage,
+        txHash: leg.txHash,
+        profitLoss: leg.profitLoss,
+      });
+    }
+  }
 
-    const monitoringPromises = Array.from(this.monitoredTrades.values()).map(
-      (trade) =>
-        this.monitorSingleTrade(trade).catch((error) => {
-          this.logger.error(`Error monitoring trade ${trade.tradeId}:`, error);
-        })
+  /**
+   * Track a trade and subscribe its token to the shared price tick, and to
+   * its pool's swap stream when streaming is enabled
+   */
+  private watchTrade(trade: MonitoredTrade): void {
+    this.monitoredTrades.set(trade._id, trade);
+    this.priceMonitoringService
+      .getTickScheduler()
+      .subscribe(this.getSubscriberId(trade._id), this.getPriceQuery(trade));
+
+    this.priceStream
+      ?.watch(trade._id, this.getPriceQuery(trade))
+      .catch((error) =>
+        this.logger.warn(
+          `⚠️ Could not stream ${trade.tokenSymbol} for ${trade.tradeId}, using polling: ${error}`
+        )
+      );
+  }
+
+  private unwatchTrade(mongoId: string): void {
+    this.monitoredTrades.delete(mongoId);
+    this.priceMonitoringService
+      .getTickScheduler()
+      .unsubscribe(this.getSubscriberId(mongoId));
+    this.priceStream?.unwatch(mongoId);
+  }
+
+  private getSubscriberId(mongoId: string): string {
+    return `${this.SCHEDULER_CONSUMER}:${mongoId}`;
+  }
+
+  // Price the contract that was bought, not whatever shares its symbol
+  private getPriceQuery(trade: MonitoredTrade): PriceQuery {
+    return {
+      symbol: trade.tokenSymbol,
+      tokenAddress: trade.tokenAddress,
+      networkKey: trade.networkKey,
+    };
+  }
+
+  private handlePriceTick = (tick: PriceTick): void => {
+    this.monitorAllTrades(tick).catch((error) =>
+      this.logger.error("❌ Error evaluating price tick:", error)
+    );
+  };
+
+  private handleStreamedPrice = (update: StreamedPrice): void => {
+    const trade = this.monitoredTrades.get(update.watchId);
+    if (!trade) {
+      return;
+    }
+
+    this.monitorSingleTrade(trade, update.price).catch((error) =>
+      this.logger.error(`Error monitoring trade ${trade.tradeId}:`, error)
+    );
+  };
+
+  private async monitorAllTrades(tick: PriceTick): Promise<void> {
+    // Trades on a live swap stream are evaluated per block instead
+    const polledTrades = Array.from(this.monitoredTrades.values()).filter(
+      (trade) => !this.priceStream?.isStreaming(trade._id)
+    );
+    if (polledTrades.length === 0) {
+      return;
+    }
+
+    this.logger.info(`🔍 Monitoring ${polledTrades.length} active trades...`);
+
+    const monitoringPromises = polledTrades.map((trade) =>
+      this.monitorSingleTrade(
+        trade,
+        tick.prices.get(getPriceKey(this.getPriceQuery(trade)))?.price || null
+      ).catch((error) => {
+        this.logger.error(`Error monitoring trade ${trade.tradeId}:`, error);
+      })
     );
 
     await Promise.allSettled(monitoringPromises);
   }
 
-  private async monitorSingleTrade(trade: MonitoredTrade): Promise<void> {
+  private async monitorSingleTrade(
+    trade: MonitoredTrade,
+    currentPrice: number | null
+  ): Promise<void> {
+    // A scale-out leg for this trade is still settling
+    if (trade.exitInProgress) {
+      return;
+    }
+
     try {
-      // Get current price
-      const currentPrice = await this.getCurrentPrice(trade.tokenSymbol);
       if (!currentPrice) {
         this.logger.warn(`⚠️ Unable to get price for ${trade.tokenSymbol}`);
         return;
@@ -307,7 +665,7 @@ class TradeMonitoringService extends EventEmitter {
       this.updateTrailingStopData(trade, currentPrice);
 
       // Check exit conditions
-      const exitCondition = this.checkExitConditions(trade, currentPrice);
+      const exitCondition = checkExitConditions(trade, currentPrice);
 
       if (exitCondition.triggered) {
         this.logger.info(
@@ -327,201 +685,103 @@ class TradeMonitoringService extends EventEmitter {
     }
   }
 
-  private async getCurrentPrice(tokenSymbol: string): Promise<number | null> {
-    try {
-      return await this.priceMonitoringService.getCurrentPrice(tokenSymbol);
-    } catch (error) {
-      this.logger.error(`Error getting price for ${tokenSymbol}:`, error);
-      return null;
-    }
-  }
-
   private updateTrailingStopData(
     trade: MonitoredTrade,
     currentPrice: number
   ): void {
-    if (!trade.trailingStopEnabled) return;
-
-    // For BUY positions: track highest price and update trailing stop
-    if (trade.signalMessage === "buy") {
-      if (currentPrice > trade.highestPriceSinceEntry) {
-        trade.highestPriceSinceEntry = currentPrice;
-        // Update trailing stop to 1% below the new highest price
-        trade.trailingStopPrice = currentPrice * 0.99;
-
-        this.logger.info(
-          `📈 Trailing stop updated for ${trade.tradeId}: New high $${currentPrice.toFixed(4)}, Trailing stop $${trade.trailingStopPrice.toFixed(4)}`
-        );
-      }
-    }
-    // For SELL positions: track lowest price and update trailing stop
-    else if (trade.signalMessage === "sell") {
-      if (currentPrice < trade.highestPriceSinceEntry) {
-        trade.highestPriceSinceEntry = currentPrice;
-        // Update trailing stop to 1% above the new lowest price
-        trade.trailingStopPrice = currentPrice * 1.01;
+    if (!updateTrailingStop(trade, currentPrice)) return;
 
-        this.logger.info(
-          `📉 Trailing stop updated for ${trade.tradeId}: New low $${currentPrice.toFixed(4)}, Trailing stop $${trade.trailingStopPrice.toFixed(4)}`
-        );
-      }
-    }
-  }
-
-  private checkExitConditions(
-    trade: MonitoredTrade,
-    currentPrice: number
-  ): ExitCondition {
-    const now = new Date();
-
-    // Check Max Exit Time first
-    if (now >= trade.maxExitTime) {
-      return {
-        type: "MAX_EXIT_TIME",
-        currentPrice,
-        triggered: true,
-      };
-    }
-
-    // For BUY positions
-    if (trade.signalMessage === "buy") {
-      // Check Trailing Stop first (highest priority after Max Time)
-      if (
-        trade.trailingStopEnabled &&
-        currentPrice <= trade.trailingStopPrice
-      ) {
-        return {
-          type: "TRAILING_STOP",
-          currentPrice,
-          targetPrice: trade.trailingStopPrice,
-          triggered: true,
-        };
-      }
-
-      // Check Stop Loss (only if trailing stop hasn't triggered)
-      if (currentPrice <= trade.sl) {
-        return {
-          type: "STOP_LOSS",
-          currentPrice,
-          targetPrice: trade.sl,
-          triggered: true,
-        };
-      }
-
-      // Check Take Profit levels
-      if (currentPrice >= trade.tp2) {
-        return {
-          type: "TP2",
-          currentPrice,
-          targetPrice: trade.tp2,
-          triggered: true,
-        };
-      } else if (currentPrice >= trade.tp1) {
-        return {
-          type: "TP1",
-          currentPrice,
-          targetPrice: trade.tp1,
-          triggered: true,
-        };
-      }
-    }
-
-    // For SELL positions (if applicable)
-    else if (trade.signalMessage === "sell") {
-      // Check Trailing Stop first (highest priority after Max Time)
-      if (
-        trade.trailingStopEnabled &&
-        currentPrice >= trade.trailingStopPrice
-      ) {
-        return {
-          type: "TRAILING_STOP",
-          currentPrice,
-          targetPrice: trade.trailingStopPrice,
-          triggered: true,
-        };
-      }
-
-      // Check Stop Loss (only if trailing stop hasn't triggered)
-      if (currentPrice >= trade.sl) {
-        return {
-          type: "STOP_LOSS",
-          currentPrice,
-          targetPrice: trade.sl,
-          triggered: true,
-        };
-      }
-
-      // Check Take Profit levels (price goes down)
-      if (currentPrice <= trade.tp2) {
-        return {
-          type: "TP2",
-          currentPrice,
-          targetPrice: trade.tp2,
-          triggered: true,
-        };
-      } else if (currentPrice <= trade.tp1) {
-        return {
-          type: "TP1",
-          currentPrice,
-          targetPrice: trade.tp1,
-          triggered: true,
-        };
-      }
-    }
-
-    return {
-      type: "TP1",
-      currentPrice,
-      triggered: false,
-    };
+    this.logger.info(
+      trade.signalMessage === "sell"
+        ? `📉 Trailing stop updated for ${trade.tradeId}: New low $${currentPrice.toFixed(4)}, Trailing stop $${trade.trailingStopPrice.toFixed(4)}`
+        : `📈 Trailing stop updated for ${trade.tradeId}: New high $${currentPrice.toFixed(4)}, Trailing stop $${trade.trailingStopPrice.toFixed(4)}`
+    );
   }
 
   private async executeTradeExit(
     trade: MonitoredTrade,
     exitCondition: ExitCondition
   ): Promise<void> {
+    const exitPercentage = getExitPercentage(
+      trade,
+      exitCondition,
+      this.scaleOutConfig.tp1ExitPercentage
+    );
+    const isFinalLeg = trade.exitedPercentage + exitPercentage >= 100;
+    const exitAmount = isFinalLeg
+      ? trade.remainingAmount
+      : this.scaleAmount(trade.entryAmount, exitPercentage);
+
     try {
       this.logger.info(
-        `🔄 Executing exit for trade ${trade.tradeId}: ${exitCondition.type}`
+        `🔄 Executing ${isFinalLeg ? "exit" : `${exitPercentage}% scale-out`} for trade ${trade.tradeId}: ${exitCondition.type}`
       );
 
-      // Remove from monitoring immediately to prevent duplicate exits
-      this.monitoredTrades.delete(trade._id);
-
-      // Prepare exit trade data
-      const exitTradeData = {
-        tradeId: trade.tradeId,
-        userId: trade.userId,
-        safeAddress: trade.safeAddress,
-        networkKey: trade.networkKey,
-        tokenMentioned: trade.tokenMentioned,
-        signalMessage: trade.signalMessage === "buy" ? "sell" : "buy", // Reverse the signal
-        currentPrice: exitCondition.currentPrice,
-        entryPrice: trade.entryPrice,
-        entryAmount: trade.entryAmount,
-      };
+      if (isFinalLeg) {
+        // Remove from monitoring immediately to prevent duplicate exits
+        this.unwatchTrade(trade._id);
+      } else {
+        // Keep watching the remainder, but not until this leg has settled
+        trade.exitInProgress = true;
+      }
 
-      // Execute the exit trade
-      await this.tradeExecutionService.executeTrade(
-        exitTradeData,
-        trade.entryAmount // Use the full amount from entry
+      // Sell this leg on the trade's own network, capped at the Safe balance
+      const result = await this.tradeExecutionService.exitTrade(
+        trade,
+        exitAmount,
+        exitCondition.type
       );
+      const amountSold = result.amountSold;
 
-      // Calculate P&L
-      const entryValue = parseFloat(trade.entryAmount) * trade.entryPrice;
-      const exitValue =
-        parseFloat(trade.entryAmount) * exitCondition.currentPrice;
-      const profitLoss =
+      // P&L for the amount sold in this leg: from the ledger's FIFO cost
+      // basis and actual fill when recorded, else from the signal prices
+      const priceMove =
         trade.signalMessage === "buy"
-          ? exitValue - entryValue
-          : entryValue - exitValue;
+          ? exitCondition.currentPrice - trade.entryPrice
+          : trade.entryPrice - exitCondition.currentPrice;
+      const profitLoss =
+        result.realizedPnlUsd ?? parseFloat(amountSold) * priceMove;
+
+      const exitLeg: ExitLeg = {
+        exitType: exitCondition.type,
+        exitPrice: result.fillPrice || exitCondition.currentPrice,
+        exitAmount: amountSold,
+        exitPercentage,
+        profitLoss,
+        txHash: result.transactionHash,
+        exitedAt: new Date(),
+      };
+
+      trade.exitLegs.push(exitLeg);
+      trade.exitedPercentage += exitPercentage;
+
+      this.tradeStateManager?.addExitEvent(trade.tradeId, {
+        exitType: exitLeg.exitType,
+        exitPrice: exitLeg.exitPrice,
+        exitAmount: exitLeg.exitAmount,
+        exitPercentage: exitLeg.exitPercentage,
+        txHash: exitLeg.txHash,
+        profitLoss: exitLeg.profitLoss,
+      });
+
+      if (!isFinalLeg) {
+        await this.completePartialExit(trade, exitCondition, exitLeg);
+        return;
+      }
+
+      trade.remainingAmount = "0";
+      const totalProfitLoss = trade.exitLegs.reduce(
+        (sum, leg) => sum + leg.profitLoss,
+        0
+      );
 
       // Update database
       const exitData = {
         exitType: exitCondition.type,
-        exitPrice: exitCondition.currentPrice,
-        exitAmount: trade.entryAmount,
-        profitLoss: profitLoss,
+        exitPrice: exitLeg.exitPrice,
+        exitAmount: amountSold,
+        profitLoss: totalProfitLoss,
+        exitLegs: trade.exitLegs,
         exitedAt: new Date(),
       };
 
@@ -532,13 +792,13 @@ class TradeMonitoringService extends EventEmitter {
       );
 
       this.logger.info(
-        `✅ Trade ${trade.tradeId} successfully exited: ${exitCondition.type} | P&L: $${profitLoss.toFixed(2)}`
+        `✅ Trade ${trade.tradeId} successfully exited: ${exitCondition.type} | P&L: $${totalProfitLoss.toFixed(2)} over ${trade.exitLegs.length} leg(s)`
       );
 
       this.emit("tradeExited", {
         trade,
         exitCondition,
-        profitLoss,
+        profitLoss: totalProfitLoss,
         exitData,
       });
     } catch (error) {
@@ -547,11 +807,22 @@ class TradeMonitoringService extends EventEmitter {
         error
       );
 
-      // Update trade status to failed
-      await this.databaseService.updateTradeStatus(trade._id, "failed", {
-        error: error instanceof Error ? error.message : "Unknown error",
-        failedAt: new Date(),
-      });
+      if (isFinalLeg) {
+        // Update trade status to failed
+        await this.databaseService.updateTradeStatus(trade._id, "failed", {
+          error: error instanceof Error ? error.message : "Unknown error",
+          failedAt: new Date(),
+        });
+        this.tradeStateManager?.updateTradeStatus(
+          trade.tradeId,
+          "failed",
+          undefined,
+          `${exitCondition.type} exit failed`
+        );
+      } else {
+        // The position is untouched, so keep monitoring it and retry the leg
+        trade.exitInProgress = false;
+      }
 
       this.emit("tradeExitFailed", {
         trade,
@@ -561,6 +832,66 @@ class TradeMonitoringService extends EventEmitter {
     }
   }
 
+  private async completePartialExit(
+    trade: MonitoredTrade,
+    exitCondition: ExitCondition,
+    exitLeg: ExitLeg
+  ): Promise<void> {
+    trade.remainingAmount = this.subtractAmount(
+      trade.remainingAmount,
+      exitLeg.exitAmount
+    );
+
+    if (exitCondition.type === "TP1") {
+      trade.tp1Filled = true;
+
+      if (this.scaleOutConfig.moveStopToBreakEven) {
+        trade.sl = trade.entryPrice;
+        this.logger.info(
+          `🛡️ Stop loss for ${trade.tradeId} moved to break-even at $${trade.entryPrice}`
+        );
+      }
+    }
+
+    await this.databaseService.recordPartialExit(trade._id, exitLeg, {
+      remainingAmount: trade.remainingAmount,
+      exitedPercentage: trade.exitedPercentage,
+      tp1Filled: trade.tp1Filled,
+      sl: trade.sl,
+    });
+
+    trade.exitInProgress = false;
+
+    this.logger.info(
+      `✅ Trade ${trade.tradeId} partially exited: ${exitLeg.exitType} ${exitLeg.exitPercentage}% | Leg P&L: $${exitLeg.profitLoss.toFixed(2)} | Remaining: ${trade.remainingAmount}`
+    );
+
+    this.emit("tradePartiallyExited", {
+      trade,
+      exitCondition,
+      exitLeg,
+    });
+  }
+
+  private scaleAmount(amount: string, percentage: number): string {
+    const scaled = NetworkUtils.formatTokenAmount(amount, AMOUNT_SCALE);
+    const basisPoints = BigInt(Math.round(percentage * 100));
+    return NetworkUtils.parseTokenAmount(
+      (scaled * basisPoints) / 10000n,
+      AMOUNT_SCALE
+    );
+  }
+
+  private subtractAmount(amount: string, subtrahend: string): string {
+    const difference =
+      NetworkUtils.formatTokenAmount(amount, AMOUNT_SCALE) -
+      NetworkUtils.formatTokenAmount(subtrahend, AMOUNT_SCALE);
+    return NetworkUtils.parseTokenAmount(
+      difference > 0n ? difference : 0n,
+      AMOUNT_SCALE
+    );
+  }
+
   private getTimeRemaining(maxExitTime: Date): string {
     const now = new Date();
     const remaining = maxExitTime.getTime() - now.getTime();
@@ -602,8 +933,15 @@ class TradeMonitoringService extends EventEmitter {
         return false;
       }
 
+      if (trade.exitInProgress) {
+        this.logger.warn(
+          `Trade ${tradeId} already has an exit leg in flight, skipping manual exit`
+        );
+        return false;
+      }
+
       const exitCondition: ExitCondition = {
-        type: "TP1", // Using TP1 as placeholder for manual exit
+        type: "MANUAL",
         currentPrice: trade.currentPrice || trade.entryPrice,
         triggered: true,
       };
@@ -617,20 +955,63 @@ class TradeMonitoringService extends EventEmitter {
     }
   }
 
-  getSystemStatus(): any {
+  /**
+   * Fully exit every monitored trade the predicate selects, e.g. to flatten
+   * positions under a kill switch. Exits run one at a time so legs from the
+   * same Safe do not race; trades already mid-exit are left to finish.
+   */
+  async exitTrades(
+    match: (trade: MonitoredTrade) => boolean,
+    reason: string
+  ): Promise<{ tradeId: string; exited: boolean }[]> {
+    const trades = this.getMonitoredTrades().filter(
+      (trade) => trade.status === "active" && match(trade)
+    );
+
+    const results: { tradeId: string; exited: boolean }[] = [];
+    for (const trade of trades) {
+      if (trade.exitInProgress) {
+        results.push({ tradeId: trade.tradeId, exited: false });
+        continue;
+      }
+
+      this.logger.info(`🛑 Exiting trade ${trade.tradeId}: ${reason}`);
+      results.push({
+        tradeId: trade.tradeId,
+        exited: await this.manualExitTrade(trade.tradeId, reason),
+      });
+    }
+    return results;
+  }
+
+  /**
+   * Monitoring status; includeTrade limits the trades listed and counted,
+   * e.g. to a caller's own positions
+   */
+  getSystemStatus(
+    includeTrade: (trade: MonitoredTrade) => boolean = () => true
+  ): any {
+    const trades = this.getMonitoredTrades().filter(includeTrade);
     return {
       isRunning: this.isRunning,
-      monitoredTradesCount: this.monitoredTrades.size,
-      monitoringInterval: this.MONITORING_INTERVAL_MS,
+      monitoredTradesCount: trades.length,
+      monitoringInterval: this.priceMonitoringService
+        .getTickScheduler()
+        .getIntervalMs(),
       dbSyncInterval: this.DB_SYNC_INTERVAL_MS,
       lastCheck: new Date(),
       features: {
         automaticTradeDetection: true,
         periodicDatabaseSync: true,
         realTimePriceMonitoring: true,
+        swapEventStreaming: this.priceStream
+          ? this.priceStream.getStatus()
+          : false,
         automaticExitExecution: true,
+        partialTakeProfit: this.scaleOutConfig.tp1ExitPercentage < 100,
       },
-      trades: this.getMonitoredTrades().map((trade) => ({
+      scaleOut: this.scaleOutConfig,
+      trades: trades.map((trade) => ({
         tradeId: trade.tradeId,
         tokenSymbol: trade.tokenSymbol,
         currentPrice: trade.currentPrice,
@@ -641,6 +1022,10 @@ class TradeMonitoringService extends EventEmitter {
         trailingStopPrice: trade.trailingStopPrice,
         highestPriceSinceEntry: trade.highestPriceSinceEntry,
         trailingStopEnabled: trade.trailingStopEnabled,
+        trailingStopPercent: trade.trailingStopPercent,
+        remainingAmount: trade.remainingAmount,
+        exitedPercentage: trade.exitedPercentage,
+        tp1Filled: trade.tp1Filled,
         timeRemaining: this.getTimeRemaining(trade.maxExitTime),
         priceCheckCount: trade.priceCheckCount,
       })),
@@ -649,4 +1034,15 @@ class TradeMonitoringService extends EventEmitter {
 }
 
 export default TradeMonitoringService;
-export { MonitoredTrade, ExitCondition };
+export {
+  MonitoredTrade,
+  ExitCondition,
+  ExitLeg,
+  ScaleOutConfig,
+  ExitState,
+  resolveScaleOutConfig,
+  getTrailingStopPrice,
+  updateTrailingStop,
+  checkExitConditions,
+  getExitPercentage,
+};
@@ -1,6 +1,16 @@
 import { EventEmitter } from "events";
 import { logger } from "../config/logger";
 import { v4 as uuidv4 } from "uuid";
+import DatabaseService from "./DatabaseService";
+
+type TradeStatus =
+  | "pending"
+  | "entered"
+  | "partially_exited"
+  | "fully_exited"
+  | "stopped_out"
+  | "expired"
+  | "failed";
 
 interface TradeEntry {
   tradeId: string;
@@ -17,14 +27,7 @@ interface TradeEntry {
   };
   stopLoss: number;
   maxExitTime: Date;
-  status:
-    | "pending"
-    | "entered"
-    | "partially_exited"
-    | "fully_exited"
-    | "stopped_out"
-    | "expired"
-    | "failed";
+  status: TradeStatus;
   entryTxHash?: string;
   exitTxHashes: string[];
   exitEvents: TradeExitEvent[];
@@ -56,24 +59,140 @@ interface TradeExitEvent {
 }
 
 interface TradeExecutionPlan {
+  planId?: string;
   action: "enter" | "exit";
   tradeId: string;
   amount: string;
   reason: string;
   urgency: "low" | "medium" | "high";
+  queuedAt?: Date;
+}
+
+interface TradeTransition {
+  tradeId: string;
+  userId: string;
+  from: TradeStatus | null; // null for the initial "pending" state
+  to: TradeStatus;
+  reason?: string;
+  txHash?: string;
+  timestamp: Date;
 }
 
+/**
+ * Allowed status transitions for a trade. Anything not listed is rejected.
+ */
+const TRADE_TRANSITIONS: Record<TradeStatus, TradeStatus[]> = {
+  pending: ["entered", "failed", "expired"],
+  entered: [
+    "partially_exited",
+    "fully_exited",
+    "stopped_out",
+    "expired",
+    "failed",
+  ],
+  partially_exited: [
+    "partially_exited",
+    "fully_exited",
+    "stopped_out",
+    "expired",
+    "failed",
+  ],
+  fully_exited: [],
+  stopped_out: [],
+  expired: [],
+  failed: [],
+};
+
+const TERMINAL_STATUSES: TradeStatus[] = [
+  "fully_exited",
+  "stopped_out",
+  "expired",
+  "failed",
+];
+
+/**
+ * TradeStateManager - Trade lifecycle state machine
+ *
+ * In-memory maps serve reads; every mutation is written through to MongoDB
+ * (when a DatabaseService is provided) so state survives restarts via rehydrate().
+ */
 class TradeStateManager extends EventEmitter {
   private logger = logger;
   private activeTrades: Map<string, TradeEntry> = new Map();
   private tradeHistory: Map<string, TradeEntry> = new Map();
   private userTrades: Map<string, Set<string>> = new Map(); // userId -> Set<tradeId>
   private executionQueue: TradeExecutionPlan[] = [];
+  private pendingWrites: Promise<unknown> = Promise.resolve();
 
-  constructor() {
+  private readonly HISTORY_REHYDRATE_DAYS = 30;
+
+  constructor(private databaseService?: DatabaseService) {
     super();
   }
 
+  /**
+   * Reload open trades, recent history and the execution queue from MongoDB
+   */
+  async rehydrate(): Promise<void> {
+    if (!this.databaseService) {
+      return;
+    }
+
+    try {
+      const openStatuses = (
+        Object.keys(TRADE_TRANSITIONS) as TradeStatus[]
+      ).filter((status) => !TERMINAL_STATUSES.includes(status));
+      const historySince = new Date(
+        Date.now() - this.HISTORY_REHYDRATE_DAYS * 24 * 60 * 60 * 1000
+      );
+
+      const [openTrades, closedTrades, plans] = await Promise.all([
+        this.databaseService.getTradeStates(openStatuses),
+        this.databaseService.getTradeStates(TERMINAL_STATUSES, historySince),
+        this.databaseService.getExecutionPlans(),
+      ]);
+
+      for (const doc of openTrades) {
+        this.indexTrade(this.activeTrades, this.fromDocument(doc));
+      }
+      for (const doc of closedTrades) {
+        this.indexTrade(this.tradeHistory, this.fromDocument(doc));
+      }
+
+      this.executionQueue = plans.map((plan) => ({
+        ...plan,
+        queuedAt: new Date(plan.queuedAt),
+      }));
+      this.sortExecutionQueue();
+
+      this.logger.info(
+        `♻️ Rehydrated ${openTrades.length} open trades, ${closedTrades.length} historical trades and ${plans.length} queued executions`
+      );
+      this.emit("rehydrated", this.getStats());
+    } catch (error) {
+      this.logger.error("Failed to rehydrate trade state:", error);
+      throw error;
+    }
+  }
+
+  /**
+   * Wait for all queued database writes to finish (used on shutdown)
+   */
+  async flush(): Promise<void> {
+    await this.pendingWrites;
+  }
+
+  canTransition(from: TradeStatus, to: TradeStatus): boolean {
+    return TRADE_TRANSITIONS[from]?.includes(to) || false;
+  }
+
+  async getTransitionHistory(tradeId: string): Promise<TradeTransition[]> {
+    if (!this.databaseService) {
+      return [];
+    }
+    return this.databaseService.getTradeTransitions(tradeId);
+  }
+
   createTradeEntry(
     userId: string,
     signalId: string,
@@ -82,7 +201,9 @@ class TradeStateManager extends EventEmitter {
     tokenSymbol: string,
     signalData: any
   ): TradeEntry {
-    const tradeId = uuidv4();
+    // Callers that already key the trade elsewhere (e.g. the monitor) pass
+    // their own id so both views of the position line up
+    const tradeId = signalData.tradeId || uuidv4();
     const now = new Date();
 
     const trade: TradeEntry = {
@@ -121,6 +242,15 @@ class TradeStateManager extends EventEmitter {
     }
     this.userTrades.get(userId)!.add(tradeId);
 
+    this.persist(trade, {
+      tradeId,
+      userId,
+      from: null,
+      to: "pending",
+      reason: "Trade created from signal",
+      timestamp: now,
+    });
+
     this.logger.info(
       `Created trade entry ${tradeId} for user ${userId} - ${tokenSymbol}`
     );
@@ -133,7 +263,8 @@ class TradeStateManager extends EventEmitter {
   updateTradeStatus(
     tradeId: string,
     status: TradeEntry["status"],
-    txHash?: string
+    txHash?: string,
+    reason?: string
   ): boolean {
     const trade = this.activeTrades.get(tradeId);
     if (!trade) {
@@ -141,20 +272,15 @@ class TradeStateManager extends EventEmitter {
       return false;
     }
 
-    trade.status = status;
-    trade.updatedAt = new Date();
+    if (!this.applyTransition(trade, status, reason, txHash)) {
+      return false;
+    }
 
     if (status === "entered" && txHash) {
       trade.entryTxHash = txHash;
     }
 
-    if (
-      status === "fully_exited" ||
-      status === "stopped_out" ||
-      status === "expired"
-    ) {
-      this.moveToHistory(tradeId);
-    }
+    this.persist(trade);
 
     this.logger.info(`Updated trade ${tradeId} status to ${status}`);
     this.emit("tradeStatusUpdated", trade);
@@ -170,6 +296,7 @@ class TradeStateManager extends EventEmitter {
 
     trade.entryAmount = amount;
     trade.updatedAt = new Date();
+    this.persist(trade);
 
     return true;
   }
@@ -204,12 +331,29 @@ class TradeStateManager extends EventEmitter {
     );
 
     if (totalExitPercentage >= 100) {
-      trade.status = "fully_exited";
-      this.moveToHistory(tradeId);
+      const finalStatus: TradeStatus =
+        exitEvent.exitType === "STOP_LOSS"
+          ? "stopped_out"
+          : exitEvent.exitType === "MAX_EXIT_TIME"
+            ? "expired"
+            : "fully_exited";
+      this.applyTransition(
+        trade,
+        finalStatus,
+        `${exitEvent.exitType} exit`,
+        exitEvent.txHash
+      );
     } else if (totalExitPercentage > 0) {
-      trade.status = "partially_exited";
+      this.applyTransition(
+        trade,
+        "partially_exited",
+        `${exitEvent.exitType} exit (${totalExitPercentage}% closed)`,
+        exitEvent.txHash
+      );
     }
 
+    this.persist(trade);
+
     this.logger.info(
       `Added exit event for trade ${tradeId}: ${exitEvent.exitType} at ${exitEvent.exitPrice}`
     );
@@ -219,22 +363,33 @@ class TradeStateManager extends EventEmitter {
   }
 
   queueTradeExecution(plan: TradeExecutionPlan): void {
-    this.executionQueue.push(plan);
+    const queuedPlan: TradeExecutionPlan = {
+      ...plan,
+      planId: plan.planId || uuidv4(),
+      queuedAt: plan.queuedAt || new Date(),
+    };
+
+    this.executionQueue.push(queuedPlan);
+    this.enqueueWrite(() =>
+      this.databaseService!.saveExecutionPlan(queuedPlan)
+    );
     this.logger.info(
       `Queued ${plan.action} for trade ${plan.tradeId}: ${plan.reason}`
     );
 
-    // Sort by urgency (high -> medium -> low)
-    this.executionQueue.sort((a, b) => {
-      const urgencyOrder = { high: 3, medium: 2, low: 1 };
-      return urgencyOrder[b.urgency] - urgencyOrder[a.urgency];
-    });
+    this.sortExecutionQueue();
 
-    this.emit("tradeQueued", plan);
+    this.emit("tradeQueued", queuedPlan);
   }
 
   getNextExecutionPlan(): TradeExecutionPlan | null {
-    return this.executionQueue.shift() || null;
+    const plan = this.executionQueue.shift() || null;
+    if (plan?.planId) {
+      this.enqueueWrite(() =>
+        this.databaseService!.removeExecutionPlan(plan.planId!)
+      );
+    }
+    return plan;
   }
 
   getActiveTrades(userId?: string): TradeEntry[] {
@@ -248,6 +403,17 @@ class TradeStateManager extends EventEmitter {
     return Array.from(this.activeTrades.values());
   }
 
+  /**
+   * Open trades plus the rehydrated history, optionally for one user
+   */
+  getAllTrades(userId?: string): TradeEntry[] {
+    const trades = [
+      ...this.activeTrades.values(),
+      ...this.tradeHistory.values(),
+    ];
+    return userId ? trades.filter((trade) => trade.userId === userId) : trades;
+  }
+
   getPendingTrades(userId?: string): TradeEntry[] {
     const trades = Array.from(this.activeTrades.values()).filter(
       (trade) => trade.status === "pending"
@@ -379,6 +545,35 @@ class TradeStateManager extends EventEmitter {
     };
   }
 
+  /**
+   * Win rate and payoff ratio (average % win / average % loss) over the
+   * user's completed trades
+   */
+  getEdgeStats(userId: string): {
+    completedTrades: number;
+    winRate: number;
+    payoffRatio: number;
+  } {
+    const returns = this.getAllTrades(userId)
+      .map((trade) => this.calculateTradePerformance(trade))
+      .filter((performance) => performance.isComplete)
+      .map((performance) => performance.percentageReturn);
+
+    const wins = returns.filter((r) => r > 0);
+    const losses = returns.filter((r) => r < 0);
+    const average = (values: number[]) =>
+      values.reduce((sum, value) => sum + value, 0) / values.length;
+
+    return {
+      completedTrades: returns.length,
+      winRate: returns.length > 0 ? (wins.length / returns.length) * 100 : 0,
+      payoffRatio:
+        wins.length > 0 && losses.length > 0
+          ? average(wins) / Math.abs(average(losses))
+          : 0,
+    };
+  }
+
   private moveToHistory(tradeId: string): void {
     const trade = this.activeTrades.get(tradeId);
     if (trade) {
@@ -391,6 +586,107 @@ class TradeStateManager extends EventEmitter {
     }
   }
 
+  /**
+   * Validate and apply a status change, recording it in the audit trail
+   */
+  private applyTransition(
+    trade: TradeEntry,
+    to: TradeStatus,
+    reason?: string,
+    txHash?: string
+  ): boolean {
+    const from = trade.status;
+
+    if (!this.canTransition(from, to)) {
+      this.logger.warn(
+        `Rejected invalid status transition for trade ${trade.tradeId}: ${from} -> ${to}`
+      );
+      this.emit("invalidTransition", { tradeId: trade.tradeId, from, to });
+      return false;
+    }
+
+    const transition: TradeTransition = {
+      tradeId: trade.tradeId,
+      userId: trade.userId,
+      from,
+      to,
+      reason,
+      txHash,
+      timestamp: new Date(),
+    };
+
+    trade.status = to;
+    trade.updatedAt = transition.timestamp;
+
+    this.enqueueWrite(() =>
+      this.databaseService!.recordTradeTransition(transition)
+    );
+
+    if (TERMINAL_STATUSES.includes(to)) {
+      this.moveToHistory(trade.tradeId);
+    }
+
+    this.emit("tradeTransition", transition);
+    return true;
+  }
+
+  /**
+   * Write the trade (and optionally a transition) through to MongoDB
+   */
+  private persist(trade: TradeEntry, transition?: TradeTransition): void {
+    const snapshot = { ...trade };
+    this.enqueueWrite(async () => {
+      await this.databaseService!.saveTradeState(snapshot);
+      if (transition) {
+        await this.databaseService!.recordTradeTransition(transition);
+      }
+    });
+  }
+
+  /**
+   * Serialize writes so MongoDB sees mutations in the order they happened
+   */
+  private enqueueWrite(write: () => Promise<unknown>): void {
+    if (!this.databaseService) {
+      return;
+    }
+
+    this.pendingWrites = this.pendingWrites.then(write).catch((error) => {
+      this.logger.error("Trade state persistence failed:", error);
+    });
+  }
+
+  private sortExecutionQueue(): void {
+    // Sort by urgency (high -> medium -> low)
+    this.executionQueue.sort((a, b) => {
+      const urgencyOrder = { high: 3, medium: 2, low: 1 };
+      return urgencyOrder[b.urgency] - urgencyOrder[a.urgency];
+    });
+  }
+
+  private indexTrade(target: Map<string, TradeEntry>, trade: TradeEntry): void {
+    target.set(trade.tradeId, trade);
+
+    if (!this.userTrades.has(trade.userId)) {
+      this.userTrades.set(trade.userId, new Set());
+    }
+    this.userTrades.get(trade.userId)!.add(trade.tradeId);
+  }
+
+  private fromDocument(doc: any): TradeEntry {
+    return {
+      ...doc,
+      maxExitTime: new Date(doc.maxExitTime),
+      entryTimestamp: new Date(doc.entryTimestamp),
+      updatedAt: new Date(doc.updatedAt),
+      exitTxHashes: doc.exitTxHashes || [],
+      exitEvents: (doc.exitEvents || []).map((event: any) => ({
+        ...event,
+        timestamp: new Date(event.timestamp),
+      })),
+    };
+  }
+
   clearOldHistory(daysToKeep: number = 30): number {
     const cutoffDate = new Date();
     cutoffDate.setDate(cutoffDate.getDate() - daysToKeep);
@@ -437,4 +733,11 @@ class TradeStateManager extends EventEmitter {
 }
 
 export default TradeStateManager;
-export { TradeEntry, TradeExitEvent, TradeExecutionPlan };
+export {
+  TradeEntry,
+  TradeExitEvent,
+  TradeExecutionPlan,
+  TradeStatus,
+  TradeTransition,
+  TRADE_TRANSITIONS,
+};
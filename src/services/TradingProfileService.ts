@@ -0,0 +1,320 @@
+import { logger } from "../config/logger";
+import DatabaseService from "./DatabaseService";
+import { NetworkUtils } from "../utils/NetworkUtils";
+import { ChainDetectionResult } from "./TokenChainDetectionService";
+import { SizingMode, SizingStrategy } from "./PositionSizingService";
+
+type RiskTolerance = "conservative" | "moderate" | "aggressive";
+
+/**
+ * A user's trading preferences. Unset fields fall back to the platform
+ * defaults (env / TradingConfig).
+ */
+interface TradingProfile {
+  username: string;
+  riskTolerance?: RiskTolerance; // caps the share of the balance per trade
+  sizing?: SizingStrategy;
+  maxOpenPositions?: number; // 0 or unset = no limit
+  allowedTokens?: string[]; // only trade these symbols (uppercased)
+  deniedTokens?: string[]; // never trade these symbols (uppercased)
+  preferredNetworks?: string[]; // in order of preference; other networks are refused
+  baseToken?: string; // stablecoin positions are sized in and bought with
+  slippagePercent?: number;
+  trailingStopPercent?: number;
+  enableTrailingStop?: boolean;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+type TradingProfileSettings = Omit<
+  TradingProfile,
+  "username" | "createdAt" | "updatedAt"
+>;
+
+const RISK_TOLERANCES: RiskTolerance[] = [
+  "conservative",
+  "moderate",
+  "aggressive",
+];
+
+// Most of the balance a single trade may use at each tolerance
+const RISK_TOLERANCE_MAX_PERCENT: Record<RiskTolerance, number> = {
+  conservative: 10,
+  moderate: 25,
+  aggressive: 50,
+};
+
+const SIZING_MODES: SizingMode[] = [
+  "fixed_usd",
+  "percent_equity",
+  "fixed_fractional",
+  "volatility",
+  "kelly",
+];
+
+const BASE_TOKENS = ["USDC", "USDT"];
+
+/**
+ * Stores per-user trading profiles and applies them to a signal: token
+ * filters, open-position limit, network preference and sizing strategy
+ */
+class TradingProfileService {
+  private databaseService: DatabaseService;
+
+  constructor(databaseService: DatabaseService) {
+    this.databaseService = databaseService;
+  }
+
+  async getProfile(username: string): Promise<TradingProfile | null> {
+    return this.databaseService.getTradingProfile(username);
+  }
+
+  /**
+   * Create the profile or replace every setting in it
+   */
+  async saveProfile(
+    username: string,
+    settings: TradingProfileSettings
+  ): Promise<TradingProfile> {
+    this.validateSettings(settings);
+
+    const profile: TradingProfile = {
+      riskTolerance: "moderate",
+      ...this.normalizeSettings(settings),
+      username,
+    };
+
+    const saved = await this.databaseService.saveTradingProfile(profile);
+    if (!saved) {
+      throw new Error(`Failed to save trading profile for ${username}`);
+    }
+
+    logger.info(`👤 Trading profile saved for ${username}`);
+    return saved;
+  }
+
+  /**
+   * Change some settings of an existing profile
+   */
+  async updateProfile(
+    username: string,
+    settings: TradingProfileSettings
+  ): Promise<TradingProfile | null> {
+    this.validateSettings(settings);
+    return this.databaseService.updateTradingProfile(
+      username,
+      this.normalizeSettings(settings)
+    );
+  }
+
+  async deleteProfile(username: string): Promise<boolean> {
+    const deleted = await this.databaseService.deleteTradingProfile(username);
+    if (deleted) {
+      logger.info(`👤 Trading profile deleted for ${username}`);
+    }
+    return deleted;
+  }
+
+  /**
+   * Why the profile refuses a new position in this token, or null when it
+   * allows it
+   */
+  getEntryRestriction(
+    profile: TradingProfile | null,
+    tokenSymbol: string,
+    openPositions: number
+  ): string | null {
+    if (!profile) {
+      return null;
+    }
+
+    const token = tokenSymbol.toUpperCase();
+    if (profile.deniedTokens?.includes(token)) {
+      return `${token} is on ${profile.username}'s deny list`;
+    }
+    if (
+      profile.allowedTokens?.length &&
+      !profile.allowedTokens.includes(token)
+    ) {
+      return `${token} is not on ${profile.username}'s allow list`;
+    }
+    if (
+      profile.maxOpenPositions > 0 &&
+      openPositions >= profile.maxOpenPositions
+    ) {
+      return `${profile.username} already has ${openPositions} open positions (max ${profile.maxOpenPositions})`;
+    }
+    return null;
+  }
+
+  /**
+   * Keep only the chains the profile trades on, the most preferred first
+   */
+  applyNetworkPreference(
+    profile: TradingProfile | null,
+    detection: ChainDetectionResult
+  ): ChainDetectionResult {
+    const preferred = profile?.preferredNetworks;
+    if (!preferred?.length || !detection.success) {
+      return detection;
+    }
+
+    const candidates = (detection.tokenInfo || [])
+      .filter((info) => preferred.includes(info.networkKey))
+      .sort(
+        (a, b) =>
+          preferred.indexOf(a.networkKey) - preferred.indexOf(b.networkKey)
+      );
+
+    if (candidates.length === 0) {
+      return {
+        success: false,
+        error: `Token not available on ${profile!.username}'s networks: ${preferred.join(", ")}`,
+      };
+    }
+    return {
+      success: true,
+      tokenInfo: candidates,
+      primaryChain: candidates[0],
+    };
+  }
+
+  /**
+   * The profile's sizing strategy, with parameters it leaves out taken from
+   * the default, capped by its risk tolerance
+   */
+  getSizingStrategy(
+    profile: TradingProfile | null,
+    defaultStrategy: SizingStrategy
+  ): SizingStrategy {
+    const strategy = profile?.sizing
+      ? { ...defaultStrategy, ...profile.sizing }
+      : defaultStrategy;
+    if (!profile?.riskTolerance) {
+      return strategy;
+    }
+
+    const toleranceCap = RISK_TOLERANCE_MAX_PERCENT[profile.riskTolerance];
+    return {
+      ...strategy,
+      maxPercentOfEquity: Math.min(
+        strategy.maxPercentOfEquity ?? toleranceCap,
+        toleranceCap
+      ),
+    };
+  }
+
+  private validateSettings(settings: TradingProfileSettings): void {
+    const {
+      riskTolerance,
+      sizing,
+      maxOpenPositions,
+      allowedTokens,
+      deniedTokens,
+      preferredNetworks,
+      baseToken,
+      slippagePercent,
+      trailingStopPercent,
+      enableTrailingStop,
+    } = settings;
+
+    if (
+      riskTolerance !== undefined &&
+      !RISK_TOLERANCES.includes(riskTolerance)
+    ) {
+      throw new Error(
+        `riskTolerance must be one of: ${RISK_TOLERANCES.join(", ")}`
+      );
+    }
+    if (sizing !== undefined && !SIZING_MODES.includes(sizing?.mode)) {
+      throw new Error(`sizing.mode must be one of: ${SIZING_MODES.join(", ")}`);
+    }
+    if (
+      maxOpenPositions !== undefined &&
+      !(Number.isInteger(maxOpenPositions) && maxOpenPositions >= 0)
+    ) {
+      throw new Error(
+        "maxOpenPositions must be a whole number, 0 for no limit"
+      );
+    }
+    for (const [name, tokens] of [
+      ["allowedTokens", allowedTokens],
+      ["deniedTokens", deniedTokens],
+    ] as const) {
+      if (
+        tokens !== undefined &&
+        (!Array.isArray(tokens) || tokens.some((t) => typeof t !== "string"))
+      ) {
+        throw new Error(`${name} must be a list of token symbols`);
+      }
+    }
+    if (preferredNetworks !== undefined) {
+      const unknown = Array.isArray(preferredNetworks)
+        ? preferredNetworks.filter((key) => !NetworkUtils.getNetworkByKey(key))
+        : [];
+      if (!Array.isArray(preferredNetworks) || unknown.length > 0) {
+        throw new Error(
+          `preferredNetworks must be a list of supported networks${unknown.length > 0 ? `, unknown: ${unknown.join(", ")}` : ""}`
+        );
+      }
+    }
+    if (
+      baseToken !== undefined &&
+      !BASE_TOKENS.includes(String(baseToken).toUpperCase())
+    ) {
+      throw new Error(`baseToken must be one of: ${BASE_TOKENS.join(", ")}`);
+    }
+    if (
+      slippagePercent !== undefined &&
+      !(slippagePercent > 0 && slippagePercent <= 50)
+    ) {
+      throw new Error("slippagePercent must be between 0 and 50");
+    }
+    if (
+      trailingStopPercent !== undefined &&
+      !(trailingStopPercent > 0 && trailingStopPercent < 100)
+    ) {
+      throw new Error("trailingStopPercent must be between 0 and 100");
+    }
+    if (
+      enableTrailingStop !== undefined &&
+      typeof enableTrailingStop !== "boolean"
+    ) {
+      throw new Error("enableTrailingStop must be true or false");
+    }
+  }
+
+  private normalizeSettings(
+    settings: TradingProfileSettings
+  ): TradingProfileSettings {
+    const normalized: TradingProfileSettings = {};
+    for (const [key, value] of Object.entries(settings)) {
+      if (value !== undefined) {
+        (normalized as any)[key] = value;
+      }
+    }
+
+    if (settings.allowedTokens !== undefined) {
+      normalized.allowedTokens = settings.allowedTokens.map((token) =>
+        token.toUpperCase()
+      );
+    }
+    if (settings.deniedTokens !== undefined) {
+      normalized.deniedTokens = settings.deniedTokens.map((token) =>
+        token.toUpperCase()
+      );
+    }
+    if (settings.baseToken !== undefined) {
+      normalized.baseToken = settings.baseToken.toUpperCase();
+    }
+    return normalized;
+  }
+}
+
+export default TradingProfileService;
+export {
+  TradingProfile,
+  TradingProfileSettings,
+  RiskTolerance,
+  RISK_TOLERANCE_MAX_PERCENT,
+};
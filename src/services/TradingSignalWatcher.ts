@@ -408,6 +408,8 @@ class TradingSignalWatcher extends EventEmitter {
         this.priceMonitoringService.addTradeMonitoring({
           tradeId: trade.tradeId,
           tokenId: trade.tokenSymbol,
+          tokenAddress: result.buyTokenAddress,
+          networkKey: trade.networkKey,
           entryPrice: currentPrice,
           tp1: trade.targets.tp1,
           tp2: trade.targets.tp2,
@@ -0,0 +1,283 @@
+import { ethers } from "ethers";
+import { logger } from "../config/logger";
+import { isNativeTokenAddress } from "../constants/addresses";
+
+interface SimulationRequest {
+  chainId: number;
+  rpcUrl: string;
+  from: string; // agent signer submitting execTransaction
+  to: string; // Safe address
+  data: string; // encoded execTransaction call
+  value?: string;
+  safeAddress: string;
+  trackTokens: string[]; // tokens whose Safe balance deltas should be reported
+}
+
+interface SimulationResult {
+  success: boolean;
+  revertReason?: string;
+  gasUsed?: string;
+  balanceDeltas: Record<string, string>; // lowercased token address -> signed delta in wei
+  deltasAvailable: boolean; // false when the backend could only check for reverts
+  backend: string;
+}
+
+/**
+ * Contract every simulation backend implements.
+ * Swap in a different one with TransactionSimulationService.setSimulator().
+ */
+interface TransactionSimulator {
+  name: string;
+  simulate(request: SimulationRequest): Promise<SimulationResult>;
+}
+
+interface SwapSimulationRequest {
+  chainId: number;
+  rpcUrl: string;
+  signerAddress: string;
+  safeAddress: string;
+  data: string;
+  sellTokenAddress: string;
+  buyTokenAddress: string;
+  quotedBuyAmount: string; // base units
+}
+
+interface SwapSimulationOutcome {
+  result: SimulationResult;
+  simulatedBuyAmount?: string;
+  deviationPercent?: number; // how far below the quote the simulated output landed
+}
+
+// Multicall3 is deployed at the same address on every supported chain and
+// lets native balances be read from inside a simulated block
+const MULTICALL3_ADDRESS = "0xcA11bde05977b3631167028862bE2a173976CA11";
+
+const balanceInterface = new ethers.Interface([
+  "function balanceOf(address) view returns (uint256)",
+  "function getEthBalance(address) view returns (uint256)",
+]);
+
+/**
+ * Simulates against the chain's own RPC. Uses eth_simulateV1 so balances can
+ * be read before and after execTransaction in one block, and falls back to a
+ * plain eth_call (revert detection only) on nodes that do not support it.
+ */
+class RpcSimulator implements TransactionSimulator {
+  name = "rpc";
+
+  async simulate(request: SimulationRequest): Promise<SimulationResult> {
+    const provider = new ethers.JsonRpcProvider(request.rpcUrl);
+
+    try {
+      return await this.simulateWithStateCalls(provider, request);
+    } catch (error: any) {
+      if (!this.isUnsupportedMethod(error)) {
+        throw error;
+      }
+
+      logger.warn(
+        `⚠️ eth_simulateV1 not supported on chain ${request.chainId}, falling back to eth_call`
+      );
+      return this.simulateWithCall(provider, request);
+    }
+  }
+
+  private async simulateWithStateCalls(
+    provider: ethers.JsonRpcProvider,
+    request: SimulationRequest
+  ): Promise<SimulationResult> {
+    const balanceCalls = request.trackTokens.map((token) =>
+      isNativeTokenAddress(token)
+        ? {
+            to: MULTICALL3_ADDRESS,
+            data: balanceInterface.encodeFunctionData("getEthBalance", [
+              request.safeAddress,
+            ]),
+          }
+        : {
+            to: token,
+            data: balanceInterface.encodeFunctionData("balanceOf", [
+              request.safeAddress,
+            ]),
+          }
+    );
+
+    const txCall = {
+      from: request.from,
+      to: request.to,
+      data: request.data,
+      value: ethers.toQuantity(BigInt(request.value || "0")),
+    };
+
+    const blocks = await provider.send("eth_simulateV1", [
+      {
+        blockStateCalls: [
+          { calls: [...balanceCalls, txCall, ...balanceCalls] },
+        ],
+        validation: false,
+      },
+      "latest",
+    ]);
+
+    const calls: any[] = blocks[0].calls;
+    const trackedCount = request.trackTokens.length;
+    const txResult = calls[trackedCount];
+
+    if (txResult.status !== "0x1") {
+      return {
+        success: false,
+        revertReason: this.decodeRevert(txResult),
+        gasUsed: BigInt(txResult.gasUsed || 0).toString(),
+        balanceDeltas: {},
+        deltasAvailable: false,
+        backend: this.name,
+      };
+    }
+
+    const balanceDeltas: Record<string, string> = {};
+    request.trackTokens.forEach((token, index) => {
+      const before = BigInt(calls[index].returnData);
+      const after = BigInt(calls[trackedCount + 1 + index].returnData);
+      balanceDeltas[token.toLowerCase()] = (after - before).toString();
+    });
+
+    return {
+      success: true,
+      gasUsed: BigInt(txResult.gasUsed).toString(),
+      balanceDeltas,
+      deltasAvailable: true,
+      backend: this.name,
+    };
+  }
+
+  private async simulateWithCall(
+    provider: ethers.JsonRpcProvider,
+    request: SimulationRequest
+  ): Promise<SimulationResult> {
+    try {
+      await provider.call({
+        from: request.from,
+        to: request.to,
+        data: request.data,
+        value: request.value || "0",
+      });
+
+      return {
+        success: true,
+        balanceDeltas: {},
+        deltasAvailable: false,
+        backend: `${this.name}:eth_call`,
+      };
+    } catch (error: any) {
+      if (error?.code !== "CALL_EXCEPTION") {
+        throw error;
+      }
+
+      return {
+        success: false,
+        revertReason: error.reason || error.shortMessage || error.message,
+        balanceDeltas: {},
+        deltasAvailable: false,
+        backend: `${this.name}:eth_call`,
+      };
+    }
+  }
+
+  private decodeRevert(callResult: any): string {
+    const data = callResult.error?.data || callResult.returnData;
+    if (data && data !== "0x") {
+      try {
+        const reason = ethers.AbiCoder.defaultAbiCoder().decode(
+          ["string"],
+          ethers.dataSlice(data, 4)
+        );
+        return reason[0];
+      } catch {
+        // Custom error or non-standard payload, report it raw
+      }
+    }
+    return callResult.error?.message || data || "execution reverted";
+  }
+
+  private isUnsupportedMethod(error: any): boolean {
+    const rpcError = error?.error || error?.info?.error || error;
+    const message = `${rpcError?.message || ""} ${error?.message || ""}`;
+    return (
+      rpcError?.code === -32601 ||
+      /method .*(not found|not supported|does not exist|not available)/i.test(
+        message
+      )
+    );
+  }
+}
+
+class TransactionSimulationService {
+  private simulator: TransactionSimulator;
+  private maxDeviationPercent: number;
+
+  constructor(simulator?: TransactionSimulator, maxDeviationPercent?: number) {
+    this.simulator = simulator || new RpcSimulator();
+    this.maxDeviationPercent =
+      maxDeviationPercent ??
+      parseFloat(process.env["SIMULATION_MAX_DEVIATION_PERCENT"] || "3");
+  }
+
+  setSimulator(simulator: TransactionSimulator): void {
+    this.simulator = simulator;
+    logger.info(`🧪 Transaction simulator set to ${simulator.name}`);
+  }
+
+  getMaxDeviationPercent(): number {
+    return this.maxDeviationPercent;
+  }
+
+  /**
+   * Simulate a Safe swap and measure what the Safe would actually receive.
+   * Deviation is only reported when the simulated output is below the quote.
+   */
+  async simulateSwap(
+    request: SwapSimulationRequest
+  ): Promise<SwapSimulationOutcome> {
+    const startTime = Date.now();
+
+    const result = await this.simulator.simulate({
+      chainId: request.chainId,
+      rpcUrl: request.rpcUrl,
+      from: request.signerAddress,
+      to: request.safeAddress,
+      data: request.data,
+      safeAddress: request.safeAddress,
+      trackTokens: [request.sellTokenAddress, request.buyTokenAddress],
+    });
+
+    logger.info(
+      `🧪 Simulation via ${result.backend} finished in ${Date.now() - startTime}ms: ${result.success ? "success" : `reverted (${result.revertReason})`}`
+    );
+
+    if (!result.success || !result.deltasAvailable) {
+      return { result };
+    }
+
+    const simulatedBuyAmount =
+      result.balanceDeltas[request.buyTokenAddress.toLowerCase()] || "0";
+    const quoted = BigInt(request.quotedBuyAmount);
+    const simulated = BigInt(simulatedBuyAmount);
+
+    // Basis-point precision is plenty for a percentage threshold
+    const deviationPercent =
+      quoted > 0n && simulated < quoted
+        ? Number(((quoted - simulated) * 10000n) / quoted) / 100
+        : 0;
+
+    return { result, simulatedBuyAmount, deviationPercent };
+  }
+}
+
+export default TransactionSimulationService;
+export {
+  SimulationRequest,
+  SimulationResult,
+  TransactionSimulator,
+  SwapSimulationRequest,
+  SwapSimulationOutcome,
+};
@@ -1,5 +1,83 @@
 import { z } from "zod";
-import axios from "axios";
+import PortfolioService, {
+  Portfolio,
+  PortfolioHolding,
+} from "../services/PortfolioService";
+import RebalancingService from "../services/RebalancingService";
+import { NetworkUtils } from "../utils/NetworkUtils";
+
+// Global reference to the portfolio service (set by server.ts)
+let portfolioService: PortfolioService | null = null;
+
+export function setPortfolioService(service: PortfolioService) {
+  portfolioService = service;
+}
+
+// Global reference to the rebalancing service (set by server.ts)
+let rebalancingService: RebalancingService | null = null;
+
+export function setRebalancingService(service: RebalancingService) {
+  rebalancingService = service;
+}
+
+const STABLECOINS = ["USDC", "USDT", "DAI"];
+
+const TIMEFRAME_DAYS: { [key: string]: number } = {
+  "1d": 1,
+  "7d": 7,
+  "30d": 30,
+  "90d": 90,
+};
+
+const formatUsd = (value: number): string =>
+  `${value < 0 ? "-" : ""}$${Math.abs(value).toLocaleString(undefined, {
+    minimumFractionDigits: 2,
+    maximumFractionDigits: 2,
+  })}`;
+
+const formatPercent = (value: number): string =>
+  `${value > 0 ? "+" : ""}${value.toFixed(2)}%`;
+
+/**
+ * Read the Safe's holdings on the chain, or explain why they cannot be read
+ */
+const loadSafePortfolio = async (
+  safeAddress: string,
+  chainId: string
+): Promise<{ portfolio?: Portfolio; networkName?: string; error?: string }> => {
+  if (!portfolioService) {
+    return { error: "Portfolio service not available" };
+  }
+  if (!safeAddress?.startsWith("0x") || safeAddress.length !== 42) {
+    return { error: "Invalid Safe address format" };
+  }
+
+  const network = NetworkUtils.getNetworkByChainId(parseInt(chainId));
+  if (!network) {
+    return { error: `Unsupported chain ID: ${chainId}` };
+  }
+
+  const portfolio = await portfolioService.getSafePortfolio(safeAddress, [
+    network.networkKey,
+  ]);
+  const readError = portfolio.deployments.find((d) => d.error)?.error;
+  if (readError) {
+    return { error: `Could not read Safe balances: ${readError}` };
+  }
+  return { portfolio, networkName: network.name };
+};
+
+/**
+ * Current share of the portfolio per token symbol
+ */
+const getAllocationsBySymbol = (holdings: PortfolioHolding[]) => {
+  const allocations: { [key: string]: number } = {};
+  for (const holding of holdings) {
+    allocations[holding.symbol] =
+      (allocations[holding.symbol] || 0) + holding.allocationPercent;
+  }
+  return allocations;
+};
 
 /**
  * Monitor trading positions and performance
@@ -14,103 +92,73 @@ export const monitorPositions = async ({
   includeHistory?: boolean;
 }): Promise<string> => {
   try {
+    const { portfolio, networkName, error } = await loadSafePortfolio(
+      safeAddress,
+      chainId
+    );
+    if (error) {
+      return `❌ ${error}`;
+    }
+
     let report = `📊 Portfolio Position Monitor\n\n`;
     report += `🏦 Safe Address: ${safeAddress}\n`;
+    report += `🌐 Network: ${networkName}\n\n`;
 
-    // Determine chain name
-    const chainNames: { [key: string]: string } = {
-      "1": "Ethereum",
-      "42161": "Arbitrum",
-      "137": "Polygon",
-      "8453": "Base",
-      "11155111": "Sepolia",
-    };
-
-    const chainName = chainNames[chainId] || "Unknown";
-    report += `🌐 Network: ${chainName}\n\n`;
-
-    // Get Safe balance data (simulated for demo)
-    // In production, this would call the actual Safe Transaction Service
-    const mockPositions = [
-      {
-        token: "ETH",
-        symbol: "ETH",
-        balance: "2.5",
-        valueUsd: "6250.00",
-        change24h: "+3.2%",
-        allocation: "65%",
-      },
-      {
-        token: "USDC",
-        symbol: "USDC",
-        balance: "2500.00",
-        valueUsd: "2500.00",
-        change24h: "0.0%",
-        allocation: "26%",
-      },
-      {
-        token: "ARB",
-        symbol: "ARB",
-        balance: "450.00",
-        valueUsd: "855.00",
-        change24h: "+5.7%",
-        allocation: "9%",
-      },
-    ];
-
-    const totalValue = mockPositions.reduce(
-      (sum, pos) => sum + parseFloat(pos.valueUsd),
-      0
-    );
+    report += `💰 Total Portfolio Value: ${formatUsd(portfolio.totalValueUsd)}\n\n`;
 
-    report += `💰 Total Portfolio Value: $${totalValue.toLocaleString()}\n\n`;
+    if (portfolio.holdings.length === 0) {
+      report += `📭 No token balances found on this network\n`;
+      return report;
+    }
 
     report += `📋 Current Positions:\n`;
-    mockPositions.forEach((position, index) => {
-      const changeEmoji = position.change24h.startsWith("+")
-        ? "📈"
-        : position.change24h.startsWith("-")
-          ? "📉"
-          : "➡️";
+    portfolio.holdings.forEach((position, index) => {
+      const change = position.change24h;
+      const changeEmoji =
+        change === null || change === 0 ? "➡️" : change > 0 ? "📈" : "📉";
 
       report += `${index + 1}. ${position.symbol}\n`;
       report += `   🪙 Balance: ${position.balance} ${position.symbol}\n`;
-      report += `   💵 Value: $${position.valueUsd}\n`;
-      report += `   ${changeEmoji} 24h: ${position.change24h}\n`;
-      report += `   📊 Allocation: ${position.allocation}\n\n`;
+      if (position.valueUsd === null) {
+        report += `   💵 Value: no market price available\n\n`;
+        return;
+      }
+      report += `   💵 Value: ${formatUsd(position.valueUsd)}\n`;
+      report += `   ${changeEmoji} 24h: ${change === null ? "n/a" : formatPercent(change)}\n`;
+      report += `   📊 Allocation: ${position.allocationPercent.toFixed(1)}%\n\n`;
     });
 
     // Portfolio analytics
-    const totalChange24h = mockPositions.reduce((sum, pos) => {
-      const change = parseFloat(
-        pos.change24h.replace("%", "").replace("+", "")
-      );
-      const weight = parseFloat(pos.allocation.replace("%", "")) / 100;
-      return sum + change * weight;
-    }, 0);
+    const totalChange24h = portfolio.change24hPercent;
 
     report += `📈 Portfolio Performance:\n`;
-    report += `🎯 24h Change: ${totalChange24h > 0 ? "+" : ""}${totalChange24h.toFixed(2)}%\n`;
-
-    if (totalChange24h > 2) {
-      report += `✅ Strong performance today\n`;
-    } else if (totalChange24h > 0) {
-      report += `🟢 Positive performance\n`;
-    } else if (totalChange24h > -2) {
-      report += `🟡 Minor decline\n`;
+    if (totalChange24h === null) {
+      report += `🎯 24h Change: n/a\n`;
     } else {
-      report += `🔴 Significant decline - consider reviewing strategy\n`;
+      report += `🎯 24h Change: ${formatPercent(totalChange24h)}\n`;
+
+      if (totalChange24h > 2) {
+        report += `✅ Strong performance today\n`;
+      } else if (totalChange24h > 0) {
+        report += `🟢 Positive performance\n`;
+      } else if (totalChange24h > -2) {
+        report += `🟡 Minor decline\n`;
+      } else {
+        report += `🔴 Significant decline - consider reviewing strategy\n`;
+      }
     }
 
-    // Risk assessment
+    // Risk assessment: concentration in the largest non-stable asset
     report += `\n⚠️ Risk Analysis:\n`;
-    const ethAllocation = parseFloat(
-      mockPositions[0].allocation.replace("%", "")
-    );
-    if (ethAllocation > 70) {
-      report += `🚨 High ETH concentration (${ethAllocation}%) - consider diversification\n`;
-    } else if (ethAllocation > 50) {
-      report += `⚠️ Moderate ETH concentration - monitor closely\n`;
+    const [largestSymbol, largestAllocation] = Object.entries(
+      getAllocationsBySymbol(portfolio.holdings)
+    )
+      .filter(([symbol]) => !STABLECOINS.includes(symbol))
+      .sort((a, b) => b[1] - a[1])[0] || [null, 0];
+    if (largestAllocation > 70) {
+      report += `🚨 High ${largestSymbol} concentration (${largestAllocation.toFixed(1)}%) - consider diversification\n`;
+    } else if (largestAllocation > 50) {
+      report += `⚠️ Moderate ${largestSymbol} concentration - monitor closely\n`;
     } else {
       report += `✅ Well diversified allocation\n`;
     }
@@ -126,10 +174,17 @@ export const monitorPositions = async ({
     }
 
     if (includeHistory) {
-      report += `\n📊 Position History:\n`;
-      report += `🕐 Last 7 days: +12.5% (simulated)\n`;
-      report += `🕐 Last 30 days: +28.3% (simulated)\n`;
-      report += `🕐 All time: +156.7% (simulated)\n`;
+      report += `\n📊 Realized P&L From Closed Positions:\n`;
+      for (const [label, days] of [
+        ["Last 7 days", 7],
+        ["Last 30 days", 30],
+      ] as const) {
+        const since = new Date(Date.now() - days * 24 * 60 * 60 * 1000);
+        const realized = portfolioService!.getRealizedPnl(safeAddress, since);
+        report += `🕐 ${label}: ${formatUsd(realized.pnlUsd)} (${formatPercent(realized.returnPercent)})\n`;
+      }
+      const allTime = portfolioService!.getRealizedPnl(safeAddress);
+      report += `🕐 All time: ${formatUsd(allTime.pnlUsd)} (${formatPercent(allTime.returnPercent)})\n`;
     }
 
     return report;
@@ -152,61 +207,50 @@ export const checkProfitLoss = async ({
   includeBreakdown?: boolean;
 }): Promise<string> => {
   try {
+    if (!portfolioService) {
+      return "❌ Portfolio service not available";
+    }
+
+    const days = TIMEFRAME_DAYS[timeframe] || TIMEFRAME_DAYS["7d"];
+    const since = new Date(Date.now() - days * 24 * 60 * 60 * 1000);
+    const realized = portfolioService.getRealizedPnl(safeAddress, since);
+
     let report = `💹 Profit & Loss Report (${timeframe})\n\n`;
     report += `🏦 Safe: ${safeAddress}\n\n`;
 
-    // Simulated P&L data - in production this would analyze transaction history
-    const plData = {
-      "1d": { pnl: "+$125.50", percentage: "+1.3%", trades: 3 },
-      "7d": { pnl: "+$1,247.80", percentage: "+12.8%", trades: 15 },
-      "30d": { pnl: "+$2,890.25", percentage: "+28.9%", trades: 45 },
-      "90d": { pnl: "+$4,567.30", percentage: "+45.7%", trades: 120 },
-    };
-
-    const selectedData =
-      plData[timeframe as keyof typeof plData] || plData["7d"];
+    if (realized.trades.length === 0) {
+      report += `📭 No positions were closed from this Safe in the last ${days} day(s)\n`;
+      return report;
+    }
 
-    report += `📊 ${timeframe.toUpperCase()} Performance:\n`;
-    report += `💰 Total P&L: ${selectedData.pnl}\n`;
-    report += `📈 Percentage: ${selectedData.percentage}\n`;
-    report += `🔄 Total Trades: ${selectedData.trades}\n`;
-    report += `📊 Avg per Trade: $${(parseFloat(selectedData.pnl.replace("$", "").replace("+", "").replace(",", "")) / selectedData.trades).toFixed(2)}\n\n`;
+    report += `📊 ${timeframe.toUpperCase()} Realized Performance:\n`;
+    report += `💰 Total P&L: ${formatUsd(realized.pnlUsd)}\n`;
+    report += `📈 Return on Exited Cost: ${formatPercent(realized.returnPercent)}\n`;
+    report += `🔄 Trades With Exits: ${realized.trades.length}\n`;
+    report += `📊 Avg per Trade: ${formatUsd(realized.pnlUsd / realized.trades.length)}\n\n`;
 
     if (includeBreakdown) {
       report += `📋 Performance Breakdown:\n`;
 
-      // Simulated trade breakdown
-      const trades = [
-        { pair: "ETH/USDC", pnl: "+$347.20", success: true },
-        { pair: "ARB/ETH", pnl: "+$189.60", success: true },
-        { pair: "MATIC/USDC", pnl: "-$45.30", success: false },
-        { pair: "ETH/USDC", pnl: "+$456.10", success: true },
-        { pair: "UNI/ETH", pnl: "+$78.90", success: true },
-      ];
-
-      trades.forEach((trade, index) => {
-        const emoji = trade.success ? "✅" : "❌";
-        report += `${emoji} ${trade.pair}: ${trade.pnl}\n`;
+      realized.trades.forEach((trade) => {
+        const emoji = trade.pnlUsd >= 0 ? "✅" : "❌";
+        report += `${emoji} ${trade.tokenSymbol} (${trade.networkKey}): ${formatUsd(trade.pnlUsd)}\n`;
       });
 
-      const winRate = (
-        (trades.filter((t) => t.success).length / trades.length) *
-        100
-      ).toFixed(1);
+      const wins = realized.trades.filter((t) => t.pnlUsd > 0).length;
+      const winRate = ((wins / realized.trades.length) * 100).toFixed(1);
       report += `\n🎯 Win Rate: ${winRate}%\n`;
 
-      // Performance metrics
+      const sorted = [...realized.trades].sort((a, b) => b.pnlUsd - a.pnlUsd);
+      const best = sorted[0];
+      const worst = sorted[sorted.length - 1];
       report += `\n📊 Key Metrics:\n`;
-      report += `🔥 Best Trade: +$456.10 (ETH/USDC)\n`;
-      report += `📉 Worst Trade: -$45.30 (MATIC/USDC)\n`;
-      report += `⚖️ Risk/Reward: 1:2.8\n`;
-      report += `📈 Sharpe Ratio: 1.65 (estimated)\n`;
+      report += `🔥 Best Trade: ${formatUsd(best.pnlUsd)} (${best.tokenSymbol})\n`;
+      report += `📉 Worst Trade: ${formatUsd(worst.pnlUsd)} (${worst.tokenSymbol})\n`;
     }
 
     // Performance analysis
-    const pnlPercentage = parseFloat(
-      selectedData.percentage.replace("%", "").replace("+", "")
-    );
+    const pnlPercentage = realized.returnPercent;
 
     report += `\n🎯 Performance Analysis:\n`;
     if (pnlPercentage > 20) {
@@ -247,7 +291,7 @@ export const checkProfitLoss = async ({
 export const rebalancePortfolio = async ({
   safeAddress,
   targetAllocations,
-  rebalanceThreshold = 5,
+  rebalanceThreshold,
   chainId = "42161",
 }: {
   safeAddress: string;
@@ -256,105 +300,81 @@ export const rebalancePortfolio = async ({
   chainId?: string;
 }): Promise<string> => {
   try {
+    if (!rebalancingService) {
+      return `❌ Rebalancing service not available`;
+    }
+    if (!safeAddress?.startsWith("0x") || safeAddress.length !== 42) {
+      return `❌ Invalid Safe address format`;
+    }
+    const network = NetworkUtils.getNetworkByChainId(parseInt(chainId));
+    if (!network) {
+      return `❌ Unsupported chain ID: ${chainId}`;
+    }
+
+    const plan = await rebalancingService.previewRebalance(
+      await rebalancingService.planRebalance({
+        safeAddress,
+        networkKey: network.networkKey,
+        targetWeights: targetAllocations,
+        driftThresholdPercent: rebalanceThreshold,
+      })
+    );
+
     let report = `⚖️ Portfolio Rebalancing Analysis\n\n`;
     report += `🏦 Safe: ${safeAddress}\n`;
-    report += `🎯 Rebalance Threshold: ${rebalanceThreshold}%\n\n`;
-
-    // Current allocations (simulated)
-    const currentAllocations: { [key: string]: number } = {
-      ETH: 65,
-      USDC: 26,
-      ARB: 9,
-    };
+    report += `🎯 Rebalance Threshold: ${plan.driftThresholdPercent}%\n`;
+    report += `💵 Minimum Trade: ${formatUsd(plan.minTradeUsd)}\n\n`;
 
-    const totalCurrentValue = 9605; // $9,605 total portfolio
+    if (plan.totalValueUsd <= 0) {
+      report += `📭 No priced holdings on this network to rebalance\n`;
+      return report;
+    }
 
     report += `📊 Current vs Target Allocations:\n\n`;
-
-    const rebalanceActions: string[] = [];
-    let needsRebalancing = false;
-
-    Object.keys(targetAllocations).forEach((token) => {
-      const current = currentAllocations[token] || 0;
-      const target = targetAllocations[token];
-      const difference = current - target;
-      const absDifference = Math.abs(difference);
-
-      const currentValue = (current / 100) * totalCurrentValue;
-      const targetValue = (target / 100) * totalCurrentValue;
-      const dollarDifference = currentValue - targetValue;
-
-      report += `${token}:\n`;
-      report += `  📈 Current: ${current}% ($${currentValue.toLocaleString()})\n`;
-      report += `  🎯 Target: ${target}% ($${targetValue.toLocaleString()})\n`;
-      report += `  📊 Difference: ${difference > 0 ? "+" : ""}${difference.toFixed(1)}% ($${dollarDifference > 0 ? "+" : ""}${dollarDifference.toFixed(0)})\n`;
-
-      if (absDifference > rebalanceThreshold) {
-        needsRebalancing = true;
-        if (difference > 0) {
-          rebalanceActions.push(
-            `SELL $${Math.abs(dollarDifference).toFixed(0)} of ${token}`
-          );
-          report += `  ⬇️ Action: REDUCE by ${absDifference.toFixed(1)}%\n`;
-        } else {
-          rebalanceActions.push(
-            `BUY $${Math.abs(dollarDifference).toFixed(0)} of ${token}`
-          );
-          report += `  ⬆️ Action: INCREASE by ${absDifference.toFixed(1)}%\n`;
-        }
-      } else {
-        report += `  ✅ Action: NO CHANGE NEEDED\n`;
-      }
-      report += `\n`;
+    plan.allocations.forEach((allocation) => {
+      const dollarDifference =
+        allocation.currentValueUsd - allocation.targetValueUsd;
+
+      report += `${allocation.symbol}:\n`;
+      report += `  📈 Current: ${allocation.currentPercent.toFixed(1)}% (${formatUsd(allocation.currentValueUsd)})\n`;
+      report += `  🎯 Target: ${allocation.targetPercent}% (${formatUsd(allocation.targetValueUsd)})\n`;
+      report += `  📊 Difference: ${formatPercent(allocation.driftPercent)} (${dollarDifference > 0 ? "+" : ""}${formatUsd(dollarDifference)})\n\n`;
     });
 
     report += `🎯 Rebalancing Decision:\n`;
-    if (needsRebalancing) {
+    if (plan.status === "planned") {
       report += `⚖️ REBALANCING REQUIRED\n\n`;
-      report += `📋 Recommended Actions:\n`;
-      rebalanceActions.forEach((action, index) => {
-        report += `${index + 1}. ${action}\n`;
+      report += `📋 Swap Plan (preview, nothing executed):\n`;
+      plan.swaps.forEach((swap, index) => {
+        report += `${index + 1}. SELL ${swap.sellAmount} ${swap.sellToken} (~${formatUsd(swap.valueUsd)}) for ${swap.buyToken}\n`;
+        if (swap.quote) {
+          report += `   💱 Quote: ~${parseFloat(swap.quote.amountOut).toFixed(6)} ${swap.buyToken} via ${swap.quote.aggregator} (gas ${swap.quote.gasEstimate})\n`;
+        } else {
+          report += `   ⚠️ No quote: ${swap.quoteError}\n`;
+        }
       });
-
-      // Calculate estimated costs
-      const estimatedGasCost = rebalanceActions.length * 2; // $2 per trade on L2
-      const estimatedSlippage = rebalanceActions.length * 0.1; // 0.1% per trade
-
-      report += `\n💰 Estimated Costs:\n`;
-      report += `⛽ Gas Fees: ~$${estimatedGasCost}\n`;
-      report += `📉 Slippage: ~${estimatedSlippage}%\n`;
-      report += `💸 Total Cost: ~$${(estimatedGasCost + (totalCurrentValue * estimatedSlippage) / 100).toFixed(2)}\n`;
-
-      // Cost-benefit analysis
-      const rebalanceBenefit = totalCurrentValue * 0.02; // Assume 2% efficiency gain
-      const totalCost =
-        estimatedGasCost + (totalCurrentValue * estimatedSlippage) / 100;
-
-      report += `\n📊 Cost-Benefit Analysis:\n`;
-      report += `📈 Expected Benefit: $${rebalanceBenefit.toFixed(2)}\n`;
-      report += `💸 Total Cost: $${totalCost.toFixed(2)}\n`;
-
-      if (rebalanceBenefit > totalCost) {
-        report += `✅ RECOMMENDATION: PROCEED with rebalancing\n`;
-      } else {
-        report += `⚠️ RECOMMENDATION: WAIT - costs exceed benefits\n`;
-      }
+      report += `\n💡 Execute the plan with POST /api/safes/${safeAddress}/rebalance and dryRun: false\n`;
     } else {
       report += `✅ NO REBALANCING NEEDED\n`;
-      report += `📊 All allocations within ${rebalanceThreshold}% threshold\n`;
+      report += `📊 All allocations within ${plan.driftThresholdPercent}% threshold, or the differences are below the minimum trade size\n`;
     }
 
+    const currentAllocations: { [symbol: string]: number } = {};
+    plan.allocations.forEach((allocation) => {
+      currentAllocations[allocation.symbol] = allocation.currentPercent;
+    });
+
     // Additional insights
     report += `\n💡 Portfolio Insights:\n`;
     const dominantAsset = Object.keys(currentAllocations).reduce((a, b) =>
       currentAllocations[a] > currentAllocations[b] ? a : b
     );
 
-    report += `👑 Dominant Asset: ${dominantAsset} (${currentAllocations[dominantAsset]}%)\n`;
+    report += `👑 Dominant Asset: ${dominantAsset} (${currentAllocations[dominantAsset].toFixed(1)}%)\n`;
 
     const diversificationScore =
       100 - Math.max(...Object.values(currentAllocations));
-    report += `🌍 Diversification Score: ${diversificationScore}/100\n`;
+    report += `🌍 Diversification Score: ${diversificationScore.toFixed(0)}/100\n`;
 
     if (diversificationScore < 50) {
       report += `⚠️ Low diversification - consider spreading risk\n`;
@@ -373,21 +393,21 @@ export const rebalancePortfolio = async ({
 export const monitorPositionsMetadata = {
   name: "monitorPositions",
   description:
-    "Monitor current trading positions, balances, and portfolio performance",
+    "Monitor the Safe's current token balances on a chain, valued at market prices",
   schema: z.object({
     safeAddress: z.string().describe("Safe wallet address to monitor"),
     chainId: z.string().optional().describe("Chain ID (default: Arbitrum)"),
     includeHistory: z
       .boolean()
       .optional()
-      .describe("Include historical performance data"),
+      .describe("Include realized P&L over the last 7 and 30 days"),
   }),
 };
 
 export const checkProfitLossMetadata = {
   name: "checkProfitLoss",
   description:
-    "Check profit and loss performance for trading activities over specified timeframe",
+    "Check realized profit and loss of positions closed from a Safe over specified timeframe",
   schema: z.object({
     safeAddress: z.string().describe("Safe wallet address to analyze"),
     timeframe: z
@@ -404,13 +424,13 @@ export const checkProfitLossMetadata = {
 export const rebalancePortfolioMetadata = {
   name: "rebalancePortfolio",
   description:
-    "Analyze portfolio rebalancing needs based on target allocations and current positions",
+    "Plan the swaps that bring the Safe back to target allocations and preview them with live quotes (does not execute)",
   schema: z.object({
     safeAddress: z.string().describe("Safe wallet address to rebalance"),
     targetAllocations: z
       .record(z.number())
       .describe(
-        "Target allocation percentages (e.g., {'ETH': 60, 'USDC': 30, 'ARB': 10})"
+        "Target allocation percentages adding up to 100 (e.g., {'ETH': 60, 'USDC': 30, 'ARB': 10}); held tokens left out are sold"
       ),
     rebalanceThreshold: z
       .number()
@@ -3,6 +3,14 @@ import Safe, { SafeAccountConfig } from "@safe-global/protocol-kit";
 import { createPublicClient, formatEther, http } from "viem";
 import { arbitrum, polygon, base, sepolia } from "viem/chains";
 import axios from "axios";
+import TradeExecutionService from "../services/TradeExecutionService";
+
+// Global reference to the trade execution service (set by agent.ts)
+let tradeExecutionService: TradeExecutionService | null = null;
+
+export function setTradeExecutionService(service: TradeExecutionService) {
+  tradeExecutionService = service;
+}
 
 /**
  * Get ETH balance for a Safe wallet
@@ -268,6 +276,91 @@ export const getSafeInfo = async ({
   }
 };
 
+/**
+ * List outstanding token allowances granted by a Safe
+ */
+export const listTokenAllowances = async ({
+  safeAddress,
+  networkKey = "arbitrum",
+}: {
+  safeAddress: string;
+  networkKey?: string;
+}): Promise<string> => {
+  try {
+    if (!tradeExecutionService) {
+      return "❌ Trade execution service not available";
+    }
+
+    const allowances = await tradeExecutionService.listTokenAllowances(
+      safeAddress,
+      networkKey
+    );
+
+    if (allowances.length === 0) {
+      return `✅ Safe ${safeAddress} has no outstanding token allowances on ${networkKey}`;
+    }
+
+    const lines = allowances.map(
+      (a) =>
+        `• ${a.tokenSymbol || a.tokenAddress} → ${a.spenderLabel || a.spender}: ${a.unlimited ? "UNLIMITED" : a.allowance}`
+    );
+
+    return (
+      `🔐 Token allowances for Safe ${safeAddress} on ${networkKey}\n` +
+      `${lines.join("\n")}\n` +
+      `💡 Use revokeTokenAllowances to remove them`
+    );
+  } catch (error) {
+    console.error("List allowances error:", error);
+    return `❌ Failed to list allowances: ${error instanceof Error ? error.message : "Unknown error"}`;
+  }
+};
+
+/**
+ * Revoke token allowances granted by a Safe
+ */
+export const revokeTokenAllowances = async ({
+  safeAddress,
+  networkKey = "arbitrum",
+  tokenAddress,
+  spender,
+}: {
+  safeAddress: string;
+  networkKey?: string;
+  tokenAddress?: string;
+  spender?: string;
+}): Promise<string> => {
+  try {
+    if (!tradeExecutionService) {
+      return "❌ Trade execution service not available";
+    }
+
+    const targets =
+      tokenAddress && spender ? [{ tokenAddress, spender }] : undefined;
+    const result = await tradeExecutionService.revokeTokenAllowances(
+      safeAddress,
+      networkKey,
+      targets
+    );
+
+    if (!result.success) {
+      return `❌ Failed to revoke allowances: ${result.error}`;
+    }
+
+    if (result.revoked.length === 0) {
+      return `✅ Safe ${safeAddress} has no outstanding token allowances on ${networkKey}`;
+    }
+
+    return (
+      `🧹 Revoked ${result.revoked.length} allowance(s) for Safe ${safeAddress} on ${networkKey}\n` +
+      `🔗 Transaction: ${result.transactionHash}`
+    );
+  } catch (error) {
+    console.error("Revoke allowances error:", error);
+    return `❌ Failed to revoke allowances: ${error instanceof Error ? error.message : "Unknown error"}`;
+  }
+};
+
 // Metadata for LangChain tools
 export const getEthBalanceMetadata = {
   name: "getEthBalance",
@@ -326,3 +419,41 @@ export const getSafeInfoMetadata = {
     chainId: z.string().optional().describe("Chain ID (default: Arbitrum)"),
   }),
 };
+
+export const listTokenAllowancesMetadata = {
+  name: "listTokenAllowances",
+  description:
+    "List outstanding ERC20 allowances a Safe wallet has granted to DEX aggregators and other spenders",
+  schema: z.object({
+    safeAddress: z.string().describe("The Safe wallet address to inspect"),
+    networkKey: z
+      .string()
+      .optional()
+      .describe(
+        "Network key, e.g. arbitrum, base, polygon (default: arbitrum)"
+      ),
+  }),
+};
+
+export const revokeTokenAllowancesMetadata = {
+  name: "revokeTokenAllowances",
+  description:
+    "Revoke ERC20 allowances granted by a Safe wallet. Revokes a single token/spender pair when both are given, otherwise every outstanding allowance",
+  schema: z.object({
+    safeAddress: z.string().describe("The Safe wallet address"),
+    networkKey: z
+      .string()
+      .optional()
+      .describe(
+        "Network key, e.g. arbitrum, base, polygon (default: arbitrum)"
+      ),
+    tokenAddress: z
+      .string()
+      .optional()
+      .describe("Token contract whose allowance should be revoked"),
+    spender: z
+      .string()
+      .optional()
+      .describe("Spender contract whose allowance should be revoked"),
+  }),
+};